@@ -17,6 +17,13 @@ const DEFAULT_WORKER_BASE_URL = self.location.origin;
 let workerBaseUrl = DEFAULT_WORKER_BASE_URL;
 let workerBaseUrlReady = restoreWorkerBaseUrl();
 let updateNotified = false;
+const QUEUED_COMPLETIONS_KEY = 'pending-completions';
+const REMINDER_ACTIONS = [
+  { action: 'complete', title: 'Complete' },
+  { action: 'snooze-10', title: 'Snooze 10m' },
+  { action: 'snooze-60', title: 'Snooze 1h' },
+];
+const SNOOZE_ACTION_MINUTES = { 'snooze-10': 10, 'snooze-60': 60 };
 
 self.addEventListener('fetch', (event) => {
   if (event.request.method !== 'GET') return;
@@ -132,11 +139,47 @@ async function clearOldCaches() {
 }
 
 self.addEventListener('push', (event) => {
-  event.waitUntil(handlePushEvent());
+  event.waitUntil(handlePushEvent(event));
 });
 
-async function handlePushEvent() {
-  const reminders = await fetchPendingRemindersWithRetry();
+function readPushPayloadReminders(event) {
+  if (!event || !event.data) return null;
+  try {
+    const payload = event.data.json();
+    if (payload && payload.type === 'reminders' && Array.isArray(payload.reminders)) {
+      // Several profiles may share this subscription; remember which one's device each reminder is for.
+      const deviceId = typeof payload.deviceId === 'string' ? payload.deviceId : undefined;
+      return payload.reminders.map((item) => (item && deviceId ? { ...item, deviceId } : item));
+    }
+  } catch (err) {
+    console.warn('Failed to read push payload', err);
+  }
+  return null;
+}
+
+// Another device linked to the same account handled these reminders. The worker sends their
+// dismissals along with the next reminder, since every push must show a notification.
+async function closeDismissedNotifications(taskIds) {
+  const dismissed = new Set(taskIds);
+  const notifications = await self.registration.getNotifications();
+  notifications.forEach((notification) => {
+    const data = notification.data || {};
+    if (typeof data.taskId === 'string' && dismissed.has(data.taskId)) {
+      notification.close();
+    }
+  });
+}
+
+async function handlePushEvent(event) {
+  // Encrypted pushes carry the reminders directly; empty pings fall back to polling the worker.
+  const items = readPushPayloadReminders(event) || await fetchPendingRemindersWithRetry();
+  const dismissedTaskIds = items
+    .filter((item) => item && item.kind === 'dismiss' && typeof item.taskId === 'string')
+    .map((item) => item.taskId);
+  if (dismissedTaskIds.length) {
+    await closeDismissedNotifications(dismissedTaskIds);
+  }
+  const reminders = items.filter((item) => !item || item.kind !== 'dismiss');
 
   if (!reminders.length) {
     await self.registration.showNotification('Task reminder', {
@@ -146,20 +189,61 @@ async function handlePushEvent() {
     return;
   }
 
-  await Promise.all(reminders.map(async (item) => {
-    const title = buildReminderTitle(item);
-    const body = buildReminderBody(item);
-    const tag = `taskify_${item.taskId || 'unknown'}_${item.minutes || 0}`;
-    const url = item.taskId ? `/?task=${encodeURIComponent(item.taskId)}` : '/';
-    await self.registration.showNotification(title, {
-      body,
-      tag,
-      data: {
-        ...item,
-        url,
-      },
-    });
-  }));
+  // Digest and agenda items arrive together and are summarised in a single notification each.
+  const digestItems = reminders.filter((item) => item && item.kind === 'digest');
+  const agendaItems = reminders.filter((item) => item && item.kind === 'agenda');
+  const singleItems = reminders.filter((item) => !item || (item.kind !== 'digest' && item.kind !== 'agenda'));
+
+  await Promise.all([
+    ...singleItems.map(async (item) => {
+      const title = buildReminderTitle(item);
+      const body = buildReminderBody(item);
+      const tag = `taskify_${item.taskId || 'unknown'}_${item.minutes || 0}`;
+      const url = item.taskId ? `/?task=${encodeURIComponent(item.taskId)}` : '/';
+      await self.registration.showNotification(title, {
+        body,
+        tag,
+        actions: item.taskId ? REMINDER_ACTIONS : [],
+        data: {
+          ...item,
+          url,
+        },
+      });
+    }),
+    digestItems.length
+      ? self.registration.showNotification(`${digestItems.length} tasks due soon`, {
+        body: buildSummaryBody(digestItems, true),
+        tag: 'taskify_digest',
+        data: { url: '/' },
+      })
+      : null,
+    agendaItems.length
+      ? self.registration.showNotification(
+        agendaItems.length === 1 ? 'Today: 1 task due' : `Today: ${agendaItems.length} tasks due`,
+        {
+          body: buildSummaryBody(agendaItems, false),
+          tag: 'taskify_agenda',
+          data: { url: '/' },
+        },
+      )
+      : null,
+  ]);
+}
+
+const SUMMARY_MAX_LINES = 5;
+
+function buildSummaryBody(items, includeTime) {
+  const lines = items.slice(0, SUMMARY_MAX_LINES).map((item) => {
+    const parsed = includeTime && typeof item.dueISO === 'string' ? Date.parse(item.dueISO) : NaN;
+    const time = Number.isNaN(parsed)
+      ? ''
+      : ` · ${new Date(parsed).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+    return `${buildReminderTitle(item)}${time}`;
+  });
+  if (items.length > SUMMARY_MAX_LINES) {
+    lines.push(`+${items.length - SUMMARY_MAX_LINES} more`);
+  }
+  return lines.join('\n');
 }
 
 async function fetchPendingRemindersWithRetry(maxAttempts = 3, delayMs = 500) {
@@ -287,9 +371,108 @@ function formatOffset(minutes) {
   return `${minutes} minute${minutes === 1 ? '' : 's'}`;
 }
 
+async function queueTaskCompletion(item) {
+  if (!item || typeof item.taskId !== 'string' || !item.taskId) return;
+  try {
+    const cache = await caches.open(CONFIG_CACHE);
+    const existingResponse = await cache.match(QUEUED_COMPLETIONS_KEY);
+    let queue = [];
+    if (existingResponse) {
+      try {
+        const parsed = await existingResponse.json();
+        if (Array.isArray(parsed)) queue = parsed;
+      } catch {}
+    }
+    if (!queue.some((entry) => entry && entry.taskId === item.taskId && entry.deviceId === item.deviceId)) {
+      queue.push({
+        taskId: item.taskId,
+        boardId: typeof item.boardId === 'string' ? item.boardId : undefined,
+        // Profiles share this worker; the app only applies completions for its own device.
+        deviceId: typeof item.deviceId === 'string' ? item.deviceId : undefined,
+        queuedAt: new Date().toISOString(),
+      });
+    }
+    await cache.put(QUEUED_COMPLETIONS_KEY, new Response(JSON.stringify(queue)));
+  } catch (err) {
+    console.warn('Failed to queue task completion', err);
+    return;
+  }
+  const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clientList.forEach((client) => client.postMessage({ type: 'TASKIFY_COMPLETIONS_QUEUED' }));
+}
+
+async function snoozeReminder(item, snoozeMinutes) {
+  const apiBase = await getWorkerBaseUrl();
+  try {
+    const subscription = await self.registration.pushManager.getSubscription();
+    if (!subscription) throw new Error('No push subscription');
+    const response = await fetch(`${apiBase}/api/reminders/snooze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        endpoint: subscription.endpoint,
+        deviceId: item.deviceId,
+        taskId: item.taskId,
+        boardId: item.boardId,
+        title: item.title,
+        dueISO: item.dueISO,
+        snoozeMinutes,
+      }),
+      cache: 'no-store',
+    });
+    if (!response.ok) throw new Error(`Snooze failed (${response.status})`);
+  } catch (err) {
+    console.warn('Failed to snooze reminder', err);
+    await self.registration.showNotification(buildReminderTitle(item), {
+      body: 'Could not snooze this reminder. Open Taskify to reschedule it.',
+      tag: `taskify_${item.taskId || 'unknown'}_snooze_failed`,
+      data: { ...item },
+    });
+  }
+}
+
+// Tell the worker a reminder was handled so devices linked to the same account drop it too.
+async function acknowledgeReminder(item) {
+  if (!item || typeof item.taskId !== 'string' || !item.taskId) return;
+  const apiBase = await getWorkerBaseUrl();
+  try {
+    const subscription = await self.registration.pushManager.getSubscription();
+    if (!subscription) return;
+    await fetch(`${apiBase}/api/reminders/ack`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        endpoint: subscription.endpoint,
+        deviceId: item.deviceId,
+        taskId: item.taskId,
+        dueISO: item.dueISO,
+        minutes: item.minutes,
+      }),
+      cache: 'no-store',
+    });
+  } catch (err) {
+    console.warn('Failed to acknowledge reminder', err);
+  }
+}
+
+self.addEventListener('notificationclose', (event) => {
+  event.waitUntil(acknowledgeReminder(event.notification.data));
+});
+
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
-  const targetUrl = (event.notification.data && event.notification.data.url) || '/';
+  const data = event.notification.data || {};
+  if (event.action === 'complete') {
+    event.waitUntil(Promise.all([queueTaskCompletion(data), acknowledgeReminder(data)]));
+    return;
+  }
+  if (SNOOZE_ACTION_MINUTES[event.action]) {
+    // The worker acknowledges snoozes on the other devices itself.
+    event.waitUntil(snoozeReminder(data, SNOOZE_ACTION_MINUTES[event.action]));
+    return;
+  }
+  const targetUrl = data.url || '/';
+  event.waitUntil(acknowledgeReminder(data));
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
       for (const client of windowClients) {
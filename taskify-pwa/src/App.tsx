@@ -1,7 +1,8 @@
 import React, { Suspense, lazy, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import type { Proof } from "@cashu/cashu-ts";
 import { createPortal } from "react-dom";
-import { finalizeEvent, getPublicKey, generateSecretKey, SimplePool, type EventTemplate, nip19, nip04 } from "nostr-tools";
+import { QRCodeCanvas } from "qrcode.react";
+import { finalizeEvent, getPublicKey, generateSecretKey, SimplePool, type EventTemplate, nip19 } from "nostr-tools";
 const CashuWalletModal = lazy(() => import("./components/CashuWalletModal"));
 import {
   BibleTracker,
@@ -58,11 +59,18 @@ import {
   persistMintBackupCache,
   type MintBackupPayload,
 } from "./wallet/mintBackup";
-import { encryptToBoard, decryptFromBoard, boardTag } from "./boardCrypto";
+import {
+  encryptToBoard,
+  decryptFromBoard,
+  boardTag,
+  boardViewKey,
+  encryptWithViewKey,
+  decryptWithViewKey,
+} from "./boardCrypto";
 import { useToast } from "./context/ToastContext";
 import { useP2PK, type P2PKKey } from "./context/P2PKContext";
 import { AccentPalette, BackgroundImageError, normalizeAccentPalette, normalizeAccentPaletteList, prepareBackgroundImage } from "./theme/palette";
-import { extractFirstUrl, isUrlLike, useUrlPreview, type UrlPreviewData } from "./lib/urlPreview";
+import { extractFirstUrl, isUrlLike, useUrlPreview, type UrlPreviewData, type UrlPreviewMedia } from "./lib/urlPreview";
 import {
   createDocumentAttachment,
   ensureDocumentPreview,
@@ -73,8 +81,84 @@ import {
   type TaskDocument,
 } from "./lib/documents";
 import { normalizeNostrPubkey } from "./lib/nostr";
-import { DEFAULT_NOSTR_RELAYS } from "./lib/relays";
+import { buildNip98AuthHeader, signNip98AuthHeader } from "./lib/nip98";
+import { GIFT_WRAP_KIND, privateMessagesSupported, unwrapPrivateMessageWithSigner, wrapPrivateMessageWithSigner } from "./lib/nip17";
+import { getUserSigner, LocalKeySigner, resetToLocalSigner, setUserSigner, type NostrSigner } from "./lib/signer";
+import {
+  deleteProfile,
+  inactiveProfileValues,
+  onActiveProfileChange,
+  profileStashValue,
+  requestProfileSwitch,
+  takeProfileSwitchFailure,
+} from "./lib/profiles";
+import {
+  adoptPublishedRevisions,
+  mergeFieldRevisions,
+  parsePublishedRevisions,
+  publishedRevisions,
+  stampFieldRevisions,
+  TASK_SYNC_FIELD_LABELS,
+  type TaskFieldRevisions,
+  type TaskSyncConflict,
+} from "./lib/taskFieldSync";
+import {
+  createBoardInboxToken,
+  listBoardInboxTokens,
+  revokeBoardInboxToken,
+  type BoardInboxToken,
+} from "./lib/boardInbox";
+import {
+  BOARD_METADATA_KIND,
+  buildBoardEmbedCode,
+  buildBoardJoinUrl,
+  buildBoardProtocolLink,
+  buildReadOnlyBoardUrl,
+  encodeBoardNaddr,
+  encodeBoardShareCode,
+  parseBoardLink,
+  parseBoardShareCode,
+  type BoardLink,
+  type BoardLinkAccess,
+  type BoardShareAccess,
+  type BoardShareCode,
+} from "./lib/boardShare";
+import { COMPLETIONS_QUEUED_MESSAGE, drainQueuedTaskCompletions } from "./lib/notificationActions";
+import { DEFAULT_NOSTR_RELAYS, emptyRelayHealth, movingAverage, type RelayHealth } from "./lib/relays";
 import { ActionSheet } from "./components/ActionSheet";
+import { QrScanner } from "./components/QrScanner";
+import { RelayManager } from "./components/RelayManager";
+import { ProfileSwitcher } from "./components/ProfileSwitcher";
+import { SignerSettings } from "./components/SignerSettings";
+import {
+  appendBoardArchive,
+  buildCompactionDeletionTags,
+  deleteBoardArchive,
+  loadBoardArchive,
+  planBoardCompaction,
+  saveBoardArchive,
+  type CompactionPlan,
+} from "./lib/boardCompaction";
+import {
+  backfillHistory,
+  HISTORY_PAGE_SIZE,
+  HISTORY_SYNC_OVERLAP_SECONDS,
+  loadHistoryCursor,
+  saveHistoryCursor,
+  type HistoryProgress,
+} from "./lib/historySync";
+import {
+  buildRelayAuthTemplate,
+  isAuthRequiredMessage,
+  loadRelayAuthPreferences,
+  relayAuthKey,
+  relayAuthPreferenceFor,
+  saveRelayAuthPreferences,
+  shouldAuthenticate,
+  type RelayAuthPreference,
+  type RelayAuthPreferences,
+  type RelayAuthReason,
+} from "./lib/relayAuth";
 import type { Contact } from "./lib/contacts";
 import { loadContactsFromStorage, makeContactId, saveContactsToStorage } from "./lib/contacts";
 import { COINBASE_SPOT_PRICE_URL } from "./lib/pricing";
@@ -82,6 +166,7 @@ import { EcashGlyph } from "./components/EcashGlyph";
 
 const DEBUG_CONSOLE_STORAGE_KEY = "taskify.debugConsole.enabled";
 const LS_PENDING_NOSTR_QUEUE = "taskify.pendingNostrQueue";
+const LS_BOARD_ROTATION_SEEN = "taskify.boardRotationSeen";
 
 /* ================= Types ================= */
 type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0=Sun
@@ -197,6 +282,8 @@ type Task = {
   scriptureMemoryPrevReviewISO?: string | null; // previous review timestamp snapshot
   scriptureMemoryScheduledAt?: string; // when this memory task was generated
   bountyLists?: string[];         // local-only set of bounty list keys the task belongs to
+  fieldRevs?: TaskFieldRevisions; // per-field revisions for merging concurrent shared edits
+  syncConflict?: TaskSyncConflict; // local-only marker for edits that collided on a shared board
 };
 
 type BountyListRef = {
@@ -350,12 +437,21 @@ type ReminderPreset = BuiltinReminderPreset | CustomReminderPreset;
 
 type PushPlatform = "ios" | "android";
 
+type PushDeliveryPreferences = {
+  quietHours: { start: string; end: string } | null; // "HH:MM" in the device's time zone
+  digestWindowMinutes: number;                       // 0 = one notification per reminder
+  agenda: { enabled: boolean; time: string };
+};
+
 type PushPreferences = {
   enabled: boolean;
   platform: PushPlatform;
   deviceId?: string;
   subscriptionId?: string;
   permission?: NotificationPermission;
+  delivery?: PushDeliveryPreferences;
+  // Nostr pubkey the device is linked to on the worker; linked devices share one reminder set.
+  accountPubkey?: string;
 };
 type PublishTaskFn = (
   task: Task,
@@ -774,6 +870,34 @@ const DEFAULT_PUSH_PREFERENCES: PushPreferences = {
   permission: (typeof Notification !== 'undefined' ? Notification.permission : 'default') as NotificationPermission,
 };
 
+const DEFAULT_PUSH_DELIVERY: PushDeliveryPreferences = {
+  quietHours: null,
+  digestWindowMinutes: 0,
+  agenda: { enabled: false, time: "08:00" },
+};
+const DIGEST_WINDOW_OPTIONS = [0, 5, 15, 30, 60] as const;
+const CLOCK_TIME_PATTERN = /^\d{2}:\d{2}$/;
+const AGENDA_LOOKAHEAD_DAYS = 8;
+
+function normalizePushDelivery(raw: any): PushDeliveryPreferences | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const quiet = raw.quietHours;
+  const agendaTime = raw.agenda?.time;
+  return {
+    quietHours:
+      quiet && CLOCK_TIME_PATTERN.test(quiet.start) && CLOCK_TIME_PATTERN.test(quiet.end)
+        ? { start: quiet.start, end: quiet.end }
+        : null,
+    digestWindowMinutes: Math.max(0, Number(raw.digestWindowMinutes) || 0),
+    agenda: {
+      enabled: raw.agenda?.enabled === true,
+      time: typeof agendaTime === "string" && CLOCK_TIME_PATTERN.test(agendaTime)
+        ? agendaTime
+        : DEFAULT_PUSH_DELIVERY.agenda.time,
+    },
+  };
+}
+
 const RAW_WORKER_BASE = (import.meta as any)?.env?.VITE_WORKER_BASE_URL || "";
 const FALLBACK_WORKER_BASE_URL = RAW_WORKER_BASE ? String(RAW_WORKER_BASE).replace(/\/$/, "") : "";
 const FALLBACK_VAPID_PUBLIC_KEY = (import.meta as any)?.env?.VITE_VAPID_PUBLIC_KEY || "";
@@ -819,11 +943,26 @@ type CompoundIndexGroup = {
   columns: { id: string; name: string }[];
 };
 
+// Holding the board ID grants full access: it derives the board's signing key. Boards joined from a
+// view or edit share code never learn it; their boardId holds the public board tag instead, and
+// editors publish with their own key once the owner lists them as a member.
+type BoardSharing = {
+  boardId: string;
+  relays: string[];
+  access?: BoardShareAccess;
+  boardPubkey?: string;
+  viewKey?: string;
+  // Content is encrypted with the view key, so the board tag no longer decrypts it.
+  splitAccess?: boolean;
+  // Editor pubkeys from the board's metadata.
+  members?: string[];
+};
+
 type BoardBase = {
   id: string;
   name: string;
   // Optional Nostr sharing metadata
-  nostr?: { boardId: string; relays: string[] };
+  nostr?: BoardSharing;
   archived?: boolean;
   hidden?: boolean;
   clearCompletedDisabled?: boolean;
@@ -948,6 +1087,7 @@ type Settings = {
   walletBountiesEnabled: boolean;
   walletBountyList?: BountyListRef | null;
   cloudBackupsEnabled: boolean;
+  calendarFeedUrl: string | null;
   pushNotifications: PushPreferences;
 };
 
@@ -1050,6 +1190,8 @@ type TaskifyBackupPayload = {
   defaultRelays: unknown;
   contacts: unknown;
   nostrSk: string;
+  // Content of compacted board tasks; kept out of relays, so backups are its only other copy.
+  boardArchive?: unknown;
   cashu: {
     proofs: unknown;
     activeMint: string | null;
@@ -1060,6 +1202,15 @@ type TaskifyBackupPayload = {
   };
 };
 
+type CloudBackupSnapshot = {
+  id: string;
+  createdAt: string;
+  storedAt: string;
+  size: number;
+  version: number;
+  pinned: boolean;
+};
+
 type WalletHistoryLogEntry = {
   id?: string;
   summary: string;
@@ -1148,7 +1299,15 @@ type NostrUnsignedEvent = Omit<NostrEvent, "id" | "sig" | "pubkey"> & {
   pubkey?: string;
 };
 
-type PendingNostrJob =
+// Delivery diagnostics recorded when a job fails, shown in the sync status panel.
+type PendingNostrJobStatus = {
+  attempts?: number;
+  lastAttemptAt?: number; // ms since epoch
+  lastError?: string;
+  relayErrors?: Record<string, string>;
+};
+
+type PendingNostrJob = (
   | {
       id: string;
       type: "task";
@@ -1174,22 +1333,31 @@ type PendingNostrJob =
       boardTag: string;
       taskIds: string[];
       nostrTimestamp: number;
-    };
-
-declare global {
-  interface Window {
-    nostr?: {
-      getPublicKey: () => Promise<string>;
-      signEvent: (e: NostrUnsignedEvent) => Promise<NostrEvent>;
-    };
-  }
-}
+    }
+) & PendingNostrJobStatus;
 
 const NOSTR_MIN_EVENT_INTERVAL_MS = 200;
 const NOSTR_PUBLISH_WINDOW_MS = 8000;
 const NOSTR_PUBLISH_BURST_LIMIT = 8;
 const NOSTR_BOARD_META_COOLDOWN_MS = 10000;
 const NOSTR_MIGRATION_BUFFER_MS = 15000;
+const NOSTR_PUBLISH_ACK_TIMEOUT_MS = 8000;
+const NOSTR_PENDING_RETRY_BASE_MS = 2500;
+const NOSTR_PENDING_RETRY_MAX_MS = 60000;
+const BOARD_ROTATION_MESSAGE_TYPE = "taskify-board-rotated";
+// Gift wraps are backdated by up to two days, so look well past the last few days for invitations.
+const BOARD_ROTATION_LOOKBACK_SECONDS = 30 * 24 * 60 * 60;
+// Enough gift wrap IDs to cover the lookback window without growing storage forever.
+const BOARD_ROTATION_SEEN_LIMIT = 500;
+
+// A board rotation invite from someone else, held until the user accepts it.
+type BoardRotationInvite = {
+  id: string;
+  boardId: string;
+  previousBoard: string;
+  senderPubkey: string;
+  sharing: BoardSharing;
+};
 
 function loadDefaultRelays(): string[] {
   try {
@@ -1223,6 +1391,20 @@ function persistPendingNostrQueue(queue: PendingNostrJob[]) {
   } catch {}
 }
 
+function loadBoardRotationSeen(): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LS_BOARD_ROTATION_SEEN) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+function persistBoardRotationSeen(ids: string[]) {
+  try {
+    localStorage.setItem(LS_BOARD_ROTATION_SEEN, JSON.stringify(ids.slice(-BOARD_ROTATION_SEEN_LIMIT)));
+  } catch {}
+}
+
 type NostrPool = {
   ensureRelay: (url: string) => void;
   setRelays: (urls: string[]) => void;
@@ -1233,18 +1415,114 @@ type NostrPool = {
     onEose?: (from: string) => void
   ) => () => void;
   publish: (relays: string[], event: NostrUnsignedEvent) => Promise<void>;
-  publishEvent: (relays: string[], event: NostrEvent) => void;
+  // Resolves once every relay has answered or timed out; `onResult` hears each answer as it comes.
+  publishEvent: (
+    relays: string[],
+    event: NostrEvent,
+    onResult?: (result: RelayPublishResult) => void,
+  ) => Promise<RelayPublishResult[]>;
+  getRelayHealth: () => RelayHealth[];
+  onRelayHealthChange: (listener: () => void) => () => void;
 };
 
-function createNostrPool(): NostrPool {
+type RelayPublishResult = { relay: string; ok: boolean; message?: string };
+
+class RelayPublishError extends Error {
+  results: RelayPublishResult[];
+
+  constructor(results: RelayPublishResult[]) {
+    super(results.length === 1 ? `Relay did not accept the event: ${results[0].message || "rejected"}` : "No relay accepted the event");
+    this.name = "RelayPublishError";
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.results = results;
+  }
+}
+
+type RelayAuthSignerFn = (relay: string, challenge: string, reason: RelayAuthReason) => Promise<NostrEvent | null>;
+
+function createNostrPool(options: { signAuth?: RelayAuthSignerFn } = {}): NostrPool {
   type Relay = {
     url: string;
     ws: WebSocket | null;
     status: "idle" | "opening" | "open" | "closed";
     queue: any[]; // messages to send when open
+    openingAt: number;
+    reqSentAt: Map<string, number>; // subId -> when the REQ went out, until EOSE
+    // NIP-42 state for the current connection.
+    challenge?: string;
+    auth: "none" | "pending" | "authenticated" | "failed";
+    authEventId?: string;
+    authRetry: any[]; // REQ and EVENT messages refused until we log in
+    authRetried: Set<string>; // subIds and ack keys already resent once after logging in
   };
 
   const relays = new Map<string, Relay>();
+  // `${relay} ${eventId}` -> settles the publish once the relay answers with OK.
+  const pendingAcks = new Map<string, { event: NostrEvent; settle: (ok: boolean, message?: string) => void }>();
+  // Health outlives the connection so removed and re-added relays keep their history.
+  const health = new Map<string, RelayHealth>();
+  const healthListeners = new Set<() => void>();
+  let healthNotifyTimer: number | null = null;
+
+  function trackHealth(url: string, update: (h: RelayHealth) => void) {
+    let h = health.get(url);
+    if (!h) {
+      h = emptyRelayHealth(url);
+      health.set(url, h);
+    }
+    update(h);
+    if (healthNotifyTimer != null || !healthListeners.size) return;
+    // Coalesce bursts (a reconnect replays every subscription) into one notification.
+    healthNotifyTimer = window.setTimeout(() => {
+      healthNotifyTimer = null;
+      healthListeners.forEach((listener) => listener());
+    }, 500);
+  }
+
+  function transmit(r: Relay, msg: any[]) {
+    r.ws!.send(JSON.stringify(msg));
+    if (msg[0] === "REQ") r.reqSentAt.set(msg[1], performance.now());
+  }
+
+  function failAuthRetries(r: Relay, message: string) {
+    for (const msg of r.authRetry) {
+      if (msg[0] === "EVENT") pendingAcks.get(`${r.url} ${msg[1].id}`)?.settle(false, message);
+    }
+    r.authRetry = [];
+  }
+
+  async function authenticate(r: Relay, reason: RelayAuthReason) {
+    // Without a challenge yet, refused messages wait in authRetry until the relay sends one.
+    if (!r.challenge || r.auth === "pending") return;
+    if (r.auth === "failed") {
+      failAuthRetries(r, "auth-required: relay rejected our login");
+      return;
+    }
+    if (r.auth === "authenticated") {
+      const retry = r.authRetry;
+      r.authRetry = [];
+      retry.forEach((msg) => send(r.url, msg));
+      return;
+    }
+    const challenge = r.challenge;
+    r.auth = "pending";
+    let signed: NostrEvent | null = null;
+    try {
+      signed = (await options.signAuth?.(r.url, challenge, reason)) ?? null;
+    } catch (err) {
+      console.warn("Relay login signing failed", err);
+    }
+    // The connection dropped while signing; the next one brings a fresh challenge.
+    if (r.challenge !== challenge) return;
+    if (!signed) {
+      r.auth = "none";
+      trackHealth(r.url, (h) => { h.auth = reason === "required" ? "declined" : "challenged"; });
+      failAuthRetries(r, "auth-required: login not allowed for this relay");
+      return;
+    }
+    r.authEventId = signed.id;
+    send(r.url, ["AUTH", signed]);
+  }
   const subs = new Map<
     string,
     {
@@ -1258,29 +1536,52 @@ function createNostrPool(): NostrPool {
   function getOrCreate(url: string): Relay {
     let r = relays.get(url);
     if (!r) {
-      r = { url, ws: null, status: "idle", queue: [] };
+      r = { url, ws: null, status: "idle", queue: [], openingAt: 0, reqSentAt: new Map(), auth: "none", authRetry: [], authRetried: new Set() };
       relays.set(url, r);
     }
     if (r.status === "idle" || r.status === "closed") {
       try {
         r.status = "opening";
+        r.openingAt = performance.now();
+        trackHealth(url, (h) => { h.state = "connecting"; });
         r.ws = new WebSocket(url);
         r.ws.onopen = () => {
           r!.status = "open";
+          trackHealth(url, (h) => {
+            h.state = "open";
+            h.connectMs = Math.round(performance.now() - r!.openingAt);
+            h.connectFailures = 0;
+            h.lastOpenAt = Date.now();
+          });
           // flush queue
           const q = r!.queue.slice();
           r!.queue.length = 0;
-          for (const msg of q) r!.ws?.send(JSON.stringify(msg));
+          for (const msg of q) transmit(r!, msg);
           // re-subscribe existing subscriptions on reconnect
           for (const [subId, sub] of subs) {
             if (sub.relays.includes(url)) {
-              try { r!.ws?.send(JSON.stringify(["REQ", subId, ...sub.filters])); }
+              try { transmit(r!, ["REQ", subId, ...sub.filters]); }
               catch { r!.queue.push(["REQ", subId, ...sub.filters]); }
             }
           }
         };
+        r.ws.onerror = () => {
+          trackHealth(url, (h) => { h.lastError = r!.status === "open" ? "Connection error" : "Could not connect"; });
+        };
         r.ws.onclose = () => {
+          const wasOpen = r!.status === "open";
           r!.status = "closed";
+          r!.reqSentAt.clear();
+          failAuthRetries(r!, "connection closed");
+          r!.challenge = undefined;
+          r!.auth = "none";
+          r!.authEventId = undefined;
+          r!.authRetried.clear();
+          trackHealth(url, (h) => {
+            h.state = "closed";
+            if (wasOpen) h.disconnects += 1;
+            else h.connectFailures += 1;
+          });
           // try to reopen after a delay
           setTimeout(() => {
             if (relays.has(url)) getOrCreate(url);
@@ -1297,12 +1598,72 @@ function createNostrPool(): NostrPool {
               if (s && ev && typeof ev.kind === "number") s.onEvent(ev, url);
             } else if (type === "EOSE") {
               const [subId] = rest as [string];
+              const sentAt = r!.reqSentAt.get(subId);
+              if (sentAt !== undefined) {
+                r!.reqSentAt.delete(subId);
+                trackHealth(url, (h) => { h.eoseMs = movingAverage(h.eoseMs, performance.now() - sentAt); });
+              }
               const s = subs.get(subId);
               if (s?.onEose) s.onEose(url);
+            } else if (type === "OK") {
+              const [eventId, ok, message] = rest as [string, boolean, string?];
+              if (r!.authEventId && eventId === r!.authEventId) {
+                r!.authEventId = undefined;
+                r!.auth = ok ? "authenticated" : "failed";
+                trackHealth(url, (h) => {
+                  h.auth = ok ? "authenticated" : "failed";
+                  if (!ok) h.lastError = message || "Relay rejected our login";
+                });
+                void authenticate(r!, "required");
+                return;
+              }
+              const key = `${url} ${eventId}`;
+              const pending = pendingAcks.get(key);
+              if (!pending) return;
+              if (!ok && isAuthRequiredMessage(message) && !r!.authRetried.has(key)) {
+                r!.authRetried.add(key);
+                r!.authRetry.push(["EVENT", pending.event]);
+                void authenticate(r!, "required");
+                return;
+              }
+              pending.settle(!!ok, message || undefined);
+            } else if (type === "AUTH") {
+              const [challenge] = rest as [string];
+              if (typeof challenge !== "string") return;
+              r!.challenge = challenge;
+              if (r!.auth !== "pending") r!.auth = "none";
+              trackHealth(url, (h) => { h.auth = "challenged"; });
+              void authenticate(r!, r!.authRetry.length ? "required" : "challenge");
+            } else if (type === "NOTICE") {
+              const [message] = rest as [string];
+              trackHealth(url, (h) => {
+                h.notices += 1;
+                h.lastNotice = typeof message === "string" ? message : undefined;
+              });
+            } else if (type === "CLOSED") {
+              const [subId, message] = rest as [string, string?];
+              r!.reqSentAt.delete(subId);
+              trackHealth(url, (h) => {
+                h.closedSubscriptions += 1;
+                h.lastClosedReason = message || undefined;
+              });
+              const sub = subs.get(subId);
+              if (sub && isAuthRequiredMessage(message) && !r!.authRetried.has(subId)) {
+                r!.authRetried.add(subId);
+                r!.authRetry.push(["REQ", subId, ...sub.filters]);
+                void authenticate(r!, "required");
+              }
             }
           } catch {}
         };
-      } catch {}
+      } catch {
+        r.status = "closed";
+        trackHealth(url, (h) => {
+          h.state = "closed";
+          h.connectFailures += 1;
+          h.lastError = "Invalid relay URL";
+        });
+      }
     }
     return r;
   }
@@ -1311,9 +1672,8 @@ function createNostrPool(): NostrPool {
     const ensureOpen = opts?.ensureOpen !== false;
     const r = ensureOpen ? getOrCreate(url) : relays.get(url);
     if (!r) return;
-    const payload = JSON.stringify(msg);
     if (r.status === "open" && r.ws?.readyState === WebSocket.OPEN) {
-      try { r.ws.send(payload); } catch { r.queue.push(msg); }
+      try { transmit(r, msg); } catch { r.queue.push(msg); }
     } else {
       r.queue.push(msg);
     }
@@ -1349,8 +1709,41 @@ function createNostrPool(): NostrPool {
       const toSend: any = { ...unsigned, created_at: unsigned.created_at || now };
       for (const u of relayUrls) send(u, ["EVENT", toSend]);
     },
-    publishEvent(relayUrls, event) {
-      for (const u of relayUrls) send(u, ["EVENT", event]);
+    publishEvent(relayUrls, event, onResult) {
+      return Promise.all(relayUrls.map((u) => new Promise<RelayPublishResult>((resolve) => {
+        const key = `${u} ${event.id}`;
+        const startedAt = performance.now();
+        trackHealth(u, (h) => { h.published += 1; });
+        const timer = window.setTimeout(() => {
+          pendingAcks.delete(key);
+          trackHealth(u, (h) => { h.timeouts += 1; });
+          const result = { relay: u, ok: false, message: "timed out" };
+          onResult?.(result);
+          resolve(result);
+        }, NOSTR_PUBLISH_ACK_TIMEOUT_MS);
+        pendingAcks.set(key, { event, settle: (ok, message) => {
+          window.clearTimeout(timer);
+          pendingAcks.delete(key);
+          trackHealth(u, (h) => {
+            h.ackMs = movingAverage(h.ackMs, performance.now() - startedAt);
+            if (ok) h.accepted += 1;
+            else h.rejected += 1;
+            if (!ok && message?.startsWith("rate-limited")) h.rateLimited += 1;
+            if (!ok) h.lastError = message || "Rejected an event";
+          });
+          const result = { relay: u, ok, message };
+          onResult?.(result);
+          resolve(result);
+        } });
+        send(u, ["EVENT", event]);
+      })));
+    },
+    getRelayHealth() {
+      return Array.from(health.values(), (h) => ({ ...h }));
+    },
+    onRelayHealthChange(listener) {
+      healthListeners.add(listener);
+      return () => { healthListeners.delete(listener); };
     }
   };
   return api;
@@ -1410,20 +1803,16 @@ export async function decryptEcashTokenForFunder(enc: {alg:"aes-gcm-256";iv:stri
   return new TextDecoder().decode(new Uint8Array(ptBuf));
 }
 
-// NIP-04 encryption for recipient
+// NIP-04 encryption for recipient, done by whichever signer holds the user's key
 async function encryptEcashTokenForRecipient(recipientHex: string, plain: string): Promise<{ alg: "nip04"; data: string }> {
-  const skHex = localStorage.getItem(LS_NOSTR_SK) || "";
-  if (!/^[0-9a-fA-F]{64}$/.test(skHex)) throw new Error("No local Nostr secret key");
   if (!/^[0-9a-fA-F]{64}$/.test(recipientHex)) throw new Error("Invalid recipient pubkey");
-  const data = await nip04.encrypt(skHex, recipientHex, plain);
+  const data = await getUserSigner().nip04Encrypt(recipientHex, plain);
   return { alg: "nip04", data };
 }
 
 async function decryptEcashTokenForRecipient(senderHex: string, enc: { alg: "nip04"; data: string }): Promise<string> {
-  const skHex = localStorage.getItem(LS_NOSTR_SK) || "";
-  if (!/^[0-9a-fA-F]{64}$/.test(skHex)) throw new Error("No local Nostr secret key");
   if (!/^[0-9a-fA-F]{64}$/.test(senderHex)) throw new Error("Invalid sender pubkey");
-  return await nip04.decrypt(skHex, senderHex, enc.data);
+  return await getUserSigner().nip04Decrypt(senderHex, enc.data);
 }
 
 const CLOUD_BACKUP_KEY_LABEL = new TextEncoder().encode("taskify-cloud-backup-v1");
@@ -1452,6 +1841,28 @@ async function decryptBackupWithSecretKey(
   return new TextDecoder().decode(new Uint8Array(ptBuf));
 }
 
+async function decryptCloudBackup(skHex: string, backup: unknown): Promise<Partial<TaskifyBackupPayload>> {
+  const payload = backup as { ciphertext?: unknown; iv?: unknown } | null;
+  if (!payload || typeof payload !== "object" || typeof payload.ciphertext !== "string" || typeof payload.iv !== "string") {
+    throw new Error("Invalid backup payload received.");
+  }
+  const decrypted = await decryptBackupWithSecretKey(skHex, {
+    ciphertext: payload.ciphertext,
+    iv: payload.iv,
+  });
+  try {
+    return JSON.parse(decrypted);
+  } catch {
+    throw new Error("Cloud backup could not be decoded.");
+  }
+}
+
+function formatBackupSize(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes <= 0) return "0 KB";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function deriveNpubFromSecretKeyHex(skHex: string): string | null {
   try {
     const pkHex = getPublicKey(hexToBytes(skHex));
@@ -1481,6 +1892,29 @@ function normalizeSecretKeyInput(raw: string): string | null {
   return value.toLowerCase();
 }
 
+function normalizePubkeyInput(raw: string): string | null {
+  let value = raw.trim();
+  if (!value) return null;
+  if (value.startsWith("npub")) {
+    try {
+      const dec = nip19.decode(value);
+      if (dec.type !== "npub" || typeof dec.data !== "string") return null;
+      value = dec.data;
+    } catch {
+      return null;
+    }
+  }
+  if (!/^[0-9a-fA-F]{64}$/.test(value)) return null;
+  return value.toLowerCase();
+}
+
+function formatPubkeyForDisplay(pkHex: string): string {
+  try {
+    if (typeof (nip19 as any)?.npubEncode === "function") return (nip19 as any).npubEncode(pkHex);
+  } catch {}
+  return pkHex;
+}
+
 type BoardNostrKeyPair = {
   sk: Uint8Array;
   skHex: string;
@@ -1509,6 +1943,44 @@ async function deriveBoardNostrKeys(boardId: string): Promise<BoardNostrKeyPair>
   return promise;
 }
 
+function hasFullBoardAccess(sharing: BoardSharing): boolean {
+  return !sharing.access;
+}
+
+function boardTagFor(sharing: BoardSharing): string {
+  return sharing.access ? sharing.boardId : boardTag(sharing.boardId);
+}
+
+async function boardPubkeyFor(sharing: BoardSharing): Promise<string> {
+  if (sharing.access) return sharing.boardPubkey || "";
+  return (await deriveBoardNostrKeys(sharing.boardId)).pk;
+}
+
+// Before access is split the content key is SHA-256(boardId), the same bytes as the board tag.
+function boardContentKeyFor(sharing: BoardSharing): string {
+  if (sharing.access) return sharing.viewKey || "";
+  return sharing.splitAccess ? boardViewKey(sharing.boardId) : boardTag(sharing.boardId);
+}
+
+function isSplitAccessBoard(sharing: BoardSharing): boolean {
+  return !!sharing.access || !!sharing.splitAccess;
+}
+
+async function encryptBoardContent(sharing: BoardSharing, plaintext: string): Promise<string> {
+  if (isSplitAccessBoard(sharing)) return encryptWithViewKey(boardContentKeyFor(sharing), plaintext);
+  return encryptToBoard(sharing.boardId, plaintext);
+}
+
+// Full-access devices also read content published before the board's access was split.
+async function decryptBoardContent(sharing: BoardSharing, data: string): Promise<string> {
+  if (sharing.access) return decryptWithViewKey(sharing.viewKey || "", data);
+  try {
+    return await decryptWithViewKey(boardViewKey(sharing.boardId), data);
+  } catch {
+    return decryptFromBoard(sharing.boardId, data);
+  }
+}
+
 async function fileToDataURL(file: File): Promise<string> {
   const dataUrl: string = await new Promise((resolve, reject) => {
     const fr = new FileReader();
@@ -2200,6 +2672,8 @@ function useSettings() {
           pushRaw?.permission === 'granted' || pushRaw?.permission === 'denied'
             ? pushRaw.permission
             : DEFAULT_PUSH_PREFERENCES.permission,
+        delivery: normalizePushDelivery(pushRaw?.delivery),
+        accountPubkey: typeof pushRaw?.accountPubkey === 'string' ? pushRaw.accountPubkey : undefined,
       };
       const validScriptureFrequencyIds = new Set(SCRIPTURE_MEMORY_FREQUENCIES.map(opt => opt.id));
       const rawScriptureFrequency = typeof parsed?.scriptureMemoryFrequency === 'string'
@@ -2259,6 +2733,7 @@ function useSettings() {
         walletBountiesEnabled,
         walletBountyList: walletBountyList ? { ...walletBountyList } : { ...DEFAULT_BOUNTY_LIST },
         cloudBackupsEnabled: parsed?.cloudBackupsEnabled === true,
+        calendarFeedUrl: typeof parsed?.calendarFeedUrl === "string" && parsed.calendarFeedUrl ? parsed.calendarFeedUrl : null,
         pushNotifications: { ...DEFAULT_PUSH_PREFERENCES, ...pushPreferences },
       };
     } catch {
@@ -2291,6 +2766,7 @@ function useSettings() {
         npubCashLightningAddressEnabled: true,
         npubCashAutoClaim: true,
         cloudBackupsEnabled: false,
+        calendarFeedUrl: null,
         scriptureMemoryEnabled: false,
         scriptureMemoryBoardId: null,
         scriptureMemoryFrequency: "daily",
@@ -2380,6 +2856,9 @@ function useSettings() {
       if (next.cloudBackupsEnabled !== true) {
         next.cloudBackupsEnabled = false;
       }
+      if (typeof next.calendarFeedUrl !== "string" || !next.calendarFeedUrl) {
+        next.calendarFeedUrl = null;
+      }
       if (!next.bibleTrackerEnabled) {
         next.bibleTrackerEnabled = false;
         next.scriptureMemoryEnabled = false;
@@ -3318,29 +3797,58 @@ export default function App() {
     }
   }, [settings.backgroundImage, settings.backgroundBlur]);
 
-  // Nostr pool + merge indexes
-  const pool = useMemo(() => createNostrPool(), []);
-  // In-app Nostr key (secp256k1/Schnorr) for signing
-  const [nostrSK, setNostrSK] = useState<Uint8Array>(() => {
+  // Nostr pool + merge indexes. The pool outlives key changes, so it signs relay logins through a ref.
+  const relayAuthSignerRef = useRef<RelayAuthSignerFn>(async () => null);
+  const pool = useMemo(
+    () => createNostrPool({ signAuth: (relay, challenge, reason) => relayAuthSignerRef.current(relay, challenge, reason) }),
+    [],
+  );
+  // The user's identity. The in-app Nostr key (secp256k1/Schnorr) signs unless an extension or a
+  // remote signer was connected instead; the key stays on the device either way.
+  const [userSigner, setUserSignerState] = useState<NostrSigner>(() => {
+    let sk: Uint8Array | null = null;
     try {
       const existing = localStorage.getItem(LS_NOSTR_SK);
-      if (existing && /^[0-9a-fA-F]{64}$/.test(existing)) return hexToBytes(existing);
+      if (existing && /^[0-9a-fA-F]{64}$/.test(existing)) sk = hexToBytes(existing);
     } catch {}
-    const sk = generateSecretKey();
-    try { localStorage.setItem(LS_NOSTR_SK, bytesToHex(sk)); } catch {}
-    return sk;
-  });
-  const [nostrPK, setNostrPK] = useState<string>(() => {
-    try { return getPublicKey(nostrSK); } catch { return ""; }
+    if (!sk) {
+      sk = generateSecretKey();
+      try { localStorage.setItem(LS_NOSTR_SK, bytesToHex(sk)); } catch {}
+    }
+    try { return getUserSigner(); } catch { return new LocalKeySigner(sk); }
   });
+  const userSignerRef = useRef(userSigner);
+  userSignerRef.current = userSigner;
+  const nostrPK = userSigner.pubkey;
+  const activateUserSigner = useCallback((signer: NostrSigner) => {
+    setUserSigner(signer);
+    setUserSignerState(signer);
+  }, []);
+  const [relayAuthPrefs, setRelayAuthPrefs] = useState<RelayAuthPreferences>(loadRelayAuthPreferences);
+  const updateRelayAuthPreference = useCallback((relay: string, preference: RelayAuthPreference) => {
+    setRelayAuthPrefs((prev) => {
+      const next = { ...prev, [relayAuthKey(relay)]: preference };
+      saveRelayAuthPreferences(next);
+      return next;
+    });
+  }, []);
+  relayAuthSignerRef.current = async (relay, challenge, reason) => {
+    const preference = relayAuthPreferenceFor(relayAuthPrefs, relay);
+    if (!shouldAuthenticate(preference, reason)) return null;
+    const template = buildRelayAuthTemplate(relay, challenge);
+    if (preference.signer === "extension") {
+      if (!window.nostr) return null;
+      const pubkey = await window.nostr.getPublicKey();
+      return window.nostr.signEvent({ ...template, pubkey });
+    }
+    return userSignerRef.current.signEvent(template);
+  };
   useEffect(() => { (window as any).nostrPK = nostrPK; }, [nostrPK]);
   // allow manual key rotation later if needed
   const rotateNostrKey = () => {
     const sk = generateSecretKey();
-    setNostrSK(sk);
-    const pk = getPublicKey(sk);
-    setNostrPK(pk);
     try { localStorage.setItem(LS_NOSTR_SK, bytesToHex(sk)); } catch {}
+    activateUserSigner(new LocalKeySigner(sk));
   };
 
   const setCustomNostrKey = (key: string) => {
@@ -3353,21 +3861,58 @@ export default function App() {
       }
       if (!/^[0-9a-fA-F]{64}$/.test(hex)) throw new Error();
       const sk = hexToBytes(hex);
-      setNostrSK(sk);
-      const pk = getPublicKey(sk);
-      setNostrPK(pk);
       try { localStorage.setItem(LS_NOSTR_SK, hex); } catch {}
+      activateUserSigner(new LocalKeySigner(sk));
     } catch {
       alert("Invalid private key");
     }
   };
 
+  const switchToProfile = useCallback((id: string) => {
+    try {
+      requestProfileSwitch(id);
+    } catch (err: any) {
+      alert(err?.message || String(err));
+      return;
+    }
+    userSignerRef.current.close();
+    window.location.reload();
+  }, []);
+  // Another tab switched profiles; reload before this one writes its data over the new profile's.
+  useEffect(() => onActiveProfileChange(() => window.location.reload()), []);
+  useEffect(() => {
+    const failure = takeProfileSwitchFailure();
+    if (failure) alert(failure);
+  }, []);
+  // A deleted profile's worker device would keep receiving its reminders on this browser's shared
+  // push subscription, so unregister it before its storage is gone.
+  const deleteProfileAndDevice = useCallback(async (id: string) => {
+    const deviceId = storedPushDeviceId(profileStashValue(id, LS_SETTINGS));
+    const sharedDevice = !!deviceId
+      && (deviceId === settings.pushNotifications.deviceId || otherProfilePushDeviceIds(id).has(deviceId));
+    if (deviceId && workerBaseUrl && !sharedDevice) {
+      const res = await fetch(`${workerBaseUrl}/api/devices/${encodeURIComponent(deviceId)}`, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`Could not turn off the profile's reminders (${res.status}). Try again.`);
+      }
+    }
+    deleteProfile(id);
+    deleteBoardArchive(id).catch((err) => console.warn("Failed to delete the profile's board archive", err));
+  }, [settings.pushNotifications.deviceId, workerBaseUrl]);
+
   const lastNostrCreated = useRef<Map<string, number>>(new Map());
   const nostrPublishQueue = useRef<Promise<void>>(Promise.resolve());
   const lastNostrSentMs = useRef(0);
   const nostrPublishHistory = useRef<number[]>([]);
   const lastBoardMetadataPublishMs = useRef<Map<string, number>>(new Map());
-  async function nostrPublish(relays: string[], template: EventTemplate, options?: { sk?: Uint8Array | string }) {
+  // With `awaitRelays`, resolves as soon as one relay accepts the event and throws a
+  // RelayPublishError carrying every relay's answer if none does. Slower relays keep answering in
+  // the background, where their results still reach the relay health shown in the sync panel.
+  async function nostrPublish(
+    relays: string[],
+    template: EventTemplate,
+    options?: { sk?: Uint8Array | string; awaitRelays?: boolean },
+  ) {
     const run = async () => {
       // Apply a leaky-bucket style limit so bursty actions (clear all, rapid add/delete) do not trip relay rate limits.
       const nowMs = Date.now();
@@ -3385,23 +3930,39 @@ export default function App() {
       }
       const now = Math.floor(Date.now() / 1000);
       let createdAt = typeof template.created_at === "number" ? template.created_at : now;
-      const signer = options?.sk || nostrSK;
-      const signerKey = typeof signer === "string" ? signer : bytesToHex(signer);
+      // Board keys sign locally; everything else is signed as the user by the active signer.
+      const boardKey = options?.sk;
+      const signerKey = boardKey ? (typeof boardKey === "string" ? boardKey : bytesToHex(boardKey)) : userSignerRef.current.pubkey;
       const lastForSigner = lastNostrCreated.current.get(signerKey) || 0;
       if (createdAt <= lastForSigner) {
         createdAt = lastForSigner + 1;
       }
       lastNostrCreated.current.set(signerKey, createdAt);
-      const ev = finalizeEvent({ ...template, created_at: createdAt }, signer);
-      pool.publishEvent(relays, ev as unknown as NostrEvent);
+      const ev = boardKey
+        ? finalizeEvent({ ...template, created_at: createdAt }, boardKey)
+        : await userSignerRef.current.signEvent({ ...template, created_at: createdAt });
+      let markAccepted = () => {};
+      const accepted = new Promise<void>((resolve) => { markAccepted = resolve; });
+      const delivery = pool.publishEvent(relays, ev as unknown as NostrEvent, (result) => {
+        if (result.ok) markAccepted();
+      });
       const sentAt = Date.now();
       lastNostrSentMs.current = sentAt;
       history.push(sentAt);
-      return createdAt;
+      return { createdAt, delivery, accepted };
     };
     const next = nostrPublishQueue.current.catch(() => {}).then(run);
     nostrPublishQueue.current = next.then(() => {}, () => {});
-    return next;
+    const { createdAt, delivery, accepted } = await next;
+    if (options?.awaitRelays) {
+      await Promise.race([
+        accepted,
+        delivery.then((results) => {
+          if (results.length && !results.some((result) => result.ok)) throw new RelayPublishError(results);
+        }),
+      ]);
+    }
+    return createdAt;
   }
   type NostrIndex = {
     boardMeta: Map<string, number>; // nostrBoardId -> created_at
@@ -3422,6 +3983,8 @@ export default function App() {
   const boardsRef = useRef<Board[]>(boards);
   useEffect(() => { boardsRef.current = boards; }, [boards]);
   const tasksRef = useRef<Task[]>(tasks);
+  // Tasks whose merged field revisions should be republished once the merge has rendered.
+  const revisionRepublishRef = useRef<Set<string>>(new Set());
   useEffect(() => { tasksRef.current = tasks; }, [tasks]);
   const bumpPendingNostrVersion = useCallback(() => {
     setPendingNostrVersion((v) => (v === Number.MAX_SAFE_INTEGER ? 0 : v + 1));
@@ -3460,13 +4023,13 @@ export default function App() {
   }, [bumpPendingNostrVersion]);
   const findBoardTag = useCallback((boardId: string): string | null => {
     const board = boardsRef.current.find((b) => b.id === boardId || b.nostr?.boardId === boardId);
-    if (board?.nostr?.boardId) return boardTag(board.nostr.boardId);
+    if (board?.nostr?.boardId) return boardTagFor(board.nostr);
     return null;
   }, []);
   const isTaskPendingPublish = useCallback((task: Task): boolean => {
     const board = boardsRef.current.find((b) => b.id === task.boardId && b.nostr?.boardId);
     if (!board?.nostr?.boardId) return false;
-    const key = `${boardTag(board.nostr.boardId)}::${task.id}`;
+    const key = `${boardTagFor(board.nostr)}::${task.id}`;
     return pendingNostrTasksRef.current.has(key);
   }, [pendingNostrVersion]);
   const persistPendingQueue = useCallback(() => {
@@ -3498,6 +4061,16 @@ export default function App() {
     updatePendingTasksForJob(job, "remove");
     persistPendingQueue();
   }, [persistPendingQueue, updatePendingTasksForJob]);
+  const retryPendingJob = useCallback((id: string) => {
+    const idx = pendingNostrQueueRef.current.findIndex((j) => j.id === id);
+    if (idx === -1) return;
+    // The queue publishes in order, so move the job to the front and skip its backoff.
+    const [job] = pendingNostrQueueRef.current.splice(idx, 1);
+    pendingNostrQueueRef.current.unshift(job);
+    persistPendingQueue();
+    bumpPendingNostrVersion();
+    schedulePendingProcessing();
+  }, [bumpPendingNostrVersion, persistPendingQueue, schedulePendingProcessing]);
   const dropStalePendingForTask = useCallback((bTag: string, taskId: string, newerCreatedAt: number) => {
     const remaining: PendingNostrJob[] = [];
     let didChange = false;
@@ -3586,6 +4159,29 @@ export default function App() {
     }
   }, [currentBoard?.kind, view]);
   const [showSettings, setShowSettingsState] = useState(false);
+  const [showSyncStatus, setShowSyncStatus] = useState(false);
+  const [boardRotationInvites, setBoardRotationInvites] = useState<BoardRotationInvite[]>([]);
+  const boardRotationInvitesRef = useRef(boardRotationInvites);
+  boardRotationInvitesRef.current = boardRotationInvites;
+  // Board links (https …/join#… or web+taskify:, which the manifest routes to /join?link=) open
+  // Settings with a preview of the board.
+  const [pendingJoinLink, setPendingJoinLink] = useState<BoardLink | null>(null);
+  useEffect(() => {
+    const link = parseBoardLink(window.location.href);
+    if (!link) return;
+    window.history.replaceState(null, "", "/");
+    setPendingJoinLink(link);
+    setShowSettingsState(true);
+  }, []);
+  const handlePendingJoinLinkHandled = useCallback(() => setPendingJoinLink(null), []);
+  // First-sync progress for boards with more than a page of history, keyed by board tag.
+  const [historySync, setHistorySync] = useState<Record<string, HistoryProgress>>({});
+  const [relayHealth, setRelayHealth] = useState<RelayHealth[]>([]);
+  useEffect(() => {
+    if (!showSettings) return;
+    setRelayHealth(pool.getRelayHealth());
+    return pool.onRelayHealthChange(() => setRelayHealth(pool.getRelayHealth()));
+  }, [pool, showSettings]);
   const [showWallet, setShowWalletState] = useState(false);
   const [walletTokenStateResetNonce, setWalletTokenStateResetNonce] = useState(0);
   const [updateToastVisible, setUpdateToastVisible] = useState(false);
@@ -4952,8 +5548,29 @@ export default function App() {
   );
 
   const reminderTasks = useMemo(() => tasks.filter(taskHasReminders), [tasks]);
+  const reminderBoardScopes = useMemo(() => buildReminderBoardScopes(boards), [boards]);
   const reminderPayloadRef = useRef<string | null>(null);
 
+  useEffect(() => {
+    const pushPrefs = settings.pushNotifications;
+    if (!pushPrefs?.enabled || !pushPrefs.deviceId || !pushPrefs.subscriptionId || !workerBaseUrl || !nostrPK) {
+      return;
+    }
+    if (pushPrefs.accountPubkey === nostrPK.toLowerCase()) return;
+    let cancelled = false;
+    linkDeviceToAccount(workerBaseUrl, pushPrefs.deviceId)
+      .then((accountPubkey) => {
+        if (cancelled) return;
+        // Linking replaces the device's own reminders with the account's, so sync again.
+        reminderPayloadRef.current = null;
+        setSettings({ pushNotifications: { ...pushPrefs, accountPubkey } });
+      })
+      .catch((err) => console.warn('Linking device to account failed', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [nostrPK, setSettings, settings.pushNotifications, workerBaseUrl]);
+
   useEffect(() => {
     const pushPrefs = settings.pushNotifications;
     if (!pushPrefs?.enabled || !pushPrefs.deviceId || !pushPrefs.subscriptionId) {
@@ -4964,22 +5581,22 @@ export default function App() {
       return;
     }
 
-    const remindersPayload = reminderTasks
-      .map((task) => ({
-        taskId: task.id,
-        boardId: task.boardId,
-        dueISO: task.dueISO,
-        title: task.title,
-        minutesBefore: (task.reminders ?? []).map(reminderPresetToMinutes).sort((a, b) => a - b),
-      }))
-      .sort((a, b) => a.taskId.localeCompare(b.taskId));
-    const payloadString = JSON.stringify(remindersPayload);
+    const agenda = buildAgendaPayload(tasks, pushPrefs);
+    const payloadString = JSON.stringify({
+      reminders: buildReminderPayload(reminderTasks, reminderBoardScopes),
+      agenda,
+      accountPubkey: pushPrefs.accountPubkey,
+    });
     if (reminderPayloadRef.current === payloadString) return;
     reminderPayloadRef.current = payloadString;
 
     const controller = new AbortController();
     const timer = window.setTimeout(() => {
-      syncRemindersToWorker(workerBaseUrl, pushPrefs, reminderTasks, { signal: controller.signal }).catch((err) => {
+      syncRemindersToWorker(workerBaseUrl, pushPrefs, reminderTasks, {
+        signal: controller.signal,
+        agenda,
+        boardScopes: reminderBoardScopes,
+      }).catch((err) => {
         if (err instanceof DOMException && err.name === 'AbortError') return;
         console.error('Reminder sync failed', err);
         setPushError(err instanceof Error ? err.message : 'Failed to sync reminders');
@@ -4990,7 +5607,39 @@ export default function App() {
       controller.abort();
       window.clearTimeout(timer);
     };
-  }, [reminderTasks, settings.pushNotifications, workerBaseUrl]);
+  }, [reminderBoardScopes, reminderTasks, settings.pushNotifications, tasks, workerBaseUrl]);
+
+  const calendarPayloadRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!settings.calendarFeedUrl || !workerBaseUrl) {
+      calendarPayloadRef.current = null;
+      return;
+    }
+    const summaries = buildCalendarTaskSummaries(tasks);
+    const payloadString = `${settings.calendarFeedUrl}|${JSON.stringify(summaries)}`;
+    if (calendarPayloadRef.current === payloadString) return;
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      syncCalendarTasksToWorker(workerBaseUrl, summaries, { signal: controller.signal })
+        .then((result) => {
+          calendarPayloadRef.current = payloadString;
+          if (result === "revoked") {
+            setSettings({ calendarFeedUrl: null });
+          }
+        })
+        .catch((err) => {
+          if (err instanceof DOMException && err.name === 'AbortError') return;
+          console.error('Calendar feed sync failed', err);
+        });
+    }, 1500);
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [setSettings, settings.calendarFeedUrl, tasks, workerBaseUrl]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -5093,8 +5742,8 @@ export default function App() {
     return state;
   }, []);
   async function publishBoardMetadata(board: Board, options?: { force?: boolean }) {
-    if (!board.nostr?.boardId) return;
-    const idTag = boardTag(board.nostr.boardId);
+    if (!board.nostr?.boardId || !hasFullBoardAccess(board.nostr)) return;
+    const idTag = boardTagFor(board.nostr);
     if (!options?.force) {
       const last = lastBoardMetadataPublishMs.current.get(idTag) || 0;
       if (Date.now() - last < NOSTR_BOARD_META_COOLDOWN_MS) return;
@@ -5105,6 +5754,10 @@ export default function App() {
       const boardKeys = await deriveBoardNostrKeys(board.nostr.boardId);
       const tags: string[][] = [["d", idTag],["b", idTag],["k", board.kind],["name", board.name]];
       const payload: any = { clearCompletedDisabled: !!board.clearCompletedDisabled };
+      if (board.nostr.splitAccess) {
+        tags.push(["access", "split"]);
+        payload.members = board.nostr.members ?? [];
+      }
       if (board.kind === "lists") {
         payload.columns = board.columns;
         payload.listIndex = !!board.indexCardEnabled;
@@ -5121,7 +5774,7 @@ export default function App() {
         payload.hideBoardNames = !!board.hideChildBoardNames;
       }
       const raw = JSON.stringify(payload);
-      const content = await encryptToBoard(board.nostr.boardId, raw);
+      const content = await encryptBoardContent(board.nostr, raw);
       const createdAt = await nostrPublish(relays, {
         kind: 30300,
         tags,
@@ -5134,45 +5787,56 @@ export default function App() {
       throw err;
     }
   }
-  async function publishTaskDeletionRequest(boardKeys: BoardNostrKeyPair, relays: string[], taskId: string) {
-    const aTag = `30301:${boardKeys.pk}:${taskId}`;
+  // Full-access devices sign with the board key; editors sign with their own key and only count
+  // once the owner lists them as members. View-only boards never publish.
+  async function resolveBoardPublisher(sharing: BoardSharing): Promise<{ pk: string; sk?: Uint8Array } | null> {
+    if (hasFullBoardAccess(sharing)) {
+      const boardKeys = await deriveBoardNostrKeys(sharing.boardId);
+      return { pk: boardKeys.pk, sk: boardKeys.sk };
+    }
+    if (sharing.access === "edit" && nostrPK) return { pk: nostrPK };
+    return null;
+  }
+  async function publishTaskDeletionRequest(publisher: { pk: string; sk?: Uint8Array }, relays: string[], taskId: string) {
+    const aTag = `30301:${publisher.pk}:${taskId}`;
     try {
       await nostrPublish(relays, {
         kind: 5,
         tags: [["a", aTag]],
         content: "Task deleted",
         created_at: Math.floor(Date.now() / 1000),
-      }, { sk: boardKeys.sk });
+      }, { sk: publisher.sk });
     } catch (err) {
       console.warn("Failed to publish nostr deletion", err);
     }
   }
-  async function sendBatchDeletion(board: Board, taskIds: string[], nostrTimestamp?: number) {
+  async function sendBatchDeletion(board: Board, taskIds: string[], nostrTimestamp?: number, options?: { awaitRelays?: boolean }) {
     if (!taskIds.length || !board.nostr?.boardId) return;
+    const publisher = await resolveBoardPublisher(board.nostr);
+    if (!publisher) return;
     const relays = getBoardRelays(board);
-    const boardKeys = await deriveBoardNostrKeys(board.nostr.boardId);
-    const tags = taskIds.map((id) => ["a", `30301:${boardKeys.pk}:${id}`]);
+    const tags = taskIds.map((id) => ["a", `30301:${publisher.pk}:${id}`]);
     const created_at = typeof nostrTimestamp === "number" ? nostrTimestamp : Math.floor(Date.now() / 1000);
     await nostrPublish(relays, {
       kind: 5,
       tags,
       content: "Tasks deleted",
       created_at,
-    }, { sk: boardKeys.sk });
-    const bTag = boardTag(board.nostr.boardId);
+    }, { sk: publisher.sk, awaitRelays: options?.awaitRelays });
+    const bTag = boardTagFor(board.nostr);
     if (!nostrIdxRef.current.taskClock.has(bTag)) {
       nostrIdxRef.current.taskClock.set(bTag, new Map());
     }
     const clock = nostrIdxRef.current.taskClock.get(bTag)!;
     taskIds.forEach((id) => clock.set(id, created_at));
   }
-  async function sendTaskDeletion(t: Task, board: Board, nostrTimestamp?: number) {
+  async function sendTaskDeletion(t: Task, board: Board, nostrTimestamp?: number, options?: { awaitRelays?: boolean }) {
     if (!isShared(board) || !board.nostr) return;
+    const publisher = await resolveBoardPublisher(board.nostr);
+    if (!publisher) return;
     await publishBoardMetadata(board);
     const relays = getBoardRelays(board);
-    const boardId = board.nostr.boardId;
-    const boardKeys = await deriveBoardNostrKeys(boardId);
-    const bTag = boardTag(boardId);
+    const bTag = boardTagFor(board.nostr);
     const colTag = (board.kind === "week") ? (t.column === "bounties" ? "bounties" : "day") : (t.columnId || "");
     const tags: string[][] = [["d", t.id],["b", bTag],["col", String(colTag)],["status","deleted"]];
     const raw = JSON.stringify({
@@ -5188,14 +5852,14 @@ export default function App() {
       seriesId: t.seriesId,
       documents: t.documents,
     });
-    const content = await encryptToBoard(boardId, raw);
+    const content = await encryptBoardContent(board.nostr, raw);
     const createdAt = await nostrPublish(relays, {
       kind: 30301,
       tags,
       content,
       created_at: typeof nostrTimestamp === "number" ? nostrTimestamp : Math.floor(Date.now() / 1000),
-    }, { sk: boardKeys.sk });
-    await publishTaskDeletionRequest(boardKeys, relays, t.id);
+    }, { sk: publisher.sk, awaitRelays: options?.awaitRelays });
+    await publishTaskDeletionRequest(publisher, relays, t.id);
     if (!nostrIdxRef.current.taskClock.has(bTag)) {
       nostrIdxRef.current.taskClock.set(bTag, new Map());
     }
@@ -5204,13 +5868,13 @@ export default function App() {
   async function sendTaskUpsert(
     t: Task,
     board: Board,
-    options?: { skipBoardMetadata?: boolean; nostrTimestamp?: number }
+    options?: { skipBoardMetadata?: boolean; nostrTimestamp?: number; awaitRelays?: boolean }
   ) {
     if (!isShared(board) || !board.nostr) return;
+    const publisher = await resolveBoardPublisher(board.nostr);
+    if (!publisher) return;
     const relays = getBoardRelays(board);
-    const boardId = board.nostr.boardId;
-    const boardKeys = await deriveBoardNostrKeys(boardId);
-    const bTag = boardTag(boardId);
+    const bTag = boardTagFor(board.nostr);
     const status = t.completed ? "done" : "open";
     const colTag = (board.kind === "week") ? (t.column === "bounties" ? "bounties" : "day") : (t.columnId || "");
     const tags: string[][] = [["d", t.id],["b", bTag],["col", String(colTag)],["status", status]];
@@ -5223,17 +5887,18 @@ export default function App() {
     body.documents = (typeof t.documents === 'undefined') ? null : t.documents;
     body.bounty = (typeof t.bounty === 'undefined') ? null : (normalizedBounty ?? null);
     body.subtasks = (typeof t.subtasks === 'undefined') ? null : t.subtasks;
+    body.rev = publishedRevisions(t.fieldRevs);
     if (!options?.skipBoardMetadata) {
       await publishBoardMetadata(board);
     }
     const raw = JSON.stringify(body);
-    const content = await encryptToBoard(boardId, raw);
+    const content = await encryptBoardContent(board.nostr, raw);
     const createdAt = await nostrPublish(relays, {
       kind: 30301,
       tags,
       content,
       created_at: typeof options?.nostrTimestamp === "number" ? options.nostrTimestamp : Math.floor(Date.now() / 1000),
-    }, { sk: boardKeys.sk });
+    }, { sk: publisher.sk, awaitRelays: options?.awaitRelays });
     if (!nostrIdxRef.current.taskClock.has(bTag)) {
       nostrIdxRef.current.taskClock.set(bTag, new Map());
     }
@@ -5250,7 +5915,7 @@ export default function App() {
           removePendingJobById(job.id);
           continue;
         }
-        const bTag = job.boardTag || boardTag(board.nostr.boardId);
+        const bTag = job.boardTag || boardTagFor(board.nostr);
         const isStale = (() => {
           if (!nostrIdxRef.current.taskClock.has(bTag)) return false;
           const clock = nostrIdxRef.current.taskClock.get(bTag)!;
@@ -5265,7 +5930,7 @@ export default function App() {
         }
         try {
           if (job.type === "task") {
-            await sendTaskUpsert(job.task, board, { ...job.options, nostrTimestamp: job.nostrTimestamp });
+            await sendTaskUpsert(job.task, board, { ...job.options, nostrTimestamp: job.nostrTimestamp, awaitRelays: true });
           } else if (job.type === "delete") {
             const snapshot =
               job.taskSnapshot ||
@@ -5276,25 +5941,35 @@ export default function App() {
                 title: "Deleted task",
                 dueISO: new Date().toISOString(),
               } as Task;
-            await sendTaskDeletion(snapshot, board, job.nostrTimestamp);
+            await sendTaskDeletion(snapshot, board, job.nostrTimestamp, { awaitRelays: true });
           } else if (job.type === "delete-batch") {
-            await sendBatchDeletion(board, job.taskIds, job.nostrTimestamp);
+            await sendBatchDeletion(board, job.taskIds, job.nostrTimestamp, { awaitRelays: true });
           }
           removePendingJobById(job.id);
         } catch (err) {
           console.warn("Pending nostr publish failed, will retry", err);
-          schedulePendingProcessing(2500);
+          job.attempts = (job.attempts || 0) + 1;
+          job.lastAttemptAt = Date.now();
+          job.lastError = err instanceof Error ? err.message : String(err);
+          job.relayErrors = err instanceof RelayPublishError
+            ? Object.fromEntries(err.results.filter((r) => !r.ok).map((r) => [r.relay, r.message || "rejected"]))
+            : undefined;
+          persistPendingQueue();
+          bumpPendingNostrVersion();
+          schedulePendingProcessing(
+            Math.min(NOSTR_PENDING_RETRY_MAX_MS, NOSTR_PENDING_RETRY_BASE_MS * 2 ** (job.attempts - 1)),
+          );
           break;
         }
       }
     } finally {
       pendingNostrProcessingRef.current = false;
     }
-  }, [boardsRef, removePendingJobById, schedulePendingProcessing, sendBatchDeletion, sendTaskDeletion, sendTaskUpsert]);
+  }, [boardsRef, bumpPendingNostrVersion, persistPendingQueue, removePendingJobById, schedulePendingProcessing, sendBatchDeletion, sendTaskDeletion, sendTaskUpsert]);
   async function publishTaskDeleted(t: Task) {
     const b = boards.find((x) => x.id === t.boardId);
-    if (!b || !isShared(b) || !b.nostr) return;
-    const bTag = boardTag(b.nostr.boardId);
+    if (!b || !isShared(b) || !b.nostr || b.nostr.access === "view") return;
+    const bTag = boardTagFor(b.nostr);
     setPendingTaskClock(bTag, t.id);
     enqueuePendingJob({
       id: crypto.randomUUID(),
@@ -5312,15 +5987,22 @@ export default function App() {
     options?: { skipBoardMetadata?: boolean }
   ) {
     const b = boardOverride || boards.find((x) => x.id === t.boardId);
-    if (!b || !isShared(b) || !b.nostr) return;
-    const bTag = boardTag(b.nostr.boardId);
+    if (!b || !isShared(b) || !b.nostr || b.nostr.access === "view") return;
+    const bTag = boardTagFor(b.nostr);
+    const stamped = stampFieldRevisions(t, nostrPK ? nostrPK.slice(0, 8) : "local");
+    if (stamped !== t) {
+      // Callers often publish from inside a setTasks updater, so store the revisions afterwards.
+      setTimeout(() => {
+        setTasks((prev) => prev.map((x) => (x.id === t.id && x.boardId === t.boardId ? { ...x, fieldRevs: stamped.fieldRevs } : x)));
+      }, 0);
+    }
     setPendingTaskClock(bTag, t.id);
     enqueuePendingJob({
       id: crypto.randomUUID(),
       type: "task",
       boardId: b.id,
       boardTag: bTag,
-      task: t,
+      task: stamped,
       options,
       nostrTimestamp: Math.floor(Date.now() / 1000),
     });
@@ -5328,6 +6010,15 @@ export default function App() {
 
   maybePublishTaskRef.current = maybePublishTask;
 
+  useEffect(() => {
+    if (!revisionRepublishRef.current.size) return;
+    const keys = revisionRepublishRef.current;
+    revisionRepublishRef.current = new Set();
+    tasks
+      .filter((t) => keys.has(`${t.boardId}:${t.id}`))
+      .forEach((t) => { maybePublishTaskRef.current?.(t).catch(() => {}); });
+  }, [tasks]);
+
   function regenerateBoardId(id: string) {
     let updated: Board | null = null;
     setBoards(prev => prev.map(b => {
@@ -5345,24 +6036,187 @@ export default function App() {
       }, 0);
     }
   }
+  // Move a board to a fresh board ID: publish everything under the new key, delete what the old key
+  // published and privately send the new secret to the people who should keep access.
+  async function rotateBoardKey(id: string, invitees: string[]): Promise<number> {
+    const board = boardsRef.current.find((b) => b.id === id);
+    if (!board?.nostr || !hasFullBoardAccess(board.nostr)) {
+      throw new Error("Only boards you share with a board ID can be rotated.");
+    }
+    if (invitees.length && !privateMessagesSupported()) {
+      throw new Error("This browser cannot send the private messages that re-invite members.");
+    }
+    const previous = board.nostr;
+    const previousKeys = await deriveBoardNostrKeys(previous.boardId);
+    const previousTag = boardTagFor(previous);
+    const recipients = Array.from(new Set(invitees));
+    const sharing: BoardSharing = {
+      ...previous,
+      boardId: crypto.randomUUID(),
+      ...(previous.splitAccess ? { members: recipients.filter((pk) => pk !== nostrPK) } : {}),
+    };
+    const updated = { ...board, nostr: sharing } as Board;
+    const relays = getBoardRelays(updated);
+    setBoards((prev) => prev.map((b) => (b.id === id ? updated : b)));
+
+    const boardTasks = tasksRef.current.filter((t) => t.boardId === id);
+    await publishBoardMetadata(updated, { force: true });
+    for (const task of boardTasks) {
+      await sendTaskUpsert(task, updated, { skipBoardMetadata: true });
+    }
+    const addresses = [
+      `30300:${previousKeys.pk}:${previousTag}`,
+      ...boardTasks.map((t) => `30301:${previousKeys.pk}:${t.id}`),
+    ];
+    for (let i = 0; i < addresses.length; i += 50) {
+      await nostrPublish(relays, {
+        kind: 5,
+        tags: addresses.slice(i, i + 50).map((address) => ["a", address]),
+        content: "Board key rotated",
+        created_at: Math.floor(Date.now() / 1000),
+      }, { sk: previousKeys.sk });
+    }
+
+    // Invites are sealed with our own key, not the old board key: everyone who loses access still
+    // knows that one, so only the sender's identity tells a recipient who moved the board.
+    const nextKeys = await deriveBoardNostrKeys(sharing.boardId);
+    let sent = 0;
+    for (const pk of recipients) {
+      const invitation = previous.splitAccess && pk !== nostrPK
+        ? {
+            share: encodeBoardShareCode({
+              access: "edit",
+              boardPubkey: nextKeys.pk,
+              boardTag: boardTagFor(sharing),
+              viewKey: boardContentKeyFor(sharing),
+              relays,
+              name: updated.name,
+            }),
+          }
+        : { boardId: sharing.boardId, relays };
+      const content = JSON.stringify({ type: BOARD_ROTATION_MESSAGE_TYPE, previousBoard: previousTag, ...invitation });
+      try {
+        const wrapped = await wrapPrivateMessageWithSigner(userSignerRef.current, pk, content);
+        pool.publishEvent(relays, wrapped as unknown as NostrEvent);
+        sent += 1;
+      } catch (err) {
+        console.warn("Failed to send board rotation invite", err);
+      }
+    }
+
+    const impactedCompoundIds = boardsRef.current
+      .filter((b) => b.kind === "compound" && !!b.nostr && b.children.some((childId) => compoundChildMatchesBoard(childId, board)))
+      .map((b) => b.id);
+    if (impactedCompoundIds.length) {
+      setTimeout(() => {
+        impactedCompoundIds.forEach((compoundId) => handleBoardChanged(compoundId));
+      }, 0);
+    }
+    return sent;
+  }
+  // Gift wraps already handled, so reconnects and reloads do not ask the signer to decrypt them again.
+  const boardRotationSeenRef = useRef<Set<string>>(new Set(loadBoardRotationSeen()));
+  const markBoardRotationSeen = useCallback((id: string) => {
+    const seen = boardRotationSeenRef.current;
+    if (seen.has(id)) return;
+    seen.add(id);
+    persistBoardRotationSeen(Array.from(seen));
+  }, []);
+  const applyBoardRotationMessage = useCallback(async (ev: NostrEvent) => {
+    if (boardRotationSeenRef.current.has(ev.id) || boardRotationInvitesRef.current.some((item) => item.id === ev.id)) return;
+    if (!boardsRef.current.some((b) => b.nostr?.boardId)) return;
+    let awaitingAnswer = false;
+    try {
+      const message = await unwrapPrivateMessageWithSigner(ev, userSigner);
+      if (!message) return;
+      let payload: any = null;
+      try { payload = JSON.parse(message.content); } catch { return; }
+      if (payload?.type !== BOARD_ROTATION_MESSAGE_TYPE || typeof payload.previousBoard !== "string") return;
+      const board = boardsRef.current.find((b) => b.nostr?.boardId && boardTagFor(b.nostr) === payload.previousBoard);
+      if (!board?.nostr) return;
+      const relays: string[] = Array.isArray(payload.relays)
+        ? payload.relays.filter((relay: unknown): relay is string => typeof relay === "string" && /^wss?:\/\//i.test(relay))
+        : [];
+      let sharing: BoardSharing | null = null;
+      if (typeof payload.boardId === "string" && payload.boardId.trim()) {
+        sharing = { boardId: payload.boardId.trim(), relays: relays.length ? relays : board.nostr.relays };
+      } else if (typeof payload.share === "string" && !hasFullBoardAccess(board.nostr)) {
+        // A device holding the board ID never trades it for a narrower share code.
+        const code = parseBoardShareCode(payload.share);
+        if (code) {
+          sharing = {
+            boardId: code.boardTag,
+            relays: code.relays.length ? code.relays : board.nostr.relays,
+            access: code.access,
+            boardPubkey: code.boardPubkey,
+            viewKey: code.viewKey,
+          };
+        }
+      }
+      if (!sharing) return;
+      const next = sharing;
+      // Anyone who knew the old board ID can send this, so only our own devices switch the board
+      // without asking.
+      if (message.senderPubkey === nostrPK) {
+        setBoards((prev) => prev.map((b) => (b.id === board.id ? ({ ...b, nostr: next } as Board) : b)));
+        showToast(`"${board.name}" moved to a new board key.`, 3000);
+        return;
+      }
+      const invite: BoardRotationInvite = {
+        id: ev.id,
+        boardId: board.id,
+        previousBoard: payload.previousBoard,
+        senderPubkey: message.senderPubkey,
+        sharing: next,
+      };
+      awaitingAnswer = true;
+      setBoardRotationInvites((prev) => (prev.some((item) => item.id === invite.id) ? prev : [...prev, invite]));
+    } finally {
+      // Invites waiting for an answer are marked once the user accepts or ignores them.
+      if (!awaitingAnswer) markBoardRotationSeen(ev.id);
+    }
+  }, [userSigner, nostrPK, setBoards, showToast, markBoardRotationSeen]);
+  const acceptBoardRotationInvite = useCallback((invite: BoardRotationInvite) => {
+    const board = boardsRef.current.find((b) => b.id === invite.boardId);
+    if (board?.nostr && boardTagFor(board.nostr) === invite.previousBoard) {
+      setBoards((prev) => prev.map((b) => (b.id === invite.boardId ? ({ ...b, nostr: invite.sharing } as Board) : b)));
+      showToast(`"${board.name}" moved to a new board key.`, 3000);
+    }
+    // Other invites for the same board are stale once it has moved.
+    boardRotationInvitesRef.current
+      .filter((item) => item.boardId === invite.boardId)
+      .forEach((item) => markBoardRotationSeen(item.id));
+    setBoardRotationInvites((prev) => prev.filter((item) => item.boardId !== invite.boardId));
+  }, [setBoards, showToast, markBoardRotationSeen]);
+  const dismissBoardRotationInvites = useCallback((ids: string[]) => {
+    ids.forEach((id) => markBoardRotationSeen(id));
+    setBoardRotationInvites((prev) => prev.filter((item) => !ids.includes(item.id)));
+  }, [markBoardRotationSeen]);
   const applyBoardEvent = useCallback(async (ev: NostrEvent) => {
     const d = tagValue(ev, "d");
     if (!d) return;
-    const board = boardsRef.current.find((b) => b.nostr?.boardId && boardTag(b.nostr.boardId) === d);
+    const board = boardsRef.current.find((b) => b.nostr?.boardId && boardTagFor(b.nostr) === d);
     if (!board || !board.nostr) return;
-    const boardId = board.nostr.boardId;
+    const sharing = board.nostr;
     const migrationState = ensureMigrationState(d);
-    let isDedicated = true;
-    try {
-      const boardKeys = await deriveBoardNostrKeys(boardId);
-      isDedicated = ev.pubkey === boardKeys.pk;
-    } catch {
-      isDedicated = true; // fall back to accepting events if derivation fails
-    }
-    if (isDedicated) migrationState.dedicatedSeen = true;
-    else {
-      migrationState.legacySeen = true;
-      if (migrationState.dedicatedSeen) return;
+    if (isSplitAccessBoard(sharing)) {
+      // Only the board key may change the metadata, and with it the member list.
+      const boardPubkey = await boardPubkeyFor(sharing).catch(() => "");
+      if (!boardPubkey || ev.pubkey !== boardPubkey) return;
+      migrationState.dedicatedSeen = true;
+    } else {
+      let isDedicated = true;
+      try {
+        const boardKeys = await deriveBoardNostrKeys(sharing.boardId);
+        isDedicated = ev.pubkey === boardKeys.pk;
+      } catch {
+        isDedicated = true; // fall back to accepting events if derivation fails
+      }
+      if (isDedicated) migrationState.dedicatedSeen = true;
+      else {
+        migrationState.legacySeen = true;
+        if (migrationState.dedicatedSeen) return;
+      }
     }
     const last = nostrIdxRef.current.boardMeta.get(d) || 0;
     if (ev.created_at < last) return;
@@ -5370,13 +6224,18 @@ export default function App() {
     nostrIdxRef.current.boardMeta.set(d, ev.created_at);
     const kindTag = tagValue(ev, "k");
     const name = tagValue(ev, "name");
+    const splitAccess = tagValue(ev, "access") === "split";
     let payload: any = {};
     try {
-      const dec = await decryptFromBoard(boardId, ev.content);
+      const dec = await decryptBoardContent(sharing, ev.content);
       payload = dec ? JSON.parse(dec) : {};
     } catch {
       try { payload = ev.content ? JSON.parse(ev.content) : {}; } catch {}
     }
+    const members: string[] | undefined = splitAccess && Array.isArray(payload?.members)
+      ? payload.members.filter((member: unknown): member is string => typeof member === "string" && /^[0-9a-f]{64}$/.test(member))
+      : undefined;
+    const membersChanged = !!members && (sharing.members ?? []).join(",") !== members.join(",");
     setBoards((prev) => {
       const boardIndex = prev.findIndex((item) => item.id === board.id);
       if (boardIndex === -1) return prev;
@@ -5384,6 +6243,14 @@ export default function App() {
       let working = prev.slice();
       const current = working[boardIndex];
       const nm = name || current.name;
+      let nextNostr = current.nostr;
+      if (nextNostr && splitAccess) {
+        nextNostr = {
+          ...nextNostr,
+          ...(hasFullBoardAccess(nextNostr) ? { splitAccess: true } : {}),
+          members: members ?? [],
+        };
+      }
       const clearCompletedDisabled =
         typeof payload?.clearCompletedDisabled === "boolean"
           ? payload.clearCompletedDisabled
@@ -5428,7 +6295,7 @@ export default function App() {
           const next: Board = {
             id: current.id,
             name: nm,
-            nostr: current.nostr,
+            nostr: nextNostr,
             kind: "week",
             archived: current.archived,
             hidden: current.hidden,
@@ -5445,7 +6312,7 @@ export default function App() {
           const next: Board = {
             id: current.id,
             name: nm,
-            nostr: current.nostr,
+            nostr: nextNostr,
             kind: "lists",
             columns: cols,
             archived: current.archived,
@@ -5481,7 +6348,7 @@ export default function App() {
           const next: Board = {
             id: current.id,
             name: nm,
-            nostr: current.nostr,
+            nostr: nextNostr,
             kind: "compound",
             children,
             archived: current.archived,
@@ -5495,6 +6362,7 @@ export default function App() {
         const next: Board = {
           ...current,
           name: nm,
+          nostr: nextNostr,
           clearCompletedDisabled,
           ...(current.kind === "lists" || current.kind === "compound"
             ? {
@@ -5519,46 +6387,58 @@ export default function App() {
       working[targetIndex] = updatedBoard;
       return working;
     });
+    // Tasks from newly listed editors were skipped so far; resubscribing replays them.
+    if (membersChanged) setNostrRefresh((n) => n + 1);
   }, [setBoards, tagValue, defaultRelays]);
   const applyTaskEvent = useCallback(async (ev: NostrEvent) => {
     const bTag = tagValue(ev, "b");
     const taskId = tagValue(ev, "d");
     if (!bTag || !taskId) return;
-    const lb = boardsRef.current.find((b) => b.nostr?.boardId && boardTag(b.nostr.boardId) === bTag);
+    const lb = boardsRef.current.find((b) => b.nostr?.boardId && boardTagFor(b.nostr) === bTag);
     if (!lb || !lb.nostr) return;
-    const boardId = lb.nostr.boardId;
+    const sharing = lb.nostr;
     const migrationState = ensureMigrationState(bTag);
-    let isDedicated = true;
-    try {
-      const boardKeys = await deriveBoardNostrKeys(boardId);
-      isDedicated = ev.pubkey === boardKeys.pk;
-    } catch {
-      isDedicated = true;
-    }
-    if (isDedicated) migrationState.dedicatedSeen = true;
-    else {
-      migrationState.legacySeen = true;
-      if (migrationState.dedicatedSeen) return;
+    if (isSplitAccessBoard(sharing)) {
+      const boardPubkey = await boardPubkeyFor(sharing).catch(() => "");
+      if (ev.pubkey !== boardPubkey && !(sharing.members ?? []).includes(ev.pubkey)) return;
+      migrationState.dedicatedSeen = true;
+    } else {
+      let isDedicated = true;
+      try {
+        const boardKeys = await deriveBoardNostrKeys(sharing.boardId);
+        isDedicated = ev.pubkey === boardKeys.pk;
+      } catch {
+        isDedicated = true;
+      }
+      if (isDedicated) migrationState.dedicatedSeen = true;
+      else {
+        migrationState.legacySeen = true;
+        if (migrationState.dedicatedSeen) return;
+      }
     }
     if (!nostrIdxRef.current.taskClock.has(bTag)) nostrIdxRef.current.taskClock.set(bTag, new Map());
     const m = nostrIdxRef.current.taskClock.get(bTag)!;
     const last = m.get(taskId) || 0;
     const pendingTs = pendingTimestampForTask(bTag, taskId);
-    if (pendingTs && ev.created_at <= pendingTs) return;
-    if (ev.created_at < last) return;
-    if (pendingTs && ev.created_at > pendingTs) {
-      dropStalePendingForTask(bTag, taskId, ev.created_at);
-    }
-    // Accept equal timestamps so rapid consecutive updates still apply
-    m.set(taskId, ev.created_at);
 
     let payload: any = {};
     try {
-      const dec = await decryptFromBoard(boardId, ev.content);
+      const dec = await decryptBoardContent(sharing, ev.content);
       payload = dec ? JSON.parse(dec) : {};
     } catch {
       try { payload = ev.content ? JSON.parse(ev.content) : {}; } catch {}
     }
+    // Events with field revisions still merge when older, so edits made concurrently to other fields survive.
+    const incomingRevs = parsePublishedRevisions(payload?.rev);
+    const isLatest = !(pendingTs && ev.created_at <= pendingTs) && ev.created_at >= last;
+    if (!isLatest && !incomingRevs) return;
+    if (isLatest) {
+      if (pendingTs && ev.created_at > pendingTs) {
+        dropStalePendingForTask(bTag, taskId, ev.created_at);
+      }
+      // Accept equal timestamps so rapid consecutive updates still apply
+      m.set(taskId, ev.created_at);
+    }
     const status = tagValue(ev, "status");
     const col = tagValue(ev, "col");
     const hasDueTimeField = Object.prototype.hasOwnProperty.call(payload, 'dueTimeEnabled');
@@ -5590,6 +6470,7 @@ export default function App() {
     setTasks(prev => {
       const idx = prev.findIndex(x => x.id === taskId && x.boardId === lb.id);
       if (status === "deleted") {
+        if (!isLatest) return prev;
         return idx >= 0 ? prev.filter((_,i)=>i!==idx) : prev;
       }
       // Improved bounty merge with clocks and auth; incoming may be null (explicit removal)
@@ -5665,9 +6546,25 @@ export default function App() {
             : incomingLongest;
         const incomingSubs: Subtask[] | null | undefined = Object.prototype.hasOwnProperty.call(payload, 'subtasks') ? payload.subtasks : undefined;
         const mergedSubs = incomingSubs === undefined ? current.subtasks : incomingSubs === null ? undefined : incomingSubs;
-        copy[idx] = { ...current, ...base, order: newOrder, images: mergedImages, documents: mergedDocuments, bounty: mergeBounty(current.bounty, incomingB as any), streak: newStreak, longestStreak: newLongest, subtasks: mergedSubs };
-        return copy;
+        let next: Task = isLatest
+          ? { ...current, ...base, order: newOrder, images: mergedImages, documents: mergedDocuments, bounty: mergeBounty(current.bounty, incomingB as any), streak: newStreak, longestStreak: newLongest, subtasks: mergedSubs, fieldRevs: undefined }
+          : current;
+        if (incomingRevs) {
+          const merge = mergeFieldRevisions(current, { ...current, ...base, subtasks: mergedSubs }, incomingRevs);
+          next = { ...next, ...merge.fields, fieldRevs: merge.fieldRevs };
+          if (merge.conflicts.length) {
+            const fields = Array.from(new Set([...(current.syncConflict?.fields ?? []), ...merge.conflicts]));
+            next.syncConflict = { fields, detectedAt: new Date().toISOString() };
+          }
+          // Republish when the relays' newest copy is missing values this device has merged.
+          if (isLatest ? merge.localAhead : merge.remoteAhead) {
+            revisionRepublishRef.current.add(`${lb.id}:${taskId}`);
+          }
+        }
+        copy[idx] = next;
+        return copy;
       } else {
+        if (!isLatest) return prev;
         const incomingB: Task["bounty"] | null | undefined = Object.prototype.hasOwnProperty.call(payload, 'bounty') ? payload.bounty : undefined;
         const incomingImgs: string[] | null | undefined = Object.prototype.hasOwnProperty.call(payload, 'images') ? payload.images : undefined;
         const imgs = incomingImgs === null ? undefined : Array.isArray(incomingImgs) ? incomingImgs : undefined;
@@ -5689,7 +6586,9 @@ export default function App() {
         const subs = incomingSubs === null ? undefined : Array.isArray(incomingSubs) ? incomingSubs : undefined;
         const newOrder = typeof base.order === 'number' ? base.order : 0;
         const normalizedIncoming = incomingB === null ? undefined : normalizeBounty(incomingB);
-        return [...prev, { ...base, order: newOrder, images: imgs, documents: docs, bounty: normalizedIncoming, streak: st, longestStreak: longest, subtasks: subs }];
+        const added: Task = { ...base, order: newOrder, images: imgs, documents: docs, bounty: normalizedIncoming, streak: st, longestStreak: longest, subtasks: subs };
+        if (incomingRevs) added.fieldRevs = adoptPublishedRevisions(added, incomingRevs);
+        return [...prev, added];
       }
     });
   }, [dropStalePendingForTask, ensureMigrationState, pendingTimestampForTask, setTasks, tagValue]);
@@ -5697,8 +6596,8 @@ export default function App() {
   const maybeMigrateBoardToDedicatedKey = useCallback(async (bTag: string) => {
     const state = ensureMigrationState(bTag);
     if (state.dedicatedSeen || state.migrationAttempted || !state.legacySeen) return;
-    const board = boardsRef.current.find((b) => b.nostr?.boardId && boardTag(b.nostr.boardId) === bTag);
-    if (!board || !board.nostr) return;
+    const board = boardsRef.current.find((b) => b.nostr?.boardId && boardTagFor(b.nostr) === bTag);
+    if (!board || !board.nostr || !hasFullBoardAccess(board.nostr) || board.nostr.splitAccess) return;
     state.migrationAttempted = true;
     try {
       await publishBoardMetadata(board, { force: true });
@@ -5815,7 +6714,11 @@ export default function App() {
         subscription = await subscribeWithRecovery(registration, applicationServerKey);
       }
 
-      const deviceId = settings.pushNotifications.deviceId || crypto.randomUUID();
+      // Each profile registers its own device; older registrations may share one with another profile.
+      const storedDeviceId = settings.pushNotifications.deviceId;
+      const deviceId = storedDeviceId && !otherProfilePushDeviceIds().has(storedDeviceId)
+        ? storedDeviceId
+        : crypto.randomUUID();
       const subscriptionJson = subscription.toJSON();
       const normalizedPlatform: PushPlatform = platform === 'android' ? 'android' : 'ios';
 
@@ -5848,20 +6751,27 @@ export default function App() {
         permission,
       };
 
+      // A re-registered device starts with default delivery preferences on the worker.
+      if (updated.delivery) {
+        updated.delivery = await saveDeliveryPreferencesToWorker(workerBaseUrl, resolvedDeviceId, updated.delivery);
+      }
+      try {
+        updated.accountPubkey = await linkDeviceToAccount(workerBaseUrl, resolvedDeviceId);
+      } catch (err) {
+        // Reminders still reach this device; linking is retried in the background.
+        console.warn('Linking device to account failed', err);
+        updated.accountPubkey = undefined;
+      }
+
       const reminderTasks = tasks.filter(taskHasReminders);
-      const remindersPayloadString = JSON.stringify(
-        reminderTasks
-          .map((task) => ({
-            taskId: task.id,
-            boardId: task.boardId,
-            dueISO: task.dueISO,
-            title: task.title,
-            minutesBefore: (task.reminders ?? []).map(reminderPresetToMinutes).sort((a, b) => a - b),
-          }))
-          .sort((a, b) => a.taskId.localeCompare(b.taskId)),
-      );
+      const agenda = buildAgendaPayload(tasks, updated);
+      const remindersPayloadString = JSON.stringify({
+        reminders: buildReminderPayload(reminderTasks, reminderBoardScopes),
+        agenda,
+        accountPubkey: updated.accountPubkey,
+      });
       reminderPayloadRef.current = remindersPayloadString;
-      await syncRemindersToWorker(workerBaseUrl, updated, reminderTasks);
+      await syncRemindersToWorker(workerBaseUrl, updated, reminderTasks, { agenda, boardScopes: reminderBoardScopes });
 
       setSettings({ pushNotifications: updated });
     } catch (err) {
@@ -5881,7 +6791,9 @@ export default function App() {
     setPushWorkState('disabling');
     setPushError(null);
     try {
-      if ('serviceWorker' in navigator) {
+      // The browser has one push subscription; other profiles' devices on the worker still use it.
+      const otherDeviceIds = otherProfilePushDeviceIds();
+      if ('serviceWorker' in navigator && !otherDeviceIds.size) {
         try {
           let registration: ServiceWorkerRegistration | null | undefined = undefined;
           if (typeof navigator.serviceWorker.getRegistration === 'function') {
@@ -5903,9 +6815,10 @@ export default function App() {
         } catch {}
       }
 
-      if (workerBaseUrl && settings.pushNotifications.deviceId) {
+      const deviceId = settings.pushNotifications.deviceId;
+      if (workerBaseUrl && deviceId && !otherDeviceIds.has(deviceId)) {
         try {
-          await fetch(`${workerBaseUrl}/api/devices/${settings.pushNotifications.deviceId}`, {
+          await fetch(`${workerBaseUrl}/api/devices/${deviceId}`, {
             method: 'DELETE',
           });
         } catch {}
@@ -5920,6 +6833,7 @@ export default function App() {
           ...settings.pushNotifications,
           enabled: false,
           subscriptionId: undefined,
+          accountPubkey: undefined,
           permission,
         },
       });
@@ -6028,8 +6942,17 @@ export default function App() {
       return null;
     }
   }
+  function blockViewOnlyEdit(boardId: string | undefined): boolean {
+    const board = boardId ? boards.find((b) => b.id === boardId) : undefined;
+    if (board?.nostr?.access !== "view") return false;
+    showToast("This board is view-only.");
+    return true;
+  }
+  function blockViewOnlyTaskEdit(taskId: string): boolean {
+    return blockViewOnlyEdit(tasks.find((t) => t.id === taskId)?.boardId);
+  }
   function addInlineTask(key: string) {
-    if (!currentBoard) return;
+    if (!currentBoard || blockViewOnlyEdit(currentBoard.id)) return;
     const raw = (inlineTitles[key] || "").trim();
     if (!raw) return;
 
@@ -6116,6 +7039,7 @@ export default function App() {
     id: string,
     options?: { skipScriptureMemoryUpdate?: boolean }
   ): CompleteTaskResult {
+    if (blockViewOnlyTaskEdit(id)) return null;
     let memoryUpdate: ScriptureMemoryUpdate | null = null;
     let scheduledUpdate: { entryId: string; scheduledAtISO: string } | null = null;
     const scriptureStateSnapshot = scriptureMemory;
@@ -6301,6 +7225,7 @@ export default function App() {
   }
 
   function toggleSubtask(taskId: string, subId: string) {
+    if (blockViewOnlyTaskEdit(taskId)) return;
     setTasks(prev =>
       prev.map((t) => {
         if (t.id !== taskId) return t;
@@ -6315,10 +7240,37 @@ export default function App() {
   }
 
   completeTaskRef.current = completeTask;
+  const pushDeviceIdRef = useRef(settings.pushNotifications.deviceId);
+  pushDeviceIdRef.current = settings.pushNotifications.deviceId;
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const applyQueuedCompletions = async () => {
+      // Untagged entries come from older service workers; claim them when the task is ours.
+      const queued = await drainQueuedTaskCompletions((entry) => (
+        entry.deviceId
+          ? entry.deviceId === pushDeviceIdRef.current
+          : tasksRef.current.some((t) => t.id === entry.taskId)
+      ));
+      for (const entry of queued) {
+        const task = tasksRef.current.find((t) => t.id === entry.taskId);
+        if (!task || task.completed) continue;
+        completeTaskRef.current?.(entry.taskId);
+      }
+    };
+    applyQueuedCompletions();
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === COMPLETIONS_QUEUED_MESSAGE) {
+        applyQueuedCompletions();
+      }
+    };
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    return () => navigator.serviceWorker?.removeEventListener("message", handleMessage);
+  }, []);
 
   function deleteTask(id: string) {
     const t = tasks.find(x => x.id === id);
-    if (!t) return;
+    if (!t || blockViewOnlyEdit(t.boardId)) return;
     if (t.bounty) {
       alert('Tasks with an ecash bounty cannot be deleted. Remove the bounty first.');
       return;
@@ -6372,7 +7324,7 @@ export default function App() {
 
   function restoreTask(id: string) {
     const t = tasks.find((x) => x.id === id);
-    if (!t) return;
+    if (!t || blockViewOnlyEdit(t.boardId)) return;
     const toPublish: Task[] = [];
     const recurringStreak =
       settings.streaksEnabled &&
@@ -6451,12 +7403,13 @@ export default function App() {
     if (currentBoard?.kind === "bible" || currentBoard?.clearCompletedDisabled) {
       return;
     }
+    if (blockViewOnlyEdit(currentBoard?.id)) return;
     const scope = currentBoard ? new Set(boardScopeIds(currentBoard, boards)) : null;
     const deletable = tasksForBoard.filter(
       (t) => t.completed && (!t.bounty || t.bounty.state === "claimed")
     );
     if (currentBoard?.nostr && deletable.length) {
-      const bTag = boardTag(currentBoard.nostr.boardId);
+      const bTag = boardTagFor(currentBoard.nostr);
       deletable.forEach((t) => setPendingTaskClock(bTag, t.id));
       enqueuePendingJob({
         id: crypto.randomUUID(),
@@ -6481,6 +7434,7 @@ export default function App() {
   }
 
   function postponeTaskOneWeek(id: string) {
+    if (blockViewOnlyTaskEdit(id)) return;
     let updated: Task | undefined;
     setTasks(prev => prev.map(t => {
       if (t.id !== id) return t;
@@ -6633,6 +7587,10 @@ export default function App() {
   }
 
   function saveEdit(updated: Task) {
+    if (blockViewOnlyEdit(updated.boardId)) {
+      setEditing(null);
+      return;
+    }
     setTasks(prev => {
       let edited: Task | null = null;
       const arr = prev.map(t => {
@@ -6673,6 +7631,7 @@ export default function App() {
       | { type: "list"; columnId: string },
     beforeId?: string
   ) {
+    if (blockViewOnlyTaskEdit(id)) return;
     setTasks(prev => {
       const arr = [...prev];
       const fromIdx = arr.findIndex(t => t.id === id);
@@ -6812,6 +7771,7 @@ export default function App() {
   }
 
   function moveTaskToBoard(id: string, boardId: string) {
+    if (blockViewOnlyTaskEdit(id) || blockViewOnlyEdit(boardId)) return;
     setTasks(prev => {
       const arr = [...prev];
       const fromIdx = arr.findIndex(t => t.id === id);
@@ -6895,7 +7855,7 @@ export default function App() {
   const nostrBoardsKey = useMemo(() => {
     const items = boards
       .filter(b => b.nostr?.boardId)
-      .map(b => ({ id: boardTag(b.nostr!.boardId), relays: getBoardRelays(b).join(",") }))
+      .map(b => ({ id: boardTagFor(b.nostr!), relays: getBoardRelays(b).join(",") }))
       .sort((a,b) => (a.id + a.relays).localeCompare(b.id + b.relays));
     return JSON.stringify(items);
   }, [boards, getBoardRelays]);
@@ -6909,29 +7869,91 @@ export default function App() {
     let parsed: Array<{id:string; relays:string}> = [];
     try { parsed = JSON.parse(nostrBoardsKey || "[]"); } catch {}
     const unsubs: Array<() => void> = [];
+    let cancelled = false;
+    const apply = (ev: NostrEvent) => {
+      if (ev.kind === 30300) enqueueNostrApply(() => applyBoardEvent(ev)).catch(() => {});
+      else if (ev.kind === 30301) enqueueNostrApply(() => applyTaskEvent(ev)).catch(() => {});
+    };
     for (const it of parsed) {
       const rls = it.relays.split(",").filter(Boolean);
       if (!rls.length) continue;
       pool.setRelays(rls);
       ensureMigrationState(it.id);
+      const startedAt = Math.floor(Date.now() / 1000);
+      const historyFilter = { kinds: [30300, 30301], "#b": [it.id] };
+      // Live updates only; history before now is paged in per relay below.
       const filters = [
-        { kinds: [30300, 30301], "#b": [it.id], limit: 500 },
+        { ...historyFilter, since: startedAt },
         { kinds: [30300], "#d": [it.id], limit: 1 },
       ];
-      const unsub = pool.subscribe(rls, filters, (ev) => {
-        if (ev.kind === 30300) enqueueNostrApply(() => applyBoardEvent(ev)).catch(() => {});
-        else if (ev.kind === 30301) enqueueNostrApply(() => applyTaskEvent(ev)).catch(() => {});
-      }, () => {
+      const caughtUp = new Set<string>();
+      const unsub = pool.subscribe(rls, filters, (ev, from) => {
+        apply(ev);
+        if (caughtUp.has(from)) saveHistoryCursor(it.id, from, ev.created_at);
+      });
+      unsubs.push(unsub);
+      const progress = new Map<string, HistoryProgress>();
+      const firstSync = rls.some((relay) => loadHistoryCursor(it.id, relay) === null);
+      Promise.all(rls.map(async (relay) => {
+        const cursor = loadHistoryCursor(it.id, relay);
+        const newest = await backfillHistory({
+          subscribe: pool.subscribe,
+          relay,
+          filter: historyFilter,
+          since: cursor === null ? undefined : Math.max(0, cursor - HISTORY_SYNC_OVERLAP_SECONDS),
+          onEvent: apply,
+          onProgress: (p) => {
+            progress.set(relay, p);
+            if (!firstSync || p.loaded < HISTORY_PAGE_SIZE) return;
+            const values = Array.from(progress.values());
+            const oldest = Math.min(...values.map((v) => v.oldest ?? Number.POSITIVE_INFINITY));
+            setHistorySync((prev) => ({
+              ...prev,
+              [it.id]: { loaded: Math.max(...values.map((v) => v.loaded)), oldest: Number.isFinite(oldest) ? oldest : undefined },
+            }));
+          },
+          isCancelled: () => cancelled,
+        });
+        if (newest === null) return;
+        // Everything up to the start of this sync has now been read from this relay.
+        saveHistoryCursor(it.id, relay, Math.max(newest, startedAt));
+        caughtUp.add(relay);
+      })).then(() => {
+        if (cancelled) return;
+        setHistorySync((prev) => {
+          if (!prev[it.id]) return prev;
+          const next = { ...prev };
+          delete next[it.id];
+          return next;
+        });
         // After initial sync, migrate legacy authors to the per-board key if needed.
         nostrApplyQueue.current.catch(() => {}).then(() => {
           setTimeout(() => migrateBoardRef.current(it.id), NOSTR_MIGRATION_BUFFER_MS);
         });
       });
-      unsubs.push(unsub);
     }
-    return () => { unsubs.forEach(u => u()); };
+    return () => {
+      cancelled = true;
+      unsubs.forEach(u => u());
+    };
   }, [nostrBoardsKey, pool, applyBoardEvent, applyTaskEvent, nostrRefresh, ensureMigrationState, migrateBoardRef, enqueueNostrApply]);
 
+  useEffect(() => {
+    if (!nostrPK) return;
+    let parsed: Array<{id:string; relays:string}> = [];
+    try { parsed = JSON.parse(nostrBoardsKey || "[]"); } catch {}
+    const relays = Array.from(new Set(parsed.flatMap((it) => it.relays.split(",").filter(Boolean))));
+    if (!relays.length) return;
+    const since = Math.floor(Date.now() / 1000) - BOARD_ROTATION_LOOKBACK_SECONDS;
+    // Wraps carry nothing but the recipient in public, so each one addressed to us is opened once and
+    // then remembered in the seen set.
+    const filter = { kinds: [GIFT_WRAP_KIND], "#p": [nostrPK], since };
+    const unsub = pool.subscribe(relays, [filter], (ev) => {
+      enqueueNostrApply(() => applyBoardRotationMessage(ev)).catch(() => {});
+    });
+    return () => { unsub(); };
+  }, [nostrBoardsKey, pool, nostrPK, applyBoardRotationMessage, enqueueNostrApply]);
+
   // horizontal scroller ref to enable iOS momentum scrolling
   const scrollerRef = useRef<HTMLDivElement>(null);
   const bibleScrollerRef = useRef<HTMLDivElement>(null);
@@ -7144,6 +8166,7 @@ export default function App() {
   const currentTutorial = tutorialStep != null ? tutorialSteps[tutorialStep] : null;
   const totalTutorialSteps = tutorialSteps.length;
   const activeView = !settings.completedTab && view === "completed" ? "board" : view;
+  const currentHistorySync = currentBoard?.nostr?.boardId ? historySync[boardTagFor(currentBoard.nostr)] : undefined;
 
   return (
     <div className="min-h-screen px-4 py-4 sm:px-6 lg:px-8 text-primary">
@@ -7152,9 +8175,30 @@ export default function App() {
         <header className="relative space-y-3">
           <div className="flex flex-wrap items-end gap-3">
             <div className="flex flex-col gap-1 justify-end -translate-y-[2px]">
-              <h1 className="text-3xl font-semibold tracking-tight">
-                Taskify
-              </h1>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-semibold tracking-tight">
+                  Taskify
+                </h1>
+                <ProfileSwitcher onSwitch={switchToProfile} onDelete={deleteProfileAndDevice} />
+                {pendingNostrQueueRef.current.length > 0 && (
+                  <button
+                    type="button"
+                    className="chip chip-warn pressable"
+                    onClick={() => setShowSyncStatus(true)}
+                    title="Changes waiting to reach relays"
+                  >
+                    {pendingNostrQueueRef.current.length} unsynced
+                  </button>
+                )}
+                {currentHistorySync && (
+                  <span className="text-xs text-secondary" role="status">
+                    Loading history… {currentHistorySync.loaded.toLocaleString()} events
+                    {currentHistorySync.oldest
+                      ? ` back to ${new Date(currentHistorySync.oldest * 1000).toLocaleDateString()}`
+                      : ""}
+                  </span>
+                )}
+              </div>
               <div
                 ref={boardDropContainerRef}
                 className="relative min-w-0 sm:min-w-[12rem]"
@@ -8139,7 +9183,50 @@ export default function App() {
         </Modal>
       )}
 
+      {boardRotationInvites.length > 0 && (
+        <Modal onClose={() => dismissBoardRotationInvites(boardRotationInvites.map((invite) => invite.id))} title="Board key changes">
+          <div className="space-y-3 text-sm">
+            <div className="text-secondary">
+              Someone says these boards moved to a new key. Only accept an invite from the person who manages the board;
+              anyone who could open the board before may have sent it.
+            </div>
+            {boardRotationInvites.map((invite) => {
+              const boardName = boards.find((b) => b.id === invite.boardId)?.name ?? "Board";
+              return (
+                <div key={invite.id} className="p-2 rounded-lg bg-surface-muted border border-surface space-y-2">
+                  <div className="font-medium">{boardName}</div>
+                  <div className="text-xs text-secondary break-all">From {formatPubkeyForDisplay(invite.senderPubkey)}</div>
+                  <div className="flex gap-2">
+                    <button className="accent-button button-sm pressable" onClick={() => acceptBoardRotationInvite(invite)}>
+                      Switch board
+                    </button>
+                    <button className="ghost-button button-sm pressable" onClick={() => dismissBoardRotationInvites([invite.id])}>
+                      Ignore
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Modal>
+      )}
+
       {/* Settings (Week start + Manage Boards & Columns) */}
+      {showSyncStatus && (
+        <SyncStatusModal
+          jobs={pendingNostrQueueRef.current}
+          boards={boards}
+          relaysForBoard={getBoardRelays}
+          onRetry={retryPendingJob}
+          onDiscard={removePendingJobById}
+          onRepublishBoard={(boardId) => {
+            handleBoardChanged(boardId, { republishTasks: true });
+            showToast("Republishing board");
+          }}
+          onClose={() => setShowSyncStatus(false)}
+        />
+      )}
+
       {showSettings && (
         <SettingsModal
           settings={settings}
@@ -8152,8 +9239,14 @@ export default function App() {
           bountyListOptions={bountyListOptions}
           shouldReloadForNavigation={shouldReloadForNavigation}
           defaultRelays={defaultRelays}
+          relayHealth={relayHealth}
+          relayAuthPrefs={relayAuthPrefs}
+          onRelayAuthPreferenceChange={updateRelayAuthPreference}
           setDefaultRelays={setDefaultRelays}
           pubkeyHex={nostrPK}
+          signer={userSigner}
+          onSignerChange={activateUserSigner}
+          onUseLocalKey={() => activateUserSigner(resetToLocalSigner())}
           onGenerateKey={rotateNostrKey}
           onSetKey={setCustomNostrKey}
           onRestartTutorial={handleRestartTutorial}
@@ -8164,6 +9257,10 @@ export default function App() {
           workerBaseUrl={workerBaseUrl}
           vapidPublicKey={vapidPublicKey}
           onResetWalletTokenTracking={handleResetWalletTokenTracking}
+          onTasksCompacted={(boardId, taskIds) => {
+            const ids = new Set(taskIds);
+            setTasks((prev) => prev.filter((t) => t.boardId !== boardId || !ids.has(t.id)));
+          }}
           onShareBoard={(boardId, relayCsv) => {
             const r = (relayCsv || "").split(",").map(s=>s.trim()).filter(Boolean);
             const relays = r.length ? r : defaultRelays;
@@ -8230,9 +9327,50 @@ export default function App() {
             });
             changeBoard(id);
           }}
+          onJoinBoardShare={(code) => {
+            if (shouldReloadForNavigation()) return;
+            const existing = boards.find(
+              (b) => b.id === code.boardTag || (b.nostr?.boardId && boardTagFor(b.nostr) === code.boardTag),
+            );
+            // Holding the board ID already grants more than any share code.
+            if (existing?.nostr && hasFullBoardAccess(existing.nostr)) {
+              changeBoard(existing.id);
+              return;
+            }
+            const sharing: BoardSharing = {
+              boardId: code.boardTag,
+              relays: code.relays.length ? code.relays : defaultRelays,
+              access: code.access,
+              boardPubkey: code.boardPubkey,
+              viewKey: code.viewKey,
+              members: existing?.nostr?.members,
+            };
+            const id = existing?.id || code.boardTag;
+            setBoards((prev) => {
+              if (prev.some((b) => b.id === id)) {
+                return prev.map((b) => (b.id === id ? { ...b, nostr: sharing, archived: false, hidden: false } as Board : b));
+              }
+              const newBoard: Board = {
+                id,
+                name: code.name || "Shared Board",
+                kind: "lists",
+                columns: [{ id: crypto.randomUUID(), name: "Items" }],
+                nostr: sharing,
+                archived: false,
+                hidden: false,
+                clearCompletedDisabled: false,
+                indexCardEnabled: false,
+              };
+              return [...prev, newBoard];
+            });
+            changeBoard(id);
+          }}
           onRegenerateBoardId={regenerateBoardId}
+          onRotateBoardKey={rotateBoardKey}
           onBoardChanged={handleBoardChanged}
           onClose={() => setShowSettingsState(false)}
+          pendingJoinLink={pendingJoinLink}
+          onPendingJoinLinkHandled={handlePendingJoinLinkHandled}
         />
       )}
 
@@ -8290,32 +9428,128 @@ function nextOrderForBoard(
   return boardTasks.reduce((max, task) => Math.max(max, task.order ?? -1), -1) + 1;
 }
 
-async function syncRemindersToWorker(
-  workerBaseUrl: string,
-  push: PushPreferences,
-  reminderTasks: Task[],
-  options?: { signal?: AbortSignal }
-): Promise<void> {
-  if (!workerBaseUrl) throw new Error("Worker base URL is not configured");
-  if (!push.deviceId || !push.subscriptionId) return;
-  const remindersPayload = reminderTasks
+// Shared boards have a different local id on each device; the worker needs the nostr board id to merge
+// reminder sets from all devices linked to one account.
+function buildReminderBoardScopes(boards: Board[]): Map<string, string> {
+  return new Map(boards.map((board) => [board.id, board.nostr?.boardId || board.id]));
+}
+
+function buildReminderPayload(reminderTasks: Task[], boardScopes?: Map<string, string>) {
+  return reminderTasks
     .map((task) => ({
       taskId: task.id,
-      boardId: task.boardId,
+      boardId: boardScopes?.get(task.boardId) ?? task.boardId,
       dueISO: task.dueISO,
       title: task.title,
       minutesBefore: (task.reminders ?? [])
         .map(reminderPresetToMinutes)
         .sort((a, b) => a - b),
+      ...(task.recurrence && task.recurrence.type !== "none" ? { recurrence: task.recurrence } : {}),
     }))
     .sort((a, b) => a.taskId.localeCompare(b.taskId));
+}
+
+// Open tasks due from yesterday through the next week, so the worker can build a morning agenda offline.
+function buildAgendaPayload(tasks: Task[], push: PushPreferences, now = new Date()) {
+  if (!push.delivery?.agenda.enabled) return [];
+  const from = startOfDay(now).getTime() - 86400000;
+  const to = from + (AGENDA_LOOKAHEAD_DAYS + 1) * 86400000;
+  return tasks
+    .filter((task) => {
+      if (task.completed) return false;
+      const due = Date.parse(task.dueISO);
+      return !Number.isNaN(due) && due >= from && due < to;
+    })
+    .map((task) => ({ taskId: task.id, boardId: task.boardId, title: task.title, dueISO: task.dueISO }))
+    .sort((a, b) => a.dueISO.localeCompare(b.dueISO) || a.taskId.localeCompare(b.taskId));
+}
+
+// Worker device IDs that other profiles on this browser registered for push.
+function otherProfilePushDeviceIds(excludeProfileId?: string): Set<string> {
+  const ids = new Set<string>();
+  inactiveProfileValues(LS_SETTINGS, excludeProfileId).forEach((raw) => {
+    const deviceId = storedPushDeviceId(raw, { enabledOnly: true });
+    if (deviceId) ids.add(deviceId);
+  });
+  return ids;
+}
+
+function storedPushDeviceId(rawSettings: string | undefined, options?: { enabledOnly?: boolean }): string | undefined {
+  try {
+    const push = rawSettings ? JSON.parse(rawSettings)?.pushNotifications : null;
+    if (options?.enabledOnly && !push?.enabled) return undefined;
+    return typeof push?.deviceId === "string" && push.deviceId ? push.deviceId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Link the device to the account of the user's nostr key so every linked device gets its reminders.
+async function linkDeviceToAccount(workerBaseUrl: string, deviceId: string): Promise<string> {
+  if (!workerBaseUrl) throw new Error("Worker base URL is not configured");
+  const endpoint = `${workerBaseUrl}/api/devices/${encodeURIComponent(deviceId)}/account`;
+  const res = await fetch(endpoint, {
+    method: "PUT",
+    headers: { Authorization: await signNip98AuthHeader(getUserSigner(), endpoint, "PUT") },
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to link device (${res.status})`);
+  }
+  const body = await res.json();
+  if (typeof body?.pubkey !== "string") throw new Error("Unexpected link response");
+  return body.pubkey;
+}
+
+async function saveDeliveryPreferencesToWorker(
+  workerBaseUrl: string,
+  deviceId: string,
+  delivery: PushDeliveryPreferences
+): Promise<PushDeliveryPreferences> {
+  if (!workerBaseUrl) throw new Error("Worker base URL is not configured");
+  const res = await fetch(`${workerBaseUrl}/api/devices/${encodeURIComponent(deviceId)}/preferences`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      ...delivery,
+    }),
+  });
+  if (!res.ok) {
+    let message = `Failed to save delivery preferences (${res.status})`;
+    try {
+      const body = await res.json();
+      if (typeof body?.error === "string") message = body.error;
+    } catch {}
+    throw new Error(message);
+  }
+  return normalizePushDelivery(await res.json()) ?? DEFAULT_PUSH_DELIVERY;
+}
+
+async function syncRemindersToWorker(
+  workerBaseUrl: string,
+  push: PushPreferences,
+  reminderTasks: Task[],
+  options?: {
+    signal?: AbortSignal;
+    agenda?: ReturnType<typeof buildAgendaPayload>;
+    boardScopes?: Map<string, string>;
+  }
+): Promise<void> {
+  if (!workerBaseUrl) throw new Error("Worker base URL is not configured");
+  if (!push.deviceId || !push.subscriptionId) return;
+  const boardScopes = options?.boardScopes;
   const res = await fetch(`${workerBaseUrl}/api/reminders`, {
     method: "PUT",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       deviceId: push.deviceId,
       subscriptionId: push.subscriptionId,
-      reminders: remindersPayload,
+      // Lets the worker schedule later occurrences of recurring reminders in local time.
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      reminders: buildReminderPayload(reminderTasks, boardScopes),
+      // Boards this device syncs in full; reminders of other boards on the account are left alone.
+      ...(boardScopes ? { boards: Array.from(new Set(boardScopes.values())) } : {}),
+      agenda: options?.agenda ?? [],
     }),
     signal: options?.signal,
   });
@@ -8324,6 +9558,90 @@ async function syncRemindersToWorker(
   }
 }
 
+const CALENDAR_COMPLETED_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+type CalendarTaskSummary = {
+  taskId: string;
+  boardId: string;
+  seriesId?: string;
+  title: string;
+  note?: string;
+  dueISO: string;
+  dueTimeEnabled: boolean;
+  completed: boolean;
+  completedAt?: string;
+  minutesBefore: number[];
+  recurrence?: Recurrence;
+};
+
+function buildCalendarTaskSummaries(tasks: Task[], now = Date.now()): CalendarTaskSummary[] {
+  // Only the earliest open instance of a recurring series is published; its RRULE covers the rest.
+  const openSeries = new Map<string, Task>();
+  const summaries: CalendarTaskSummary[] = [];
+  for (const task of tasks) {
+    if (!task.dueISO || Number.isNaN(Date.parse(task.dueISO))) continue;
+    if (task.completed) {
+      const completedAt = task.completedAt ? Date.parse(task.completedAt) : NaN;
+      if (Number.isNaN(completedAt) || now - completedAt > CALENDAR_COMPLETED_RETENTION_MS) continue;
+    } else if (task.recurrence && task.recurrence.type !== "none") {
+      const key = task.seriesId || task.id;
+      const existing = openSeries.get(key);
+      if (!existing || Date.parse(task.dueISO) < Date.parse(existing.dueISO)) {
+        openSeries.set(key, task);
+      }
+      continue;
+    }
+    summaries.push(summarizeCalendarTask(task));
+  }
+  for (const task of openSeries.values()) {
+    summaries.push(summarizeCalendarTask(task));
+  }
+  return summaries.sort((a, b) => a.taskId.localeCompare(b.taskId));
+}
+
+function summarizeCalendarTask(task: Task): CalendarTaskSummary {
+  return {
+    taskId: task.id,
+    boardId: task.boardId,
+    seriesId: task.seriesId,
+    title: task.title,
+    note: task.note || undefined,
+    dueISO: task.dueISO,
+    dueTimeEnabled: !!task.dueTimeEnabled,
+    completed: !!task.completed,
+    completedAt: task.completedAt,
+    minutesBefore: task.dueTimeEnabled
+      ? (task.reminders ?? []).map(reminderPresetToMinutes).sort((a, b) => a - b)
+      : [],
+    recurrence: task.recurrence && task.recurrence.type !== "none" ? task.recurrence : undefined,
+  };
+}
+
+async function syncCalendarTasksToWorker(
+  workerBaseUrl: string,
+  summaries: CalendarTaskSummary[],
+  options?: { signal?: AbortSignal }
+): Promise<"synced" | "revoked"> {
+  if (!workerBaseUrl) throw new Error("Worker base URL is not configured");
+  const endpoint = `${workerBaseUrl}/api/calendar/tasks`;
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const body = JSON.stringify({ timeZone, tasks: summaries });
+  const res = await fetch(endpoint, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: await signNip98AuthHeader(getUserSigner(), endpoint, "PUT", body),
+    },
+    body,
+    signal: options?.signal,
+  });
+  if (res.status === 404) return "revoked";
+  if (!res.ok) {
+    throw new Error(`Failed to sync calendar feed (${res.status})`);
+  }
+  return "synced";
+}
+
 /* ================= Subcomponents ================= */
 
 function autolink(text: string) {
@@ -8392,6 +9710,9 @@ function TaskTitle({ task }: { task: Task }) {
 
 function UrlPreviewCard({ preview }: { preview: UrlPreviewData; indent?: boolean }) {
   const [imageFailed, setImageFailed] = useState(false);
+  if (preview.media) {
+    return <MediaLinkCard preview={preview} media={preview.media} />;
+  }
   const hasImage = Boolean(preview.image && !imageFailed);
   const hasIcon = Boolean(!hasImage && preview.icon);
   const siteLabel = preview.siteName || preview.displayUrl;
@@ -8444,6 +9765,106 @@ function UrlPreviewCard({ preview }: { preview: UrlPreviewData; indent?: boolean
   return card;
 }
 
+function formatMediaDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+function mediaFormatLabel(media: UrlPreviewMedia): string | null {
+  const subtype = media.mimeType?.split("/")[1];
+  if (!subtype) return null;
+  if (subtype === "mpeg") return media.kind === "audio" ? "MP3" : "MPEG";
+  if (subtype === "quicktime") return "MOV";
+  if (subtype === "svg+xml") return "SVG";
+  return /^[a-z0-9]{2,5}$/i.test(subtype) ? subtype.toUpperCase() : null;
+}
+
+// Direct links to files: images show themselves, PDFs their page count, video and audio their length.
+function MediaLinkCard({ preview, media }: { preview: UrlPreviewData; media: UrlPreviewMedia }) {
+  const [imageFailed, setImageFailed] = useState(false);
+  const image = preview.image && !imageFailed ? preview.image : null;
+  const title = preview.title || preview.displayUrl;
+  const siteLabel = preview.siteName || preview.displayUrl;
+  const duration = media.durationSeconds ? formatMediaDuration(media.durationSeconds) : null;
+  const format = mediaFormatLabel(media);
+  const details = [
+    media.kind === "pdf" ? "PDF" : format,
+    media.width && media.height ? `${media.width} × ${media.height}` : null,
+    media.pageCount ? `${media.pageCount} ${media.pageCount === 1 ? "page" : "pages"}` : null,
+    media.kind === "audio" ? duration : null,
+    media.sizeBytes ? formatBackupSize(media.sizeBytes) : null,
+  ].filter(Boolean);
+
+  const caption = (
+    <div className="space-y-1 min-w-0 flex-1">
+      <div className="truncate font-medium text-primary">{title}</div>
+      {details.length > 0 && <div className="text-tertiary">{details.join(" · ")}</div>}
+      <div className="text-tertiary text-[10px] uppercase tracking-wide">{siteLabel}</div>
+    </div>
+  );
+
+  let body: React.ReactNode;
+  if (media.kind === "image") {
+    body = (
+      <>
+        {image && (
+          <div className="flex max-h-56 w-full items-center justify-center bg-surface">
+            <img src={image} alt="" onError={() => setImageFailed(true)} className="max-h-56 w-full object-contain" />
+          </div>
+        )}
+        <div className="flex p-3 text-xs text-secondary">{caption}</div>
+      </>
+    );
+  } else if (media.kind === "video") {
+    body = (
+      <>
+        <div className="relative flex h-40 w-full items-center justify-center bg-surface">
+          {image && (
+            <img src={image} alt="" onError={() => setImageFailed(true)} className="absolute inset-0 h-full w-full object-cover" />
+          )}
+          <span className="relative flex h-10 w-10 items-center justify-center rounded-full bg-black/60 text-base text-white">▶</span>
+          {duration && (
+            <span className="absolute bottom-2 right-2 rounded-md bg-black/70 px-1.5 py-0.5 text-[10px] font-medium text-white">
+              {duration}
+            </span>
+          )}
+        </div>
+        <div className="flex p-3 text-xs text-secondary">{caption}</div>
+      </>
+    );
+  } else {
+    // PDFs and audio files get a compact row with a badge or their cover art.
+    const badge =
+      media.kind === "audio" && image ? (
+        <img src={image} alt="" onError={() => setImageFailed(true)} className="h-12 w-12 flex-shrink-0 rounded-lg object-cover" />
+      ) : (
+        <div className="flex h-12 w-10 flex-shrink-0 items-center justify-center rounded-lg border border-surface bg-surface text-[10px] font-semibold uppercase tracking-wide text-secondary">
+          {media.kind === "pdf" ? "PDF" : "♪"}
+        </div>
+      );
+    body = (
+      <div className="flex items-center gap-3 p-3 text-xs text-secondary">
+        {badge}
+        {caption}
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={preview.finalUrl || preview.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="block w-full max-w-full overflow-hidden rounded-2xl border border-surface bg-surface-muted"
+    >
+      {body}
+    </a>
+  );
+}
+
 function TaskMedia({
   task,
   indent = false,
@@ -8958,6 +10379,14 @@ function Card({
               Due at {formatTimeLabel(task.dueISO)}
             </div>
           )}
+          {task.syncConflict && (
+            <span
+              className="chip chip-warn text-xs"
+              title={`Edited on another device at the same time: ${task.syncConflict.fields.map((field) => TASK_SYNC_FIELD_LABELS[field]).join(", ")}`}
+            >
+              Edit conflict
+            </span>
+          )}
         </div>
       </div>
 
@@ -9946,8 +11375,9 @@ function EditModal({ task, onCancel, onDelete, onSave, weekStart, boardKind, onR
     };
   }
 
+  // Saving from the editor resolves any concurrent-edit conflict with what is on screen.
   function save(overrides: Partial<Task> = {}) {
-    onSave(normalizeTaskBounty(buildTask(overrides)));
+    onSave(normalizeTaskBounty(buildTask({ syncConflict: undefined, ...overrides })));
   }
 
   async function copyCurrent() {
@@ -9981,6 +11411,16 @@ function EditModal({ task, onCancel, onDelete, onSave, weekStart, boardKind, onR
           </button>
         </div>
 
+        {task.syncConflict && (
+          <section className="edit-card">
+            <div className="text-sm text-secondary">
+              This task was edited on another device at the same time
+              ({task.syncConflict.fields.map((field) => TASK_SYNC_FIELD_LABELS[field]).join(", ")}). The newest
+              edit was kept; review the details and save to resolve.
+            </div>
+          </section>
+        )}
+
         <section className="edit-card">
           <div className="space-y-3">
             <div className="edit-card__detail edit-card__detail--field">
@@ -11973,53 +13413,344 @@ function SideDrawer({ title, onClose, children }: React.PropsWithChildren<{ titl
   );
 }
 
-/* Settings modal incl. Week start + Manage Boards & Columns */
-function SettingsModal({
-  settings,
+function formatPendingAge(seconds: number): string {
+  const elapsed = Math.max(0, Math.floor(Date.now() / 1000) - seconds);
+  if (elapsed < 60) return "just now";
+  if (elapsed < 3600) return `${Math.floor(elapsed / 60)} min ago`;
+  if (elapsed < 86400) return `${Math.floor(elapsed / 3600)} h ago`;
+  return `${Math.floor(elapsed / 86400)} d ago`;
+}
+
+function describePendingJob(job: PendingNostrJob): string {
+  if (job.type === "task") return `Update “${job.task.title || "Untitled"}”`;
+  if (job.type === "delete") return `Delete “${job.taskSnapshot?.title || "task"}”`;
+  return `Delete ${job.taskIds.length} task${job.taskIds.length === 1 ? "" : "s"}`;
+}
+
+/* Sync status: queued Nostr publishes grouped by board */
+function SyncStatusModal({
+  jobs,
   boards,
-  currentBoardId,
-  setSettings,
-  setBoards,
-  bountyListEnabled,
-  activeBountyListKey,
-  bountyListOptions,
-  shouldReloadForNavigation,
-  defaultRelays,
-  setDefaultRelays,
-  pubkeyHex,
-  onGenerateKey,
-  onSetKey,
-  onShareBoard,
-  onJoinBoard,
-  onRegenerateBoardId,
-  onBoardChanged,
-  onRestartTutorial,
+  relaysForBoard,
+  onRetry,
+  onDiscard,
+  onRepublishBoard,
   onClose,
-  pushWorkState,
-  pushError,
-  onEnablePush,
-  onDisablePush,
-  workerBaseUrl,
-  vapidPublicKey,
-  onResetWalletTokenTracking,
 }: {
-  settings: Settings;
+  jobs: PendingNostrJob[];
   boards: Board[];
-  currentBoardId: string;
-  setSettings: (s: Partial<Settings>) => void;
-  setBoards: React.Dispatch<React.SetStateAction<Board[]>>;
-  bountyListEnabled: boolean;
-  activeBountyListKey: string | null;
-  bountyListOptions: { key: string; label: string; ref: BountyListRef }[];
-  shouldReloadForNavigation: () => boolean;
-  defaultRelays: string[];
-  setDefaultRelays: (rls: string[]) => void;
-  pubkeyHex: string;
-  onGenerateKey: () => void;
-  onSetKey: (hex: string) => void;
-  onShareBoard: (boardId: string, relaysCsv?: string) => void;
-  onJoinBoard: (nostrId: string, name?: string, relaysCsv?: string) => void;
-  onRegenerateBoardId: (boardId: string) => void;
+  relaysForBoard: (board: Board) => string[];
+  onRetry: (jobId: string) => void;
+  onDiscard: (jobId: string) => void;
+  onRepublishBoard: (boardId: string) => void;
+  onClose: () => void;
+}) {
+  const groups = new Map<string, PendingNostrJob[]>();
+  for (const job of jobs) {
+    const list = groups.get(job.boardId) ?? [];
+    list.push(job);
+    groups.set(job.boardId, list);
+  }
+
+  return (
+    <Modal onClose={onClose} title="Sync status">
+      {groups.size === 0 ? (
+        <div className="text-sm text-secondary">All changes have reached your relays.</div>
+      ) : (
+        <div className="space-y-4">
+          {Array.from(groups.entries()).map(([boardId, boardJobs]) => {
+            const board = boards.find((b) => b.id === boardId || b.nostr?.boardId === boardId);
+            const relays = board ? relaysForBoard(board) : [];
+            return (
+              <section key={boardId} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{board?.name ?? "Removed board"}</div>
+                    {relays.length > 0 && (
+                      <div className="text-xs text-secondary truncate">{relays.join(", ")}</div>
+                    )}
+                  </div>
+                  {board && (
+                    <button
+                      className="ghost-button button-sm pressable"
+                      onClick={() => onRepublishBoard(board.id)}
+                      title="Publish the board and every task again"
+                    >
+                      Force republish
+                    </button>
+                  )}
+                </div>
+                <ul className="space-y-2">
+                  {boardJobs.map((job) => (
+                    <li key={job.id} className="bg-surface-muted border border-surface rounded-2xl p-3 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0 text-sm truncate">{describePendingJob(job)}</div>
+                        <button className="ghost-button button-sm pressable" onClick={() => onRetry(job.id)}>
+                          Retry
+                        </button>
+                        <button
+                          className="ghost-button button-sm pressable text-rose-400"
+                          onClick={() => onDiscard(job.id)}
+                          title="Stop trying to publish this change. Your local copy is kept."
+                        >
+                          Discard
+                        </button>
+                      </div>
+                      <div className="text-xs text-secondary">
+                        Queued {formatPendingAge(job.nostrTimestamp)}
+                        {job.attempts ? ` • ${job.attempts} failed attempt${job.attempts === 1 ? "" : "s"}` : " • waiting to send"}
+                      </div>
+                      {job.relayErrors && Object.keys(job.relayErrors).length > 0 ? (
+                        <ul className="text-xs text-rose-400 space-y-0.5">
+                          {Object.entries(job.relayErrors).map(([relay, message]) => (
+                            <li key={relay} className="break-all">{relay}: {message}</li>
+                          ))}
+                        </ul>
+                      ) : job.lastError ? (
+                        <div className="text-xs text-rose-400 break-all">{job.lastError}</div>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+// Every task event for a board on each relay, paged past relay limits, plus which relay held which IDs.
+async function readBoardHistoryByRelay(pool: NostrPool, relays: string[], bTag: string) {
+  const events = new Map<string, NostrEvent>();
+  const byRelay = new Map<string, Set<string>>();
+  await Promise.all(relays.map(async (relay) => {
+    const ids = new Set<string>();
+    byRelay.set(relay, ids);
+    await backfillHistory({
+      subscribe: pool.subscribe,
+      relay,
+      filter: { kinds: [30301], "#b": [bTag] },
+      onEvent: (ev) => {
+        ids.add(ev.id);
+        if (!events.has(ev.id)) events.set(ev.id, ev);
+      },
+      isCancelled: () => false,
+    });
+  }));
+  return { events, byRelay };
+}
+
+type BoardLinkPreview = {
+  found: boolean;
+  name?: string;
+  kind?: string;
+  columns: string[];
+  childCount?: number;
+  // False when the content is encrypted with a view key the link does not carry.
+  readable: boolean;
+};
+
+const BOARD_LINK_PREVIEW_TIMEOUT_MS = 6000;
+
+// The linked board's latest metadata event, decrypted with whatever key the link grants.
+async function fetchBoardLinkPreview(link: BoardLink, relays: string[]): Promise<BoardLinkPreview> {
+  const pool = createNostrPool();
+  try {
+    const event = await new Promise<NostrEvent | null>((resolve) => {
+      let latest: NostrEvent | null = null;
+      let pending = relays.length;
+      let settled = false;
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        try { unsub(); } catch {}
+        resolve(latest);
+      };
+      const timer = setTimeout(finish, BOARD_LINK_PREVIEW_TIMEOUT_MS);
+      const unsub = pool.subscribe(
+        relays,
+        [{ kinds: [BOARD_METADATA_KIND], authors: [link.boardPubkey], "#d": [link.boardTag] }],
+        (ev) => {
+          if (!latest || ev.created_at > latest.created_at) latest = ev;
+        },
+        () => {
+          pending -= 1;
+          if (pending <= 0) finish();
+        },
+      );
+    });
+    if (!event) return { found: false, name: link.name, columns: [], readable: false };
+    const tagVal = (name: string) => event.tags.find((t) => t[0] === name)?.[1];
+    const sharing: BoardSharing = link.access === "full" && link.boardId
+      ? { boardId: link.boardId, relays }
+      : { boardId: link.boardTag, relays, access: "view", boardPubkey: link.boardPubkey, viewKey: link.viewKey || link.boardTag };
+    let payload: any = null;
+    try {
+      payload = JSON.parse(await decryptBoardContent(sharing, event.content));
+    } catch {}
+    const columns: string[] = Array.isArray(payload?.columns)
+      ? payload.columns.map((col: any) => (typeof col?.name === "string" ? col.name : "")).filter(Boolean)
+      : [];
+    return {
+      found: true,
+      name: tagVal("name") || link.name,
+      kind: tagVal("k"),
+      columns,
+      childCount: Array.isArray(payload?.children) ? payload.children.length : undefined,
+      readable: !!payload,
+    };
+  } finally {
+    pool.setRelays([]);
+  }
+}
+
+function describeBoardLinkAccess(link: BoardLink, preview: BoardLinkPreview | null): string {
+  if (link.access === "full") return "Full access: you can edit this board and manage how it is shared.";
+  if (link.access === "edit") return "Edit access: your changes sync once the owner adds your key as a member.";
+  if (link.access === "view") return "View only: you can see the board's tasks but not change them.";
+  if (!preview) return "Checking whether this address alone can read the board…";
+  if (!preview.found) return "Without the board's details there is no telling whether this address alone can read it.";
+  if (!preview.readable) return "This link does not include a key for this board. Ask the owner for a view or edit link.";
+  return "View only: this board's access was never split, so its address alone lets you read it.";
+}
+
+/** Preview of a board from an naddr, join link or share code, shown before anything is added. */
+function BoardLinkJoinModal({
+  link,
+  defaultRelays,
+  onJoin,
+  onClose,
+}: {
+  link: BoardLink;
+  defaultRelays: string[];
+  onJoin: (link: BoardLink, name?: string) => void;
+  onClose: () => void;
+}) {
+  const [preview, setPreview] = useState<BoardLinkPreview | null>(null);
+  const relays = link.relays.length ? link.relays : defaultRelays;
+  const relaysKey = relays.join(",");
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    fetchBoardLinkPreview(link, relaysKey.split(","))
+      .then((result) => { if (!cancelled) setPreview(result); })
+      .catch(() => { if (!cancelled) setPreview({ found: false, name: link.name, columns: [], readable: false }); });
+    return () => { cancelled = true; };
+  }, [link, relaysKey]);
+  // A bare naddr only grants access when the board's content is still keyed by its tag.
+  const canJoin = !!link.access || !!preview?.readable;
+  const name = preview?.name || link.name;
+  return (
+    <Modal onClose={onClose} title="Join board">
+      <div className="space-y-3">
+        {!preview ? (
+          <div className="text-sm text-secondary">Looking up the board on {relays.length} relay{relays.length === 1 ? "" : "s"}…</div>
+        ) : (
+          <>
+            <div className="text-lg font-semibold">{name || "Unnamed board"}</div>
+            {!preview.found && (
+              <div className="text-xs text-secondary">
+                The board's details were not found on its relays. You can still join; they load once a relay has them.
+              </div>
+            )}
+            {preview.readable && preview.kind === "compound" && preview.childCount !== undefined && (
+              <div className="text-xs text-secondary">Compound board with {preview.childCount} board{preview.childCount === 1 ? "" : "s"}</div>
+            )}
+            {preview.columns.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {preview.columns.map((col, index) => (
+                  <span key={`${col}-${index}`} className="chip">{col}</span>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+        <div className={`text-xs ${preview && !canJoin ? "text-rose-400" : "text-secondary"}`}>
+          {describeBoardLinkAccess(link, preview)}
+        </div>
+        <div className="text-xs text-tertiary break-all">{relays.join(", ")}</div>
+        <div className="flex gap-2">
+          <button
+            className="accent-button button-sm pressable"
+            disabled={!preview || !canJoin}
+            onClick={() => onJoin(link, name)}
+          >Join board</button>
+          <button className="ghost-button button-sm pressable" onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+/* Settings modal incl. Week start + Manage Boards & Columns */
+function SettingsModal({
+  settings,
+  boards,
+  currentBoardId,
+  setSettings,
+  setBoards,
+  bountyListEnabled,
+  activeBountyListKey,
+  bountyListOptions,
+  shouldReloadForNavigation,
+  defaultRelays,
+  setDefaultRelays,
+  relayHealth,
+  relayAuthPrefs,
+  onRelayAuthPreferenceChange,
+  pubkeyHex,
+  signer,
+  onSignerChange,
+  onUseLocalKey,
+  onGenerateKey,
+  onSetKey,
+  onShareBoard,
+  onJoinBoard,
+  onJoinBoardShare,
+  onRegenerateBoardId,
+  onRotateBoardKey,
+  onBoardChanged,
+  onRestartTutorial,
+  onClose,
+  pushWorkState,
+  pushError,
+  onEnablePush,
+  onDisablePush,
+  workerBaseUrl,
+  vapidPublicKey,
+  onResetWalletTokenTracking,
+  onTasksCompacted,
+  pendingJoinLink,
+  onPendingJoinLinkHandled,
+}: {
+  settings: Settings;
+  boards: Board[];
+  currentBoardId: string;
+  setSettings: (s: Partial<Settings>) => void;
+  setBoards: React.Dispatch<React.SetStateAction<Board[]>>;
+  bountyListEnabled: boolean;
+  activeBountyListKey: string | null;
+  bountyListOptions: { key: string; label: string; ref: BountyListRef }[];
+  shouldReloadForNavigation: () => boolean;
+  defaultRelays: string[];
+  setDefaultRelays: (rls: string[]) => void;
+  relayHealth: RelayHealth[];
+  relayAuthPrefs: RelayAuthPreferences;
+  onRelayAuthPreferenceChange: (relay: string, preference: RelayAuthPreference) => void;
+  pubkeyHex: string;
+  signer: NostrSigner;
+  onSignerChange: (signer: NostrSigner) => void;
+  onUseLocalKey: () => void;
+  onGenerateKey: () => void;
+  onSetKey: (hex: string) => void;
+  onShareBoard: (boardId: string, relaysCsv?: string) => void;
+  onJoinBoard: (nostrId: string, name?: string, relaysCsv?: string) => void;
+  onJoinBoardShare: (code: BoardShareCode) => void;
+  onRegenerateBoardId: (boardId: string) => void;
+  onRotateBoardKey: (boardId: string, invitees: string[]) => Promise<number>;
   onBoardChanged: (
     boardId: string,
     options?: { republishTasks?: boolean; board?: Board },
@@ -12033,8 +13764,15 @@ function SettingsModal({
   workerBaseUrl: string;
   vapidPublicKey: string;
   onResetWalletTokenTracking: () => void;
+  onTasksCompacted: (boardId: string, taskIds: string[]) => void;
+  pendingJoinLink: BoardLink | null;
+  onPendingJoinLinkHandled: () => void;
 }) {
   const [newBoardName, setNewBoardName] = useState("");
+  const [joinLink, setJoinLink] = useState<BoardLink | null>(null);
+  const [showJoinScanner, setShowJoinScanner] = useState(false);
+  const [joinScanMessage, setJoinScanMessage] = useState("");
+  const [shareLinkAccess, setShareLinkAccess] = useState<BoardLinkAccess | null>(null);
   const [manageBoardId, setManageBoardId] = useState<string | null>(null);
   const manageBoard = boards.find(b => b.id === manageBoardId);
   const [relaysCsv, setRelaysCsv] = useState("");
@@ -12053,9 +13791,30 @@ function SettingsModal({
   const [backupExpanded, setBackupExpanded] = useState(false);
   const [showPushAdvanced, setShowPushAdvanced] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [boardKeyInfo, setBoardKeyInfo] = useState<{ npub: string; nsec: string; pk: string } | null>(null);
+  const [boardKeyInfo, setBoardKeyInfo] = useState<{ npub: string; nsec: string; pk: string; skHex: string } | null>(null);
+  const [inboxTokens, setInboxTokens] = useState<BoardInboxToken[]>([]);
+  const [inboxState, setInboxState] = useState<"idle" | "working" | "error">("idle");
+  const [inboxMessage, setInboxMessage] = useState("");
+  const [inboxLabel, setInboxLabel] = useState("");
+  const [createdInboxUrl, setCreatedInboxUrl] = useState<string | null>(null);
+  const [newMemberKey, setNewMemberKey] = useState("");
+  const [rotateInvitees, setRotateInvitees] = useState<string[] | null>(null);
+  const [rotateInviteeInput, setRotateInviteeInput] = useState("");
+  const [rotateState, setRotateState] = useState<"idle" | "working" | "error">("idle");
+  const [rotateMessage, setRotateMessage] = useState("");
   const [staleCleanupBusy, setStaleCleanupBusy] = useState(false);
   const [staleCleanupMessage, setStaleCleanupMessage] = useState<string | null>(null);
+  const [compactionDays, setCompactionDays] = useState(90);
+  const [compactionState, setCompactionState] = useState<"idle" | "scanning" | "compacting">("idle");
+  const [compactionMessage, setCompactionMessage] = useState<string | null>(null);
+  const [compactionScan, setCompactionScan] = useState<{
+    boardId: string;
+    plan: CompactionPlan;
+    byRelay: Map<string, Set<string>>;
+  } | null>(null);
+  const [compactionReport, setCompactionReport] = useState<
+    { boardId: string; relays: { relay: string; removed: number; targeted: number; accepted: boolean }[] } | null
+  >(null);
   const [reloadNeeded, setReloadNeeded] = useState(false);
   const [walletCounters, setWalletCounters] = useState<Record<string, Record<string, number>>>(() => getWalletCountersByMint());
   const [keysetCounterBusy, setKeysetCounterBusy] = useState<string | null>(null);
@@ -12068,8 +13827,6 @@ function SettingsModal({
   const debugConsoleScriptRef = useRef<HTMLScriptElement | null>(null);
   const mintBackupPoolRef = useRef<SimplePool | null>(null);
 
-  const [newDefaultRelay, setNewDefaultRelay] = useState("");
-  const [newBoardRelay, setNewBoardRelay] = useState("");
   const [newOverrideRelay, setNewOverrideRelay] = useState("");
   const [newCompoundChildId, setNewCompoundChildId] = useState("");
   const [newBoardType, setNewBoardType] = useState<"lists" | "compound">("lists");
@@ -12101,27 +13858,228 @@ function SettingsModal({
       return !manageBoard.children.some((childId) => compoundChildMatchesBoard(childId, board));
     });
   }, [boards, manageBoard]);
+  const manageBoardFullAccess = !!manageBoard?.nostr && hasFullBoardAccess(manageBoard.nostr);
   useEffect(() => {
     let cancelled = false;
     (async () => {
-      if (!manageBoard?.nostr?.boardId) {
+      if (!manageBoard?.nostr?.boardId || !manageBoardFullAccess) {
         setBoardKeyInfo(null);
         return;
       }
       try {
         const keys = await deriveBoardNostrKeys(manageBoard.nostr.boardId);
-        if (!cancelled) setBoardKeyInfo({ npub: keys.npub, nsec: keys.nsec, pk: keys.pk });
+        if (!cancelled) setBoardKeyInfo({ npub: keys.npub, nsec: keys.nsec, pk: keys.pk, skHex: keys.skHex });
       } catch {
         if (!cancelled) setBoardKeyInfo(null);
       }
     })();
     return () => { cancelled = true; };
-  }, [manageBoard?.nostr?.boardId]);
-  // Mint selector moved to Wallet modal; no need to read here.
+  }, [manageBoard?.nostr?.boardId, manageBoardFullAccess]);
   const { show: showToast } = useToast();
+  const manageBoardRelays = useMemo(() => {
+    if (manageBoard?.nostr?.relays?.length) return manageBoard.nostr.relays;
+    return defaultRelays.length ? defaultRelays : [...DEFAULT_NOSTR_RELAYS];
+  }, [defaultRelays, manageBoard?.nostr?.relays]);
+  const manageBoardPubkey = manageBoard?.nostr
+    ? (hasFullBoardAccess(manageBoard.nostr) ? boardKeyInfo?.pk : manageBoard.nostr.boardPubkey) || ""
+    : "";
+  const copyReadOnlyBoardLink = useCallback(async (mode: "link" | "embed") => {
+    if (!manageBoard?.nostr?.boardId || !manageBoardPubkey || !workerBaseUrl) return;
+    const url = buildReadOnlyBoardUrl(
+      workerBaseUrl,
+      {
+        boardPubkey: manageBoardPubkey,
+        boardTag: boardTagFor(manageBoard.nostr),
+        contentKey: boardContentKeyFor(manageBoard.nostr),
+        relays: manageBoardRelays,
+      },
+      { embed: mode === "embed" },
+    );
+    try {
+      await navigator.clipboard?.writeText(mode === "embed" ? buildBoardEmbedCode(url, manageBoard.name) : url);
+      showToast(mode === "embed" ? "Embed code copied" : "Read-only link copied", 1800);
+    } catch {}
+  }, [manageBoard, manageBoardPubkey, manageBoardRelays, showToast, workerBaseUrl]);
+  const ensureSplitAccess = useCallback((): Board | null => {
+    if (!manageBoard?.nostr?.boardId || !hasFullBoardAccess(manageBoard.nostr)) return null;
+    if (manageBoard.nostr.splitAccess) return manageBoard;
+    if (!confirm("Share codes need this board's tasks re-encrypted with a separate view key. Every task will be republished, and devices on older versions will stop seeing updates. Continue?")) return null;
+    const updated = { ...manageBoard, nostr: { ...manageBoard.nostr, splitAccess: true, members: manageBoard.nostr.members ?? [] } } as Board;
+    setBoards((prev) => prev.map((b) => (b.id === updated.id ? updated : b)));
+    setTimeout(() => onBoardChanged(updated.id, { republishTasks: true, board: updated }), 0);
+    return updated;
+  }, [manageBoard, onBoardChanged, setBoards]);
+  const copyBoardShareCode = useCallback(async (access: BoardShareAccess) => {
+    if (!boardKeyInfo) return;
+    const board = ensureSplitAccess();
+    if (!board) return;
+    const code = encodeBoardShareCode({
+      access,
+      boardPubkey: boardKeyInfo.pk,
+      boardTag: boardTagFor(board.nostr!),
+      viewKey: boardContentKeyFor(board.nostr!),
+      relays: manageBoardRelays,
+      name: board.name,
+    });
+    try {
+      await navigator.clipboard?.writeText(code);
+      showToast(access === "edit" ? "Edit code copied" : "View code copied", 1800);
+    } catch {}
+  }, [boardKeyInfo, ensureSplitAccess, manageBoardRelays, showToast]);
+  const manageBoardLink = useMemo((): BoardLink | null => {
+    if (!shareLinkAccess || !manageBoard?.nostr?.boardId || !manageBoardPubkey) return null;
+    const sharing = manageBoard.nostr;
+    const base: BoardLink = {
+      boardPubkey: manageBoardPubkey,
+      boardTag: boardTagFor(sharing),
+      relays: manageBoardRelays,
+      name: manageBoard.name,
+    };
+    if (shareLinkAccess === "full") {
+      return hasFullBoardAccess(sharing) ? { ...base, access: "full", boardId: sharing.boardId } : null;
+    }
+    // Until access is split the board tag is the content key, so the address alone is a view link.
+    if (shareLinkAccess === "view" && !isSplitAccessBoard(sharing)) return base;
+    return { ...base, access: shareLinkAccess, viewKey: boardContentKeyFor(sharing) };
+  }, [manageBoard, manageBoardPubkey, manageBoardRelays, shareLinkAccess]);
+  const manageBoardJoinUrl = manageBoardLink ? buildBoardJoinUrl(window.location.origin, manageBoardLink) : "";
+  const showBoardLink = useCallback((access: BoardLinkAccess) => {
+    if (access === "edit" && !ensureSplitAccess()) return;
+    setShareLinkAccess(access);
+  }, [ensureSplitAccess]);
+  const copyBoardLink = useCallback(async (format: "url" | "protocol" | "naddr") => {
+    if (!manageBoardLink) return;
+    const value = format === "naddr"
+      ? encodeBoardNaddr(manageBoardLink)
+      : format === "protocol"
+        ? buildBoardProtocolLink(manageBoardLink)
+        : buildBoardJoinUrl(window.location.origin, manageBoardLink);
+    try {
+      await navigator.clipboard?.writeText(value);
+      showToast(format === "naddr" ? "Board address copied" : "Board link copied", 1800);
+    } catch {}
+  }, [manageBoardLink, showToast]);
+  const updateBoardMembers = useCallback((members: string[]) => {
+    if (!manageBoard?.nostr) return;
+    const updated = { ...manageBoard, nostr: { ...manageBoard.nostr, members } } as Board;
+    setBoards((prev) => prev.map((b) => (b.id === updated.id ? updated : b)));
+    setTimeout(() => onBoardChanged(updated.id, { board: updated }), 0);
+  }, [manageBoard, onBoardChanged, setBoards]);
+  const addBoardMember = useCallback(() => {
+    if (!manageBoard?.nostr) return;
+    const pk = normalizePubkeyInput(newMemberKey);
+    if (!pk) {
+      showToast("Enter an npub or a 64-character hex key.", 2500);
+      return;
+    }
+    const members = manageBoard.nostr.members ?? [];
+    if (!members.includes(pk)) updateBoardMembers([...members, pk]);
+    setNewMemberKey("");
+  }, [manageBoard, newMemberKey, showToast, updateBoardMembers]);
+  useEffect(() => {
+    setShareLinkAccess(null);
+    setRotateInvitees(null);
+    setRotateInviteeInput("");
+    setRotateState("idle");
+    setRotateMessage("");
+  }, [manageBoardId]);
+  const startBoardKeyRotation = useCallback(() => {
+    if (!manageBoard?.nostr) return;
+    const invitees = [...(manageBoard.nostr.members ?? [])];
+    if (pubkeyHex && !invitees.includes(pubkeyHex)) invitees.unshift(pubkeyHex);
+    setRotateInvitees(invitees);
+    setRotateInviteeInput("");
+    setRotateState("idle");
+    setRotateMessage("");
+  }, [manageBoard, pubkeyHex]);
+  const addRotateInvitee = useCallback(() => {
+    const pk = normalizePubkeyInput(rotateInviteeInput);
+    if (!pk) {
+      showToast("Enter an npub or a 64-character hex key.", 2500);
+      return;
+    }
+    setRotateInvitees((prev) => (prev && !prev.includes(pk) ? [...prev, pk] : prev));
+    setRotateInviteeInput("");
+  }, [rotateInviteeInput, showToast]);
+  const confirmBoardKeyRotation = useCallback(async () => {
+    if (!manageBoard?.nostr || !rotateInvitees) return;
+    if (!confirm(`Rotate the key for "${manageBoard.name}"? Anyone you did not re-invite loses access, along with view codes, read-only links and inbox URLs.`)) return;
+    setRotateState("working");
+    setRotateMessage("");
+    try {
+      // Inbox URLs seal the old board ID, so revoke them while the old key still signs for the board.
+      if (boardKeyInfo && workerBaseUrl) {
+        const tokens = await listBoardInboxTokens(workerBaseUrl, boardKeyInfo).catch(() => [] as BoardInboxToken[]);
+        for (const token of tokens) {
+          await revokeBoardInboxToken(workerBaseUrl, boardKeyInfo, token.id).catch(() => {});
+        }
+      }
+      const invited = await onRotateBoardKey(manageBoard.id, rotateInvitees);
+      setRotateInvitees(null);
+      setRotateState("idle");
+      showToast(invited ? `Board key rotated and sent to ${invited} ${invited === 1 ? "person" : "people"}` : "Board key rotated", 3000);
+    } catch (err: any) {
+      setRotateState("error");
+      setRotateMessage(err?.message || String(err));
+    }
+  }, [boardKeyInfo, manageBoard, onRotateBoardKey, rotateInvitees, showToast, workerBaseUrl]);
+  useEffect(() => {
+    setInboxTokens([]);
+    setInboxState("idle");
+    setInboxMessage("");
+    setInboxLabel("");
+    setCreatedInboxUrl(null);
+    if (!boardKeyInfo || !workerBaseUrl) return;
+    let cancelled = false;
+    listBoardInboxTokens(workerBaseUrl, boardKeyInfo)
+      .then((tokens) => {
+        if (!cancelled) setInboxTokens(tokens);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        setInboxState("error");
+        setInboxMessage(err?.message || String(err));
+      });
+    return () => { cancelled = true; };
+  }, [boardKeyInfo, workerBaseUrl]);
+  const handleCreateInboxToken = useCallback(async () => {
+    if (!manageBoard?.nostr?.boardId || !boardKeyInfo || !workerBaseUrl) return;
+    setInboxState("working");
+    setInboxMessage("");
+    try {
+      const created = await createBoardInboxToken(workerBaseUrl, boardKeyInfo, {
+        boardId: manageBoard.nostr.boardId,
+        relays: manageBoardRelays,
+        label: inboxLabel.trim() || undefined,
+      });
+      const { url, ...token } = created;
+      setInboxTokens((prev) => [token, ...prev]);
+      setCreatedInboxUrl(url);
+      setInboxLabel("");
+      setInboxState("idle");
+    } catch (err: any) {
+      setInboxState("error");
+      setInboxMessage(err?.message || String(err));
+    }
+  }, [boardKeyInfo, inboxLabel, manageBoard, manageBoardRelays, workerBaseUrl]);
+  const handleRevokeInboxToken = useCallback(async (token: BoardInboxToken) => {
+    if (!boardKeyInfo || !workerBaseUrl) return;
+    if (!confirm(`Revoke ${token.label ? `"${token.label}"` : "this inbox token"}? Anything posting to its URL will stop working.`)) return;
+    setInboxState("working");
+    setInboxMessage("");
+    try {
+      await revokeBoardInboxToken(workerBaseUrl, boardKeyInfo, token.id);
+      setInboxTokens((prev) => prev.filter((entry) => entry.id !== token.id));
+      setInboxState("idle");
+    } catch (err: any) {
+      setInboxState("error");
+      setInboxMessage(err?.message || String(err));
+    }
+  }, [boardKeyInfo, workerBaseUrl]);
+  // Mint selector moved to Wallet modal; no need to read here.
   const cleanupStaleBoardEvents = useCallback(async () => {
     if (staleCleanupBusy) return;
-    if (!manageBoard?.nostr?.boardId) {
+    if (!manageBoard?.nostr?.boardId || !hasFullBoardAccess(manageBoard.nostr)) {
       showToast("Enable sharing first to clean up stale events.", 3000);
       return;
     }
@@ -12224,6 +14182,103 @@ function SettingsModal({
       setStaleCleanupBusy(false);
     }
   }, [defaultRelays, manageBoard, showToast, staleCleanupBusy]);
+  const scanBoardCompaction = useCallback(async () => {
+    if (compactionState !== "idle") return;
+    if (!manageBoard?.nostr?.boardId || !hasFullBoardAccess(manageBoard.nostr)) {
+      showToast("Only the board owner can compact its history.", 3000);
+      return;
+    }
+    setCompactionState("scanning");
+    setCompactionScan(null);
+    setCompactionReport(null);
+    setCompactionMessage("Reading board history from relays…");
+    const pool = createNostrPool();
+    try {
+      const boardKeys = await deriveBoardNostrKeys(manageBoard.nostr.boardId);
+      const { events, byRelay } = await readBoardHistoryByRelay(pool, manageBoardRelays, boardTagFor(manageBoard.nostr));
+      const completedBefore = Math.floor(Date.now() / 1000) - compactionDays * 24 * 60 * 60;
+      const plan = planBoardCompaction(Array.from(events.values()), { authorPubkey: boardKeys.pk, completedBefore });
+      setCompactionScan({ boardId: manageBoard.id, plan, byRelay });
+      const deleted = plan.candidates.filter((c) => c.reason === "deleted").length;
+      const completed = plan.candidates.length - deleted;
+      setCompactionMessage(
+        plan.candidates.length
+          ? `Found ${deleted} deleted and ${completed} completed task${completed === 1 ? "" : "s"} using ${plan.eventCount} of ${events.size} events.`
+            + (plan.skipped ? ` ${plan.skipped} event${plan.skipped === 1 ? " is" : "s are"} signed by members and will stay.` : "")
+          : `Nothing to compact in ${events.size} events.`,
+      );
+    } catch (error: any) {
+      console.error("Failed to scan board history", error);
+      setCompactionMessage(error?.message || "Unable to read board history.");
+    } finally {
+      pool.setRelays([]);
+      setCompactionState("idle");
+    }
+  }, [compactionDays, compactionState, manageBoard, manageBoardRelays, showToast]);
+  const runBoardCompaction = useCallback(async () => {
+    if (compactionState !== "idle" || !compactionScan || !manageBoard?.nostr?.boardId) return;
+    if (compactionScan.boardId !== manageBoard.id || !hasFullBoardAccess(manageBoard.nostr)) return;
+    const { plan, byRelay } = compactionScan;
+    if (!plan.candidates.length) return;
+    if (!confirm(`Ask relays to delete ${plan.eventCount} events for ${plan.candidates.length} tasks? Their content is archived on this device and included in backups.`)) return;
+    setCompactionState("compacting");
+    setCompactionMessage("Archiving tasks and sending deletion requests…");
+    const sharing = manageBoard.nostr;
+    const pool = createNostrPool();
+    try {
+      const boardKeys = await deriveBoardNostrKeys(sharing.boardId);
+      const archivedAt = new Date().toISOString();
+      // Nothing is deleted from relays unless the content is safely archived first.
+      await appendBoardArchive(await Promise.all(plan.candidates.map(async (candidate) => {
+        let content: unknown = null;
+        try { content = JSON.parse(await decryptBoardContent(sharing, candidate.latest.content)); } catch {}
+        return {
+          boardId: manageBoard.id,
+          taskId: candidate.taskId,
+          reason: candidate.reason,
+          archivedAt,
+          lastEventAt: candidate.latest.created_at,
+          content,
+        };
+      })));
+      const relays = manageBoardRelays;
+      const acceptedBy = new Set<string>();
+      for (const tags of buildCompactionDeletionTags(plan.candidates, boardKeys.pk)) {
+        const ev = finalizeEvent({
+          kind: 5,
+          tags,
+          content: "Compact Taskify board history",
+          created_at: Math.floor(Date.now() / 1000),
+        }, boardKeys.sk);
+        const results = await pool.publishEvent(relays, ev as unknown as NostrEvent);
+        results.forEach((result) => { if (result.ok) acceptedBy.add(result.relay); });
+      }
+      onTasksCompacted(manageBoard.id, plan.candidates.map((candidate) => candidate.taskId));
+      setCompactionMessage("Checking what the relays removed…");
+      const targeted = new Set(plan.candidates.flatMap((candidate) => candidate.eventIds));
+      const after = await readBoardHistoryByRelay(pool, relays, boardTagFor(sharing));
+      const countTargeted = (ids: Set<string> | undefined) => Array.from(ids ?? []).filter((id) => targeted.has(id)).length;
+      const report = relays.map((relay) => {
+        const before = countTargeted(byRelay.get(relay));
+        return {
+          relay,
+          targeted: before,
+          removed: before - countTargeted(after.byRelay.get(relay)),
+          accepted: acceptedBy.has(relay),
+        };
+      });
+      setCompactionReport({ boardId: manageBoard.id, relays: report });
+      setCompactionScan(null);
+      const removed = report.reduce((sum, entry) => sum + entry.removed, 0);
+      setCompactionMessage(`Archived ${plan.candidates.length} tasks. Relays removed ${removed} events.`);
+    } catch (error: any) {
+      console.error("Failed to compact board history", error);
+      setCompactionMessage(error?.message || "Unable to compact board history.");
+    } finally {
+      pool.setRelays([]);
+      setCompactionState("idle");
+    }
+  }, [compactionScan, compactionState, manageBoard, manageBoardRelays, onTasksCompacted]);
   const { mintUrl, payInvoice, checkProofStates } = useCashu();
   const [donateAmt, setDonateAmt] = useState("");
   const [donateComment, setDonateComment] = useState("");
@@ -12234,6 +14289,14 @@ function SettingsModal({
   const [cloudRestoreMessage, setCloudRestoreMessage] = useState("");
   const [cloudBackupState, setCloudBackupState] = useState<"idle" | "uploading" | "success" | "error">("idle");
   const [cloudBackupMessage, setCloudBackupMessage] = useState("");
+  const [cloudHistory, setCloudHistory] = useState<CloudBackupSnapshot[]>([]);
+  const [cloudHistoryState, setCloudHistoryState] = useState<"idle" | "loading" | "error">("idle");
+  const [cloudHistoryMessage, setCloudHistoryMessage] = useState("");
+  const [cloudHistoryBusyId, setCloudHistoryBusyId] = useState<string | null>(null);
+  const [calendarFeedState, setCalendarFeedState] = useState<"idle" | "working" | "error">("idle");
+  const [deliveryState, setDeliveryState] = useState<"idle" | "saving" | "error">("idle");
+  const [deliveryMessage, setDeliveryMessage] = useState("");
+  const [calendarFeedMessage, setCalendarFeedMessage] = useState("");
   const pillButtonClass = useCallback((active: boolean) => `${active ? "accent-button" : "ghost-button"} pressable`, []);
   const backgroundInputRef = useRef<HTMLInputElement | null>(null);
   const backgroundAccentHex = settings.backgroundAccent ? settings.backgroundAccent.fill.toUpperCase() : null;
@@ -12793,6 +14856,28 @@ function SettingsModal({
     } catch {}
   }, [onDisablePush]);
 
+  const deliveryPrefs = pushPrefs.delivery ?? DEFAULT_PUSH_DELIVERY;
+  const deviceTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+
+  const updateDeliveryPreferences = useCallback(async (patch: Partial<PushDeliveryPreferences>) => {
+    const deviceId = pushPrefs.deviceId;
+    if (!workerBaseUrl || !deviceId) return;
+    const previous = pushPrefs.delivery ?? DEFAULT_PUSH_DELIVERY;
+    const next = { ...previous, ...patch };
+    setSettings({ pushNotifications: { ...pushPrefs, delivery: next } });
+    setDeliveryState("saving");
+    setDeliveryMessage("");
+    try {
+      const saved = await saveDeliveryPreferencesToWorker(workerBaseUrl, deviceId, next);
+      setSettings({ pushNotifications: { ...pushPrefs, delivery: saved } });
+      setDeliveryState("idle");
+    } catch (err: any) {
+      setSettings({ pushNotifications: { ...pushPrefs, delivery: previous } });
+      setDeliveryState("error");
+      setDeliveryMessage(err?.message || String(err));
+    }
+  }, [pushPrefs, setSettings, workerBaseUrl]);
+
   const clearBackgroundImage = useCallback(() => {
     setSettings({
       backgroundImage: null,
@@ -12895,7 +14980,7 @@ function SettingsModal({
     setSettings({ startBoardByDay: next });
   }
 
-  const collectBackupData = useCallback((): TaskifyBackupPayload => {
+  const collectBackupData = useCallback(async (): Promise<TaskifyBackupPayload> => {
     const bibleTrackerRaw = localStorage.getItem(LS_BIBLE_TRACKER);
     let cashuHistory: unknown = [];
     try {
@@ -12914,6 +14999,7 @@ function SettingsModal({
       defaultRelays: JSON.parse(localStorage.getItem(LS_NOSTR_RELAYS) || "[]"),
       contacts: JSON.parse(localStorage.getItem(LS_LIGHTNING_CONTACTS) || "[]"),
       nostrSk: localStorage.getItem(LS_NOSTR_SK) || "",
+      boardArchive: await loadBoardArchive(),
       cashu: {
         proofs: loadProofStore(),
         activeMint: getActiveMint(),
@@ -12925,8 +15011,8 @@ function SettingsModal({
     };
   }, []);
 
-  function backupData() {
-    const data = collectBackupData();
+  async function backupData() {
+    const data = await collectBackupData();
     const blob = new Blob([JSON.stringify(data)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -12940,22 +15026,27 @@ function SettingsModal({
     if (!workerBaseUrl) {
       throw new Error("Cloud backup service is unavailable.");
     }
-    const backupPayload = collectBackupData();
+    const backupPayload = await collectBackupData();
     const encrypted = await encryptBackupWithSecretKey(skHex, JSON.stringify(backupPayload));
     const npub = deriveNpubFromSecretKeyHex(skHex);
     if (!npub) {
       throw new Error("Unable to derive npub from the provided key.");
     }
-    const res = await fetch(`${workerBaseUrl}/api/backups`, {
+    const endpoint = `${workerBaseUrl}/api/backups`;
+    const body = JSON.stringify({
+      npub,
+      version: 1,
+      createdAt: new Date().toISOString(),
+      ciphertext: encrypted.ciphertext,
+      iv: encrypted.iv,
+    });
+    const res = await fetch(endpoint, {
       method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        npub,
-        version: 1,
-        createdAt: new Date().toISOString(),
-        ciphertext: encrypted.ciphertext,
-        iv: encrypted.iv,
-      }),
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: buildNip98AuthHeader(endpoint, "PUT", skHex, body),
+      },
+      body,
     });
     if (!res.ok) {
       let message = `Backup upload failed (${res.status})`;
@@ -12972,7 +15063,7 @@ function SettingsModal({
     return now;
   }, [collectBackupData, workerBaseUrl]);
 
-  const applyBackupData = useCallback((data: Partial<TaskifyBackupPayload>) => {
+  const applyBackupData = useCallback(async (data: Partial<TaskifyBackupPayload>) => {
     if (!data || typeof data !== "object") {
       throw new Error("Invalid backup data");
     }
@@ -13000,6 +15091,9 @@ function SettingsModal({
     if (typeof data.nostrSk === "string" && data.nostrSk) {
       localStorage.setItem(LS_NOSTR_SK, data.nostrSk);
     }
+    if (Array.isArray(data.boardArchive)) {
+      await saveBoardArchive(data.boardArchive);
+    }
     const cashuData: any = (data as any)?.cashu;
     if (cashuData && typeof cashuData === "object") {
       if ("proofs" in cashuData && cashuData.proofs !== undefined) {
@@ -13035,13 +15129,19 @@ function SettingsModal({
   function restoreFromBackup(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
-    file.text().then((txt) => {
+    file.text().then(async (txt) => {
+      let data: any;
       try {
-        const data = JSON.parse(txt);
-        applyBackupData(data);
-        alert("Backup restored. Press close to reload.");
+        data = JSON.parse(txt);
       } catch {
         alert("Invalid backup file");
+        return;
+      }
+      try {
+        await applyBackupData(data);
+        alert("Backup restored. Press close to reload.");
+      } catch (err: any) {
+        alert(err?.message || "Invalid backup file");
       }
     });
     e.target.value = "";
@@ -13138,7 +15238,13 @@ function SettingsModal({
       if (!npub) {
         throw new Error("Unable to derive npub from the provided key.");
       }
-      const res = await fetch(`${workerBaseUrl}/api/backups?npub=${encodeURIComponent(npub)}`);
+      const endpoint = `${workerBaseUrl}/api/backups?npub=${encodeURIComponent(npub)}`;
+      const res = await fetch(endpoint, {
+        headers: { Authorization: buildNip98AuthHeader(endpoint, "GET", normalized) },
+      });
+      if (res.status === 401 || res.status === 403) {
+        throw new Error("Cloud backup service rejected the signed request. Check your device clock and try again.");
+      }
       if (res.status === 404) {
         throw new Error("No cloud backup found for that key.");
       }
@@ -13146,21 +15252,8 @@ function SettingsModal({
         throw new Error(`Backup request failed (${res.status})`);
       }
       const body = await res.json();
-      const backup = body?.backup;
-      if (!backup || typeof backup !== "object" || typeof backup.ciphertext !== "string" || typeof backup.iv !== "string") {
-        throw new Error("Invalid backup payload received.");
-      }
-      const decrypted = await decryptBackupWithSecretKey(normalized, {
-        ciphertext: backup.ciphertext,
-        iv: backup.iv,
-      });
-      let parsed: Partial<TaskifyBackupPayload>;
-      try {
-        parsed = JSON.parse(decrypted);
-      } catch {
-        throw new Error("Cloud backup could not be decoded.");
-      }
-      applyBackupData(parsed);
+      const parsed = await decryptCloudBackup(normalized, body?.backup);
+      await applyBackupData(parsed);
       alert("Backup restored. Press close to reload.");
       setCloudRestoreState("success");
       setCloudRestoreMessage("Cloud backup restored. Press close to reload.");
@@ -13172,6 +15265,172 @@ function SettingsModal({
     }
   }, [applyBackupData, cloudRestoreKey, workerBaseUrl]);
 
+  const resolveCloudHistoryKey = useCallback((): string | null => {
+    const fromInput = normalizeSecretKeyInput(cloudRestoreKey);
+    if (fromInput) return fromInput;
+    const localSk = localStorage.getItem(LS_NOSTR_SK) || "";
+    return /^[0-9a-fA-F]{64}$/.test(localSk) ? localSk.toLowerCase() : null;
+  }, [cloudRestoreKey]);
+
+  const handleLoadCloudHistory = useCallback(async () => {
+    if (!workerBaseUrl) {
+      setCloudHistoryState("error");
+      setCloudHistoryMessage("Cloud backup service is unavailable.");
+      return;
+    }
+    const skHex = resolveCloudHistoryKey();
+    const npub = skHex ? deriveNpubFromSecretKeyHex(skHex) : null;
+    if (!skHex || !npub) {
+      setCloudHistoryState("error");
+      setCloudHistoryMessage("Add your Nostr secret key in Keys or enter it above to view backup history.");
+      return;
+    }
+    setCloudHistoryState("loading");
+    setCloudHistoryMessage("");
+    try {
+      const endpoint = `${workerBaseUrl}/api/backups/history?npub=${encodeURIComponent(npub)}`;
+      const res = await fetch(endpoint, {
+        headers: { Authorization: buildNip98AuthHeader(endpoint, "GET", skHex) },
+      });
+      if (!res.ok) {
+        throw new Error(`Backup history request failed (${res.status})`);
+      }
+      const body = await res.json();
+      const snapshots: CloudBackupSnapshot[] = Array.isArray(body?.snapshots) ? body.snapshots : [];
+      setCloudHistory(snapshots);
+      setCloudHistoryState("idle");
+      if (!snapshots.length) {
+        setCloudHistoryMessage("No cloud backup snapshots yet.");
+      }
+    } catch (err: any) {
+      setCloudHistoryState("error");
+      setCloudHistoryMessage(err?.message || String(err));
+    }
+  }, [resolveCloudHistoryKey, workerBaseUrl]);
+
+  const handleRestoreCloudSnapshot = useCallback(async (snapshot: CloudBackupSnapshot) => {
+    const skHex = resolveCloudHistoryKey();
+    const npub = skHex ? deriveNpubFromSecretKeyHex(skHex) : null;
+    if (!workerBaseUrl || !skHex || !npub) return;
+    const label = new Date(snapshot.storedAt).toLocaleString();
+    if (!confirm(`Restore the cloud backup from ${label}? This replaces the data on this device.`)) return;
+    setCloudHistoryBusyId(snapshot.id);
+    setCloudHistoryMessage("");
+    try {
+      const endpoint = `${workerBaseUrl}/api/backups/history/${encodeURIComponent(snapshot.id)}?npub=${encodeURIComponent(npub)}`;
+      const res = await fetch(endpoint, {
+        headers: { Authorization: buildNip98AuthHeader(endpoint, "GET", skHex) },
+      });
+      if (!res.ok) {
+        throw new Error(`Snapshot request failed (${res.status})`);
+      }
+      const body = await res.json();
+      const parsed = await decryptCloudBackup(skHex, body?.backup);
+      await applyBackupData(parsed);
+      alert("Backup restored. Press close to reload.");
+      setCloudHistoryState("idle");
+      setCloudHistoryMessage(`Restored snapshot from ${label}. Press close to reload.`);
+    } catch (err: any) {
+      setCloudHistoryState("error");
+      setCloudHistoryMessage(err?.message || String(err));
+    } finally {
+      setCloudHistoryBusyId(null);
+    }
+  }, [applyBackupData, resolveCloudHistoryKey, workerBaseUrl]);
+
+  const handleToggleCloudSnapshotPin = useCallback(async (snapshot: CloudBackupSnapshot) => {
+    const skHex = resolveCloudHistoryKey();
+    const npub = skHex ? deriveNpubFromSecretKeyHex(skHex) : null;
+    if (!workerBaseUrl || !skHex || !npub) return;
+    setCloudHistoryBusyId(snapshot.id);
+    setCloudHistoryMessage("");
+    try {
+      const endpoint = `${workerBaseUrl}/api/backups/history/${encodeURIComponent(snapshot.id)}/pin`;
+      const body = JSON.stringify({ npub, pinned: !snapshot.pinned });
+      const res = await fetch(endpoint, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: buildNip98AuthHeader(endpoint, "PUT", skHex, body),
+        },
+        body,
+      });
+      if (!res.ok) {
+        throw new Error(`Updating snapshot failed (${res.status})`);
+      }
+      setCloudHistory((prev) =>
+        prev.map((entry) => (entry.id === snapshot.id ? { ...entry, pinned: !snapshot.pinned } : entry)),
+      );
+    } catch (err: any) {
+      setCloudHistoryState("error");
+      setCloudHistoryMessage(err?.message || String(err));
+    } finally {
+      setCloudHistoryBusyId(null);
+    }
+  }, [resolveCloudHistoryKey, workerBaseUrl]);
+
+  const handleCreateCalendarFeed = useCallback(async () => {
+    if (!workerBaseUrl || !pubkeyHex) {
+      setCalendarFeedState("error");
+      setCalendarFeedMessage("Calendar feeds need the Worker runtime and a Nostr key.");
+      return;
+    }
+    setCalendarFeedState("working");
+    setCalendarFeedMessage("");
+    try {
+      const endpoint = `${workerBaseUrl}/api/calendar/feed`;
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { Authorization: await signNip98AuthHeader(getUserSigner(), endpoint, "POST") },
+      });
+      if (!res.ok) {
+        throw new Error(`Creating calendar feed failed (${res.status})`);
+      }
+      const body = await res.json();
+      if (typeof body?.url !== "string" || !body.url) {
+        throw new Error("Calendar feed response was missing a URL.");
+      }
+      setSettings({ calendarFeedUrl: body.url });
+      setCalendarFeedState("idle");
+    } catch (err: any) {
+      setCalendarFeedState("error");
+      setCalendarFeedMessage(err?.message || String(err));
+    }
+  }, [pubkeyHex, setSettings, workerBaseUrl]);
+
+  const handleRevokeCalendarFeed = useCallback(async () => {
+    if (!workerBaseUrl || !pubkeyHex) return;
+    if (!confirm("Revoke the calendar feed? Calendars subscribed to it will stop updating.")) return;
+    setCalendarFeedState("working");
+    setCalendarFeedMessage("");
+    try {
+      const endpoint = `${workerBaseUrl}/api/calendar/feed`;
+      const res = await fetch(endpoint, {
+        method: "DELETE",
+        headers: { Authorization: await signNip98AuthHeader(getUserSigner(), endpoint, "DELETE") },
+      });
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`Revoking calendar feed failed (${res.status})`);
+      }
+      setSettings({ calendarFeedUrl: null });
+      setCalendarFeedState("idle");
+    } catch (err: any) {
+      setCalendarFeedState("error");
+      setCalendarFeedMessage(err?.message || String(err));
+    }
+  }, [pubkeyHex, setSettings, workerBaseUrl]);
+
+  const handleCopyCalendarFeed = useCallback(async () => {
+    if (!settings.calendarFeedUrl) return;
+    try {
+      await navigator.clipboard.writeText(settings.calendarFeedUrl);
+      showToast("Calendar feed URL copied", 1800);
+    } catch (error) {
+      console.error("Failed to copy calendar feed URL", error);
+      alert("Unable to copy calendar feed URL.");
+    }
+  }, [settings.calendarFeedUrl, showToast]);
+
   async function handleDonate() {
     setDonateState("sending");
     setDonateMsg("");
@@ -13237,10 +15496,50 @@ function SettingsModal({
     if (reloadNeeded) window.location.reload();
   }, [onClose, reloadNeeded]);
 
+  useEffect(() => {
+    if (!pendingJoinLink) return;
+    setJoinLink(pendingJoinLink);
+    onPendingJoinLinkHandled();
+  }, [onPendingJoinLinkHandled, pendingJoinLink]);
+
+  function joinBoardLink(link: BoardLink, name?: string) {
+    setJoinLink(null);
+    if (link.access === "full" && link.boardId) {
+      onJoinBoard(link.boardId, name, link.relays.join(","));
+      return;
+    }
+    onJoinBoardShare({
+      access: link.access === "edit" ? "edit" : "view",
+      boardPubkey: link.boardPubkey,
+      boardTag: link.boardTag,
+      viewKey: link.viewKey || link.boardTag,
+      relays: link.relays,
+      name,
+    });
+  }
+
+  const handleJoinScan = useCallback((value: string) => {
+    const link = parseBoardLink(value);
+    if (!link) {
+      setJoinScanMessage("That QR code is not a Taskify board link.");
+      return false;
+    }
+    setShowJoinScanner(false);
+    setJoinScanMessage("");
+    setJoinLink(link);
+    return true;
+  }, []);
+
   function addBoard() {
     if (shouldReloadForNavigation()) return;
     const name = newBoardName.trim();
     if (!name) return;
+    const link = parseBoardLink(name);
+    if (link) {
+      setJoinLink(link);
+      setNewBoardName("");
+      return;
+    }
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     if (uuidRegex.test(name)) {
       onJoinBoard(name);
@@ -13874,7 +16173,7 @@ function SettingsModal({
             <input
               value={newBoardName}
               onChange={e=>setNewBoardName(e.target.value)}
-              placeholder="Board name or ID"
+              placeholder="Board name, ID or link"
               className="pill-input flex-1 min-w-0"
             />
             <button
@@ -13883,6 +16182,15 @@ function SettingsModal({
             >
               Create/Join
             </button>
+            <button
+              className="ghost-button pressable shrink-0 sm:self-stretch"
+              onClick={() => {
+                setJoinScanMessage("");
+                setShowJoinScanner(true);
+              }}
+            >
+              Scan
+            </button>
           </div>
           <div className="mt-2 flex items-center justify-between gap-3">
             <button
@@ -14838,6 +17146,103 @@ function SettingsModal({
                 </div>
               )}
             </div>
+            {pushPrefs.enabled && pushPrefs.deviceId && (
+              <div className="space-y-4">
+                <div className="text-xs text-secondary">
+                  {pushPrefs.accountPubkey
+                    ? 'Linked to your Nostr account: reminders reach every device using this key, and dismissing one dismisses it everywhere.'
+                    : 'Reminders only reach this device until it is linked to your Nostr account.'}
+                </div>
+                <div>
+                  <div className="text-sm font-medium mb-1">Quiet hours</div>
+                  <div className="text-xs text-secondary mb-2">Hold reminders during these hours and deliver them when quiet hours end.</div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      className={pillButtonClass(!!deliveryPrefs.quietHours)}
+                      onClick={() =>
+                        updateDeliveryPreferences({
+                          quietHours: deliveryPrefs.quietHours ? null : { start: '22:00', end: '07:00' },
+                        })
+                      }
+                      disabled={deliveryState === 'saving'}
+                    >
+                      {deliveryPrefs.quietHours ? 'On' : 'Off'}
+                    </button>
+                    {deliveryPrefs.quietHours && (
+                      <>
+                        <input
+                          type="time"
+                          className="pill-input"
+                          value={deliveryPrefs.quietHours.start}
+                          onChange={(e) => {
+                            if (!e.target.value || !deliveryPrefs.quietHours) return;
+                            updateDeliveryPreferences({ quietHours: { ...deliveryPrefs.quietHours, start: e.target.value } });
+                          }}
+                        />
+                        <span className="text-xs text-secondary">to</span>
+                        <input
+                          type="time"
+                          className="pill-input"
+                          value={deliveryPrefs.quietHours.end}
+                          onChange={(e) => {
+                            if (!e.target.value || !deliveryPrefs.quietHours) return;
+                            updateDeliveryPreferences({ quietHours: { ...deliveryPrefs.quietHours, end: e.target.value } });
+                          }}
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm font-medium mb-1">Bundle reminders</div>
+                  <div className="text-xs text-secondary mb-2">Reminders that fire close together arrive as one digest notification.</div>
+                  <select
+                    className="pill-input"
+                    value={deliveryPrefs.digestWindowMinutes}
+                    onChange={(e) => updateDeliveryPreferences({ digestWindowMinutes: Number(e.target.value) || 0 })}
+                    disabled={deliveryState === 'saving'}
+                  >
+                    {DIGEST_WINDOW_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes === 0 ? 'Off' : `Within ${minutes} minutes`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <div className="text-sm font-medium mb-1">Morning agenda</div>
+                  <div className="text-xs text-secondary mb-2">A daily push listing the tasks due today.</div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      className={pillButtonClass(deliveryPrefs.agenda.enabled)}
+                      onClick={() =>
+                        updateDeliveryPreferences({
+                          agenda: { ...deliveryPrefs.agenda, enabled: !deliveryPrefs.agenda.enabled },
+                        })
+                      }
+                      disabled={deliveryState === 'saving'}
+                    >
+                      {deliveryPrefs.agenda.enabled ? 'On' : 'Off'}
+                    </button>
+                    {deliveryPrefs.agenda.enabled && (
+                      <input
+                        type="time"
+                        className="pill-input"
+                        value={deliveryPrefs.agenda.time}
+                        onChange={(e) => {
+                          if (!e.target.value) return;
+                          updateDeliveryPreferences({ agenda: { ...deliveryPrefs.agenda, time: e.target.value } });
+                        }}
+                      />
+                    )}
+                  </div>
+                </div>
+                <div className="text-xs text-tertiary">Times use {deviceTimeZone}.</div>
+                {deliveryState === 'error' && deliveryMessage && (
+                  <div className="text-xs text-rose-400 break-words">{deliveryMessage}</div>
+                )}
+              </div>
+            )}
             {showPushAdvanced && (
               <>
                 <div>
@@ -14871,6 +17276,59 @@ function SettingsModal({
           </div>
         </section>
 
+        {/* Calendar feed */}
+        <section className="wallet-section space-y-3">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="text-sm font-medium">Calendar feed</div>
+            <div className="ml-auto">
+              <span className={`text-xs ${settings.calendarFeedUrl ? 'text-emerald-400' : 'text-secondary'}`}>
+                {settings.calendarFeedUrl ? 'Active' : 'Off'}
+              </span>
+            </div>
+          </div>
+          <div className="text-xs text-secondary">
+            Subscribe to your tasks from Google, Apple or Outlook calendars. Anyone with the link can read your task titles, so revoke it if it leaks.
+          </div>
+          {settings.calendarFeedUrl ? (
+            <div className="space-y-2">
+              <input className="pill-input w-full text-xs" value={settings.calendarFeedUrl} readOnly onFocus={(e) => e.currentTarget.select()} />
+              <div className="text-xs text-tertiary">
+                Add <span className="text-secondary">?type=todo</span> to the URL for clients that prefer to-dos over events.
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button className="accent-button button-sm pressable" onClick={handleCopyCalendarFeed}>
+                  Copy URL
+                </button>
+                <button
+                  className="ghost-button button-sm pressable"
+                  onClick={handleCreateCalendarFeed}
+                  disabled={calendarFeedState === 'working'}
+                >
+                  New URL
+                </button>
+                <button
+                  className="ghost-button button-sm pressable text-rose-400"
+                  onClick={handleRevokeCalendarFeed}
+                  disabled={calendarFeedState === 'working'}
+                >
+                  Revoke
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              className="accent-button button-sm pressable"
+              onClick={handleCreateCalendarFeed}
+              disabled={!workerConfigured || calendarFeedState === 'working'}
+            >
+              {calendarFeedState === 'working' ? 'Working…' : 'Create calendar feed'}
+            </button>
+          )}
+          {calendarFeedState === 'error' && calendarFeedMessage && (
+            <div className="text-xs text-rose-400 break-words">{calendarFeedMessage}</div>
+          )}
+        </section>
+
         {/* Nostr */}
         <section className="wallet-section space-y-3">
           <div className="flex items-center gap-2 mb-3">
@@ -14906,6 +17364,12 @@ function SettingsModal({
               onClick={()=>setDefaultRelays(DEFAULT_NOSTR_RELAYS.slice())}
             >Reload default relays</button>
           </div>
+          <SignerSettings
+            signer={signer}
+            relays={defaultRelays}
+            onConnect={onSignerChange}
+            onUseLocalKey={onUseLocalKey}
+          />
           {showAdvanced && (
             <>
               {/* Public key */}
@@ -14952,27 +17416,14 @@ function SettingsModal({
               {/* Default relays */}
               <div className="mb-3">
                 <div className="text-xs text-secondary mb-1">Default relays</div>
-                <div className="flex gap-2 mb-2">
-                  <input
-                    value={newDefaultRelay}
-                    onChange={(e)=>setNewDefaultRelay(e.target.value)}
-                    onKeyDown={(e)=>{ if (e.key === 'Enter') { const v = newDefaultRelay.trim(); if (v && !defaultRelays.includes(v)) { setDefaultRelays([...defaultRelays, v]); setNewDefaultRelay(""); } } }}
-                    className="pill-input flex-1"
-                    placeholder="wss://relay.example"
-                  />
-                  <button
-                    className="ghost-button button-sm pressable"
-                    onClick={()=>{ const v = newDefaultRelay.trim(); if (v && !defaultRelays.includes(v)) { setDefaultRelays([...defaultRelays, v]); setNewDefaultRelay(""); } }}
-                  >Add</button>
-                </div>
-                <ul className="space-y-2">
-                  {defaultRelays.map((r) => (
-                    <li key={r} className="p-2 rounded-lg bg-surface-muted border border-surface flex items-center gap-2">
-                      <div className="flex-1 truncate">{r}</div>
-                      <button className="ghost-button button-sm pressable text-rose-400" onClick={()=>setDefaultRelays(defaultRelays.filter(x => x !== r))}>Delete</button>
-                    </li>
-                  ))}
-                </ul>
+                <RelayManager
+                  relays={defaultRelays}
+                  health={relayHealth}
+                  authPreferences={relayAuthPrefs}
+                  onAdd={(url) => setDefaultRelays([...defaultRelays, url])}
+                  onRemove={(url) => setDefaultRelays(defaultRelays.filter((x) => x !== url))}
+                  onAuthPreferenceChange={onRelayAuthPreferenceChange}
+                />
                 <div className="mt-2 flex gap-2">
                   <button
                     className="ghost-button button-sm pressable"
@@ -15052,6 +17503,56 @@ function SettingsModal({
                   <div className="text-xs text-accent">{cloudRestoreMessage}</div>
                 )}
               </div>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="text-xs text-secondary flex-1">
+                    Backup history keeps recent cloud snapshots. Pinned snapshots are never cleaned up.
+                  </div>
+                  <button
+                    className="ghost-button button-sm pressable shrink-0"
+                    onClick={handleLoadCloudHistory}
+                    disabled={!workerBaseUrl || cloudHistoryState === "loading"}
+                  >
+                    {cloudHistoryState === "loading" ? "Loading…" : cloudHistory.length ? "Refresh history" : "Show history"}
+                  </button>
+                </div>
+                {cloudHistory.length > 0 && (
+                  <ul className="space-y-2">
+                    {cloudHistory.map((snapshot) => (
+                      <li key={snapshot.id} className="flex items-center gap-2 text-xs">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-primary truncate">
+                            {new Date(snapshot.storedAt).toLocaleString()}
+                            {snapshot.pinned ? " · Pinned" : ""}
+                          </div>
+                          <div className="text-tertiary">
+                            {formatBackupSize(snapshot.size)} · v{snapshot.version}
+                          </div>
+                        </div>
+                        <button
+                          className="ghost-button button-sm pressable shrink-0"
+                          onClick={() => handleToggleCloudSnapshotPin(snapshot)}
+                          disabled={cloudHistoryBusyId !== null}
+                        >
+                          {snapshot.pinned ? "Unpin" : "Pin"}
+                        </button>
+                        <button
+                          className="accent-button button-sm pressable shrink-0"
+                          onClick={() => handleRestoreCloudSnapshot(snapshot)}
+                          disabled={cloudHistoryBusyId !== null}
+                        >
+                          {cloudHistoryBusyId === snapshot.id ? "Working…" : "Restore"}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {cloudHistoryMessage && (
+                  <div className={`text-xs ${cloudHistoryState === "error" ? "text-rose-400" : "text-secondary"}`}>
+                    {cloudHistoryMessage}
+                  </div>
+                )}
+              </div>
             </div>
           ) : (
             renderBackupButtons()
@@ -15367,13 +17868,165 @@ function SettingsModal({
             >{showAdvanced ? "Hide advanced" : "Advanced"}</button>
           </div>
           <div className="space-y-2">
-            {manageBoard.nostr ? (
+            {manageBoard.nostr && !hasFullBoardAccess(manageBoard.nostr) ? (
+              <>
+                <div className="text-xs text-secondary">
+                  {manageBoard.nostr.access === "edit"
+                    ? "You joined this board with an edit code. Your changes sync once the owner adds your key as a member."
+                    : "You joined this board with a view code. You can see its tasks but not change them."}
+                </div>
+                {manageBoard.nostr.access === "edit" && (
+                  pubkeyHex ? (
+                    <>
+                      <div className="text-xs text-secondary">
+                        {(manageBoard.nostr.members ?? []).includes(pubkeyHex)
+                          ? "The owner has added your key."
+                          : "Ask the owner to add your key:"}
+                      </div>
+                      <div className="flex gap-2 items-center">
+                        <input readOnly value={formatPubkeyForDisplay(pubkeyHex)} className="pill-input flex-1 min-w-0"/>
+                        <button className="ghost-button button-sm pressable" onClick={async ()=>{ try { await navigator.clipboard?.writeText(formatPubkeyForDisplay(pubkeyHex)); } catch {} }}>Copy</button>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-xs text-secondary">Generate a Nostr key in Settings → Nostr so the owner can add you.</div>
+                  )
+                )}
+                <div className="flex gap-2">
+                  <button
+                    className="ghost-button button-sm pressable"
+                    disabled={!workerBaseUrl || !manageBoardPubkey}
+                    onClick={()=>copyReadOnlyBoardLink("link")}
+                  >Copy read-only link</button>
+                  <button
+                    className="ghost-button button-sm pressable"
+                    disabled={!workerBaseUrl || !manageBoardPubkey}
+                    onClick={()=>copyReadOnlyBoardLink("embed")}
+                  >Copy embed code</button>
+                </div>
+              </>
+            ) : manageBoard.nostr ? (
               <>
                 <div className="text-xs text-secondary">Board ID</div>
                 <div className="flex gap-2 items-center">
                   <input readOnly value={manageBoard.nostr.boardId}
                          className="pill-input flex-1 min-w-0"/>
                   <button className="ghost-button button-sm pressable" onClick={async ()=>{ try { await navigator.clipboard?.writeText(manageBoard.nostr!.boardId); } catch {} }}>Copy</button>
+                </div>
+                <div className="text-xs text-secondary">
+                  Anyone with the board ID can edit this board. Read-only links only show its columns and tasks, and embed codes put that view on a wiki or site.
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className="ghost-button button-sm pressable"
+                    disabled={!workerBaseUrl || !boardKeyInfo}
+                    onClick={()=>copyReadOnlyBoardLink("link")}
+                  >Copy read-only link</button>
+                  <button
+                    className="ghost-button button-sm pressable"
+                    disabled={!workerBaseUrl || !boardKeyInfo}
+                    onClick={()=>copyReadOnlyBoardLink("embed")}
+                  >Copy embed code</button>
+                </div>
+                {manageBoard.kind !== "compound" && (
+                  <div className="space-y-2 pt-2">
+                    <div className="text-xs text-secondary">View and edit codes</div>
+                    <div className="text-xs text-secondary">
+                      Share codes let people join without the board ID. A view code only shows the board; an edit code also lets them change it once you add their key below. They paste the code into Add board.
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        className="ghost-button button-sm pressable"
+                        disabled={!boardKeyInfo}
+                        onClick={()=>copyBoardShareCode("view")}
+                      >Copy view code</button>
+                      <button
+                        className="ghost-button button-sm pressable"
+                        disabled={!boardKeyInfo}
+                        onClick={()=>copyBoardShareCode("edit")}
+                      >Copy edit code</button>
+                    </div>
+                    {manageBoard.nostr.splitAccess && (
+                      <>
+                        <div className="text-xs text-secondary">Members who can edit</div>
+                        <div className="flex gap-2">
+                          <input
+                            value={newMemberKey}
+                            onChange={(e)=>setNewMemberKey(e.target.value)}
+                            onKeyDown={(e)=>{ if (e.key === 'Enter') addBoardMember(); }}
+                            className="pill-input flex-1 min-w-0"
+                            placeholder="npub or hex key"
+                          />
+                          <button className="ghost-button button-sm pressable" onClick={addBoardMember}>Add</button>
+                        </div>
+                        {(manageBoard.nostr.members ?? []).length > 0 && (
+                          <ul className="space-y-2">
+                            {(manageBoard.nostr.members ?? []).map((member) => (
+                              <li key={member} className="p-2 rounded-lg bg-surface-muted border border-surface flex items-center gap-2">
+                                <div className="flex-1 truncate">{formatPubkeyForDisplay(member)}</div>
+                                <button
+                                  className="ghost-button button-sm pressable text-rose-400"
+                                  onClick={()=>updateBoardMembers((manageBoard.nostr?.members ?? []).filter((pk) => pk !== member))}
+                                >Remove</button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-2 pt-2">
+                  <div className="text-xs text-secondary">Rotate board key</div>
+                  <div className="text-xs text-secondary">
+                    Moves the board to a new board ID, re-encrypts its tasks and deletes the old events. Only the people you re-invite receive the new key in a private message.
+                  </div>
+                  {rotateInvitees ? (
+                    <>
+                      <div className="flex gap-2">
+                        <input
+                          value={rotateInviteeInput}
+                          onChange={(e)=>setRotateInviteeInput(e.target.value)}
+                          onKeyDown={(e)=>{ if (e.key === 'Enter') addRotateInvitee(); }}
+                          className="pill-input flex-1 min-w-0"
+                          placeholder="Re-invite npub or hex key"
+                        />
+                        <button className="ghost-button button-sm pressable" onClick={addRotateInvitee}>Add</button>
+                      </div>
+                      {rotateInvitees.length > 0 ? (
+                        <ul className="space-y-2">
+                          {rotateInvitees.map((pk) => (
+                            <li key={pk} className="p-2 rounded-lg bg-surface-muted border border-surface flex items-center gap-2">
+                              <div className="flex-1 truncate">{pk === pubkeyHex ? "You (other devices)" : formatPubkeyForDisplay(pk)}</div>
+                              <button
+                                className="ghost-button button-sm pressable text-rose-400"
+                                onClick={()=>setRotateInvitees((prev) => (prev ? prev.filter((entry) => entry !== pk) : prev))}
+                              >Remove</button>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <div className="text-xs text-tertiary">Nobody will be re-invited.</div>
+                      )}
+                      <div className="flex gap-2">
+                        <button
+                          className="ghost-button button-sm pressable text-rose-400"
+                          onClick={confirmBoardKeyRotation}
+                          disabled={rotateState === 'working'}
+                        >{rotateState === 'working' ? 'Rotating…' : 'Rotate key'}</button>
+                        <button
+                          className="ghost-button button-sm pressable"
+                          onClick={()=>setRotateInvitees(null)}
+                          disabled={rotateState === 'working'}
+                        >Cancel</button>
+                      </div>
+                    </>
+                  ) : (
+                    <button className="ghost-button button-sm pressable" onClick={startBoardKeyRotation}>Rotate board key…</button>
+                  )}
+                  {rotateState === 'error' && rotateMessage && (
+                    <div className="text-xs text-rose-400">{rotateMessage}</div>
+                  )}
                 </div>
                   {showAdvanced && (
                     <>
@@ -15406,34 +18059,24 @@ function SettingsModal({
                         >Copy</button>
                       </div>
                       <div className="text-xs text-secondary">Relays</div>
-                      <div className="flex gap-2 mb-2">
-                        <input
-                          value={newBoardRelay}
-                          onChange={(e)=>setNewBoardRelay(e.target.value)}
-                          onKeyDown={(e)=>{ if (e.key === 'Enter' && manageBoard?.nostr) { const v = newBoardRelay.trim(); if (v && !(manageBoard.nostr.relays || []).includes(v)) { setBoards(prev => prev.map(b => b.id === manageBoard.id ? ({...b, nostr: { boardId: manageBoard.nostr!.boardId, relays: [...(manageBoard.nostr!.relays || []), v] } }) : b)); setNewBoardRelay(""); } } }}
-                          className="pill-input flex-1"
-                          placeholder="wss://relay.example"
+                      <div className="mb-2">
+                        <RelayManager
+                          relays={manageBoard.nostr.relays || []}
+                          health={relayHealth}
+                          authPreferences={relayAuthPrefs}
+                          onAuthPreferenceChange={onRelayAuthPreferenceChange}
+                          onAdd={(url) => {
+                            if (!manageBoard?.nostr) return;
+                            const relays = [...(manageBoard.nostr.relays || []), url];
+                            setBoards(prev => prev.map(b => b.id === manageBoard.id ? ({...b, nostr: { ...manageBoard.nostr!, relays } }) : b));
+                          }}
+                          onRemove={(url) => {
+                            if (!manageBoard?.nostr) return;
+                            const relays = (manageBoard.nostr.relays || []).filter(x => x !== url);
+                            setBoards(prev => prev.map(b => b.id === manageBoard.id ? ({...b, nostr: { ...manageBoard.nostr!, relays } }) : b));
+                          }}
                         />
-                        <button
-                          className="ghost-button button-sm pressable"
-                          onClick={()=>{ if (!manageBoard?.nostr) return; const v = newBoardRelay.trim(); if (v && !(manageBoard.nostr.relays || []).includes(v)) { setBoards(prev => prev.map(b => b.id === manageBoard.id ? ({...b, nostr: { boardId: manageBoard.nostr!.boardId, relays: [...(manageBoard.nostr!.relays || []), v] } }) : b)); setNewBoardRelay(""); } }}
-                        >Add</button>
                       </div>
-                      <ul className="space-y-2 mb-2">
-                        {(manageBoard.nostr.relays || []).map((r) => (
-                          <li key={r} className="p-2 rounded-lg bg-surface-muted border border-surface flex items-center gap-2">
-                            <div className="flex-1 truncate">{r}</div>
-                            <button
-                              className="ghost-button button-sm pressable text-rose-400"
-                              onClick={()=>{
-                                if (!manageBoard?.nostr) return;
-                                const relays = (manageBoard.nostr.relays || []).filter(x => x !== r);
-                                setBoards(prev => prev.map(b => b.id === manageBoard.id ? ({...b, nostr: { boardId: manageBoard.nostr!.boardId, relays } }) : b));
-                              }}
-                            >Delete</button>
-                          </li>
-                        ))}
-                      </ul>
                       <button
                         className="ghost-button button-sm pressable w-full justify-center"
                         onClick={cleanupStaleBoardEvents}
@@ -15444,6 +18087,56 @@ function SettingsModal({
                       {staleCleanupMessage && (
                         <div className="text-xs text-secondary mt-1">{staleCleanupMessage}</div>
                       )}
+                      <div className="space-y-2">
+                        <div className="text-xs text-secondary">Compact history</div>
+                        <div className="flex gap-2 items-center">
+                          <select
+                            value={compactionDays}
+                            onChange={(e) => {
+                              setCompactionDays(Number(e.target.value));
+                              setCompactionScan(null);
+                            }}
+                            className="pill-select flex-1 min-w-0"
+                            title="Completed tasks to archive"
+                          >
+                            <option value={30}>Deleted tasks and tasks completed 30+ days ago</option>
+                            <option value={90}>Deleted tasks and tasks completed 90+ days ago</option>
+                            <option value={180}>Deleted tasks and tasks completed 180+ days ago</option>
+                            <option value={365}>Deleted tasks and tasks completed a year ago</option>
+                          </select>
+                          <button
+                            className="ghost-button button-sm pressable"
+                            onClick={scanBoardCompaction}
+                            disabled={compactionState !== "idle"}
+                          >
+                            {compactionState === "scanning" ? "Scanning…" : "Scan"}
+                          </button>
+                        </div>
+                        {compactionScan?.boardId === manageBoard.id && compactionScan.plan.candidates.length > 0 && (
+                          <button
+                            className="accent-button button-sm pressable w-full justify-center"
+                            onClick={runBoardCompaction}
+                            disabled={compactionState !== "idle"}
+                          >
+                            {compactionState === "compacting"
+                              ? "Compacting…"
+                              : `Archive and delete ${compactionScan.plan.candidates.length} tasks from relays`}
+                          </button>
+                        )}
+                        {compactionMessage && (
+                          <div className="text-xs text-secondary">{compactionMessage}</div>
+                        )}
+                        {compactionReport?.boardId === manageBoard.id && (
+                          <ul className="text-xs text-secondary space-y-0.5">
+                            {compactionReport.relays.map((entry) => (
+                              <li key={entry.relay} className="break-all">
+                                {entry.relay}: removed {entry.removed} of {entry.targeted} events
+                                {entry.accepted ? "" : " (deletion requests not accepted)"}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
                       <button className="ghost-button button-sm pressable" onClick={()=>onRegenerateBoardId(manageBoard.id)}>Generate new board ID</button>
                     </>
                   )}
@@ -15475,6 +18168,64 @@ function SettingsModal({
                   }
                   }}>Stop sharing</button>
                 </div>
+                {workerBaseUrl && (
+                  <div className="space-y-2 pt-2">
+                    <div className="text-xs text-secondary">Inbox</div>
+                    <div className="text-xs text-secondary">
+                      Scripts, CI jobs and forms can add tasks by POSTing a title, note, due date and column to an inbox URL. Anyone with the URL can add tasks, so revoke it if it leaks.
+                    </div>
+                    {createdInboxUrl && (
+                      <div className="space-y-2">
+                        <div className="flex gap-2 items-center">
+                          <input className="pill-input flex-1 min-w-0 text-xs" value={createdInboxUrl} readOnly onFocus={(e) => e.currentTarget.select()} />
+                          <button
+                            className="ghost-button button-sm pressable"
+                            onClick={async ()=>{ try { await navigator.clipboard?.writeText(createdInboxUrl); showToast('Inbox URL copied', 1800); } catch {} }}
+                          >Copy</button>
+                        </div>
+                        <div className="text-xs text-tertiary">
+                          This URL is only shown once. Send JSON like <span className="text-secondary">{'{"title":"Call Sam","due":"2025-01-31","column":"Inbox"}'}</span>, form fields or plain text.
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <input
+                        value={inboxLabel}
+                        onChange={(e)=>setInboxLabel(e.target.value)}
+                        onKeyDown={(e)=>{ if (e.key === 'Enter') handleCreateInboxToken(); }}
+                        className="pill-input flex-1 min-w-0"
+                        placeholder="Label (optional)"
+                      />
+                      <button
+                        className="ghost-button button-sm pressable"
+                        onClick={handleCreateInboxToken}
+                        disabled={!boardKeyInfo || inboxState === 'working'}
+                      >{inboxState === 'working' ? 'Working…' : 'Create URL'}</button>
+                    </div>
+                    {inboxTokens.length > 0 && (
+                      <ul className="space-y-2">
+                        {inboxTokens.map((token) => (
+                          <li key={token.id} className="p-2 rounded-lg bg-surface-muted border border-surface flex items-center gap-2">
+                            <div className="flex-1 min-w-0">
+                              <div className="truncate">{token.label || `Token …${token.tokenHint}`}</div>
+                              <div className="text-xs text-secondary">
+                                {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : `Created ${new Date(token.createdAt).toLocaleDateString()}`}
+                              </div>
+                            </div>
+                            <button
+                              className="ghost-button button-sm pressable text-rose-400"
+                              onClick={()=>handleRevokeInboxToken(token)}
+                              disabled={inboxState === 'working'}
+                            >Revoke</button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {inboxState === 'error' && inboxMessage && (
+                      <div className="text-xs text-rose-400">{inboxMessage}</div>
+                    )}
+                  </div>
+                )}
               </>
             ) : (
               <>
@@ -15504,11 +18255,64 @@ function SettingsModal({
                 <button className="accent-button button-sm pressable w-full justify-center" onClick={()=>{onShareBoard(manageBoard.id, showAdvanced ? relaysCsv : ""); setRelaysCsv('');}}>Share this board</button>
               </>
             )}
+            {manageBoard.nostr && (
+              <div className="space-y-2 pt-2">
+                <div className="text-xs text-secondary">Board link</div>
+                <div className="text-xs text-secondary">
+                  A link and QR code that open this board in Taskify with the access you pick. The board address is a Nostr naddr other clients can look up.
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button className={pillButtonClass(shareLinkAccess === "view")} onClick={()=>showBoardLink("view")}>View</button>
+                  {manageBoardFullAccess && manageBoard.kind !== "compound" && (
+                    <button className={pillButtonClass(shareLinkAccess === "edit")} onClick={()=>showBoardLink("edit")}>Edit</button>
+                  )}
+                  {manageBoardFullAccess && (
+                    <button className={pillButtonClass(shareLinkAccess === "full")} onClick={()=>showBoardLink("full")}>Full access</button>
+                  )}
+                </div>
+                {manageBoardLink && (
+                  <>
+                    <div className="flex justify-center">
+                      <div className="p-3 rounded-xl bg-white">
+                        <QRCodeCanvas value={manageBoardJoinUrl} size={192} includeMargin={false} />
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <button className="ghost-button button-sm pressable" onClick={()=>copyBoardLink("url")}>Copy link</button>
+                      <button className="ghost-button button-sm pressable" onClick={()=>copyBoardLink("protocol")}>Copy web+taskify link</button>
+                      <button className="ghost-button button-sm pressable" onClick={()=>copyBoardLink("naddr")}>Copy naddr</button>
+                    </div>
+                    {shareLinkAccess === "full" && (
+                      <div className="text-xs text-rose-400">This link carries the board ID. Anyone who scans it can edit the board.</div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
             <button className="ghost-button button-sm pressable text-rose-400 mt-2 w-full justify-center" onClick={()=>deleteBoard(manageBoard.id)}>Delete board</button>
           </div>
         </div>
       </Modal>
     )}
+    <ActionSheet
+      open={showJoinScanner}
+      onClose={() => setShowJoinScanner(false)}
+      title="Scan board link"
+      stackLevel={70}
+    >
+      <div className="wallet-section space-y-3">
+        <QrScanner active={showJoinScanner} onDetected={handleJoinScan} />
+        {joinScanMessage && <div className="text-xs text-center text-rose-400">{joinScanMessage}</div>}
+      </div>
+    </ActionSheet>
+    {joinLink && (
+      <BoardLinkJoinModal
+        link={joinLink}
+        defaultRelays={defaultRelays}
+        onJoin={joinBoardLink}
+        onClose={() => setJoinLink(null)}
+      />
+    )}
     </>
   );
 }
@@ -1,5 +1,5 @@
 import { sha256 } from '@noble/hashes/sha256';
-import { bytesToHex } from '@noble/hashes/utils';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
 
 function bytesToBase64(bytes: Uint8Array): string {
   const Buf = (globalThis as any).Buffer;
@@ -22,14 +22,19 @@ function base64ToBytes(base64: string): Uint8Array {
   return bytes;
 }
 
+const VIEW_KEY_LABEL = 'taskify-board-view-key-v1';
+
 async function deriveKey(boardId: string): Promise<CryptoKey> {
   const enc = new TextEncoder();
   const hash = await crypto.subtle.digest('SHA-256', enc.encode(boardId));
   return crypto.subtle.importKey('raw', hash, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
 }
 
-export async function encryptToBoard(boardId: string, plaintext: string): Promise<string> {
-  const key = await deriveKey(boardId);
+function importViewKey(viewKeyHex: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', hexToBytes(viewKeyHex), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+async function encryptWithKey(key: CryptoKey, plaintext: string): Promise<string> {
   const iv = crypto.getRandomValues(new Uint8Array(12));
   const enc = new TextEncoder();
   const ctBuf = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, enc.encode(plaintext));
@@ -39,8 +44,7 @@ export async function encryptToBoard(boardId: string, plaintext: string): Promis
   return bytesToBase64(combined);
 }
 
-export async function decryptFromBoard(boardId: string, data: string): Promise<string> {
-  const key = await deriveKey(boardId);
+async function decryptWithKey(key: CryptoKey, data: string): Promise<string> {
   const bytes = base64ToBytes(data);
   const iv = bytes.slice(0, 12);
   const ct = bytes.slice(12);
@@ -49,6 +53,28 @@ export async function decryptFromBoard(boardId: string, data: string): Promise<s
   return dec.decode(ptBuf);
 }
 
+export async function encryptToBoard(boardId: string, plaintext: string): Promise<string> {
+  return encryptWithKey(await deriveKey(boardId), plaintext);
+}
+
+export async function decryptFromBoard(boardId: string, data: string): Promise<string> {
+  return decryptWithKey(await deriveKey(boardId), data);
+}
+
+// Boards with split access encrypt with a view key instead. It is derived from the board ID with a
+// label, so unlike SHA-256(boardId) it cannot be recomputed from the public board tag.
+export function boardViewKey(boardId: string): string {
+  return bytesToHex(sha256(`${VIEW_KEY_LABEL}${boardId}`));
+}
+
+export async function encryptWithViewKey(viewKeyHex: string, plaintext: string): Promise<string> {
+  return encryptWithKey(await importViewKey(viewKeyHex), plaintext);
+}
+
+export async function decryptWithViewKey(viewKeyHex: string, data: string): Promise<string> {
+  return decryptWithKey(await importViewKey(viewKeyHex), data);
+}
+
 export function boardTag(boardId: string): string {
   return bytesToHex(sha256(boardId));
 }
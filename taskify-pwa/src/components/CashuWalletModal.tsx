@@ -14,15 +14,14 @@ import {
 import { secp256k1 } from "@noble/curves/secp256k1";
 import { sha256 } from "@noble/hashes/sha256";
 import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
-import QrScannerLib from "qr-scanner";
-import qrScannerWorkerPath from "qr-scanner/qr-scanner-worker.min.js?url";
 import { QRCodeCanvas } from "qrcode.react";
-import { finalizeEvent, getPublicKey, nip04, nip19, nip44, SimplePool, type EventTemplate } from "nostr-tools";
+import { finalizeEvent, getPublicKey, nip04, nip19, SimplePool, type EventTemplate } from "nostr-tools";
 import { useCashu } from "../context/CashuContext";
 import { useNwc } from "../context/NwcContext";
 import { useToast } from "../context/ToastContext";
 import { useP2PK, type P2PKKey } from "../context/P2PKContext";
 import { EcashGlyph } from "./EcashGlyph";
+import { QrScanner } from "./QrScanner";
 import {
   addMintToList,
   getMintList,
@@ -52,6 +51,7 @@ import {
 import { LS_NOSTR_SK } from "../nostrKeys";
 import { DEFAULT_NOSTR_RELAYS } from "../lib/relays";
 import { normalizeNostrPubkey } from "../lib/nostr";
+import { GIFT_WRAP_KIND, privateMessagesSupported, unwrapPrivateMessage, wrapPrivateMessage } from "../lib/nip17";
 import type { CreateSendTokenOptions } from "../wallet/CashuManager";
 import {
   NpubCashError,
@@ -76,9 +76,6 @@ import {
   type MintBackupPayload,
 } from "../wallet/mintBackup";
 
-QrScannerLib.WORKER_PATH = qrScannerWorkerPath;
-type ScanResult = QrScannerLib.ScanResult;
-
 const AnimatedEllipsis = () => {
   const [step, setStep] = useState(0);
 
@@ -369,25 +366,6 @@ async function fetchWithTimeout(url: string, init: RequestInit = {}, timeoutMs =
   }
 }
 
-function generatePrivateKey(): { hex: string; bytes: Uint8Array } {
-  let bytes: Uint8Array;
-  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
-    bytes = new Uint8Array(32);
-    crypto.getRandomValues(bytes);
-  } else {
-    bytes = secp256k1.utils.randomPrivateKey();
-  }
-  const hex = bytesToHex(bytes);
-  return { hex, bytes };
-}
-
-function randomPastTimestampSeconds(maxOffsetSeconds = 2 * 24 * 60 * 60): number {
-  const now = Math.floor(Date.now() / 1000);
-  const clampedMax = Math.max(0, Math.floor(maxOffsetSeconds));
-  const offset = clampedMax > 0 ? Math.floor(Math.random() * (clampedMax + 1)) : 0;
-  return Math.max(0, now - offset);
-}
-
 function PencilIcon(props: React.SVGProps<SVGSVGElement>) {
   return (
     <svg viewBox="0 0 20 20" fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinecap="round" strokeLinejoin="round" aria-hidden="true" {...props}>
@@ -776,130 +754,6 @@ function QrCodeCard({
   );
 }
 
-function QrScanner({ active, onDetected, onError }: { active: boolean; onDetected: (value: string) => boolean | Promise<boolean>; onError?: (message: string) => void; }) {
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const overlayRef = useRef<HTMLDivElement | null>(null);
-  const scannerRef = useRef<QrScannerLib | null>(null);
-  const stopRequestedRef = useRef(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const reportError = useCallback((message: string) => {
-    setError(message);
-    if (onError) onError(message);
-  }, [onError]);
-
-  const clearError = useCallback(() => {
-    setError(null);
-  }, []);
-
-  const stopScanner = useCallback(() => {
-    const scanner = scannerRef.current;
-    if (scanner) {
-      try {
-        scanner.stop();
-      } catch (err) {
-        console.warn("Failed to stop scanner", err);
-      }
-      scanner.destroy();
-      scannerRef.current = null;
-    }
-    const video = videoRef.current;
-    if (video && video.srcObject instanceof MediaStream) {
-      video.srcObject.getTracks().forEach((track) => track.stop());
-      video.srcObject = null;
-    }
-  }, []);
-
-  useEffect(() => {
-    if (!active) {
-      stopRequestedRef.current = true;
-      stopScanner();
-      clearError();
-      return;
-    }
-
-    const video = videoRef.current;
-    const overlay = overlayRef.current || undefined;
-    if (!video) return;
-
-    stopRequestedRef.current = false;
-    let cancelled = false;
-
-    async function start() {
-      try {
-        clearError();
-        const scanner = new QrScannerLib(
-          video,
-          async (result: ScanResult) => {
-            const value = result?.data?.trim();
-            if (!value || stopRequestedRef.current) return;
-            try {
-              const shouldClose = await onDetected(value);
-              if (shouldClose) {
-                stopRequestedRef.current = true;
-                stopScanner();
-              }
-            } catch (err) {
-              console.warn("QR handler failed", err);
-            }
-          },
-          {
-            returnDetailedScanResult: true,
-            highlightScanRegion: true,
-            highlightCodeOutline: true,
-            overlay,
-            preferredCamera: "environment",
-            maxScansPerSecond: 12,
-            onDecodeError: (err) => {
-              if (typeof err === "string" && err === QrScannerLib.NO_QR_CODE_FOUND) return;
-            },
-          }
-        );
-
-        video.setAttribute("playsinline", "true");
-        video.setAttribute("muted", "true");
-        video.setAttribute("autoplay", "true");
-        video.playsInline = true;
-        video.muted = true;
-
-        scannerRef.current = scanner;
-        await scanner.start();
-      } catch (err) {
-        if (cancelled) return;
-        const message = err instanceof Error ? err.message : String(err);
-        reportError(message || "Unable to access camera");
-        stopScanner();
-      }
-    }
-
-    start();
-
-    return () => {
-      cancelled = true;
-      stopRequestedRef.current = true;
-      stopScanner();
-    };
-  }, [active, onDetected, reportError, stopScanner, clearError]);
-
-  return (
-    <div className="wallet-scanner space-y-3">
-      <div className={`wallet-scanner__viewport${error ? " wallet-scanner__viewport--error" : ""}`}>
-        {error ? (
-          <div className="wallet-scanner__fallback">{error}</div>
-        ) : (
-          <>
-            <video ref={videoRef} className="wallet-scanner__video" playsInline muted />
-            <div ref={overlayRef} className="wallet-scanner__guide" aria-hidden="true" />
-          </>
-        )}
-      </div>
-      <div className="wallet-scanner__hint text-xs text-secondary text-center">
-        {error ? "Camera unavailable. Try entering the code manually." : "Align a QR code inside the frame."}
-      </div>
-    </div>
-  );
-}
-
 function LightningGlyph({ className }: { className?: string }) {
   return (
     <svg
@@ -1400,34 +1254,11 @@ export default function CashuWalletModal({
           }
           return await nip04.decrypt(secretHex, event.pubkey, event.content);
         }
-        if (event.kind === 1059 && nip44?.v2) {
+        if (event.kind === GIFT_WRAP_KIND && privateMessagesSupported()) {
           if (PAYMENT_REQUEST_DEBUG) {
             console.debug("[wallet] payment request DM kind=1059", event.id);
           }
-          const wrapKey = nip44.v2.utils.getConversationKey(secretHex, event.pubkey);
-          const sealJson = await nip44.v2.decrypt(event.content, wrapKey);
-          let sealEvent: NostrEvent | null = null;
-          try {
-            sealEvent = JSON.parse(sealJson) as NostrEvent;
-          } catch {
-            sealEvent = null;
-          }
-          if (!sealEvent || sealEvent.kind !== 13 || typeof sealEvent.content !== "string") {
-            return null;
-          }
-          if (typeof sealEvent.pubkey !== "string") return null;
-          const dmKey = nip44.v2.utils.getConversationKey(secretHex, sealEvent.pubkey);
-          const dmJson = await nip44.v2.decrypt(sealEvent.content, dmKey);
-          let rumor: NostrEvent | null = null;
-          try {
-            rumor = JSON.parse(dmJson) as NostrEvent;
-          } catch {
-            rumor = null;
-          }
-          if (!rumor || rumor.kind !== 14 || typeof rumor.content !== "string") {
-            return null;
-          }
-          return rumor.content;
+          return unwrapPrivateMessage(event, secretHex)?.content ?? null;
         }
       } catch (err) {
         console.warn("Failed to decrypt payment request message", err);
@@ -8613,41 +8444,10 @@ useEffect(() => {
             }
             const allowNip17 = supportedNips.size === 0 || supportedNips.has("17");
             const allowNip04 = supportedNips.size === 0 || supportedNips.has("4");
-            if (allowNip17 && nip44?.v2) {
-              const rumor = {
-                kind: 14,
-                content: JSON.stringify(payload),
-                tags: [["p", recipientPubkey]] as string[][],
-                created_at: randomPastTimestampSeconds(),
-                pubkey: identity.pubkey,
-              } satisfies Partial<NostrEvent>;
-              const directConversationKey = nip44.v2.utils.getConversationKey(
-                identity.secret,
-                recipientPubkey,
-              );
-              const sealedContent = await nip44.v2.encrypt(JSON.stringify(rumor), directConversationKey);
-              const sealTemplate: EventTemplate = {
-                kind: 13,
-                content: sealedContent,
-                tags: [],
-                created_at: randomPastTimestampSeconds(),
-              };
-              const sealEvent = finalizeEvent(sealTemplate, hexToBytes(identity.secret));
-              const wrapKey = generatePrivateKey();
-              const wrapConversationKey = nip44.v2.utils.getConversationKey(
-                wrapKey.hex,
-                recipientPubkey,
-              );
-              const wrapContent = await nip44.v2.encrypt(JSON.stringify(sealEvent), wrapConversationKey);
-              const wrapTemplate: EventTemplate = {
-                kind: 1059,
-                content: wrapContent,
-                tags: [["p", recipientPubkey]],
-                created_at: randomPastTimestampSeconds(),
-              };
-              const wrapEvent = finalizeEvent(wrapTemplate, wrapKey.bytes);
+            if (allowNip17 && privateMessagesSupported()) {
+              const wrapEvent = wrapPrivateMessage(identity.secret, recipientPubkey, JSON.stringify(payload));
               await publishWithTimeout(wrapEvent);
-            } else if (allowNip17 && !nip44?.v2 && !allowNip04) {
+            } else if (allowNip17 && !privateMessagesSupported() && !allowNip04) {
               throw new Error("NIP-44 support is required to send this payment");
             } else if (allowNip04) {
               const ciphertext = await nip04.encrypt(
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { ActionSheet } from "./ActionSheet";
+import {
+  createProfile,
+  loadProfiles,
+  renameProfile,
+  type ProfileIndex,
+} from "../lib/profiles";
+
+/**
+ * Header chip naming the active identity profile. Opens a sheet to switch, add, rename and delete
+ * profiles. Switching and deleting are handed to the app: switching reloads with the other profile's
+ * storage, and deleting also unregisters the profile's push device.
+ */
+export function ProfileSwitcher({
+  onSwitch,
+  onDelete,
+}: {
+  onSwitch: (id: string) => void;
+  onDelete: (id: string) => Promise<void>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [index, setIndex] = useState<ProfileIndex>(() => loadProfiles());
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [error, setError] = useState("");
+  const active = index.profiles.find((p) => p.id === index.activeId);
+
+  function run(action: () => void) {
+    setError("");
+    try {
+      action();
+      setIndex(loadProfiles());
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  }
+
+  function add() {
+    run(() => {
+      createProfile(newName);
+      setNewName("");
+    });
+  }
+
+  function saveRename(id: string) {
+    run(() => {
+      renameProfile(id, editName);
+      setEditingId(null);
+    });
+  }
+
+  async function remove(id: string, name: string) {
+    if (!confirm(`Delete the profile "${name}"? Its key, boards, tasks and wallet on this device are removed.`)) return;
+    setError("");
+    try {
+      await onDelete(id);
+      setIndex(loadProfiles());
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className="chip pressable"
+        onClick={() => {
+          setIndex(loadProfiles());
+          setOpen(true);
+        }}
+        title="Switch profile"
+      >
+        {active?.name ?? "Profile"}
+      </button>
+      <ActionSheet open={open} onClose={() => setOpen(false)} title="Profiles">
+        <div className="space-y-3 text-sm">
+          <ul className="space-y-2">
+            {index.profiles.map((profile) => {
+              const isActive = profile.id === index.activeId;
+              return (
+                <li key={profile.id} className="p-2 rounded-lg bg-surface-muted border border-surface">
+                  {editingId === profile.id ? (
+                    <div className="flex gap-2">
+                      <input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === "Enter") saveRename(profile.id); }}
+                        className="pill-input flex-1 min-w-0"
+                        autoFocus
+                      />
+                      <button className="ghost-button button-sm pressable" onClick={() => saveRename(profile.id)}>Save</button>
+                      <button className="ghost-button button-sm pressable" onClick={() => setEditingId(null)}>Cancel</button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0 truncate">{profile.name}</div>
+                      {isActive ? (
+                        <span className="chip chip-accent">Active</span>
+                      ) : (
+                        <button className="accent-button button-sm pressable" onClick={() => onSwitch(profile.id)}>
+                          Switch
+                        </button>
+                      )}
+                      <button
+                        className="ghost-button button-sm pressable"
+                        onClick={() => {
+                          setEditingId(profile.id);
+                          setEditName(profile.name);
+                        }}
+                      >Rename</button>
+                      {!isActive && (
+                        <button
+                          className="ghost-button button-sm pressable text-rose-400"
+                          onClick={() => remove(profile.id, profile.name)}
+                        >Delete</button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter" && newName.trim()) add(); }}
+              className="pill-input flex-1 min-w-0"
+              placeholder="New profile name"
+            />
+            <button className="ghost-button button-sm pressable" disabled={!newName.trim()} onClick={add}>Add</button>
+          </div>
+          <div className="text-xs text-secondary">
+            Each profile keeps its own Nostr key, boards, tasks, settings, contacts and wallet. A new profile starts
+            with a fresh key; paste an existing nsec in Settings after switching to it.
+          </div>
+          {error && <div className="text-xs text-rose-400">{error}</div>}
+        </div>
+      </ActionSheet>
+    </>
+  );
+}
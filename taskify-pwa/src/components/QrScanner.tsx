@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import QrScannerLib from "qr-scanner";
+import qrScannerWorkerPath from "qr-scanner/qr-scanner-worker.min.js?url";
+
+QrScannerLib.WORKER_PATH = qrScannerWorkerPath;
+type ScanResult = QrScannerLib.ScanResult;
+
+export function QrScanner({ active, onDetected, onError }: { active: boolean; onDetected: (value: string) => boolean | Promise<boolean>; onError?: (message: string) => void; }) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  const scannerRef = useRef<QrScannerLib | null>(null);
+  const stopRequestedRef = useRef(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reportError = useCallback((message: string) => {
+    setError(message);
+    if (onError) onError(message);
+  }, [onError]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  const stopScanner = useCallback(() => {
+    const scanner = scannerRef.current;
+    if (scanner) {
+      try {
+        scanner.stop();
+      } catch (err) {
+        console.warn("Failed to stop scanner", err);
+      }
+      scanner.destroy();
+      scannerRef.current = null;
+    }
+    const video = videoRef.current;
+    if (video && video.srcObject instanceof MediaStream) {
+      video.srcObject.getTracks().forEach((track) => track.stop());
+      video.srcObject = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!active) {
+      stopRequestedRef.current = true;
+      stopScanner();
+      clearError();
+      return;
+    }
+
+    const video = videoRef.current;
+    const overlay = overlayRef.current || undefined;
+    if (!video) return;
+
+    stopRequestedRef.current = false;
+    let cancelled = false;
+
+    async function start() {
+      try {
+        clearError();
+        const scanner = new QrScannerLib(
+          video,
+          async (result: ScanResult) => {
+            const value = result?.data?.trim();
+            if (!value || stopRequestedRef.current) return;
+            try {
+              const shouldClose = await onDetected(value);
+              if (shouldClose) {
+                stopRequestedRef.current = true;
+                stopScanner();
+              }
+            } catch (err) {
+              console.warn("QR handler failed", err);
+            }
+          },
+          {
+            returnDetailedScanResult: true,
+            highlightScanRegion: true,
+            highlightCodeOutline: true,
+            overlay,
+            preferredCamera: "environment",
+            maxScansPerSecond: 12,
+            onDecodeError: (err) => {
+              if (typeof err === "string" && err === QrScannerLib.NO_QR_CODE_FOUND) return;
+            },
+          }
+        );
+
+        video.setAttribute("playsinline", "true");
+        video.setAttribute("muted", "true");
+        video.setAttribute("autoplay", "true");
+        video.playsInline = true;
+        video.muted = true;
+
+        scannerRef.current = scanner;
+        await scanner.start();
+      } catch (err) {
+        if (cancelled) return;
+        const message = err instanceof Error ? err.message : String(err);
+        reportError(message || "Unable to access camera");
+        stopScanner();
+      }
+    }
+
+    start();
+
+    return () => {
+      cancelled = true;
+      stopRequestedRef.current = true;
+      stopScanner();
+    };
+  }, [active, onDetected, reportError, stopScanner, clearError]);
+
+  return (
+    <div className="wallet-scanner space-y-3">
+      <div className={`wallet-scanner__viewport${error ? " wallet-scanner__viewport--error" : ""}`}>
+        {error ? (
+          <div className="wallet-scanner__fallback">{error}</div>
+        ) : (
+          <>
+            <video ref={videoRef} className="wallet-scanner__video" playsInline muted />
+            <div ref={overlayRef} className="wallet-scanner__guide" aria-hidden="true" />
+          </>
+        )}
+      </div>
+      <div className="wallet-scanner__hint text-xs text-secondary text-center">
+        {error ? "Camera unavailable. Try entering the code manually." : "Align a QR code inside the frame."}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { assessRelayHealth, probeRelay, type RelayHealth, type RelayHealthStatus, type RelayProbeResult } from "../lib/relays";
+import {
+  relayAuthKey,
+  relayAuthPreferenceFor,
+  type RelayAuthMode,
+  type RelayAuthPreference,
+  type RelayAuthPreferences,
+} from "../lib/relayAuth";
+
+const STATUS_LABELS: Record<RelayHealthStatus, string> = {
+  unknown: "Not connected yet",
+  healthy: "Healthy",
+  slow: "Slow",
+  failing: "Failing",
+  dead: "Unreachable",
+};
+
+const STATUS_CLASSES: Record<RelayHealthStatus, string> = {
+  unknown: "chip",
+  healthy: "chip chip-accent",
+  slow: "chip chip-warn",
+  failing: "chip chip-warn",
+  dead: "chip chip-danger",
+};
+
+function formatMs(ms: number | undefined): string | null {
+  if (ms === undefined) return null;
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${ms} ms`;
+}
+
+function RelayMetrics({ health }: { health: RelayHealth }) {
+  const timings = [
+    formatMs(health.connectMs) && `connect ${formatMs(health.connectMs)}`,
+    formatMs(health.ackMs) && `publish ${formatMs(health.ackMs)}`,
+    formatMs(health.eoseMs) && `query ${formatMs(health.eoseMs)}`,
+  ].filter(Boolean);
+  const counts = health.published
+    ? `${health.accepted} accepted · ${health.rejected} rejected · ${health.timeouts} timed out`
+    : null;
+  return (
+    <div className="text-xs text-secondary space-y-0.5">
+      {timings.length > 0 && <div>{timings.join(" · ")}</div>}
+      {counts && <div>{counts}</div>}
+      {health.disconnects > 0 && <div>Dropped {health.disconnects} time{health.disconnects === 1 ? "" : "s"}</div>}
+      {health.lastClosedReason && <div className="break-all">Closed a query: {health.lastClosedReason}</div>}
+      {health.lastNotice && <div className="break-all">Notice: {health.lastNotice}</div>}
+      {health.lastError && <div className="break-all text-rose-400">{health.lastError}</div>}
+    </div>
+  );
+}
+
+const AUTH_STATE_LABELS: Record<NonNullable<RelayHealth["auth"]>, string> = {
+  challenged: "Offers login",
+  authenticated: "Logged in",
+  declined: "Requires login",
+  failed: "Login rejected",
+};
+
+function RelayAuthControls({
+  url,
+  health,
+  preference,
+  onChange,
+}: {
+  url: string;
+  health: RelayHealth | undefined;
+  preference: RelayAuthPreference;
+  onChange: (preference: RelayAuthPreference) => void;
+}) {
+  const extensionAvailable = typeof window !== "undefined" && !!window.nostr;
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-secondary">
+      {health?.auth && <span>{AUTH_STATE_LABELS[health.auth]}</span>}
+      <select
+        value={preference.mode}
+        onChange={(e) => onChange({ ...preference, mode: e.target.value as RelayAuthMode })}
+        className="pill-select"
+        aria-label={`Login preference for ${url}`}
+      >
+        <option value="when-required">Log in only when required</option>
+        <option value="always">Always log in</option>
+        <option value="never">Never log in</option>
+      </select>
+      {(extensionAvailable || preference.signer === "extension") && preference.mode !== "never" && (
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={preference.signer === "extension"}
+            onChange={(e) => onChange({ ...preference, signer: e.target.checked ? "extension" : undefined })}
+          />
+          Sign with browser extension
+        </label>
+      )}
+    </div>
+  );
+}
+
+function describeProbe(result: RelayProbeResult): string {
+  if (!result.ok) return result.error || "Relay did not respond";
+  const parts = [`Connected in ${formatMs(result.connectMs)}`, `answered in ${formatMs(result.eoseMs)}`];
+  if (result.info?.name) parts.unshift(result.info.name);
+  if (result.info?.authRequired) parts.push("requires login");
+  if (result.info?.paymentRequired) parts.push("requires payment");
+  return parts.join(" · ");
+}
+
+/**
+ * Relay list with live pool metrics, removal hints for dead relays and a test-before-add input.
+ * Login (NIP-42) preferences appear once a relay asks for a login or one has been set.
+ */
+export function RelayManager({
+  relays,
+  health,
+  authPreferences,
+  onAdd,
+  onRemove,
+  onAuthPreferenceChange,
+}: {
+  relays: readonly string[];
+  health: RelayHealth[];
+  authPreferences: RelayAuthPreferences;
+  onAdd: (url: string) => void;
+  onRemove: (url: string) => void;
+  onAuthPreferenceChange: (url: string, preference: RelayAuthPreference) => void;
+}) {
+  const [input, setInput] = useState("");
+  const [probing, setProbing] = useState(false);
+  const [probe, setProbe] = useState<{ url: string; result: RelayProbeResult } | null>(null);
+
+  function add() {
+    const url = input.trim();
+    if (!url || relays.includes(url)) return;
+    onAdd(url);
+    setInput("");
+    setProbe(null);
+  }
+
+  async function test() {
+    const url = input.trim();
+    if (!url || probing) return;
+    setProbing(true);
+    try {
+      setProbe({ url, result: await probeRelay(url) });
+    } finally {
+      setProbing(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setProbe(null);
+          }}
+          onKeyDown={(e) => { if (e.key === "Enter") add(); }}
+          className="pill-input flex-1 min-w-0"
+          placeholder="wss://relay.example"
+        />
+        <button className="ghost-button button-sm pressable" onClick={test} disabled={!input.trim() || probing}>
+          {probing ? "Testing…" : "Test"}
+        </button>
+        <button className="ghost-button button-sm pressable" onClick={add}>Add</button>
+      </div>
+      {probe && probe.url === input.trim() && (
+        <div className={`text-xs ${probe.result.ok ? "text-secondary" : "text-rose-400"}`}>
+          {describeProbe(probe.result)}
+        </div>
+      )}
+      <ul className="space-y-2">
+        {relays.map((url) => {
+          const relayHealth = health.find((h) => h.url === url);
+          const assessment = assessRelayHealth(relayHealth);
+          return (
+            <li key={url} className="p-2 rounded-lg bg-surface-muted border border-surface space-y-1">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0 truncate">{url}</div>
+                <span className={STATUS_CLASSES[assessment.status]} title={assessment.reason}>
+                  {STATUS_LABELS[assessment.status]}
+                </span>
+                <button className="ghost-button button-sm pressable text-rose-400" onClick={() => onRemove(url)}>
+                  Delete
+                </button>
+              </div>
+              {assessment.status === "dead" && (
+                <div className="text-xs text-rose-400">{assessment.reason}. Consider removing this relay.</div>
+              )}
+              {relayHealth && <RelayMetrics health={relayHealth} />}
+              {(relayHealth?.auth || authPreferences[relayAuthKey(url)]) && (
+                <RelayAuthControls
+                  url={url}
+                  health={relayHealth}
+                  preference={relayAuthPreferenceFor(authPreferences, url)}
+                  onChange={(preference) => onAuthPreferenceChange(url, preference)}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from "react";
+import { QRCodeCanvas } from "qrcode.react";
+import { nip19 } from "nostr-tools";
+import {
+  connectBunker,
+  connectExtension,
+  startNostrConnect,
+  type NostrSigner,
+  type NostrSignerKind,
+} from "../lib/signer";
+
+const SIGNER_LABELS: Record<NostrSignerKind, string> = {
+  local: "this device's key",
+  extension: "your browser extension",
+  bunker: "a remote signer",
+};
+
+function shortNpub(pubkey: string): string {
+  try {
+    const npub = nip19.npubEncode(pubkey);
+    return `${npub.slice(0, 12)}…${npub.slice(-6)}`;
+  } catch {
+    return pubkey;
+  }
+}
+
+/**
+ * Choose what signs as the user: the in-app key, a NIP-07 extension or a NIP-46 remote signer,
+ * connected either from a bunker:// URI or by scanning a nostrconnect:// QR code in the signer app.
+ */
+export function SignerSettings({
+  signer,
+  relays,
+  onConnect,
+  onUseLocalKey,
+}: {
+  signer: NostrSigner;
+  relays: readonly string[];
+  onConnect: (signer: NostrSigner) => void;
+  onUseLocalKey: () => void;
+}) {
+  const [bunkerInput, setBunkerInput] = useState("");
+  const [connecting, setConnecting] = useState(false);
+  const [connectUri, setConnectUri] = useState<string | null>(null);
+  const [authUrl, setAuthUrl] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+  const extensionAvailable = typeof window !== "undefined" && !!window.nostr;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  async function run(connect: () => Promise<NostrSigner>) {
+    setConnecting(true);
+    setError("");
+    setAuthUrl(null);
+    try {
+      onConnect(await connect());
+      setBunkerInput("");
+    } catch (err: any) {
+      if (!abortRef.current?.signal.aborted) setError(err?.message || String(err));
+    } finally {
+      setConnecting(false);
+      setConnectUri(null);
+      setAuthUrl(null);
+    }
+  }
+
+  function showConnectCode() {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const session = startNostrConnect([...relays], { signal: controller.signal, onAuthUrl: setAuthUrl });
+    setConnectUri(session.uri);
+    void run(() => session.connected);
+  }
+
+  function cancelConnectCode() {
+    abortRef.current?.abort();
+    setConnectUri(null);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-secondary">
+        Signing as {shortNpub(signer.pubkey)} with {SIGNER_LABELS[signer.kind]}.
+      </div>
+      {signer.kind !== "local" ? (
+        <button className="ghost-button button-sm pressable" onClick={onUseLocalKey}>
+          Use this device's key instead
+        </button>
+      ) : connectUri ? (
+        <div className="space-y-2">
+          <div className="text-xs text-secondary">Scan this code with your signer app, then approve the connection.</div>
+          <div className="flex justify-center">
+            <div className="p-3 rounded-xl bg-white">
+              <QRCodeCanvas value={connectUri} size={192} includeMargin={false} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="ghost-button button-sm pressable"
+              onClick={async () => { try { await navigator.clipboard?.writeText(connectUri); } catch {} }}
+            >Copy link</button>
+            <button className="ghost-button button-sm pressable" onClick={cancelConnectCode}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <input
+              value={bunkerInput}
+              onChange={(e) => setBunkerInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter" && bunkerInput.trim()) void run(() => connectBunker(bunkerInput, { onAuthUrl: setAuthUrl })); }}
+              className="pill-input flex-1 min-w-0"
+              placeholder="bunker://… or name@domain"
+              disabled={connecting}
+            />
+            <button
+              className="ghost-button button-sm pressable"
+              disabled={!bunkerInput.trim() || connecting}
+              onClick={() => void run(() => connectBunker(bunkerInput, { onAuthUrl: setAuthUrl }))}
+            >{connecting ? "Connecting…" : "Connect"}</button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button className="ghost-button button-sm pressable" disabled={connecting || !relays.length} onClick={showConnectCode}>
+              Show connect QR code
+            </button>
+            {extensionAvailable && (
+              <button className="ghost-button button-sm pressable" disabled={connecting} onClick={() => void run(connectExtension)}>
+                Use browser extension
+              </button>
+            )}
+          </div>
+        </>
+      )}
+      {authUrl && (
+        <div className="text-xs text-secondary">
+          Your signer asks you to approve this app:{" "}
+          <a href={authUrl} target="_blank" rel="noreferrer" className="underline break-all">{authUrl}</a>
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-400 break-words">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+// Board history compaction. Deleted tasks leave tombstone events behind and long-completed tasks
+// keep every version on relays, so new members download and replay all of it. Compaction asks
+// relays to drop those events (NIP-09) after copying the final content into a local archive.
+
+import { loadProfiles } from "./profiles";
+
+export type CompactableEvent = {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  tags: string[][];
+  content: string;
+};
+
+export type CompactionReason = "deleted" | "completed";
+
+export type CompactionCandidate = {
+  taskId: string;
+  reason: CompactionReason;
+  latest: CompactableEvent;
+  // Events the board key signed for this task; only these can be deleted.
+  eventIds: string[];
+};
+
+export type CompactionPlan = {
+  candidates: CompactionCandidate[];
+  eventCount: number;
+  // Events for compacted tasks signed by other keys, which stay on relays.
+  skipped: number;
+};
+
+export type BoardArchiveEntry = {
+  boardId: string;
+  taskId: string;
+  reason: CompactionReason;
+  archivedAt: string;
+  lastEventAt: number;
+  content: unknown;
+};
+
+// Archived tasks keep their full payload, images and documents included, which soon outgrows
+// localStorage, so the archive lives in IndexedDB with one database per profile.
+const BOARD_ARCHIVE_DB_PREFIX = "taskify_board_archive_v1";
+const BOARD_ARCHIVE_STORE = "entries";
+// Tags per deletion request, so each stays well under relay event size limits.
+const DELETION_TAGS_PER_EVENT = 100;
+
+export class BoardArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BoardArchiveError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+function tagValue(ev: CompactableEvent, name: string): string | undefined {
+  return ev.tags.find((tag) => tag[0] === name)?.[1];
+}
+
+/**
+ * Pick tasks whose newest event, from any author, is a tombstone or a completion older than
+ * `completedBefore` (seconds). Tasks someone edited since are left alone.
+ */
+export function planBoardCompaction(
+  events: CompactableEvent[],
+  options: { authorPubkey: string; completedBefore: number },
+): CompactionPlan {
+  const byTask = new Map<string, CompactableEvent[]>();
+  for (const ev of events) {
+    const taskId = tagValue(ev, "d");
+    if (!taskId) continue;
+    const list = byTask.get(taskId) ?? [];
+    list.push(ev);
+    byTask.set(taskId, list);
+  }
+  const candidates: CompactionCandidate[] = [];
+  let eventCount = 0;
+  let skipped = 0;
+  for (const [taskId, list] of byTask) {
+    const latest = list.reduce((a, b) => (b.created_at > a.created_at ? b : a));
+    const status = tagValue(latest, "status");
+    let reason: CompactionReason | null = null;
+    if (status === "deleted") reason = "deleted";
+    else if (status === "done" && latest.created_at < options.completedBefore) reason = "completed";
+    if (!reason) continue;
+    const eventIds = list.filter((ev) => ev.pubkey === options.authorPubkey).map((ev) => ev.id);
+    if (!eventIds.length) continue;
+    candidates.push({ taskId, reason, latest, eventIds });
+    eventCount += eventIds.length;
+    skipped += list.length - eventIds.length;
+  }
+  return { candidates, eventCount, skipped };
+}
+
+/** NIP-09 deletion tags for the candidates: every event ID plus the task's replaceable address. */
+export function buildCompactionDeletionTags(candidates: CompactionCandidate[], authorPubkey: string): string[][][] {
+  const tags: string[][] = [];
+  for (const candidate of candidates) {
+    candidate.eventIds.forEach((id) => tags.push(["e", id]));
+    tags.push(["a", `30301:${authorPubkey}:${candidate.taskId}`]);
+  }
+  const chunks: string[][][] = [];
+  for (let i = 0; i < tags.length; i += DELETION_TAGS_PER_EVENT) {
+    chunks.push(tags.slice(i, i + DELETION_TAGS_PER_EVENT));
+  }
+  return chunks;
+}
+
+function boardArchiveDbName(profileId: string): string {
+  return `${BOARD_ARCHIVE_DB_PREFIX}.${profileId}`;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("The archive write was aborted"));
+  });
+}
+
+function openBoardArchive(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new BoardArchiveError("This browser cannot store the board archive."));
+  }
+  const request = indexedDB.open(boardArchiveDbName(loadProfiles().activeId), 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(BOARD_ARCHIVE_STORE, { keyPath: ["boardId", "taskId"] });
+  };
+  return requestResult(request);
+}
+
+function isArchiveEntry(entry: any): entry is BoardArchiveEntry {
+  return !!entry && typeof entry.boardId === "string" && typeof entry.taskId === "string";
+}
+
+export async function loadBoardArchive(): Promise<BoardArchiveEntry[]> {
+  try {
+    const db = await openBoardArchive();
+    try {
+      const entries = await requestResult(
+        db.transaction(BOARD_ARCHIVE_STORE, "readonly").objectStore(BOARD_ARCHIVE_STORE).getAll(),
+      );
+      return entries.filter(isArchiveEntry);
+    } finally {
+      db.close();
+    }
+  } catch {
+    return [];
+  }
+}
+
+async function writeBoardArchive(entries: BoardArchiveEntry[], replace: boolean): Promise<void> {
+  const db = await openBoardArchive().catch((err) => {
+    throw new BoardArchiveError(`Could not open the board archive: ${err?.message || err}`);
+  });
+  try {
+    const tx = db.transaction(BOARD_ARCHIVE_STORE, "readwrite");
+    const done = transactionDone(tx);
+    const store = tx.objectStore(BOARD_ARCHIVE_STORE);
+    if (replace) store.clear();
+    entries.filter(isArchiveEntry).forEach((entry) => store.put(entry));
+    await done;
+  } catch (err: any) {
+    throw new BoardArchiveError(`Could not save the board archive: ${err?.message || err}`);
+  } finally {
+    db.close();
+  }
+}
+
+/** Replace the whole archive, as when restoring a backup. Rejects when the write fails. */
+export function saveBoardArchive(entries: BoardArchiveEntry[]): Promise<void> {
+  return writeBoardArchive(entries, true);
+}
+
+/** Add entries to the archive, replacing earlier copies of the same task. Rejects when the write fails. */
+export function appendBoardArchive(entries: BoardArchiveEntry[]): Promise<void> {
+  return writeBoardArchive(entries, false);
+}
+
+/** Drop a profile's archive along with the profile. */
+export function deleteBoardArchive(profileId: string): Promise<void> {
+  if (typeof indexedDB === "undefined") return Promise.resolve();
+  return requestResult(indexedDB.deleteDatabase(boardArchiveDbName(profileId))).then(() => undefined);
+}
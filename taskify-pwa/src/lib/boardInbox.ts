@@ -0,0 +1,79 @@
+import { buildNip98AuthHeader } from "./nip98";
+
+// Inbox tokens let scripts and forms add tasks to a shared board through the worker.
+// Requests are signed with the board's derived key, so any member can manage them.
+
+export type BoardInboxToken = {
+  id: string;
+  label: string | null;
+  tokenHint: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export type CreatedBoardInboxToken = BoardInboxToken & { url: string };
+
+function inboxTokensEndpoint(workerBaseUrl: string, boardPubkey: string): string {
+  return `${workerBaseUrl}/api/boards/${encodeURIComponent(boardPubkey)}/inbox-tokens`;
+}
+
+async function errorFromResponse(res: Response, action: string): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail = typeof body?.error === "string" && body.error ? `: ${body.error}` : "";
+  return new Error(`${action} failed (${res.status})${detail}`);
+}
+
+export async function listBoardInboxTokens(
+  workerBaseUrl: string,
+  boardKeys: { pk: string; skHex: string },
+): Promise<BoardInboxToken[]> {
+  const endpoint = inboxTokensEndpoint(workerBaseUrl, boardKeys.pk);
+  const res = await fetch(endpoint, {
+    headers: { Authorization: buildNip98AuthHeader(endpoint, "GET", boardKeys.skHex) },
+  });
+  if (!res.ok) throw await errorFromResponse(res, "Loading inbox tokens");
+  const body = await res.json();
+  return Array.isArray(body?.tokens) ? (body.tokens as BoardInboxToken[]) : [];
+}
+
+export async function createBoardInboxToken(
+  workerBaseUrl: string,
+  boardKeys: { pk: string; skHex: string },
+  options: { boardId: string; relays: string[]; label?: string },
+): Promise<CreatedBoardInboxToken> {
+  const endpoint = inboxTokensEndpoint(workerBaseUrl, boardKeys.pk);
+  let timeZone: string | undefined;
+  try {
+    timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    timeZone = undefined;
+  }
+  const payload = JSON.stringify({ ...options, timeZone });
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: buildNip98AuthHeader(endpoint, "POST", boardKeys.skHex, payload),
+    },
+    body: payload,
+  });
+  if (!res.ok) throw await errorFromResponse(res, "Creating inbox token");
+  const body = await res.json();
+  if (typeof body?.url !== "string" || !body.url) {
+    throw new Error("Inbox token response was missing a URL.");
+  }
+  return body as CreatedBoardInboxToken;
+}
+
+export async function revokeBoardInboxToken(
+  workerBaseUrl: string,
+  boardKeys: { pk: string; skHex: string },
+  tokenId: string,
+): Promise<void> {
+  const endpoint = `${inboxTokensEndpoint(workerBaseUrl, boardKeys.pk)}/${encodeURIComponent(tokenId)}`;
+  const res = await fetch(endpoint, {
+    method: "DELETE",
+    headers: { Authorization: buildNip98AuthHeader(endpoint, "DELETE", boardKeys.skHex) },
+  });
+  if (!res.ok && res.status !== 404) throw await errorFromResponse(res, "Revoking inbox token");
+}
@@ -0,0 +1,206 @@
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { nip19 } from "nostr-tools";
+
+// Read-only links point at the worker's share page. The fragment carries only the board's content
+// key, never the board ID itself, so the link cannot derive the board's signing key and the worker
+// never receives it.
+
+export type BoardShareAccess = "view" | "edit";
+
+// A view or edit capability for a board with split access. The owner keeps the board ID; the code
+// only carries public identifiers, the view key and where to find the board.
+export type BoardShareCode = {
+  access: BoardShareAccess;
+  boardPubkey: string;
+  boardTag: string;
+  viewKey: string;
+  relays: string[];
+  name?: string;
+};
+
+// A board link names the board's metadata event (kind 30300) as a NIP-19 naddr and may carry a
+// capability in the fragment: the view key for view or edit access, or the board ID for full
+// access. A bare naddr still opens boards whose access was never split, because their content key
+// is the public board tag.
+export type BoardLinkAccess = BoardShareAccess | "full";
+
+export type BoardLink = {
+  boardPubkey: string;
+  boardTag: string;
+  relays: string[];
+  access?: BoardLinkAccess;
+  viewKey?: string;
+  boardId?: string;
+  name?: string;
+};
+
+export const BOARD_METADATA_KIND = 30300;
+
+const SHARE_CODE_PREFIX = "taskify-share:";
+const BOARD_LINK_SCHEME = "web+taskify:";
+const HEX_32 = /^[0-9a-f]{64}$/;
+// Relay hints make the naddr, and with it the QR code, longer; a few are enough to find the board.
+const NADDR_RELAY_HINTS = 3;
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function buildReadOnlyBoardUrl(
+  workerBaseUrl: string,
+  board: { boardPubkey: string; boardTag: string; contentKey: string; relays: readonly string[] },
+  options: { embed?: boolean } = {},
+): string {
+  const params = new URLSearchParams();
+  params.set("b", board.boardTag);
+  board.relays.forEach((relay) => params.append("relay", relay));
+  if (options.embed) params.set("embed", "1");
+  const key = base64UrlEncode(hexToBytes(board.contentKey));
+  return `${workerBaseUrl}/share/${board.boardPubkey}?${params.toString()}#k=${key}`;
+}
+
+export function buildBoardEmbedCode(url: string, title: string): string {
+  const escapedTitle = title.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+  return `<iframe src="${url.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}" title="${escapedTitle}" width="100%" height="480" style="border:0" loading="lazy"></iframe>`;
+}
+
+export function encodeBoardShareCode(code: BoardShareCode): string {
+  const payload = JSON.stringify({
+    a: code.access,
+    pk: code.boardPubkey,
+    b: code.boardTag,
+    k: code.viewKey,
+    r: code.relays,
+    n: code.name || undefined,
+  });
+  return `${SHARE_CODE_PREFIX}${base64UrlEncode(new TextEncoder().encode(payload))}`;
+}
+
+export function parseBoardShareCode(raw: string): BoardShareCode | null {
+  const trimmed = raw.trim();
+  if (!trimmed.toLowerCase().startsWith(SHARE_CODE_PREFIX)) return null;
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64UrlDecode(trimmed.slice(SHARE_CODE_PREFIX.length))));
+    const access = parsed?.a === "view" || parsed?.a === "edit" ? (parsed.a as BoardShareAccess) : null;
+    const boardPubkey = typeof parsed?.pk === "string" ? parsed.pk.toLowerCase() : "";
+    const boardTag = typeof parsed?.b === "string" ? parsed.b.toLowerCase() : "";
+    const viewKey = typeof parsed?.k === "string" ? parsed.k.toLowerCase() : "";
+    if (!access || !HEX_32.test(boardPubkey) || !HEX_32.test(boardTag) || !HEX_32.test(viewKey)) return null;
+    const relays = Array.isArray(parsed?.r)
+      ? parsed.r.filter((relay: unknown): relay is string => typeof relay === "string" && /^wss?:\/\//i.test(relay))
+      : [];
+    const name = typeof parsed?.n === "string" && parsed.n.trim() ? parsed.n.trim() : undefined;
+    return { access, boardPubkey, boardTag, viewKey, relays, name };
+  } catch {
+    return null;
+  }
+}
+
+export function encodeBoardNaddr(board: { boardPubkey: string; boardTag: string; relays: readonly string[] }): string {
+  return nip19.naddrEncode({
+    kind: BOARD_METADATA_KIND,
+    pubkey: board.boardPubkey,
+    identifier: board.boardTag,
+    relays: board.relays.slice(0, NADDR_RELAY_HINTS),
+  });
+}
+
+function boardLinkFragment(link: BoardLink): string {
+  const params = new URLSearchParams();
+  params.set("naddr", encodeBoardNaddr(link));
+  if (link.access === "full" && link.boardId) {
+    params.set("id", link.boardId);
+  } else if ((link.access === "view" || link.access === "edit") && link.viewKey) {
+    params.set("access", link.access);
+    params.set("k", base64UrlEncode(hexToBytes(link.viewKey)));
+  }
+  if (link.name) params.set("name", link.name);
+  return params.toString();
+}
+
+/** `https://<app>/join#…` link; the capability stays in the fragment so servers never see it. */
+export function buildBoardJoinUrl(appOrigin: string, link: BoardLink): string {
+  return `${appOrigin.replace(/\/+$/, "")}/join#${boardLinkFragment(link)}`;
+}
+
+/** `web+taskify:` link for installs that registered the protocol handler. */
+export function buildBoardProtocolLink(link: BoardLink): string {
+  return `${BOARD_LINK_SCHEME}join#${boardLinkFragment(link)}`;
+}
+
+function parseNaddr(raw: string): BoardLink | null {
+  const value = raw.trim().replace(/^nostr:/i, "");
+  if (!/^naddr1/i.test(value)) return null;
+  try {
+    const decoded = nip19.decode(value.toLowerCase());
+    if (decoded.type !== "naddr" || decoded.data.kind !== BOARD_METADATA_KIND) return null;
+    const boardPubkey = decoded.data.pubkey.toLowerCase();
+    const boardTag = decoded.data.identifier.toLowerCase();
+    if (!HEX_32.test(boardPubkey) || !HEX_32.test(boardTag)) return null;
+    const relays = (decoded.data.relays ?? []).filter((relay) => /^wss?:\/\//i.test(relay));
+    return { boardPubkey, boardTag, relays };
+  } catch {
+    return null;
+  }
+}
+
+function parseBoardLinkFragment(fragment: string): BoardLink | null {
+  const params = new URLSearchParams(fragment);
+  const link = parseNaddr(params.get("naddr") || fragment);
+  if (!link) return null;
+  const name = params.get("name")?.trim() || undefined;
+  const boardId = params.get("id")?.trim();
+  if (boardId) return { ...link, access: "full", boardId, name };
+  const access = params.get("access");
+  const key = params.get("k");
+  if ((access === "view" || access === "edit") && key) {
+    try {
+      const viewKey = bytesToHex(base64UrlDecode(key));
+      if (HEX_32.test(viewKey)) return { ...link, access, viewKey, name };
+    } catch {}
+  }
+  return { ...link, name };
+}
+
+/**
+ * Read anything that points at a board: an naddr, a join link (https or web+taskify, including the
+ * `/join?link=` form the protocol handler opens) or a view/edit share code.
+ */
+export function parseBoardLink(raw: string): BoardLink | null {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  const shareCode = parseBoardShareCode(trimmed);
+  if (shareCode) {
+    const { access, boardPubkey, boardTag, viewKey, relays, name } = shareCode;
+    return { access, boardPubkey, boardTag, viewKey, relays, name };
+  }
+  const naddr = parseNaddr(trimmed);
+  if (naddr) return naddr;
+  if (trimmed.toLowerCase().startsWith(BOARD_LINK_SCHEME)) {
+    const hashIndex = trimmed.indexOf("#");
+    return hashIndex >= 0 ? parseBoardLinkFragment(trimmed.slice(hashIndex + 1)) : null;
+  }
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+  if (!/\/join\/?$/.test(url.pathname)) return null;
+  const nested = url.searchParams.get("link");
+  if (nested) return parseBoardLink(nested);
+  return url.hash.length > 1 ? parseBoardLinkFragment(url.hash.slice(1)) : null;
+}
@@ -0,0 +1,128 @@
+// Incremental board history sync. Relays cap how many events one REQ returns, so history is read
+// newest-first in pages with an `until` cursor. Once a relay has been read to the end, its newest
+// created_at is kept as a high-water mark and later sessions only page back to just before it.
+
+export const HISTORY_PAGE_SIZE = 500;
+// Queued edits are published with the time they were made, so an offline device can deliver events
+// older than the mark. Re-reading a few days below it picks those up.
+export const HISTORY_SYNC_OVERLAP_SECONDS = 3 * 24 * 60 * 60;
+const HISTORY_PAGE_TIMEOUT_MS = 15000;
+
+const LS_HISTORY_CURSORS = "taskify.nostrHistoryCursors";
+
+type HistoryEvent = { id: string; created_at: number };
+
+type Subscribe<E extends HistoryEvent> = (
+  relays: string[],
+  filters: any[],
+  onEvent: (ev: E, from: string) => void,
+  onEose?: (from: string) => void,
+) => () => void;
+
+export type HistoryProgress = {
+  loaded: number;
+  oldest?: number;
+};
+
+type Cursors = Record<string, Record<string, number>>; // boardTag -> relay -> newest created_at
+
+function loadCursors(): Cursors {
+  try {
+    const raw = localStorage.getItem(LS_HISTORY_CURSORS);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadHistoryCursor(boardTag: string, relay: string): number | null {
+  const value = loadCursors()[boardTag]?.[relay];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/** Raise a relay's high-water mark for a board; it never moves backwards. */
+export function saveHistoryCursor(boardTag: string, relay: string, createdAt: number) {
+  const cursors = loadCursors();
+  const board = cursors[boardTag] ?? {};
+  if ((board[relay] ?? 0) >= createdAt) return;
+  cursors[boardTag] = { ...board, [relay]: createdAt };
+  try {
+    localStorage.setItem(LS_HISTORY_CURSORS, JSON.stringify(cursors));
+  } catch {}
+}
+
+function fetchPage<E extends HistoryEvent>(
+  subscribe: Subscribe<E>,
+  relay: string,
+  filter: Record<string, unknown>,
+): Promise<{ events: E[]; complete: boolean }> {
+  return new Promise((resolve) => {
+    const events: E[] = [];
+    let unsub: (() => void) | null = null;
+    let settled = false;
+    const finish = (complete: boolean) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      unsub?.();
+      resolve({ events, complete });
+    };
+    const timer = setTimeout(() => finish(false), HISTORY_PAGE_TIMEOUT_MS);
+    unsub = subscribe([relay], [filter], (ev) => { events.push(ev); }, () => finish(true));
+  });
+}
+
+/**
+ * Page backwards through one relay until it returns an empty page. Resolves with the newest
+ * created_at seen once the end is reached, or null when a page timed out or the sync was
+ * cancelled, in which case the caller should not advance the high-water mark.
+ */
+export async function backfillHistory<E extends HistoryEvent>({
+  subscribe,
+  relay,
+  filter,
+  since,
+  onEvent,
+  onProgress,
+  isCancelled,
+}: {
+  subscribe: Subscribe<E>;
+  relay: string;
+  filter: Record<string, unknown>;
+  since?: number;
+  onEvent: (ev: E) => void;
+  onProgress?: (progress: HistoryProgress) => void;
+  isCancelled: () => boolean;
+}): Promise<number | null> {
+  const seen = new Set<string>();
+  let until: number | undefined;
+  let newest = 0;
+  while (!isCancelled()) {
+    const page = await fetchPage(subscribe, relay, {
+      ...filter,
+      limit: HISTORY_PAGE_SIZE,
+      ...(since !== undefined ? { since } : {}),
+      ...(until !== undefined ? { until } : {}),
+    });
+    if (isCancelled() || !page.complete) return null;
+    let fresh = 0;
+    let oldest = until ?? Number.POSITIVE_INFINITY;
+    for (const ev of page.events) {
+      if (seen.has(ev.id)) continue;
+      seen.add(ev.id);
+      fresh += 1;
+      oldest = Math.min(oldest, ev.created_at);
+      newest = Math.max(newest, ev.created_at);
+      onEvent(ev);
+    }
+    onProgress?.({ loaded: seen.size, oldest: Number.isFinite(oldest) ? oldest : undefined });
+    // Relays may cap pages below our limit, so only an empty page marks the end.
+    if (!page.events.length) return newest;
+    // `until` is inclusive, so events sharing the oldest second are fetched again and skipped. A
+    // page with nothing new holds only that second (a bulk republish stamps every task with one),
+    // so step below it instead of stopping there.
+    until = fresh ? oldest : oldest - 1;
+  }
+  return null;
+}
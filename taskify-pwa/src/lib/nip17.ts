@@ -0,0 +1,147 @@
+import { hexToBytes } from "@noble/hashes/utils";
+import { finalizeEvent, generateSecretKey, getPublicKey, nip44, verifyEvent, type Event, type VerifiedEvent } from "nostr-tools";
+
+// NIP-17 private messages: a kind 14 rumor is sealed (kind 13) and signed by the sender, then gift
+// wrapped (kind 1059) with a throwaway key so relays only learn who the message is for.
+
+export const GIFT_WRAP_KIND = 1059;
+
+export type PrivateMessage = {
+  senderPubkey: string;
+  content: string;
+  tags: string[][];
+  createdAt: number;
+};
+
+export function privateMessagesSupported(): boolean {
+  return !!nip44?.v2;
+}
+
+// Seal and wrap timestamps are randomized into the past so they do not reveal when a message was sent.
+export function randomPastTimestampSeconds(maxOffsetSeconds = 2 * 24 * 60 * 60): number {
+  const now = Math.floor(Date.now() / 1000);
+  const clampedMax = Math.max(0, Math.floor(maxOffsetSeconds));
+  const offset = clampedMax > 0 ? Math.floor(Math.random() * (clampedMax + 1)) : 0;
+  return Math.max(0, now - offset);
+}
+
+function secretKeyBytes(secret: string | Uint8Array): Uint8Array {
+  return typeof secret === "string" ? hexToBytes(secret) : secret;
+}
+
+function buildRumor(senderPubkey: string, recipientPubkey: string, content: string, tags: string[][]) {
+  return {
+    kind: 14,
+    content,
+    tags: [["p", recipientPubkey], ...tags],
+    created_at: randomPastTimestampSeconds(),
+    pubkey: senderPubkey,
+  };
+}
+
+function giftWrap(seal: Event, recipientPubkey: string): VerifiedEvent {
+  const wrapKey = generateSecretKey();
+  const wrapConversationKey = nip44.v2.utils.getConversationKey(wrapKey, recipientPubkey);
+  return finalizeEvent(
+    {
+      kind: GIFT_WRAP_KIND,
+      content: nip44.v2.encrypt(JSON.stringify(seal), wrapConversationKey),
+      tags: [["p", recipientPubkey]],
+      created_at: randomPastTimestampSeconds(),
+    },
+    wrapKey,
+  );
+}
+
+export function wrapPrivateMessage(
+  senderSecret: string | Uint8Array,
+  recipientPubkey: string,
+  content: string,
+  tags: string[][] = [],
+): VerifiedEvent {
+  if (!nip44?.v2) throw new Error("NIP-44 support is required to send private messages");
+  const senderKey = secretKeyBytes(senderSecret);
+  const rumor = buildRumor(getPublicKey(senderKey), recipientPubkey, content, tags);
+  const sealKey = nip44.v2.utils.getConversationKey(senderKey, recipientPubkey);
+  const seal = finalizeEvent(
+    {
+      kind: 13,
+      content: nip44.v2.encrypt(JSON.stringify(rumor), sealKey),
+      tags: [],
+      created_at: randomPastTimestampSeconds(),
+    },
+    senderKey,
+  );
+  return giftWrap(seal, recipientPubkey);
+}
+
+/** Same as wrapPrivateMessage for a sender whose key stays inside a signer. */
+export async function wrapPrivateMessageWithSigner(
+  signer: {
+    pubkey: string;
+    signEvent: (template: { kind: number; content: string; tags: string[][]; created_at: number }) => Promise<Event>;
+    nip44Encrypt: (pubkey: string, plaintext: string) => Promise<string>;
+  },
+  recipientPubkey: string,
+  content: string,
+  tags: string[][] = [],
+): Promise<VerifiedEvent> {
+  if (!nip44?.v2) throw new Error("NIP-44 support is required to send private messages");
+  const rumor = buildRumor(signer.pubkey, recipientPubkey, content, tags);
+  const seal = await signer.signEvent({
+    kind: 13,
+    content: await signer.nip44Encrypt(recipientPubkey, JSON.stringify(rumor)),
+    tags: [],
+    created_at: randomPastTimestampSeconds(),
+  });
+  if (seal.pubkey !== signer.pubkey || !verifyEvent(seal)) throw new Error("The signer returned an invalid seal");
+  return giftWrap(seal, recipientPubkey);
+}
+
+function parseSeal(plaintext: string): VerifiedEvent | null {
+  const seal = JSON.parse(plaintext);
+  if (!seal || seal.kind !== 13 || typeof seal.content !== "string" || !verifyEvent(seal)) return null;
+  return seal;
+}
+
+function parseRumor(plaintext: string, seal: VerifiedEvent): PrivateMessage | null {
+  const rumor = JSON.parse(plaintext);
+  if (!rumor || rumor.kind !== 14 || typeof rumor.content !== "string" || rumor.pubkey !== seal.pubkey) return null;
+  return {
+    senderPubkey: seal.pubkey,
+    content: rumor.content,
+    tags: Array.isArray(rumor.tags) ? rumor.tags : [],
+    createdAt: typeof rumor.created_at === "number" ? rumor.created_at : 0,
+  };
+}
+
+/** Open a gift-wrapped kind 14 message. Returns null when it is not one or was not sealed by its author. */
+export function unwrapPrivateMessage(
+  event: { kind: number; pubkey: string; content: string },
+  recipientSecret: string | Uint8Array,
+): PrivateMessage | null {
+  if (event.kind !== GIFT_WRAP_KIND || !nip44?.v2) return null;
+  const recipientKey = secretKeyBytes(recipientSecret);
+  try {
+    const seal = parseSeal(nip44.v2.decrypt(event.content, nip44.v2.utils.getConversationKey(recipientKey, event.pubkey)));
+    if (!seal) return null;
+    return parseRumor(nip44.v2.decrypt(seal.content, nip44.v2.utils.getConversationKey(recipientKey, seal.pubkey)), seal);
+  } catch {
+    return null;
+  }
+}
+
+/** Same as unwrapPrivateMessage for a recipient whose key stays inside a signer. */
+export async function unwrapPrivateMessageWithSigner(
+  event: { kind: number; pubkey: string; content: string },
+  signer: { nip44Decrypt: (pubkey: string, ciphertext: string) => Promise<string> },
+): Promise<PrivateMessage | null> {
+  if (event.kind !== GIFT_WRAP_KIND) return null;
+  try {
+    const seal = parseSeal(await signer.nip44Decrypt(event.pubkey, event.content));
+    if (!seal) return null;
+    return parseRumor(await signer.nip44Decrypt(seal.pubkey, seal.content), seal);
+  } catch {
+    return null;
+  }
+}
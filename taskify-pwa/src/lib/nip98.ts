@@ -0,0 +1,61 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { finalizeEvent, type EventTemplate } from "nostr-tools";
+
+export const NIP98_EVENT_KIND = 27235;
+
+function encodeBase64(data: string): string {
+  if (typeof btoa === "function") {
+    const encoder = new TextEncoder();
+    const bytes = encoder.encode(data);
+    let binary = "";
+    bytes.forEach((byte) => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+  const globalBuffer = (globalThis as {
+    Buffer?: { from: (input: string, encoding: string) => { toString: (encoding: string) => string } };
+  }).Buffer;
+  if (globalBuffer) {
+    return globalBuffer.from(data, "utf8").toString("base64");
+  }
+  throw new Error("Base64 encoding unavailable");
+}
+
+function buildNip98Template(url: string, method: string, body?: string): EventTemplate {
+  const normalizedMethod = method?.toUpperCase?.() || "GET";
+  const tags: string[][] = [
+    ["u", url],
+    ["method", normalizedMethod],
+  ];
+  if (typeof body === "string") {
+    tags.push(["payload", bytesToHex(sha256(new TextEncoder().encode(body)))]);
+  }
+  return {
+    kind: NIP98_EVENT_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content: "",
+  };
+}
+
+/**
+ * Build a NIP-98 `Authorization` header value for an HTTP request.
+ * When a request body is provided its SHA-256 hash is committed to in the `payload` tag.
+ */
+export function buildNip98AuthHeader(url: string, method: string, secretKeyHex: string, body?: string): string {
+  const event = finalizeEvent(buildNip98Template(url, method, body), hexToBytes(secretKeyHex));
+  return `Nostr ${encodeBase64(JSON.stringify(event))}`;
+}
+
+/** Same header signed by a signer that holds the key elsewhere (extension or remote signer). */
+export async function signNip98AuthHeader(
+  signer: { signEvent: (template: EventTemplate) => Promise<unknown> },
+  url: string,
+  method: string,
+  body?: string,
+): Promise<string> {
+  const event = await signer.signEvent(buildNip98Template(url, method, body));
+  return `Nostr ${encodeBase64(JSON.stringify(event))}`;
+}
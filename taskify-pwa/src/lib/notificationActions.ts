@@ -0,0 +1,48 @@
+// Shared with public/sw.js, which queues completions from reminder notification actions.
+const SW_CONFIG_CACHE = "taskify-cache-config";
+const QUEUED_COMPLETIONS_KEY = "pending-completions";
+
+export const COMPLETIONS_QUEUED_MESSAGE = "TASKIFY_COMPLETIONS_QUEUED";
+// Completions no profile has claimed by then are dropped, such as those of a deleted profile.
+const QUEUED_COMPLETION_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+export type QueuedTaskCompletion = {
+  taskId: string;
+  boardId?: string;
+  // Worker device of the profile the reminder was for; older service workers leave it out.
+  deviceId?: string;
+  queuedAt: string;
+};
+
+/**
+ * Take the queued completions `isOwn` claims for the active profile. Profiles share the service
+ * worker, so the rest stay queued until their own profile is active.
+ */
+export async function drainQueuedTaskCompletions(
+  isOwn: (entry: QueuedTaskCompletion) => boolean,
+): Promise<QueuedTaskCompletion[]> {
+  if (typeof caches === "undefined") return [];
+  try {
+    const cache = await caches.open(SW_CONFIG_CACHE);
+    const response = await cache.match(QUEUED_COMPLETIONS_KEY);
+    if (!response) return [];
+    const parsed = await response.json();
+    const entries = Array.isArray(parsed)
+      ? parsed.filter(
+        (entry): entry is QueuedTaskCompletion => !!entry && typeof entry.taskId === "string" && !!entry.taskId,
+      )
+      : [];
+    const own = entries.filter(isOwn);
+    const cutoff = Date.now() - QUEUED_COMPLETION_MAX_AGE_MS;
+    const rest = entries.filter((entry) => !own.includes(entry) && !(Date.parse(entry.queuedAt) < cutoff));
+    if (rest.length) {
+      await cache.put(QUEUED_COMPLETIONS_KEY, new Response(JSON.stringify(rest)));
+    } else {
+      await cache.delete(QUEUED_COMPLETIONS_KEY);
+    }
+    return own;
+  } catch (error) {
+    console.warn("Unable to read queued task completions", error);
+    return [];
+  }
+}
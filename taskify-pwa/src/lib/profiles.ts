@@ -0,0 +1,189 @@
+// Identity profiles. The active profile's data lives under the usual storage keys, so the rest of
+// the app reads and writes storage as before. Switching moves every profile-scoped key into a
+// stash for the outgoing profile and restores the incoming profile's stash. The swap runs at
+// startup, before the app mounts, so nothing still running can write into the other profile.
+
+export type Profile = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+export type ProfileIndex = {
+  activeId: string;
+  profiles: Profile[];
+  // Profile to switch to on the next load.
+  pendingId?: string;
+};
+
+const LS_PROFILES = "taskify.profiles";
+const LS_PROFILE_STASH_PREFIX = "taskify.profile.";
+const DEFAULT_PROFILE_ID = "default";
+// Device-level keys every profile shares.
+const SHARED_KEYS = new Set([
+  "taskify.debugConsole.enabled",
+  "taskify_preview_cache_v1",
+  "taskify_tutorial_done_v1",
+]);
+
+// Set at startup when the pending switch could not be applied.
+let switchFailure: string | null = null;
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+function isProfileScopedKey(key: string): boolean {
+  if (key === LS_PROFILES || key.startsWith(LS_PROFILE_STASH_PREFIX) || SHARED_KEYS.has(key)) return false;
+  return key.startsWith("taskify") || key.startsWith("cashu");
+}
+
+function stashKey(id: string): string {
+  return `${LS_PROFILE_STASH_PREFIX}${id}`;
+}
+
+function defaultIndex(): ProfileIndex {
+  return {
+    activeId: DEFAULT_PROFILE_ID,
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: "Personal", createdAt: new Date().toISOString() }],
+  };
+}
+
+export function loadProfiles(): ProfileIndex {
+  try {
+    const raw = localStorage.getItem(LS_PROFILES);
+    const parsed = raw ? JSON.parse(raw) : null;
+    const profiles = Array.isArray(parsed?.profiles)
+      ? parsed.profiles.filter((p: any) => p && typeof p.id === "string" && typeof p.name === "string")
+      : [];
+    if (!profiles.length) return defaultIndex();
+    const activeId = profiles.some((p: Profile) => p.id === parsed.activeId) ? parsed.activeId : profiles[0].id;
+    const pendingId = profiles.some((p: Profile) => p.id === parsed.pendingId) ? parsed.pendingId : undefined;
+    return { activeId, profiles, ...(pendingId ? { pendingId } : {}) };
+  } catch {
+    return defaultIndex();
+  }
+}
+
+function saveProfiles(index: ProfileIndex) {
+  localStorage.setItem(LS_PROFILES, JSON.stringify(index));
+}
+
+function loadStash(id: string): Record<string, string> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(stashKey(id)) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function liveProfileKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i += 1) {
+    const key = localStorage.key(i);
+    if (key && isProfileScopedKey(key)) keys.push(key);
+  }
+  return keys;
+}
+
+export function createProfile(name: string): Profile {
+  const trimmed = name.trim();
+  if (!trimmed) throw new ProfileError("Give the profile a name.");
+  const index = loadProfiles();
+  const profile: Profile = { id: crypto.randomUUID(), name: trimmed, createdAt: new Date().toISOString() };
+  saveProfiles({ ...index, profiles: [...index.profiles, profile] });
+  return profile;
+}
+
+export function renameProfile(id: string, name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) throw new ProfileError("Give the profile a name.");
+  const index = loadProfiles();
+  saveProfiles({ ...index, profiles: index.profiles.map((p) => (p.id === id ? { ...p, name: trimmed } : p)) });
+}
+
+/** Remove an inactive profile and everything stored for it, including its wallet. */
+export function deleteProfile(id: string) {
+  const index = loadProfiles();
+  if (id === index.activeId) throw new ProfileError("Switch to another profile before deleting this one.");
+  localStorage.removeItem(stashKey(id));
+  saveProfiles({ ...index, profiles: index.profiles.filter((p) => p.id !== id) });
+}
+
+/** Mark a profile to switch to; the caller reloads the page to apply it. */
+export function requestProfileSwitch(id: string) {
+  const index = loadProfiles();
+  if (!index.profiles.some((p) => p.id === id)) throw new ProfileError("Profile not found.");
+  saveProfiles({ ...index, pendingId: id });
+}
+
+/**
+ * Stash the active profile's storage and restore the pending profile's. A profile that has never
+ * been active starts with empty storage, so the app creates a fresh key and default boards for it.
+ */
+export function applyPendingProfileSwitch() {
+  const { pendingId, ...index } = loadProfiles();
+  if (!pendingId) return;
+  if (pendingId === index.activeId) {
+    saveProfiles(index);
+    return;
+  }
+  const incoming = loadStash(pendingId);
+  const outgoing: Record<string, string> = {};
+  const keys = liveProfileKeys();
+  keys.forEach((key) => {
+    const value = localStorage.getItem(key);
+    if (value !== null) outgoing[key] = value;
+  });
+  // Drop the incoming stash first so the outgoing one can use the space it frees.
+  localStorage.removeItem(stashKey(pendingId));
+  try {
+    localStorage.setItem(stashKey(index.activeId), JSON.stringify(outgoing));
+  } catch (err) {
+    localStorage.setItem(stashKey(pendingId), JSON.stringify(incoming));
+    saveProfiles(index);
+    console.warn("Not enough storage to switch profiles", err);
+    const target = index.profiles.find((p) => p.id === pendingId)?.name ?? "the other profile";
+    switchFailure = `Could not switch to ${target}: this device is out of storage space. Free some space and try again.`;
+    return;
+  }
+  keys.forEach((key) => localStorage.removeItem(key));
+  Object.entries(incoming).forEach(([key, value]) => localStorage.setItem(key, value));
+  saveProfiles({ ...index, activeId: pendingId });
+}
+
+/** Call `onChange` when another tab switches profiles, so this tab stops writing to storage. */
+export function onActiveProfileChange(onChange: () => void): () => void {
+  const activeId = loadProfiles().activeId;
+  const handle = (event: StorageEvent) => {
+    if (event.key === LS_PROFILES && loadProfiles().activeId !== activeId) onChange();
+  };
+  window.addEventListener("storage", handle);
+  return () => window.removeEventListener("storage", handle);
+}
+
+/** Why the pending profile switch did not happen at startup, reported once. */
+export function takeProfileSwitchFailure(): string | null {
+  const failure = switchFailure;
+  switchFailure = null;
+  return failure;
+}
+
+/** Raw value stored under `key` by an inactive profile. */
+export function profileStashValue(id: string, key: string): string | undefined {
+  return loadStash(id)[key];
+}
+
+/** Raw values stored under `key` by the profiles that are not active, leaving out `excludeId`. */
+export function inactiveProfileValues(key: string, excludeId?: string): string[] {
+  const index = loadProfiles();
+  return index.profiles
+    .filter((p) => p.id !== index.activeId && p.id !== excludeId)
+    .map((p) => loadStash(p.id)[key])
+    .filter((value): value is string => typeof value === "string");
+}
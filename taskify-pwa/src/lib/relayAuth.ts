@@ -0,0 +1,77 @@
+// NIP-42 relay authentication. Relays send ["AUTH", challenge] and may refuse requests with an
+// "auth-required:" prefix until the client answers with a signed kind 22242 event. Logging in tells
+// the relay who we are, so by default we only answer relays that actually refuse us.
+
+export const RELAY_AUTH_KIND = 22242;
+
+export type RelayAuthMode = "when-required" | "always" | "never";
+
+export type RelayAuthSigner = "app" | "extension";
+
+export type RelayAuthPreference = {
+  mode: RelayAuthMode;
+  signer?: RelayAuthSigner;
+};
+
+export type RelayAuthPreferences = Record<string, RelayAuthPreference>;
+
+// Why the pool wants to log in: a bare challenge, or a request the relay refused without it.
+export type RelayAuthReason = "challenge" | "required";
+
+const LS_RELAY_AUTH_PREFERENCES = "taskify.relayAuth";
+
+export const DEFAULT_RELAY_AUTH_PREFERENCE: RelayAuthPreference = { mode: "when-required" };
+
+export function relayAuthKey(url: string): string {
+  return url.trim().toLowerCase().replace(/\/+$/, "");
+}
+
+export function isAuthRequiredMessage(message: string | undefined): boolean {
+  return !!message && message.startsWith("auth-required:");
+}
+
+export function loadRelayAuthPreferences(): RelayAuthPreferences {
+  try {
+    const raw = localStorage.getItem(LS_RELAY_AUTH_PREFERENCES);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object") return {};
+    const prefs: RelayAuthPreferences = {};
+    for (const [url, value] of Object.entries(parsed as Record<string, any>)) {
+      const mode = value?.mode;
+      if (mode !== "when-required" && mode !== "always" && mode !== "never") continue;
+      prefs[relayAuthKey(url)] = { mode, signer: value?.signer === "extension" ? "extension" : undefined };
+    }
+    return prefs;
+  } catch {
+    return {};
+  }
+}
+
+export function saveRelayAuthPreferences(prefs: RelayAuthPreferences) {
+  try {
+    localStorage.setItem(LS_RELAY_AUTH_PREFERENCES, JSON.stringify(prefs));
+  } catch {}
+}
+
+export function relayAuthPreferenceFor(prefs: RelayAuthPreferences, url: string): RelayAuthPreference {
+  return prefs[relayAuthKey(url)] ?? DEFAULT_RELAY_AUTH_PREFERENCE;
+}
+
+/** Whether to answer a relay's challenge given the user's preference for it. */
+export function shouldAuthenticate(preference: RelayAuthPreference, reason: RelayAuthReason): boolean {
+  if (preference.mode === "never") return false;
+  return preference.mode === "always" || reason === "required";
+}
+
+export function buildRelayAuthTemplate(url: string, challenge: string) {
+  return {
+    kind: RELAY_AUTH_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [
+      ["relay", url],
+      ["challenge", challenge],
+    ],
+    content: "",
+  };
+}
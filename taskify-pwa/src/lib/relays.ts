@@ -5,3 +5,180 @@ export const DEFAULT_NOSTR_RELAYS = [
 ] as const;
 
 export type DefaultRelay = typeof DEFAULT_NOSTR_RELAYS[number];
+
+export type RelayConnectionState = "idle" | "connecting" | "open" | "closed";
+
+// Counters the shared relay pool keeps for each relay it has talked to since the app started.
+export type RelayHealth = {
+  url: string;
+  state: RelayConnectionState;
+  connectMs?: number; // time to open the most recent connection
+  connectFailures: number; // consecutive attempts that closed before opening
+  disconnects: number;
+  lastOpenAt?: number;
+  lastError?: string;
+  published: number;
+  accepted: number;
+  rejected: number;
+  rateLimited: number;
+  timeouts: number;
+  ackMs?: number; // moving average of EVENT -> OK
+  notices: number;
+  lastNotice?: string;
+  closedSubscriptions: number;
+  lastClosedReason?: string;
+  eoseMs?: number; // moving average of REQ -> EOSE
+  auth?: "challenged" | "authenticated" | "declined" | "failed"; // NIP-42
+};
+
+export type RelayHealthStatus = "unknown" | "healthy" | "slow" | "failing" | "dead";
+
+export type RelayHealthAssessment = {
+  status: RelayHealthStatus;
+  reason?: string;
+};
+
+const SLOW_CONNECT_MS = 5000;
+const SLOW_ACK_MS = 3000;
+const SLOW_EOSE_MS = 5000;
+
+export function emptyRelayHealth(url: string): RelayHealth {
+  return {
+    url,
+    state: "idle",
+    connectFailures: 0,
+    disconnects: 0,
+    published: 0,
+    accepted: 0,
+    rejected: 0,
+    rateLimited: 0,
+    timeouts: 0,
+    notices: 0,
+    closedSubscriptions: 0,
+  };
+}
+
+export function movingAverage(previous: number | undefined, sample: number): number {
+  return Math.round(previous === undefined ? sample : previous * 0.7 + sample * 0.3);
+}
+
+/** Summarize a relay's counters; `dead` relays are worth removing from a relay list. */
+export function assessRelayHealth(health: RelayHealth | undefined): RelayHealthAssessment {
+  if (!health) return { status: "unknown" };
+  if (health.state !== "open" && health.connectFailures >= 3) {
+    return { status: "dead", reason: `Failed to connect ${health.connectFailures} times in a row` };
+  }
+  if (health.published >= 3 && health.accepted === 0) {
+    return { status: "dead", reason: "Has not accepted any of our events" };
+  }
+  if (health.rateLimited > 0) {
+    return { status: "failing", reason: `Rate limited ${health.rateLimited} time${health.rateLimited === 1 ? "" : "s"}` };
+  }
+  if (health.rejected + health.timeouts > health.accepted) {
+    return { status: "failing", reason: "Rejects or drops most events" };
+  }
+  if (
+    (health.connectMs ?? 0) > SLOW_CONNECT_MS ||
+    (health.ackMs ?? 0) > SLOW_ACK_MS ||
+    (health.eoseMs ?? 0) > SLOW_EOSE_MS
+  ) {
+    return { status: "slow", reason: "Responds slowly" };
+  }
+  if (health.state === "open") return { status: "healthy" };
+  return { status: "unknown" };
+}
+
+export type RelayInfo = {
+  name?: string;
+  software?: string;
+  authRequired?: boolean;
+  paymentRequired?: boolean;
+};
+
+export type RelayProbeResult = {
+  ok: boolean;
+  connectMs?: number;
+  eoseMs?: number;
+  error?: string;
+  notice?: string;
+  info?: RelayInfo;
+};
+
+// NIP-11: relays describe themselves over HTTP at the same URL.
+async function fetchRelayInfo(url: string, timeoutMs: number): Promise<RelayInfo | undefined> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url.replace(/^ws/i, "http"), {
+      headers: { Accept: "application/nostr+json" },
+      signal: controller.signal,
+    });
+    if (!res.ok) return undefined;
+    const data = await res.json();
+    if (!data || typeof data !== "object") return undefined;
+    return {
+      name: typeof data.name === "string" && data.name ? data.name : undefined,
+      software: typeof data.software === "string" && data.software ? data.software : undefined,
+      authRequired: data.limitation?.auth_required === true || undefined,
+      paymentRequired: data.limitation?.payment_required === true || undefined,
+    };
+  } catch {
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function probeConnection(url: string, timeoutMs: number): Promise<RelayProbeResult> {
+  return new Promise((resolve) => {
+    const startedAt = performance.now();
+    const subId = `taskify-probe-${Math.random().toString(36).slice(2, 10)}`;
+    let ws: WebSocket | null = null;
+    let connectMs: number | undefined;
+    let notice: string | undefined;
+    let settled = false;
+    const finish = (result: RelayProbeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      try { ws?.close(); } catch {}
+      resolve({ ...result, connectMs, notice });
+    };
+    const timer = setTimeout(() => {
+      finish({ ok: false, error: connectMs === undefined ? "Timed out connecting" : "Timed out waiting for a reply" });
+    }, timeoutMs);
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      finish({ ok: false, error: "Invalid relay URL" });
+      return;
+    }
+    ws = socket;
+    socket.onopen = () => {
+      connectMs = Math.round(performance.now() - startedAt);
+      socket.send(JSON.stringify(["REQ", subId, { kinds: [30300], limit: 1 }]));
+    };
+    socket.onmessage = (e) => {
+      try {
+        const [type, ...rest] = JSON.parse(e.data);
+        if (type === "EOSE" && rest[0] === subId) {
+          finish({ ok: true, eoseMs: Math.round(performance.now() - startedAt) - (connectMs ?? 0) });
+        } else if (type === "CLOSED" && rest[0] === subId) {
+          finish({ ok: false, error: typeof rest[1] === "string" && rest[1] ? rest[1] : "Relay closed the request" });
+        } else if (type === "NOTICE" && typeof rest[0] === "string") {
+          notice = rest[0];
+        }
+      } catch {}
+    };
+    socket.onerror = () => finish({ ok: false, error: "Could not connect" });
+    socket.onclose = () => finish({ ok: false, error: "Connection closed" });
+  });
+}
+
+/** Connect to a relay, run one small query and read its NIP-11 document without touching the shared pool. */
+export async function probeRelay(url: string, timeoutMs = 6000): Promise<RelayProbeResult> {
+  if (!/^wss?:\/\//i.test(url)) return { ok: false, error: "Relay URLs start with wss://" };
+  const [connection, info] = await Promise.all([probeConnection(url, timeoutMs), fetchRelayInfo(url, timeoutMs)]);
+  return { ...connection, info };
+}
@@ -0,0 +1,349 @@
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  nip04,
+  nip44,
+  type Event as SignedNostrEvent,
+  type EventTemplate,
+} from "nostr-tools";
+import { BunkerSigner, createNostrConnectURI, parseBunkerInput, type BunkerPointer } from "nostr-tools/nip46";
+import { LS_NOSTR_SK } from "../nostrKeys";
+
+// The user's Nostr identity can live in three places: a key in local storage, a NIP-07 browser
+// extension or a NIP-46 remote signer ("bunker"), the only option on mobile PWAs besides pasting an
+// nsec. Everything that acts as the user goes through the active signer. Board keys and wallet keys
+// are separate and always local.
+
+declare global {
+  interface Window {
+    nostr?: {
+      getPublicKey: () => Promise<string>;
+      signEvent: (event: EventTemplate & { pubkey?: string }) => Promise<SignedNostrEvent>;
+      nip04?: {
+        encrypt: (pubkey: string, plaintext: string) => Promise<string>;
+        decrypt: (pubkey: string, ciphertext: string) => Promise<string>;
+      };
+      nip44?: {
+        encrypt: (pubkey: string, plaintext: string) => Promise<string>;
+        decrypt: (pubkey: string, ciphertext: string) => Promise<string>;
+      };
+    };
+  }
+}
+
+export type NostrSignerKind = "local" | "extension" | "bunker";
+
+export interface NostrSigner {
+  readonly kind: NostrSignerKind;
+  readonly pubkey: string;
+  signEvent(template: EventTemplate): Promise<SignedNostrEvent>;
+  nip04Encrypt(pubkey: string, plaintext: string): Promise<string>;
+  nip04Decrypt(pubkey: string, ciphertext: string): Promise<string>;
+  nip44Encrypt(pubkey: string, plaintext: string): Promise<string>;
+  nip44Decrypt(pubkey: string, ciphertext: string): Promise<string>;
+  close(): void;
+}
+
+type StoredSigner =
+  | { kind: "local" }
+  | { kind: "extension"; pubkey: string }
+  | { kind: "bunker"; pubkey: string; remotePubkey: string; relays: string[]; clientSecret: string };
+
+export class SignerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignerError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+const LS_SIGNER = "taskify.signer";
+// Remote signers may wait for the user to approve a request on another device.
+const BUNKER_REQUEST_TIMEOUT_MS = 60000;
+const NOSTR_CONNECT_PERMISSIONS = [
+  "sign_event:5",
+  "sign_event:13",
+  "sign_event:22242",
+  "sign_event:27235",
+  "sign_event:30301",
+  "nip04_encrypt",
+  "nip04_decrypt",
+  "nip44_encrypt",
+  "nip44_decrypt",
+];
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new SignerError(message)), BUNKER_REQUEST_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class LocalKeySigner implements NostrSigner {
+  readonly kind = "local";
+  readonly pubkey: string;
+  private readonly secretKey: Uint8Array;
+
+  constructor(secretKey: Uint8Array) {
+    this.secretKey = secretKey;
+    this.pubkey = getPublicKey(secretKey);
+  }
+
+  async signEvent(template: EventTemplate) {
+    return finalizeEvent(template, this.secretKey);
+  }
+
+  async nip04Encrypt(pubkey: string, plaintext: string) {
+    return nip04.encrypt(bytesToHex(this.secretKey), pubkey, plaintext);
+  }
+
+  async nip04Decrypt(pubkey: string, ciphertext: string) {
+    return nip04.decrypt(bytesToHex(this.secretKey), pubkey, ciphertext);
+  }
+
+  async nip44Encrypt(pubkey: string, plaintext: string) {
+    return nip44.v2.encrypt(plaintext, nip44.v2.utils.getConversationKey(this.secretKey, pubkey));
+  }
+
+  async nip44Decrypt(pubkey: string, ciphertext: string) {
+    return nip44.v2.decrypt(ciphertext, nip44.v2.utils.getConversationKey(this.secretKey, pubkey));
+  }
+
+  close() {}
+}
+
+export class ExtensionSigner implements NostrSigner {
+  readonly kind = "extension";
+  readonly pubkey: string;
+
+  constructor(pubkey: string) {
+    this.pubkey = pubkey;
+  }
+
+  private get extension() {
+    if (!window.nostr) throw new SignerError("The Nostr browser extension is not available");
+    return window.nostr;
+  }
+
+  async signEvent(template: EventTemplate) {
+    return this.extension.signEvent({ ...template, pubkey: this.pubkey });
+  }
+
+  async nip04Encrypt(pubkey: string, plaintext: string) {
+    if (!this.extension.nip04) throw new SignerError("The browser extension does not support NIP-04 encryption");
+    return this.extension.nip04.encrypt(pubkey, plaintext);
+  }
+
+  async nip04Decrypt(pubkey: string, ciphertext: string) {
+    if (!this.extension.nip04) throw new SignerError("The browser extension does not support NIP-04 encryption");
+    return this.extension.nip04.decrypt(pubkey, ciphertext);
+  }
+
+  async nip44Encrypt(pubkey: string, plaintext: string) {
+    if (!this.extension.nip44) throw new SignerError("The browser extension does not support NIP-44 encryption");
+    return this.extension.nip44.encrypt(pubkey, plaintext);
+  }
+
+  async nip44Decrypt(pubkey: string, ciphertext: string) {
+    if (!this.extension.nip44) throw new SignerError("The browser extension does not support NIP-44 encryption");
+    return this.extension.nip44.decrypt(pubkey, ciphertext);
+  }
+
+  close() {}
+}
+
+export class RemoteSigner implements NostrSigner {
+  readonly kind = "bunker";
+  readonly pubkey: string;
+  private readonly bunker: BunkerSigner;
+  private readonly clientSecret: Uint8Array;
+
+  constructor(bunker: BunkerSigner, clientSecret: Uint8Array, pubkey: string) {
+    this.bunker = bunker;
+    this.clientSecret = clientSecret;
+    this.pubkey = pubkey;
+  }
+
+  get relays(): string[] {
+    return this.bunker.bp.relays;
+  }
+
+  toStored(): StoredSigner {
+    return {
+      kind: "bunker",
+      pubkey: this.pubkey,
+      remotePubkey: this.bunker.bp.pubkey,
+      relays: this.bunker.bp.relays,
+      clientSecret: bytesToHex(this.clientSecret),
+    };
+  }
+
+  signEvent(template: EventTemplate) {
+    return withTimeout(this.bunker.signEvent(template), "The remote signer did not sign in time");
+  }
+
+  nip04Encrypt(pubkey: string, plaintext: string) {
+    return withTimeout(this.bunker.nip04Encrypt(pubkey, plaintext), "The remote signer did not encrypt in time");
+  }
+
+  nip04Decrypt(pubkey: string, ciphertext: string) {
+    return withTimeout(this.bunker.nip04Decrypt(pubkey, ciphertext), "The remote signer did not decrypt in time");
+  }
+
+  nip44Encrypt(pubkey: string, plaintext: string) {
+    return withTimeout(this.bunker.nip44Encrypt(pubkey, plaintext), "The remote signer did not encrypt in time");
+  }
+
+  nip44Decrypt(pubkey: string, ciphertext: string) {
+    return withTimeout(this.bunker.nip44Decrypt(pubkey, ciphertext), "The remote signer did not decrypt in time");
+  }
+
+  close() {
+    void this.bunker.close();
+  }
+}
+
+// Signers restored on startup have no dialog to show an approval link in.
+function openAuthUrl(url: string) {
+  try {
+    window.open(url, "_blank", "noopener");
+  } catch {}
+}
+
+function clientMetadata() {
+  return { name: "Taskify", url: window.location.origin };
+}
+
+/** Connect to a remote signer from a `bunker://` URI or a NIP-05 address that publishes one. */
+export async function connectBunker(
+  input: string,
+  options: { onAuthUrl?: (url: string) => void } = {},
+): Promise<RemoteSigner> {
+  const pointer = await parseBunkerInput(input.trim());
+  if (!pointer) throw new SignerError("Enter a bunker:// URI or the NIP-05 address of a remote signer");
+  if (!pointer.relays.length) throw new SignerError("The bunker URI does not name a relay");
+  const clientSecret = generateSecretKey();
+  const bunker = BunkerSigner.fromBunker(clientSecret, pointer, { onauth: options.onAuthUrl ?? openAuthUrl });
+  try {
+    await withTimeout(bunker.connect(clientMetadata()), "The remote signer did not answer");
+    const pubkey = await withTimeout(bunker.getPublicKey(), "The remote signer did not share its public key");
+    return new RemoteSigner(bunker, clientSecret, pubkey);
+  } catch (err) {
+    void bunker.close();
+    throw err;
+  }
+}
+
+/**
+ * Start a nostrconnect:// session for a signer app to scan. `connected` settles once the signer
+ * answers, or rejects when `signal` aborts.
+ */
+export function startNostrConnect(
+  relays: string[],
+  options: { signal: AbortSignal; onAuthUrl?: (url: string) => void },
+): { uri: string; connected: Promise<RemoteSigner> } {
+  const clientSecret = generateSecretKey();
+  const uri = createNostrConnectURI({
+    clientPubkey: getPublicKey(clientSecret),
+    relays,
+    secret: bytesToHex(generateSecretKey()).slice(0, 16),
+    perms: NOSTR_CONNECT_PERMISSIONS,
+    ...clientMetadata(),
+  });
+  const connected = (async () => {
+    const bunker = await BunkerSigner.fromURI(
+      clientSecret,
+      uri,
+      { onauth: options.onAuthUrl ?? openAuthUrl },
+      options.signal,
+    );
+    try {
+      const pubkey = await withTimeout(bunker.getPublicKey(), "The remote signer did not share its public key");
+      return new RemoteSigner(bunker, clientSecret, pubkey);
+    } catch (err) {
+      void bunker.close();
+      throw err;
+    }
+  })();
+  return { uri, connected };
+}
+
+export async function connectExtension(): Promise<ExtensionSigner> {
+  if (!window.nostr) throw new SignerError("No Nostr browser extension found");
+  const pubkey = await window.nostr.getPublicKey();
+  if (!/^[0-9a-f]{64}$/i.test(pubkey)) throw new SignerError("The browser extension returned an invalid public key");
+  return new ExtensionSigner(pubkey.toLowerCase());
+}
+
+function loadStoredSigner(): StoredSigner {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LS_SIGNER) || "null");
+    if (parsed?.kind === "extension" && typeof parsed.pubkey === "string") return parsed;
+    if (
+      parsed?.kind === "bunker" &&
+      typeof parsed.pubkey === "string" &&
+      typeof parsed.remotePubkey === "string" &&
+      typeof parsed.clientSecret === "string" &&
+      Array.isArray(parsed.relays)
+    ) {
+      return parsed;
+    }
+  } catch {}
+  return { kind: "local" };
+}
+
+function saveStoredSigner(stored: StoredSigner) {
+  try {
+    if (stored.kind === "local") localStorage.removeItem(LS_SIGNER);
+    else localStorage.setItem(LS_SIGNER, JSON.stringify(stored));
+  } catch {}
+}
+
+function loadLocalSigner(): LocalKeySigner {
+  const skHex = localStorage.getItem(LS_NOSTR_SK) || "";
+  if (!/^[0-9a-fA-F]{64}$/.test(skHex)) throw new SignerError("No local Nostr secret key");
+  return new LocalKeySigner(hexToBytes(skHex));
+}
+
+function restoreSigner(): NostrSigner {
+  const stored = loadStoredSigner();
+  if (stored.kind === "extension") return new ExtensionSigner(stored.pubkey);
+  if (stored.kind === "bunker") {
+    try {
+      const pointer: BunkerPointer = { pubkey: stored.remotePubkey, relays: stored.relays, secret: null };
+      const clientSecret = hexToBytes(stored.clientSecret);
+      const bunker = BunkerSigner.fromBunker(clientSecret, pointer, { onauth: openAuthUrl });
+      return new RemoteSigner(bunker, clientSecret, stored.pubkey);
+    } catch (err) {
+      console.warn("Failed to restore remote signer", err);
+    }
+  }
+  return loadLocalSigner();
+}
+
+let userSigner: NostrSigner | null = null;
+
+/** The signer acting as the user, restored from storage on first use. */
+export function getUserSigner(): NostrSigner {
+  if (!userSigner) userSigner = restoreSigner();
+  return userSigner;
+}
+
+/** Make `signer` the user's identity and remember it across sessions. */
+export function setUserSigner(signer: NostrSigner) {
+  if (userSigner && userSigner !== signer) userSigner.close();
+  userSigner = signer;
+  if (signer instanceof RemoteSigner) saveStoredSigner(signer.toStored());
+  else if (signer.kind === "extension") saveStoredSigner({ kind: "extension", pubkey: signer.pubkey });
+  else saveStoredSigner({ kind: "local" });
+}
+
+/** Go back to the key stored on this device. */
+export function resetToLocalSigner(): NostrSigner {
+  const signer = loadLocalSigner();
+  setUserSigner(signer);
+  return signer;
+}
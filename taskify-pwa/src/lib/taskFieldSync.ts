@@ -0,0 +1,191 @@
+// Per-field revisions for shared task events. Every tracked field carries a hybrid logical clock
+// revision plus the revision it was edited from, so concurrent edits to different fields merge and
+// concurrent edits to the same field can be detected instead of silently overwritten.
+
+export const TASK_SYNC_FIELDS = {
+  title: ["title"],
+  note: ["note"],
+  subtasks: ["subtasks"],
+  due: ["dueISO", "dueTimeEnabled"],
+  completion: ["completed", "completedAt", "completedBy"],
+} as const;
+
+export type TaskSyncField = keyof typeof TASK_SYNC_FIELDS;
+
+export const TASK_SYNC_FIELD_LABELS: Record<TaskSyncField, string> = {
+  title: "title",
+  note: "notes",
+  subtasks: "subtasks",
+  due: "due date",
+  completion: "completion",
+};
+
+export type TaskFieldRevision = {
+  rev: string;
+  base: string;
+  // Fingerprint of the field's value when `rev` was assigned; a mismatch means an unpublished edit.
+  hash: string;
+};
+
+export type TaskFieldRevisions = Partial<Record<TaskSyncField, TaskFieldRevision>>;
+
+export type PublishedTaskRevisions = Partial<Record<TaskSyncField, { rev: string; base: string }>>;
+
+export type TaskSyncConflict = {
+  fields: TaskSyncField[];
+  detectedAt: string;
+};
+
+type SyncableTask = { fieldRevs?: TaskFieldRevisions };
+
+const SYNC_FIELDS = Object.keys(TASK_SYNC_FIELDS) as TaskSyncField[];
+
+let clockMs = 0;
+let clockCounter = 0;
+
+function formatRevision(ms: number, counter: number, node: string): string {
+  return `${ms.toString(36).padStart(9, "0")}.${counter.toString(36).padStart(4, "0")}.${node}`;
+}
+
+/** Next hybrid logical clock value; revisions compare correctly as plain strings. */
+export function nextRevision(node: string): string {
+  const now = Date.now();
+  if (now > clockMs) {
+    clockMs = now;
+    clockCounter = 0;
+  } else {
+    clockCounter += 1;
+  }
+  return formatRevision(clockMs, clockCounter, node);
+}
+
+/** Advance the local clock past a revision seen from another device. */
+export function observeRevision(rev: string): void {
+  const [msPart, counterPart] = rev.split(".");
+  const ms = parseInt(msPart, 36);
+  const counter = parseInt(counterPart, 36);
+  if (!Number.isFinite(ms) || !Number.isFinite(counter)) return;
+  if (ms > clockMs || (ms === clockMs && counter > clockCounter)) {
+    clockMs = ms;
+    clockCounter = counter;
+  }
+}
+
+// Empty values compare equal whether a device stores them as undefined, null, "", false or [].
+function normalizeFieldValue(value: unknown): unknown {
+  if (value === undefined || value === "" || value === false) return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+}
+
+export function fieldFingerprint(task: object, field: TaskSyncField): string {
+  const values = task as Record<string, unknown>;
+  return JSON.stringify(TASK_SYNC_FIELDS[field].map((key) => normalizeFieldValue(values[key])));
+}
+
+/** Assign fresh revisions to fields edited since they were last stamped. Returns the same task when nothing changed. */
+export function stampFieldRevisions<T extends SyncableTask>(task: T, node: string): T {
+  let next: TaskFieldRevisions | null = null;
+  for (const field of SYNC_FIELDS) {
+    const current = task.fieldRevs?.[field];
+    const hash = fieldFingerprint(task, field);
+    if (current && current.hash === hash) continue;
+    next = next ?? { ...task.fieldRevs };
+    next[field] = { rev: nextRevision(node), base: current?.rev ?? "", hash };
+  }
+  return next ? { ...task, fieldRevs: next } : task;
+}
+
+export function publishedRevisions(revs: TaskFieldRevisions | undefined): PublishedTaskRevisions {
+  const published: PublishedTaskRevisions = {};
+  for (const field of SYNC_FIELDS) {
+    const entry = revs?.[field];
+    if (entry) published[field] = { rev: entry.rev, base: entry.base };
+  }
+  return published;
+}
+
+export function parsePublishedRevisions(raw: unknown): PublishedTaskRevisions | null {
+  if (!raw || typeof raw !== "object") return null;
+  const parsed: PublishedTaskRevisions = {};
+  for (const field of SYNC_FIELDS) {
+    const entry = (raw as Record<string, any>)[field];
+    if (entry && typeof entry.rev === "string" && entry.rev) {
+      parsed[field] = { rev: entry.rev, base: typeof entry.base === "string" ? entry.base : "" };
+    }
+  }
+  return parsed;
+}
+
+/** Local revision entries for a task first seen in an event. */
+export function adoptPublishedRevisions(task: object, published: PublishedTaskRevisions): TaskFieldRevisions {
+  const revs: TaskFieldRevisions = {};
+  for (const field of SYNC_FIELDS) {
+    const entry = published[field];
+    if (!entry) continue;
+    observeRevision(entry.rev);
+    revs[field] = { rev: entry.rev, base: entry.base, hash: fieldFingerprint(task, field) };
+  }
+  return revs;
+}
+
+/**
+ * Merge the tracked fields of an incoming task into the local one. Each field keeps whichever side
+ * has the later revision; it is a conflict when the winner was edited without seeing the loser.
+ * `fields` holds the merged values of every field the incoming event carried a revision for;
+ * `localAhead` and `remoteAhead` say whether either side holds values the other has not seen yet.
+ */
+export function mergeFieldRevisions<T extends SyncableTask>(
+  local: T,
+  incoming: T,
+  incomingRevs: PublishedTaskRevisions,
+): { fields: Partial<T>; fieldRevs: TaskFieldRevisions; conflicts: TaskSyncField[]; localAhead: boolean; remoteAhead: boolean } {
+  const current = local as Record<string, unknown>;
+  const merged: Record<string, unknown> = {};
+  const source = incoming as Record<string, unknown>;
+  const revs: TaskFieldRevisions = { ...local.fieldRevs };
+  const conflicts: TaskSyncField[] = [];
+  let localAhead = false;
+  let remoteAhead = false;
+  for (const field of SYNC_FIELDS) {
+    const theirs = incomingRevs[field];
+    if (!theirs) continue;
+    observeRevision(theirs.rev);
+    const ours = local.fieldRevs?.[field];
+    const incomingHash = fieldFingerprint(incoming, field);
+    const keepLocal = () => {
+      for (const key of TASK_SYNC_FIELDS[field]) merged[key] = current[key];
+    };
+    const takeIncoming = () => {
+      for (const key of TASK_SYNC_FIELDS[field]) merged[key] = source[key];
+      revs[field] = { rev: theirs.rev, base: theirs.base, hash: incomingHash };
+    };
+    if (!ours) {
+      takeIncoming();
+      continue;
+    }
+    if (ours.rev === theirs.rev) {
+      keepLocal();
+      continue;
+    }
+    const localHash = fieldFingerprint(local, field);
+    if (localHash !== ours.hash) {
+      // An unpublished local edit will be stamped after theirs, so it wins once published.
+      if (localHash !== incomingHash) conflicts.push(field);
+      revs[field] = { ...ours, rev: theirs.rev > ours.rev ? theirs.rev : ours.rev };
+      keepLocal();
+      localAhead = true;
+      continue;
+    }
+    if (theirs.rev > ours.rev) {
+      if (theirs.base < ours.rev && localHash !== incomingHash) conflicts.push(field);
+      takeIncoming();
+      remoteAhead = true;
+    } else {
+      if (ours.base < theirs.rev && localHash !== incomingHash) conflicts.push(field);
+      keepLocal();
+      localAhead = true;
+    }
+  }
+  return { fields: merged as Partial<T>, fieldRevs: revs, conflicts, localAhead, remoteAhead };
+}
@@ -2,6 +2,19 @@ import { useEffect, useMemo, useState } from "react";
 
 import { LS_URL_PREVIEW_CACHE } from "../localStorageKeys";
 
+export type UrlPreviewMediaKind = "image" | "pdf" | "video" | "audio";
+
+// Details of a direct link to a file rather than a page.
+export type UrlPreviewMedia = {
+  kind: UrlPreviewMediaKind;
+  mimeType?: string;
+  sizeBytes?: number;
+  width?: number;
+  height?: number;
+  pageCount?: number;
+  durationSeconds?: number;
+};
+
 export type UrlPreviewData = {
   url: string;
   finalUrl: string;
@@ -11,8 +24,11 @@ export type UrlPreviewData = {
   image?: string;
   icon?: string;
   siteName?: string;
+  media?: UrlPreviewMedia;
 };
 
+const MEDIA_KINDS: UrlPreviewMediaKind[] = ["image", "pdf", "video", "audio"];
+
 const DEV_WORKER_DEFAULT = "http://127.0.0.1:8787";
 const RAW_WORKER_BASE = (import.meta as any)?.env?.VITE_WORKER_BASE_URL || "";
 const STATIC_WORKER_BASE = (() => {
@@ -74,10 +90,23 @@ function clonePersistedPreviewData(raw: any): UrlPreviewData | null {
   const icon = sanitizeUrl(raw.icon);
   if (icon) data.icon = icon;
   if (typeof raw.siteName === "string" && raw.siteName) data.siteName = raw.siteName;
+  const media = sanitizeMedia(raw.media);
+  if (media) data.media = media;
 
   return data;
 }
 
+function sanitizeMedia(raw: any): UrlPreviewMedia | undefined {
+  if (!raw || typeof raw !== "object" || !MEDIA_KINDS.includes(raw.kind)) return undefined;
+  const media: UrlPreviewMedia = { kind: raw.kind };
+  if (typeof raw.mimeType === "string" && raw.mimeType) media.mimeType = raw.mimeType.slice(0, 100);
+  for (const key of ["sizeBytes", "width", "height", "pageCount", "durationSeconds"] as const) {
+    const value = raw[key];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) media[key] = value;
+  }
+  return media;
+}
+
 function deserializePersistedEntry(url: string, raw: any): PreviewCacheEntry | null {
   if (!raw || typeof raw !== "object") return null;
   const fetchedAt = typeof raw.fetchedAt === "number" ? raw.fetchedAt : 0;
@@ -117,7 +146,9 @@ function ensurePersistentCacheLoaded(): void {
 
 function shouldPersistEntry(entry: PreviewCacheEntry): boolean {
   if (!entry.data) return false;
-  if (!entry.data.image) return false;
+  if (!entry.data.image && !entry.data.media) return false;
+  // Embedded cover art arrives inline and would eat into the localStorage quota.
+  if (entry.data.image?.startsWith("data:")) return false;
   if (!entry.data.title) return false;
   if (entry.status !== "image") return false;
   if (entry.fallback) return false;
@@ -293,7 +324,9 @@ function normalizePreview(raw: any, requestedUrl: string): UrlPreviewData | null
   const finalUrl = typeof raw.finalUrl === "string" && raw.finalUrl ? raw.finalUrl : requested;
   const displayUrl = sanitizeString(raw.displayUrl) || buildDisplayUrl(finalUrl);
   const siteName = sanitizeString(raw.siteName);
-  const title = refinePreviewTitle(sanitizeString(raw.title), { siteName, finalUrl });
+  const media = sanitizeMedia(raw.media);
+  // File names would lose their extension to the trailing-segment cleanup.
+  const title = media ? sanitizeString(raw.title) : refinePreviewTitle(sanitizeString(raw.title), { siteName, finalUrl });
   const description = sanitizeString(raw.description);
   const image = sanitizeUrl(raw.image) || undefined;
   const icon = sanitizeUrl(raw.icon) || undefined;
@@ -306,6 +339,7 @@ function normalizePreview(raw: any, requestedUrl: string): UrlPreviewData | null
     image,
     icon,
     siteName,
+    media,
   };
 }
 
@@ -375,7 +409,8 @@ function determineCacheStatus(
   data: UrlPreviewData | null,
   extras: { fallback?: boolean } = {},
 ): PreviewCacheStatus {
-  if (data && data.image) {
+  // A file preview is as complete as it gets, with or without a picture.
+  if (data && (data.image || data.media)) {
     return "image";
   }
   if (data) {
@@ -419,6 +454,8 @@ async function fetchPreview(url: string, options: FetchPreviewOptions = {}): Pro
     try {
       const endpoint = `${base}/api/preview?url=${encodeURIComponent(url)}`;
       const res = await fetch(endpoint, { headers: { Accept: "application/json" }, cache: "no-store" });
+      // Rate limited: leave the URL uncached so it is tried again the next time it is shown.
+      if (res.status === 429) return null;
       if (!res.ok) {
         setCacheEntry(url, null, "empty");
         return null;
@@ -6,6 +6,10 @@ import { CashuProvider } from './context/CashuContext.tsx'
 import { NwcProvider } from './context/NwcContext.tsx'
 import { ToastProvider } from './context/ToastContext.tsx'
 import { P2PKProvider } from './context/P2PKContext.tsx'
+import { applyPendingProfileSwitch } from './lib/profiles'
+
+// Swap in the chosen profile's storage before anything reads it.
+applyPendingProfileSwitch()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  pubkey TEXT PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  time_zone TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS calendar_tasks (
+  pubkey TEXT NOT NULL,
+  uid TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  board_id TEXT,
+  title TEXT NOT NULL,
+  note TEXT,
+  due_iso TEXT NOT NULL,
+  due_time_enabled INTEGER NOT NULL,
+  completed INTEGER NOT NULL,
+  completed_at TEXT,
+  minutes_before TEXT NOT NULL,
+  recurrence TEXT,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (pubkey, uid),
+  FOREIGN KEY (pubkey) REFERENCES calendar_feeds(pubkey) ON DELETE CASCADE
+);
@@ -0,0 +1,24 @@
+ALTER TABLE pending_notifications ADD COLUMN kind TEXT;
+
+CREATE TABLE IF NOT EXISTS device_preferences (
+  device_id TEXT PRIMARY KEY,
+  time_zone TEXT NOT NULL,
+  quiet_start INTEGER,
+  quiet_end INTEGER,
+  digest_window_minutes INTEGER NOT NULL DEFAULT 0,
+  agenda_enabled INTEGER NOT NULL DEFAULT 0,
+  agenda_minute INTEGER NOT NULL DEFAULT 480,
+  agenda_last_sent TEXT,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS agenda_tasks (
+  device_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  board_id TEXT,
+  title TEXT NOT NULL,
+  due_iso TEXT NOT NULL,
+  PRIMARY KEY (device_id, task_id),
+  FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE
+);
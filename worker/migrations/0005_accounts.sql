@@ -0,0 +1,32 @@
+CREATE TABLE IF NOT EXISTS accounts (
+  pubkey TEXT PRIMARY KEY,
+  created_at INTEGER NOT NULL
+);
+
+ALTER TABLE devices ADD COLUMN pubkey TEXT;
+
+CREATE TABLE IF NOT EXISTS account_reminders (
+  pubkey TEXT NOT NULL,
+  reminder_key TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  board_id TEXT,
+  title TEXT NOT NULL,
+  due_iso TEXT NOT NULL,
+  minutes INTEGER NOT NULL,
+  send_at INTEGER NOT NULL,
+  recurrence TEXT,
+  time_zone TEXT,
+  PRIMARY KEY (pubkey, reminder_key),
+  FOREIGN KEY (pubkey) REFERENCES accounts(pubkey) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS reminder_fanout (
+  device_id TEXT NOT NULL,
+  reminder_key TEXT NOT NULL,
+  send_at INTEGER NOT NULL,
+  PRIMARY KEY (device_id, reminder_key, send_at),
+  FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_devices_pubkey ON devices(pubkey);
+CREATE INDEX IF NOT EXISTS idx_account_reminders_send_at ON account_reminders(send_at);
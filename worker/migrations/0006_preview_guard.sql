@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS preview_rate_limits (
+  client TEXT PRIMARY KEY,
+  tokens REAL NOT NULL,
+  allowed INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS preview_cache (
+  url TEXT PRIMARY KEY,
+  body TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_preview_cache_expires_at ON preview_cache(expires_at);
@@ -0,0 +1,16 @@
+-- The board ID is only stored sealed with a key derived from the token, so rows alone cannot
+-- decrypt or sign for a board.
+CREATE TABLE IF NOT EXISTS inbox_tokens (
+  id TEXT PRIMARY KEY,
+  board_pubkey TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  sealed_board_id TEXT NOT NULL,
+  relays TEXT NOT NULL,
+  label TEXT,
+  token_hint TEXT NOT NULL,
+  time_zone TEXT,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_tokens_board_pubkey ON inbox_tokens(board_pubkey);
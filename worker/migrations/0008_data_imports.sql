@@ -0,0 +1,9 @@
+-- Progress of the resumable data imports the scheduled handler runs a page at a time. A lease keeps
+-- two runs from working on the same import at once.
+CREATE TABLE IF NOT EXISTS data_imports (
+  name TEXT PRIMARY KEY,
+  cursor TEXT,
+  completed_at INTEGER,
+  lease_owner TEXT,
+  lease_expires_at INTEGER
+);
@@ -0,0 +1,8 @@
+-- Several profiles in one browser share its push endpoint but register as separate devices.
+-- endpoint_hash keeps its UNIQUE constraint and now identifies the registration (endpoint and
+-- device); endpoint_key holds the endpoint hash alone for lookups by endpoint.
+ALTER TABLE devices ADD COLUMN endpoint_key TEXT;
+
+UPDATE devices SET endpoint_key = endpoint_hash WHERE endpoint_key IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_devices_endpoint_key ON devices(endpoint_key);
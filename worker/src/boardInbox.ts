@@ -0,0 +1,149 @@
+// Shared-board helpers for the inbox capture endpoint. Key derivation and content encryption
+// mirror deriveBoardNostrKeys and encryptToBoard in the PWA so captured tasks sync like any other.
+import { finalizeEvent, getPublicKey, type Event as NostrEvent } from "nostr-tools";
+import { queryRelays } from "./nostrRelays";
+
+const BOARD_KEY_LABEL = "taskify-board-nostr-key-v1";
+const VIEW_KEY_LABEL = "taskify-board-view-key-v1";
+const INBOX_SEAL_LABEL = "taskify-inbox-token-v1:";
+
+export const BOARD_METADATA_KIND = 30300;
+export const BOARD_TASK_KIND = 30301;
+
+export type BoardKeys = { sk: Uint8Array; pk: string };
+
+export type BoardMetadata = {
+  kind: string;
+  name: string;
+  columns: { id: string; name: string }[];
+  // Split-access boards encrypt with the view key so that viewers cannot sign.
+  splitAccess: boolean;
+};
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function sha256(text: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+}
+
+async function aesKey(secret: string | Uint8Array): Promise<CryptoKey> {
+  const raw = typeof secret === "string" ? await sha256(secret) : secret;
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
+
+async function aesEncrypt(secret: string | Uint8Array, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await aesKey(secret), new TextEncoder().encode(plaintext));
+  const combined = new Uint8Array(iv.length + ciphertext.byteLength);
+  combined.set(iv, 0);
+  combined.set(new Uint8Array(ciphertext), iv.length);
+  return bytesToBase64(combined);
+}
+
+async function aesDecrypt(secret: string | Uint8Array, data: string): Promise<string> {
+  const bytes = base64ToBytes(data);
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: bytes.slice(0, 12) }, await aesKey(secret), bytes.slice(12));
+  return new TextDecoder().decode(plaintext);
+}
+
+export async function deriveBoardKeys(boardId: string): Promise<BoardKeys> {
+  const sk = await sha256(`${BOARD_KEY_LABEL}${boardId}`);
+  return { sk, pk: getPublicKey(sk) };
+}
+
+export async function boardTag(boardId: string): Promise<string> {
+  return bytesToHex(await sha256(boardId));
+}
+
+function boardViewKey(boardId: string): Promise<Uint8Array> {
+  return sha256(`${VIEW_KEY_LABEL}${boardId}`);
+}
+
+export async function encryptToBoard(boardId: string, plaintext: string, options: { splitAccess?: boolean } = {}): Promise<string> {
+  return aesEncrypt(options.splitAccess ? await boardViewKey(boardId) : boardId, plaintext);
+}
+
+// Boards may hold content from before access was split, so both keys are tried.
+export async function decryptFromBoard(boardId: string, data: string): Promise<string> {
+  try {
+    return await aesDecrypt(await boardViewKey(boardId), data);
+  } catch {
+    return aesDecrypt(boardId, data);
+  }
+}
+
+export async function hashInboxToken(token: string): Promise<string> {
+  return bytesToHex(await sha256(token));
+}
+
+/** Seal the board ID so that only a request carrying the token can recover it. */
+export function sealBoardId(token: string, boardId: string): Promise<string> {
+  return aesEncrypt(`${INBOX_SEAL_LABEL}${token}`, boardId);
+}
+
+export function openSealedBoardId(token: string, sealed: string): Promise<string> {
+  return aesDecrypt(`${INBOX_SEAL_LABEL}${token}`, sealed);
+}
+
+/** Read the newest board metadata event the board key published, or null when none is reachable. */
+export async function loadBoardMetadata(
+  relays: string[],
+  boardId: string,
+  keys: BoardKeys,
+  timeoutMs: number,
+): Promise<BoardMetadata | null> {
+  const tag = await boardTag(boardId);
+  const events = await queryRelays(relays, { kinds: [BOARD_METADATA_KIND], authors: [keys.pk], "#d": [tag], limit: 1 }, timeoutMs);
+  const latest = events
+    .filter((event) => event.pubkey === keys.pk && event.kind === BOARD_METADATA_KIND)
+    .sort((a, b) => b.created_at - a.created_at)[0];
+  if (!latest) return null;
+
+  const tagValue = (name: string) => latest.tags.find((entry) => entry[0] === name)?.[1] ?? "";
+  let payload: { columns?: unknown } = {};
+  try {
+    payload = JSON.parse(await decryptFromBoard(boardId, latest.content)) ?? {};
+  } catch {
+    payload = {};
+  }
+  const columns = Array.isArray(payload.columns)
+    ? payload.columns.filter(
+        (column): column is { id: string; name: string } =>
+          !!column && typeof column.id === "string" && !!column.id && typeof column.name === "string",
+      )
+    : [];
+  return { kind: tagValue("k"), name: tagValue("name"), columns, splitAccess: tagValue("access") === "split" };
+}
+
+/** Build and sign a new open task event for the board, encrypting the body like the PWA does. */
+export async function buildTaskEvent(
+  boardId: string,
+  keys: BoardKeys,
+  task: { id: string; column: string; body: Record<string, unknown>; splitAccess?: boolean },
+): Promise<NostrEvent> {
+  const content = await encryptToBoard(boardId, JSON.stringify(task.body), { splitAccess: task.splitAccess });
+  return finalizeEvent(
+    {
+      kind: BOARD_TASK_KIND,
+      tags: [["d", task.id], ["b", await boardTag(boardId)], ["col", task.column], ["status", "open"]],
+      content,
+      created_at: Math.floor(Date.now() / 1000),
+    },
+    keys.sk,
+  );
+}
@@ -0,0 +1,361 @@
+// iCalendar (RFC 5545) rendering for subscribable task feeds.
+import type { Recurrence } from "./recurrence";
+import { formatWallClockDate, toWallClock, utcOffsetMinutes } from "./timeZone";
+
+export type CalendarTask = {
+  uid: string;
+  taskId: string;
+  boardId?: string;
+  title: string;
+  note?: string;
+  dueISO: string;
+  dueTimeEnabled: boolean;
+  completed: boolean;
+  completedAt?: string;
+  minutesBefore: number[];
+  recurrence?: Recurrence;
+  updatedAt: number;
+};
+
+export type CalendarComponentType = "event" | "todo";
+
+const PRODID = "-//Taskify//Task Feed//EN";
+const TIMED_EVENT_DURATION = "PT30M";
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+const MAX_LINE_OCTETS = 75;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Offset changes are months apart, so a weekly scan finds each one before it is bisected.
+const TRANSITION_SCAN_STEP_MS = 7 * DAY_MS;
+
+const encoder = new TextEncoder();
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// RFC 5545 section 3.1: lines longer than 75 octets are folded with CRLF + a single space.
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatUtcDateTime(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "Z");
+}
+
+function formatDateValue(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDateValue(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return formatDateValue(next.toISOString().slice(0, 10));
+}
+
+// Wall-clock parts of an instant in the given zone, as "YYYY-MM-DD" and "HHMMSS".
+function localParts(time: number, timeZone: string): { date: string; time: string } {
+  const wall = toWallClock(time, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return { date: formatWallClockDate(wall), time: `${pad(wall.hour)}${pad(wall.minute)}${pad(wall.second)}` };
+}
+
+type ZoneTransition = {
+  at: number;
+  from: number; // minutes east of UTC
+  to: number;
+};
+
+function formatUtcOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${minutes < 0 ? "-" : "+"}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+// Local date-time without a zone designator, for VTIMEZONE observance starts.
+function formatFloatingDateTime(time: number): string {
+  return formatUtcDateTime(time).replace(/Z$/, "");
+}
+
+function findZoneTransitions(timeZone: string, start: number, end: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  let cursor = Math.floor(start / MINUTE_MS) * MINUTE_MS;
+  let offset = utcOffsetMinutes(cursor, timeZone);
+  while (cursor < end) {
+    const next = cursor + TRANSITION_SCAN_STEP_MS;
+    const nextOffset = utcOffsetMinutes(next, timeZone);
+    if (nextOffset === offset) {
+      cursor = next;
+      continue;
+    }
+    // Bisect to the first minute showing the new offset.
+    let low = cursor;
+    let high = next;
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS;
+      if (utcOffsetMinutes(mid, timeZone) === offset) low = mid;
+      else high = mid;
+    }
+    const to = utcOffsetMinutes(high, timeZone);
+    transitions.push({ at: high, from: offset, to });
+    cursor = high;
+    offset = to;
+  }
+  return transitions;
+}
+
+// "2SU" or "-1SU" when both transitions fall on the same weekday of the same week of their month.
+function yearlyWeekdayRule(earlier: ZoneTransition, later: ZoneTransition): string | null {
+  const a = new Date(earlier.at + earlier.from * MINUTE_MS);
+  const b = new Date(later.at + later.from * MINUTE_MS);
+  if (
+    a.getUTCMonth() !== b.getUTCMonth() ||
+    a.getUTCDay() !== b.getUTCDay() ||
+    a.getUTCHours() !== b.getUTCHours() ||
+    a.getUTCMinutes() !== b.getUTCMinutes()
+  ) {
+    return null;
+  }
+  const isLast = (date: Date) =>
+    date.getUTCDate() + 7 > new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const weekday = WEEKDAY_CODES[a.getUTCDay()];
+  if (isLast(a) && isLast(b)) return `-1${weekday}`;
+  const week = Math.ceil(a.getUTCDate() / 7);
+  return week === Math.ceil(b.getUTCDate() / 7) && week <= 4 ? `${week}${weekday}` : null;
+}
+
+/**
+ * VTIMEZONE for a zone, built from the runtime's offset data between `start` and `end`. Transitions
+ * that repeat on the same weekday rule in the last two years continue as a yearly RRULE, so
+ * open-ended recurring entries keep the right offset past `end`.
+ */
+function buildTimeZoneComponent(timeZone: string, start: number, end: number): string[] {
+  const transitions = findZoneTransitions(timeZone, start, end);
+  const rules = new Map<number, string>();
+  const continued = new Set<number>();
+  transitions.forEach((transition, index) => {
+    if (transition.at < end - 365 * DAY_MS) return;
+    const earlierIndex = transitions.findIndex(
+      (candidate) =>
+        candidate.from === transition.from &&
+        candidate.to === transition.to &&
+        Math.abs(transition.at - candidate.at - 365 * DAY_MS) <= 8 * DAY_MS,
+    );
+    if (earlierIndex < 0) return;
+    const byDay = yearlyWeekdayRule(transitions[earlierIndex], transition);
+    if (!byDay) return;
+    const month = new Date(transition.at + transition.from * MINUTE_MS).getUTCMonth() + 1;
+    rules.set(earlierIndex, `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${byDay}`);
+    continued.add(index);
+  });
+
+  const initialOffset = utcOffsetMinutes(start, timeZone);
+  const lines = [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    "BEGIN:STANDARD",
+    `DTSTART:${formatFloatingDateTime(start + initialOffset * MINUTE_MS)}`,
+    `TZOFFSETFROM:${formatUtcOffset(initialOffset)}`,
+    `TZOFFSETTO:${formatUtcOffset(initialOffset)}`,
+    "END:STANDARD",
+  ];
+  transitions.forEach((transition, index) => {
+    if (continued.has(index)) return;
+    const name = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${name}`,
+      `DTSTART:${formatFloatingDateTime(transition.at + transition.from * MINUTE_MS)}`,
+      `TZOFFSETFROM:${formatUtcOffset(transition.from)}`,
+      `TZOFFSETTO:${formatUtcOffset(transition.to)}`,
+    );
+    const rule = rules.get(index);
+    if (rule) lines.push(rule);
+    lines.push(`END:${name}`);
+  });
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function buildRecurrenceRule(
+  recurrence: Recurrence | undefined,
+  allDay: boolean,
+  timeZone: string | undefined,
+): string | null {
+  if (!recurrence || recurrence.type === "none") return null;
+  const parts: string[] = [];
+  switch (recurrence.type) {
+    case "daily":
+      parts.push("FREQ=DAILY");
+      break;
+    case "weekly": {
+      const days = Array.from(new Set(recurrence.days))
+        .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_CODES[day]);
+      if (!days.length) return null;
+      parts.push("FREQ=WEEKLY", `BYDAY=${days.join(",")}`);
+      break;
+    }
+    case "every": {
+      const interval = Math.max(1, Math.floor(recurrence.n));
+      if (recurrence.unit === "hour") {
+        // An hourly rule has no meaning for an all-day entry.
+        if (allDay) return null;
+        parts.push("FREQ=HOURLY");
+      } else {
+        parts.push(recurrence.unit === "week" ? "FREQ=WEEKLY" : "FREQ=DAILY");
+      }
+      if (interval > 1) parts.push(`INTERVAL=${interval}`);
+      break;
+    }
+    case "monthlyDay": {
+      const day = Math.floor(recurrence.day);
+      if (!(day >= 1 && day <= 31)) return null;
+      parts.push("FREQ=MONTHLY", `BYMONTHDAY=${day}`);
+      const interval = Math.max(1, Math.floor(recurrence.interval ?? 1));
+      if (interval > 1) parts.push(`INTERVAL=${interval}`);
+      break;
+    }
+    default:
+      return null;
+  }
+  if (recurrence.untilISO) {
+    const until = Date.parse(recurrence.untilISO);
+    if (!Number.isNaN(until)) {
+      // UNTIL is a DATE for all-day entries and must be UTC when DTSTART is a (zoned) date-time.
+      const untilDate = timeZone ? localParts(until, timeZone).date : new Date(until).toISOString().slice(0, 10);
+      parts.push(`UNTIL=${allDay ? formatDateValue(untilDate) : formatUtcDateTime(until)}`);
+    }
+  }
+  return `RRULE:${parts.join(";")}`;
+}
+
+function buildAlarms(task: CalendarTask, component: CalendarComponentType): string[] {
+  const lines: string[] = [];
+  const minutes = Array.from(new Set(task.minutesBefore))
+    .filter((value) => Number.isFinite(value) && value >= 0)
+    .sort((a, b) => a - b);
+  for (const value of minutes) {
+    // VTODO alarms are relative to DUE, which is the component's end.
+    const related = component === "todo" ? ";RELATED=END" : "";
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(task.title || "Task reminder")}`,
+      `TRIGGER${related}:${value === 0 ? "PT0M" : `-PT${Math.round(value)}M`}`,
+      "END:VALARM",
+    );
+  }
+  return lines;
+}
+
+function buildComponent(
+  task: CalendarTask,
+  component: CalendarComponentType,
+  now: number,
+  timeZone: string | undefined,
+): string[] {
+  const due = Date.parse(task.dueISO);
+  if (Number.isNaN(due)) return [];
+  const allDay = !task.dueTimeEnabled;
+  const local = timeZone ? localParts(due, timeZone) : null;
+  const allDayDate = allDay ? local?.date ?? new Date(due).toISOString().slice(0, 10) : null;
+  // Zoned times keep weekly BYDAY rules on the user's local weekday.
+  const dueValue = local ? `;TZID=${timeZone}:${formatDateValue(local.date)}T${local.time}` : `:${formatUtcDateTime(due)}`;
+
+  const name = component === "todo" ? "VTODO" : "VEVENT";
+  const lines = [
+    `BEGIN:${name}`,
+    `UID:${escapeText(task.uid)}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `LAST-MODIFIED:${formatUtcDateTime(task.updatedAt)}`,
+    `SUMMARY:${escapeText(task.title || "Untitled task")}`,
+  ];
+  if (task.note) {
+    lines.push(`DESCRIPTION:${escapeText(task.note)}`);
+  }
+
+  if (component === "todo") {
+    // No DTSTART: clients treat it as the day work can begin and would hide the to-do until it is due.
+    lines.push(allDayDate ? `DUE;VALUE=DATE:${formatDateValue(allDayDate)}` : `DUE${dueValue}`);
+    if (task.completed) {
+      lines.push("STATUS:COMPLETED");
+      const completedAt = task.completedAt ? Date.parse(task.completedAt) : NaN;
+      if (!Number.isNaN(completedAt)) lines.push(`COMPLETED:${formatUtcDateTime(completedAt)}`);
+    } else {
+      lines.push("STATUS:NEEDS-ACTION");
+    }
+  } else {
+    const start = allDayDate ? `DTSTART;VALUE=DATE:${formatDateValue(allDayDate)}` : `DTSTART${dueValue}`;
+    lines.push(start, allDayDate ? `DTEND;VALUE=DATE:${nextDateValue(allDayDate)}` : `DURATION:${TIMED_EVENT_DURATION}`);
+    lines.push("TRANSP:TRANSPARENT");
+  }
+
+  if (!task.completed) {
+    const rule = buildRecurrenceRule(task.recurrence, allDay, timeZone);
+    if (rule) lines.push(rule);
+    lines.push(...buildAlarms(task, component));
+  }
+
+  lines.push(`END:${name}`);
+  return lines;
+}
+
+/**
+ * Render tasks as a VCALENDAR document. Events suit calendar apps (completed tasks are left out);
+ * to-dos suit task-aware clients and keep recently completed tasks with their completion time.
+ * With a `timeZone`, timed entries use local wall-clock times and all-day entries the local date.
+ */
+export function buildTaskCalendar(
+  tasks: CalendarTask[],
+  options: { name?: string; component?: CalendarComponentType; now?: number; timeZone?: string } = {},
+): string {
+  const component = options.component ?? "event";
+  const now = options.now ?? Date.now();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name || "Taskify")}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+  const included = tasks.filter((task) => !(component === "event" && task.completed));
+  // Every TZID used needs a matching VTIMEZONE (RFC 5545 section 3.2.19); only timed entries use one.
+  const timedDues = included
+    .filter((task) => task.dueTimeEnabled)
+    .map((task) => Date.parse(task.dueISO))
+    .filter((due) => !Number.isNaN(due));
+  if (options.timeZone && timedDues.length) {
+    const firstYear = new Date(Math.min(...timedDues)).getUTCFullYear();
+    const lastYear = new Date(Math.max(now, ...timedDues)).getUTCFullYear();
+    lines.push(...buildTimeZoneComponent(options.timeZone, Date.UTC(firstYear - 1, 0, 1), Date.UTC(lastYear + 2, 0, 1)));
+  }
+  for (const task of included) {
+    lines.push(...buildComponent(task, component, now, options.timeZone));
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -1,5 +1,42 @@
 /* eslint-disable no-console */
 import { getPreviewFromContent } from "link-preview-js";
+import { nip19 } from "nostr-tools";
+import initMigration from "../migrations/0001_init.sql";
+import calendarFeedsMigration from "../migrations/0002_calendar_feeds.sql";
+import reminderRecurrenceMigration from "../migrations/0003_reminder_recurrence.sql";
+import deliveryPreferencesMigration from "../migrations/0004_delivery_preferences.sql";
+import accountsMigration from "../migrations/0005_accounts.sql";
+import previewGuardMigration from "../migrations/0006_preview_guard.sql";
+import inboxTokensMigration from "../migrations/0007_inbox_tokens.sql";
+import dataImportsMigration from "../migrations/0008_data_imports.sql";
+import deviceRegistrationsMigration from "../migrations/0009_device_registrations.sql";
+import {
+  buildTaskEvent,
+  deriveBoardKeys,
+  hashInboxToken,
+  loadBoardMetadata,
+  openSealedBoardId,
+  sealBoardId,
+} from "./boardInbox";
+import { buildTaskCalendar, type CalendarComponentType, type CalendarTask } from "./ical";
+import { mediaKindForResponse, readMediaDetails, type MediaKind } from "./mediaPreview";
+import { runDataImportPage, runMigrations, type DataImport, type Migration } from "./migrations";
+import {
+  canonicalizeKnownUrl,
+  runPreviewExtractors,
+  type AlternatePreviewReason,
+  type DerivedPreviewResult,
+  type ExtractorToolkit,
+  type PreviewMetadata,
+  type PreviewPayload,
+} from "./previewExtractors";
+import { BlockedDestinationError, assertPublicUrl, fetchPublicUrl } from "./previewGuard";
+import { verifyNip98Authorization } from "./nip98";
+import { normalizeRelayList, publishToRelays, queryRelays } from "./nostrRelays";
+import { nextOccurrence, parseRecurrence, type Recurrence } from "./recurrence";
+import { renderSharePage, sharePageSecurityPolicy, snapshotFromEvents } from "./sharePage";
+import { formatWallClockDate, fromWallClock, isSupportedTimeZone, shiftWallClockDays, toWallClock } from "./timeZone";
+import { MAX_PUSH_PAYLOAD_BYTES, encryptWebPushPayload } from "./webPush";
 interface R2ObjectBody {
   body: ReadableStream<Uint8Array> | null;
   text(): Promise<string>;
@@ -37,6 +74,15 @@ export interface Env {
 
 type PushPlatform = "ios" | "android";
 
+type BackupSnapshotEntry = {
+  id: string;
+  createdAt: string;
+  storedAt: string;
+  size: number;
+  version: number;
+  pinned: boolean;
+};
+
 type SubscriptionRecord = {
   endpoint: string;
   keys: { auth: string; p256dh: string };
@@ -47,6 +93,8 @@ type DeviceRecord = {
   platform: PushPlatform;
   subscription: SubscriptionRecord;
   endpointHash: string;
+  // Nostr pubkey of the account the device is linked to, if any.
+  pubkey?: string;
 };
 
 type ReminderTaskInput = {
@@ -55,6 +103,14 @@ type ReminderTaskInput = {
   title: string;
   dueISO: string;
   minutesBefore: number[];
+  recurrence?: unknown;
+};
+
+type AgendaTaskInput = {
+  taskId: string;
+  boardId?: string;
+  title: string;
+  dueISO: string;
 };
 
 type ReminderEntry = {
@@ -65,14 +121,43 @@ type ReminderEntry = {
   dueISO: string;
   minutes: number;
   sendAt: number;
+  recurrence?: Recurrence;
+  timeZone?: string;
 };
 
+// "digest" and "agenda" items are shown together as one notification per push; "dismiss" items close
+// the notification for a task that was handled on another of the account's devices.
+type NotificationKind = "reminder" | "digest" | "agenda" | "dismiss";
+
 type PendingReminder = {
   taskId: string;
   boardId?: string;
   title: string;
   dueISO: string;
   minutes: number;
+  kind?: NotificationKind;
+};
+
+type DeliveryPreferences = {
+  timeZone: string;
+  // Minutes after local midnight; an overnight range has start > end.
+  quietHours: { start: number; end: number } | null;
+  digestWindowMinutes: number;
+  agenda: { enabled: boolean; minute: number };
+};
+
+type CalendarTaskInput = {
+  taskId: string;
+  boardId?: string;
+  seriesId?: string;
+  title: string;
+  note?: string;
+  dueISO: string;
+  dueTimeEnabled?: boolean;
+  completed?: boolean;
+  completedAt?: string;
+  minutesBefore?: number[];
+  recurrence?: Recurrence;
 };
 
 type DeviceRow = {
@@ -80,9 +165,11 @@ type DeviceRow = {
   platform: PushPlatform;
   endpoint: string;
   endpoint_hash: string;
+  endpoint_key: string | null;
   subscription_auth: string;
   subscription_p256dh: string;
   updated_at: number;
+  pubkey: string | null;
 };
 
 type ReminderRow = {
@@ -94,6 +181,33 @@ type ReminderRow = {
   due_iso: string;
   minutes: number;
   send_at: number;
+  recurrence: string | null;
+  time_zone: string | null;
+};
+
+type AccountReminderRow = Omit<ReminderRow, "device_id"> & { pubkey: string };
+
+type CalendarTaskRow = {
+  uid: string;
+  task_id: string;
+  board_id: string | null;
+  title: string;
+  note: string | null;
+  due_iso: string;
+  due_time_enabled: number;
+  completed: number;
+  completed_at: string | null;
+  minutes_before: string;
+  recurrence: string | null;
+  updated_at: number;
+};
+
+type InboxTokenRow = {
+  id: string;
+  label: string | null;
+  token_hint: string;
+  created_at: number;
+  last_used_at: number | null;
 };
 
 type PendingRow = {
@@ -105,6 +219,25 @@ type PendingRow = {
   due_iso: string;
   minutes: number;
   created_at: number;
+  kind: NotificationKind | null;
+};
+
+type DevicePreferencesRow = {
+  device_id: string;
+  time_zone: string;
+  quiet_start: number | null;
+  quiet_end: number | null;
+  digest_window_minutes: number;
+  agenda_enabled: number;
+  agenda_minute: number;
+  agenda_last_sent: string | null;
+};
+
+type AgendaTaskRow = {
+  task_id: string;
+  board_id: string | null;
+  title: string;
+  due_iso: string;
 };
 
 interface AssetFetcher {
@@ -115,6 +248,11 @@ interface KVNamespace {
   get(key: string): Promise<string | null>;
   put(key: string, value: string): Promise<void>;
   delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string; limit?: number }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
 }
 
 interface D1Result<T = unknown> {
@@ -142,18 +280,54 @@ const JSON_HEADERS = {
 
 const MINUTE_MS = 60_000;
 const MAX_LEAD_MS = 30 * 24 * 60 * MINUTE_MS; // 30 days
+const MAX_RECURRENCE_CATCH_UP = 1000; // occurrences skipped when catching a series up to now
+const MAX_DIGEST_WINDOW_MINUTES = 120;
+const DEFAULT_AGENDA_MINUTE = 8 * 60;
+const AGENDA_SEND_WINDOW_MINUTES = 3 * 60; // a missed agenda is dropped after this long
+const MAX_AGENDA_TASKS = 200;
 const PREVIEW_TIMEOUT_MS = 8_000;
 const PREVIEW_MAX_BYTES = 600_000;
+const MEDIA_HEAD_BYTES = 256_000; // enough for image headers, ID3 tags and a PDF's first objects
+const PREVIEW_RATE_LIMIT_BURST = 20;
+const PREVIEW_RATE_LIMIT_PER_MINUTE = 10;
+const PREVIEW_CACHE_TTL_MS = 6 * 60 * MINUTE_MS;
+const PREVIEW_FALLBACK_CACHE_TTL_MS = 15 * MINUTE_MS; // fallbacks are often transient failures
 const PREVIEW_USER_AGENT =
   "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
 const DEFAULT_REFERER = "https://www.google.com/";
 const THREE_MONTHS_MS = 90 * 24 * 60 * MINUTE_MS;
 const ONE_WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+const SNOOZE_REMINDER_SUFFIX = ":snooze";
+const MAX_SNOOZE_MINUTES = 24 * 60;
 const BACKUP_CLEANUP_STATE_KEY = "backups-cleanup-state.json";
+const BACKUP_HISTORY_PREFIX = "backup-history/";
+const BACKUP_HISTORY_LIMIT = 30;
+const BACKUP_HTTP_METADATA = {
+  contentType: "application/json",
+  cacheControl: "private, max-age=0, must-revalidate",
+};
 
 let cachedPrivateKey: CryptoKey | null = null;
+const CALENDAR_MAX_TASKS = 2000;
+const CALENDAR_NOTE_MAX_LENGTH = 2000;
+const INBOX_MAX_TOKENS_PER_BOARD = 20;
+const INBOX_LABEL_MAX_LENGTH = 80;
+const INBOX_TITLE_MAX_LENGTH = 500;
+const INBOX_NOTE_MAX_LENGTH = 10_000;
+const RELAY_TIMEOUT_MS = 5_000;
+// The PWA's default relays, used when a share link does not name any.
+const SHARE_DEFAULT_RELAYS = ["wss://relay.damus.io", "wss://nos.lol", "wss://relay.snort.social"];
+const SHARE_MAX_TASKS = 2000;
+const SHARE_CACHE_TTL_SECONDS = 60;
+const DEVICE_KEY_PREFIX = "device:";
+const ENDPOINT_KEY_PREFIX = "endpoint:";
+const REMINDERS_KEY_PREFIX = "reminders:";
+const PENDING_KEY_PREFIX = "pending:";
+// Each key costs a few KV and D1 calls, so a page stays well under per-invocation limits.
+const LEGACY_KV_IMPORT_PAGE_SIZE = 100;
 const PRIVATE_KEY_KV_KEYS = ["VAPID_PRIVATE_KEY", "private-key", "key"] as const;
 let schemaReadyPromise: Promise<void> | null = null;
+let legacyKvImportsDone = false;
 
 function requireDb(env: Env): D1Database {
   if (!env.TASKIFY_DB) {
@@ -173,50 +347,7 @@ async function ensureSchema(env: Env): Promise<void> {
     } catch {
       // ignore; some environments may not support PRAGMA
     }
-
-    await db.prepare(
-      `CREATE TABLE IF NOT EXISTS devices (
-         device_id TEXT PRIMARY KEY,
-         platform TEXT NOT NULL,
-         endpoint TEXT NOT NULL,
-         endpoint_hash TEXT NOT NULL UNIQUE,
-         subscription_auth TEXT NOT NULL,
-         subscription_p256dh TEXT NOT NULL,
-         updated_at INTEGER NOT NULL
-       )`,
-    ).run();
-
-    await db.prepare(
-      `CREATE TABLE IF NOT EXISTS reminders (
-         device_id TEXT NOT NULL,
-         reminder_key TEXT NOT NULL,
-         task_id TEXT NOT NULL,
-         board_id TEXT,
-         title TEXT NOT NULL,
-         due_iso TEXT NOT NULL,
-         minutes INTEGER NOT NULL,
-         send_at INTEGER NOT NULL,
-         PRIMARY KEY (device_id, reminder_key),
-         FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE
-       )`,
-    ).run();
-
-    await db.prepare(
-      `CREATE TABLE IF NOT EXISTS pending_notifications (
-         id INTEGER PRIMARY KEY AUTOINCREMENT,
-         device_id TEXT NOT NULL,
-         task_id TEXT NOT NULL,
-         board_id TEXT,
-         title TEXT NOT NULL,
-         due_iso TEXT NOT NULL,
-         minutes INTEGER NOT NULL,
-         created_at INTEGER NOT NULL,
-         FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE
-       )`,
-    ).run();
-
-    await db.prepare(`CREATE INDEX IF NOT EXISTS idx_reminders_send_at ON reminders(send_at)`).run();
-    await db.prepare(`CREATE INDEX IF NOT EXISTS idx_pending_device ON pending_notifications(device_id)`).run();
+    await runMigrations(db, buildMigrations());
   })()
     .catch((err) => {
       schemaReadyPromise = null;
@@ -227,6 +358,21 @@ async function ensureSchema(env: Env): Promise<void> {
   return ready;
 }
 
+// The SQL files are shared with `wrangler d1 migrations`; versions follow their numeric prefixes.
+function buildMigrations(): Migration[] {
+  return [
+    { version: 1, name: "init", sql: initMigration },
+    { version: 2, name: "calendar_feeds", sql: calendarFeedsMigration },
+    { version: 3, name: "reminder_recurrence", sql: reminderRecurrenceMigration },
+    { version: 4, name: "delivery_preferences", sql: deliveryPreferencesMigration },
+    { version: 5, name: "accounts", sql: accountsMigration },
+    { version: 6, name: "preview_guard", sql: previewGuardMigration },
+    { version: 7, name: "inbox_tokens", sql: inboxTokensMigration },
+    { version: 8, name: "data_imports", sql: dataImportsMigration },
+    { version: 9, name: "device_registrations", sql: deviceRegistrationsMigration },
+  ];
+}
+
 interface ScheduledEvent {
   scheduledTime: number;
   cron: string;
@@ -262,11 +408,24 @@ export default {
         });
       }
       if (url.pathname === "/api/preview" && request.method === "GET") {
-        return await handlePreviewProxy(url);
+        return await handlePreviewProxy(request, url, env);
       }
       if (url.pathname === "/api/devices" && request.method === "PUT") {
         return await handleRegisterDevice(request, env);
       }
+      if (url.pathname.startsWith("/api/devices/") && url.pathname.endsWith("/preferences")) {
+        const deviceId = decodeURIComponent(url.pathname.slice("/api/devices/".length, -"/preferences".length));
+        if (request.method === "GET") {
+          return await handleGetDeliveryPreferences(deviceId, env);
+        }
+        if (request.method === "PUT") {
+          return await handleSaveDeliveryPreferences(request, deviceId, env);
+        }
+      }
+      if (url.pathname.startsWith("/api/devices/") && url.pathname.endsWith("/account") && request.method === "PUT") {
+        const deviceId = decodeURIComponent(url.pathname.slice("/api/devices/".length, -"/account".length));
+        return await handleLinkDeviceAccount(request, deviceId, env);
+      }
       if (url.pathname.startsWith("/api/devices/") && request.method === "DELETE") {
         const deviceId = decodeURIComponent(url.pathname.substring("/api/devices/".length));
         return await handleDeleteDevice(deviceId, env);
@@ -277,11 +436,66 @@ export default {
       if (url.pathname === "/api/reminders/poll" && request.method === "POST") {
         return await handlePollReminders(request, env);
       }
+      if (url.pathname === "/api/reminders/snooze" && request.method === "POST") {
+        return await handleSnoozeReminder(request, env);
+      }
+      if (url.pathname === "/api/reminders/ack" && request.method === "POST") {
+        return await handleAcknowledgeReminder(request, env);
+      }
+      if (url.pathname === "/api/calendar/feed" && request.method === "POST") {
+        return await handleCreateCalendarFeed(request, url, env);
+      }
+      if (url.pathname === "/api/calendar/feed" && request.method === "DELETE") {
+        return await handleRevokeCalendarFeed(request, env);
+      }
+      if (url.pathname === "/api/calendar/tasks" && request.method === "PUT") {
+        return await handleSaveCalendarTasks(request, env);
+      }
+      if (url.pathname.startsWith("/api/calendar/") && url.pathname.endsWith(".ics") && request.method === "GET") {
+        const token = decodeURIComponent(url.pathname.slice("/api/calendar/".length, -".ics".length));
+        return await handleCalendarFeed(token, url, env);
+      }
+      if (url.pathname.startsWith("/api/boards/") && url.pathname.includes("/inbox-tokens")) {
+        const [boardPubkeyRaw, resource, tokenIdRaw] = url.pathname.substring("/api/boards/".length).split("/");
+        const boardPubkey = decodeURIComponent(boardPubkeyRaw || "").toLowerCase();
+        if (resource === "inbox-tokens" && tokenIdRaw === undefined) {
+          if (request.method === "GET") {
+            return await handleListInboxTokens(request, boardPubkey, env);
+          }
+          if (request.method === "POST") {
+            return await handleCreateInboxToken(request, url, boardPubkey, env);
+          }
+        }
+        if (resource === "inbox-tokens" && tokenIdRaw && request.method === "DELETE") {
+          return await handleRevokeInboxToken(request, boardPubkey, decodeURIComponent(tokenIdRaw), env);
+        }
+      }
+      if (url.pathname.startsWith("/api/inbox/") && request.method === "POST") {
+        const token = decodeURIComponent(url.pathname.substring("/api/inbox/".length));
+        return await handleInboxCapture(request, token, env);
+      }
+      if (url.pathname.startsWith("/share/") && request.method === "GET") {
+        const boardPubkey = decodeURIComponent(url.pathname.substring("/share/".length)).toLowerCase();
+        return await handleSharePage(url, boardPubkey);
+      }
       if (url.pathname === "/api/backups" && request.method === "PUT") {
         return await handleSaveBackup(request, env);
       }
       if (url.pathname === "/api/backups" && request.method === "GET") {
-        return await handleLoadBackup(url, env);
+        return await handleLoadBackup(request, url, env);
+      }
+      if (url.pathname === "/api/backups/history" && request.method === "GET") {
+        return await handleListBackupHistory(request, url, env);
+      }
+      if (url.pathname.startsWith("/api/backups/history/")) {
+        const [snapshotIdRaw, action] = url.pathname.substring("/api/backups/history/".length).split("/");
+        const snapshotId = decodeURIComponent(snapshotIdRaw || "");
+        if (!action && request.method === "GET") {
+          return await handleLoadBackupSnapshot(request, url, snapshotId, env);
+        }
+        if (action === "pin" && request.method === "PUT") {
+          return await handlePinBackupSnapshot(request, snapshotId, env);
+        }
       }
     } catch (err) {
       console.error("Worker error", err);
@@ -296,7 +510,10 @@ export default {
       try {
         await ensureSchema(env);
         await processDueReminders(env);
+        await sendMorningAgendas(env);
         await cleanupExpiredBackups(env);
+        await cleanupPreviewState(env);
+        await importLegacyKvPage(env);
       } catch (err) {
         console.error('Scheduled task failed', { cron: event?.cron, error: err instanceof Error ? err.message : String(err) });
         throw err;
@@ -313,24 +530,79 @@ export default {
   },
 };
 
-function getBackupObjectKey(npubRaw: string | null): string | null {
+function normalizeBackupNpub(npubRaw: string | null): string | null {
   if (!npubRaw) return null;
   const trimmed = npubRaw.trim().toLowerCase();
   if (!trimmed.startsWith("npub")) return null;
   if (!/^[0-9a-z]+$/.test(trimmed)) return null;
-  return `backups/taskify-backup-${trimmed}.json`;
+  return trimmed;
+}
+
+function getBackupObjectKey(npubRaw: string | null): string | null {
+  const npub = normalizeBackupNpub(npubRaw);
+  return npub ? `backups/taskify-backup-${npub}.json` : null;
+}
+
+function getBackupHistoryIndexKey(npub: string): string {
+  return `${BACKUP_HISTORY_PREFIX}${npub}/index.json`;
+}
+
+function getBackupSnapshotKey(npub: string, snapshotId: string): string {
+  return `${BACKUP_HISTORY_PREFIX}${npub}/${snapshotId}.json`;
+}
+
+function isValidSnapshotId(snapshotId: string): boolean {
+  return /^[0-9]+-[0-9a-z]+$/.test(snapshotId);
+}
+
+function npubToPubkeyHex(npub: string): string | null {
+  try {
+    const decoded = nip19.decode(npub.trim().toLowerCase());
+    if (decoded.type !== "npub" || typeof decoded.data !== "string") return null;
+    return decoded.data.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+async function authorizeBackupRequest(request: Request, npub: string, body?: string): Promise<Response | null> {
+  const expectedPubkey = npubToPubkeyHex(npub);
+  if (!expectedPubkey) {
+    return jsonResponse({ error: "Invalid npub" }, 400);
+  }
+  const auth = await verifyNip98Authorization(request, { body });
+  if (!auth.ok) {
+    return new Response(JSON.stringify({ error: auth.error }), {
+      status: 401,
+      headers: { ...JSON_HEADERS, "WWW-Authenticate": "Nostr" },
+    });
+  }
+  if (auth.pubkey !== expectedPubkey) {
+    return jsonResponse({ error: "Authorization does not match npub" }, 403);
+  }
+  return null;
 }
 
 async function handleSaveBackup(request: Request, env: Env): Promise<Response> {
   if (!env.TASKIFY_BACKUPS) {
     return jsonResponse({ error: "Cloud backups are not configured" }, 501);
   }
-  const body = await parseJson(request);
+  const rawBody = await request.text().catch(() => "");
+  let body: any = null;
+  try {
+    body = rawBody ? JSON.parse(rawBody) : null;
+  } catch {
+    body = null;
+  }
   const { npub, ciphertext, iv, version, createdAt } = body || {};
   const objectKey = getBackupObjectKey(typeof npub === "string" ? npub : null);
   if (!objectKey) {
     return jsonResponse({ error: "Invalid npub" }, 400);
   }
+  const unauthorized = await authorizeBackupRequest(request, npub, rawBody);
+  if (unauthorized) {
+    return unauthorized;
+  }
   if (typeof ciphertext !== "string" || !ciphertext) {
     return jsonResponse({ error: "ciphertext is required" }, 400);
   }
@@ -346,23 +618,177 @@ async function handleSaveBackup(request: Request, env: Env): Promise<Response> {
     ciphertext,
     iv,
   };
-  await env.TASKIFY_BACKUPS.put(objectKey, JSON.stringify(payload), {
-    httpMetadata: {
-      contentType: "application/json",
-      cacheControl: "private, max-age=0, must-revalidate",
-    },
-  });
-  return jsonResponse({ ok: true });
+  const serialized = JSON.stringify(payload);
+  await env.TASKIFY_BACKUPS.put(objectKey, serialized, { httpMetadata: BACKUP_HTTP_METADATA });
+  const snapshot = await appendBackupSnapshot(env, normalizeBackupNpub(npub)!, serialized, payload);
+  return jsonResponse({ ok: true, snapshot });
+}
+
+async function loadBackupHistory(env: Env, npub: string): Promise<BackupSnapshotEntry[]> {
+  const stored = await env.TASKIFY_BACKUPS?.get(getBackupHistoryIndexKey(npub));
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(await stored.text()) as { snapshots?: unknown } | null;
+    const entries = Array.isArray(parsed?.snapshots) ? parsed!.snapshots : [];
+    return (entries as BackupSnapshotEntry[]).filter(
+      (entry) => entry && typeof entry.id === "string" && typeof entry.storedAt === "string",
+    );
+  } catch (err) {
+    console.error("Failed to parse backup history", { npub, error: err instanceof Error ? err.message : String(err) });
+    return [];
+  }
+}
+
+async function saveBackupHistory(env: Env, npub: string, snapshots: BackupSnapshotEntry[]): Promise<void> {
+  if (!env.TASKIFY_BACKUPS) return;
+  const key = getBackupHistoryIndexKey(npub);
+  if (!snapshots.length) {
+    await env.TASKIFY_BACKUPS.delete(key);
+    return;
+  }
+  await env.TASKIFY_BACKUPS.put(key, JSON.stringify({ snapshots }), { httpMetadata: BACKUP_HTTP_METADATA });
+}
+
+async function appendBackupSnapshot(
+  env: Env,
+  npub: string,
+  serialized: string,
+  payload: { version: number; createdAt: string; updatedAt: string },
+): Promise<BackupSnapshotEntry | null> {
+  if (!env.TASKIFY_BACKUPS) return null;
+  const entry: BackupSnapshotEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: payload.createdAt,
+    storedAt: payload.updatedAt,
+    size: new TextEncoder().encode(serialized).byteLength,
+    version: payload.version,
+    pinned: false,
+  };
+  try {
+    await env.TASKIFY_BACKUPS.put(getBackupSnapshotKey(npub, entry.id), serialized, {
+      httpMetadata: BACKUP_HTTP_METADATA,
+    });
+    const history = await loadBackupHistory(env, npub);
+    history.push(entry);
+    history.sort((a, b) => Date.parse(b.storedAt) - Date.parse(a.storedAt));
+    // Keep the newest unpinned snapshots; pinned snapshots never count against the limit.
+    const retained: BackupSnapshotEntry[] = [];
+    let unpinnedCount = 0;
+    for (const snapshot of history) {
+      if (snapshot.pinned || unpinnedCount < BACKUP_HISTORY_LIMIT) {
+        retained.push(snapshot);
+        if (!snapshot.pinned) unpinnedCount += 1;
+      } else {
+        await env.TASKIFY_BACKUPS.delete(getBackupSnapshotKey(npub, snapshot.id));
+      }
+    }
+    await saveBackupHistory(env, npub, retained);
+    return entry;
+  } catch (err) {
+    console.error("Failed to record backup snapshot", {
+      npub,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
 }
 
-async function handleLoadBackup(url: URL, env: Env): Promise<Response> {
+async function handleListBackupHistory(request: Request, url: URL, env: Env): Promise<Response> {
   if (!env.TASKIFY_BACKUPS) {
     return jsonResponse({ error: "Cloud backups are not configured" }, 501);
   }
-  const objectKey = getBackupObjectKey(url.searchParams.get("npub"));
-  if (!objectKey) {
+  const npub = normalizeBackupNpub(url.searchParams.get("npub"));
+  if (!npub) {
+    return jsonResponse({ error: "Invalid npub" }, 400);
+  }
+  const unauthorized = await authorizeBackupRequest(request, npub);
+  if (unauthorized) {
+    return unauthorized;
+  }
+  const snapshots = await loadBackupHistory(env, npub);
+  return jsonResponse({ snapshots });
+}
+
+async function handleLoadBackupSnapshot(request: Request, url: URL, snapshotId: string, env: Env): Promise<Response> {
+  if (!env.TASKIFY_BACKUPS) {
+    return jsonResponse({ error: "Cloud backups are not configured" }, 501);
+  }
+  const npub = normalizeBackupNpub(url.searchParams.get("npub"));
+  if (!npub) {
+    return jsonResponse({ error: "Invalid npub" }, 400);
+  }
+  if (!isValidSnapshotId(snapshotId)) {
+    return jsonResponse({ error: "Invalid snapshot id" }, 400);
+  }
+  const unauthorized = await authorizeBackupRequest(request, npub);
+  if (unauthorized) {
+    return unauthorized;
+  }
+  const stored = await env.TASKIFY_BACKUPS.get(getBackupSnapshotKey(npub, snapshotId));
+  if (!stored) {
+    return jsonResponse({ error: "Snapshot not found" }, 404);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await stored.text());
+  } catch {
+    return jsonResponse({ error: "Snapshot data is corrupted" }, 500);
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return jsonResponse({ error: "Snapshot data is corrupted" }, 500);
+  }
+  const { lastReadAt: _lastReadAt, ...backup } = parsed as Record<string, unknown>;
+  return jsonResponse({ backup, snapshotId });
+}
+
+async function handlePinBackupSnapshot(request: Request, snapshotId: string, env: Env): Promise<Response> {
+  if (!env.TASKIFY_BACKUPS) {
+    return jsonResponse({ error: "Cloud backups are not configured" }, 501);
+  }
+  const rawBody = await request.text().catch(() => "");
+  let body: any = null;
+  try {
+    body = rawBody ? JSON.parse(rawBody) : null;
+  } catch {
+    body = null;
+  }
+  const npub = normalizeBackupNpub(typeof body?.npub === "string" ? body.npub : null);
+  if (!npub) {
+    return jsonResponse({ error: "Invalid npub" }, 400);
+  }
+  if (typeof body?.pinned !== "boolean") {
+    return jsonResponse({ error: "pinned must be a boolean" }, 400);
+  }
+  if (!isValidSnapshotId(snapshotId)) {
+    return jsonResponse({ error: "Invalid snapshot id" }, 400);
+  }
+  const unauthorized = await authorizeBackupRequest(request, npub, rawBody);
+  if (unauthorized) {
+    return unauthorized;
+  }
+  const history = await loadBackupHistory(env, npub);
+  const entry = history.find((snapshot) => snapshot.id === snapshotId);
+  if (!entry) {
+    return jsonResponse({ error: "Snapshot not found" }, 404);
+  }
+  entry.pinned = body.pinned;
+  await saveBackupHistory(env, npub, history);
+  return jsonResponse({ snapshot: entry });
+}
+
+async function handleLoadBackup(request: Request, url: URL, env: Env): Promise<Response> {
+  if (!env.TASKIFY_BACKUPS) {
+    return jsonResponse({ error: "Cloud backups are not configured" }, 501);
+  }
+  const npub = url.searchParams.get("npub");
+  const objectKey = getBackupObjectKey(npub);
+  if (!objectKey || !npub) {
     return jsonResponse({ error: "Invalid npub" }, 400);
   }
+  const unauthorized = await authorizeBackupRequest(request, npub);
+  if (unauthorized) {
+    return unauthorized;
+  }
   const stored = await env.TASKIFY_BACKUPS.get(objectKey);
   if (!stored) {
     return jsonResponse({ error: "Backup not found" }, 404);
@@ -389,12 +815,7 @@ async function handleLoadBackup(url: URL, env: Env): Promise<Response> {
   const nowIso = new Date().toISOString();
   const storedPayload = { ...payload, lastReadAt: nowIso };
   try {
-    await env.TASKIFY_BACKUPS.put(objectKey, JSON.stringify(storedPayload), {
-      httpMetadata: {
-        contentType: "application/json",
-        cacheControl: "private, max-age=0, must-revalidate",
-      },
-    });
+    await env.TASKIFY_BACKUPS.put(objectKey, JSON.stringify(storedPayload), { httpMetadata: BACKUP_HTTP_METADATA });
   } catch (err) {
     console.error("Failed to update backup metadata", {
       error: err instanceof Error ? err.message : String(err),
@@ -504,17 +925,14 @@ async function cleanupExpiredBackups(env: Env): Promise<void> {
     cursor = listResult.truncated ? (listResult.cursor ?? undefined) : undefined;
   } while (cursor);
 
+  await cleanupExpiredBackupSnapshots(env, cutoff);
+
   if (cleanupAttempted) {
     try {
       await env.TASKIFY_BACKUPS.put(
         BACKUP_CLEANUP_STATE_KEY,
         JSON.stringify({ lastRunAt: new Date(now).toISOString() }),
-        {
-          httpMetadata: {
-            contentType: "application/json",
-            cacheControl: "private, max-age=0, must-revalidate",
-          },
-        },
+        { httpMetadata: BACKUP_HTTP_METADATA },
       );
     } catch (err) {
       console.error("Failed to update cleanup state", err);
@@ -522,74 +940,675 @@ async function cleanupExpiredBackups(env: Env): Promise<void> {
   }
 }
 
-async function handleRegisterDevice(request: Request, env: Env): Promise<Response> {
-  const body = await parseJson(request);
-  const { deviceId, platform, subscription } = body || {};
-  if (!deviceId || typeof deviceId !== "string") {
-    return jsonResponse({ error: "deviceId is required" }, 400);
-  }
-  if (platform !== "ios" && platform !== "android") {
-    return jsonResponse({ error: "platform must be ios or android" }, 400);
-  }
-  if (!subscription || typeof subscription !== "object" || typeof subscription.endpoint !== "string") {
-    return jsonResponse({ error: "subscription is required" }, 400);
+async function cleanupExpiredBackupSnapshots(env: Env, cutoff: number): Promise<void> {
+  if (!env.TASKIFY_BACKUPS) {
+    return;
   }
-  if (!subscription.keys || typeof subscription.keys.auth !== "string" || typeof subscription.keys.p256dh !== "string") {
-    return jsonResponse({ error: "subscription keys are invalid" }, 400);
+  let cursor: string | undefined;
+  do {
+    let listResult: R2ListResult;
+    try {
+      listResult = await env.TASKIFY_BACKUPS.list({ prefix: BACKUP_HISTORY_PREFIX, limit: 1000, cursor });
+    } catch (err) {
+      console.error("Failed to list backup history", err);
+      return;
+    }
+    const objects = Array.isArray(listResult.objects) ? listResult.objects : [];
+    for (const obj of objects) {
+      if (!obj || typeof obj.key !== "string" || !obj.key.endsWith("/index.json")) {
+        continue;
+      }
+      const npub = obj.key.substring(BACKUP_HISTORY_PREFIX.length, obj.key.length - "/index.json".length);
+      try {
+        const history = await loadBackupHistory(env, npub);
+        const retained: BackupSnapshotEntry[] = [];
+        for (const snapshot of history) {
+          const storedAt = Date.parse(snapshot.storedAt);
+          if (snapshot.pinned || (!Number.isNaN(storedAt) && storedAt >= cutoff)) {
+            retained.push(snapshot);
+          } else {
+            await env.TASKIFY_BACKUPS.delete(getBackupSnapshotKey(npub, snapshot.id));
+          }
+        }
+        if (retained.length !== history.length) {
+          await saveBackupHistory(env, npub, retained);
+        }
+      } catch (err) {
+        console.error("Failed to process backup history for cleanup", {
+          key: obj.key,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    cursor = listResult.truncated ? (listResult.cursor ?? undefined) : undefined;
+  } while (cursor);
+}
+
+async function authenticateCalendarRequest(request: Request, body?: string): Promise<string | Response> {
+  const auth = await verifyNip98Authorization(request, { body });
+  if (!auth.ok) {
+    return new Response(JSON.stringify({ error: auth.error }), {
+      status: 401,
+      headers: { ...JSON_HEADERS, "WWW-Authenticate": "Nostr" },
+    });
   }
+  return auth.pubkey;
+}
 
-  const endpointHash = await hashEndpoint(subscription.endpoint);
+async function hashCalendarToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
 
-  let resolvedDeviceId = deviceId;
-  const existingById = await getDeviceRecord(env, deviceId);
-  if (!existingById) {
-    const existingByEndpoint = await findDeviceIdByEndpoint(env, subscription.endpoint);
-    if (existingByEndpoint) {
-      resolvedDeviceId = existingByEndpoint;
-    }
-  }
+async function handleCreateCalendarFeed(request: Request, url: URL, env: Env): Promise<Response> {
+  const pubkey = await authenticateCalendarRequest(request);
+  if (pubkey instanceof Response) return pubkey;
+
+  // Only the hash is stored, so issuing a token always rotates it and invalidates the previous URL.
+  const token = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const tokenHash = await hashCalendarToken(token);
+  const createdAt = Date.now();
+  await requireDb(env)
+    .prepare(
+      `INSERT INTO calendar_feeds (pubkey, token_hash, created_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(pubkey) DO UPDATE SET
+         token_hash = excluded.token_hash,
+         created_at = excluded.created_at`,
+    )
+    .bind(pubkey, tokenHash, createdAt)
+    .run();
 
-  const record: DeviceRecord = {
-    deviceId: resolvedDeviceId,
-    platform,
-    subscription: {
-      endpoint: subscription.endpoint,
-      keys: {
-        auth: subscription.keys.auth,
-        p256dh: subscription.keys.p256dh,
-      },
-    },
-    endpointHash,
-  };
-  await upsertDevice(env, record, Date.now());
+  return jsonResponse({
+    url: `${url.origin}/api/calendar/${token}.ics`,
+    createdAt: new Date(createdAt).toISOString(),
+  });
+}
+
+async function handleRevokeCalendarFeed(request: Request, env: Env): Promise<Response> {
+  const pubkey = await authenticateCalendarRequest(request);
+  if (pubkey instanceof Response) return pubkey;
 
-  return jsonResponse({ subscriptionId: endpointHash, deviceId: resolvedDeviceId });
+  const db = requireDb(env);
+  await db.batch([
+    db.prepare("DELETE FROM calendar_tasks WHERE pubkey = ?").bind(pubkey),
+    db.prepare("DELETE FROM calendar_feeds WHERE pubkey = ?").bind(pubkey),
+  ]);
+  return new Response(null, { status: 204, headers: JSON_HEADERS });
 }
 
+function normalizeCalendarTaskInput(item: CalendarTaskInput, updatedAt: number): CalendarTask | null {
+  if (!item || typeof item !== "object") return null;
+  if (typeof item.taskId !== "string" || !item.taskId) return null;
+  if (typeof item.title !== "string" || typeof item.dueISO !== "string" || Number.isNaN(Date.parse(item.dueISO))) {
+    return null;
+  }
+  const recurrence = parseRecurrence(item.recurrence) ?? undefined;
+  const completed = item.completed === true;
+  // Open instances of a recurring series share one UID so clients see a single repeating entry.
+  const recurring = !!recurrence && !completed;
+  const uidSource = recurring && typeof item.seriesId === "string" && item.seriesId ? `series-${item.seriesId}` : item.taskId;
+  return {
+    uid: `${uidSource}@taskify`,
+    taskId: item.taskId,
+    boardId: typeof item.boardId === "string" ? item.boardId : undefined,
+    title: item.title,
+    note: typeof item.note === "string" && item.note ? truncate(item.note, CALENDAR_NOTE_MAX_LENGTH) : undefined,
+    dueISO: item.dueISO,
+    dueTimeEnabled: item.dueTimeEnabled === true,
+    completed,
+    completedAt: typeof item.completedAt === "string" ? item.completedAt : undefined,
+    minutesBefore: Array.isArray(item.minutesBefore)
+      ? item.minutesBefore.filter((minutes) => typeof minutes === "number" && Number.isFinite(minutes) && minutes >= 0)
+      : [],
+    recurrence,
+    updatedAt,
+  };
+}
 
-const PREVIEW_TITLE_MAX_LENGTH = 160;
-const PREVIEW_DESCRIPTION_MAX_LENGTH = 260;
+async function handleSaveCalendarTasks(request: Request, env: Env): Promise<Response> {
+  const rawBody = await request.text();
+  const pubkey = await authenticateCalendarRequest(request, rawBody);
+  if (pubkey instanceof Response) return pubkey;
 
-type PreviewRankedValue = { value: string; priority: number };
+  let body: any = null;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return jsonResponse({ error: "Invalid JSON" }, 400);
+  }
+  const tasks = body?.tasks;
+  if (!Array.isArray(tasks)) {
+    return jsonResponse({ error: "tasks must be an array" }, 400);
+  }
+  const timeZone = typeof body?.timeZone === "string" && isSupportedTimeZone(body.timeZone) ? body.timeZone : null;
+  if (tasks.length > CALENDAR_MAX_TASKS) {
+    return jsonResponse({ error: `At most ${CALENDAR_MAX_TASKS} tasks can be published` }, 413);
+  }
 
-type PreviewImageCandidate = {
-  url: string;
-  priority: number;
-  kind: "image" | "icon";
-};
+  const db = requireDb(env);
+  const feed = await db
+    .prepare<{ pubkey: string }>("SELECT pubkey FROM calendar_feeds WHERE pubkey = ?")
+    .bind(pubkey)
+    .first<{ pubkey: string }>();
+  if (!feed) {
+    return jsonResponse({ error: "Calendar feed is not enabled" }, 404);
+  }
 
-type PreviewPayload = {
-  url: string;
-  finalUrl: string;
-  displayUrl: string;
-  title: string;
-  description?: string;
-  image?: string;
-  icon?: string;
-  siteName?: string;
-};
+  const now = Date.now();
+  const entries = new Map<string, CalendarTask>();
+  for (const item of tasks as CalendarTaskInput[]) {
+    const entry = normalizeCalendarTaskInput(item, now);
+    if (entry && !entries.has(entry.uid)) entries.set(entry.uid, entry);
+  }
 
-type JsonLdPrimitive = string | number | boolean | null;
+  const statements = [
+    db.prepare("UPDATE calendar_feeds SET time_zone = ? WHERE pubkey = ?").bind(timeZone, pubkey),
+    db.prepare("DELETE FROM calendar_tasks WHERE pubkey = ?").bind(pubkey),
+  ];
+  for (const entry of entries.values()) {
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO calendar_tasks (
+             pubkey, uid, task_id, board_id, title, note, due_iso,
+             due_time_enabled, completed, completed_at, minutes_before, recurrence, updated_at
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .bind(
+          pubkey,
+          entry.uid,
+          entry.taskId,
+          entry.boardId ?? null,
+          entry.title,
+          entry.note ?? null,
+          entry.dueISO,
+          entry.dueTimeEnabled ? 1 : 0,
+          entry.completed ? 1 : 0,
+          entry.completedAt ?? null,
+          JSON.stringify(entry.minutesBefore),
+          entry.recurrence ? JSON.stringify(entry.recurrence) : null,
+          entry.updatedAt,
+        ),
+    );
+  }
+  await db.batch(statements);
+
+  return new Response(null, { status: 204, headers: JSON_HEADERS });
+}
+
+function calendarTaskFromRow(row: CalendarTaskRow): CalendarTask {
+  let minutesBefore: number[] = [];
+  let recurrence: Recurrence | undefined;
+  try {
+    const parsed = JSON.parse(row.minutes_before);
+    if (Array.isArray(parsed)) minutesBefore = parsed.filter((value) => typeof value === "number");
+  } catch {
+    // ignore malformed alarm offsets
+  }
+  if (row.recurrence) {
+    try {
+      recurrence = parseRecurrence(JSON.parse(row.recurrence)) ?? undefined;
+    } catch {
+      recurrence = undefined;
+    }
+  }
+  return {
+    uid: row.uid,
+    taskId: row.task_id,
+    boardId: row.board_id ?? undefined,
+    title: row.title,
+    note: row.note ?? undefined,
+    dueISO: row.due_iso,
+    dueTimeEnabled: row.due_time_enabled === 1,
+    completed: row.completed === 1,
+    completedAt: row.completed_at ?? undefined,
+    minutesBefore,
+    recurrence,
+    updatedAt: row.updated_at,
+  };
+}
+
+async function handleCalendarFeed(token: string, url: URL, env: Env): Promise<Response> {
+  if (!token || !/^[A-Za-z0-9_-]+$/.test(token)) {
+    return new Response("Not found", { status: 404 });
+  }
+  const db = requireDb(env);
+  const tokenHash = await hashCalendarToken(token);
+  const feed = await db
+    .prepare<{ pubkey: string; time_zone: string | null }>(
+      "SELECT pubkey, time_zone FROM calendar_feeds WHERE token_hash = ?",
+    )
+    .bind(tokenHash)
+    .first<{ pubkey: string; time_zone: string | null }>();
+  if (!feed) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const result = await db
+    .prepare<CalendarTaskRow>(
+      `SELECT uid, task_id, board_id, title, note, due_iso, due_time_enabled,
+              completed, completed_at, minutes_before, recurrence, updated_at
+       FROM calendar_tasks
+       WHERE pubkey = ?
+       ORDER BY due_iso`,
+    )
+    .bind(feed.pubkey)
+    .all<CalendarTaskRow>();
+  const component: CalendarComponentType = url.searchParams.get("type") === "todo" ? "todo" : "event";
+  const body = buildTaskCalendar((result.results ?? []).map(calendarTaskFromRow), {
+    component,
+    timeZone: feed.time_zone && isSupportedTimeZone(feed.time_zone) ? feed.time_zone : undefined,
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="taskify.ics"',
+      "Cache-Control": "private, max-age=300",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+// Inbox tokens are managed with NIP-98 requests signed by the board's own key, which only members
+// who know the board ID can derive.
+async function authenticateBoardRequest(request: Request, boardPubkey: string, body?: string): Promise<Response | null> {
+  if (!/^[0-9a-f]{64}$/.test(boardPubkey)) {
+    return jsonResponse({ error: "Invalid board key" }, 400);
+  }
+  const auth = await verifyNip98Authorization(request, { body });
+  if (!auth.ok || auth.pubkey !== boardPubkey) {
+    return new Response(JSON.stringify({ error: auth.ok ? "Authorization must be signed by the board key" : auth.error }), {
+      status: 401,
+      headers: { ...JSON_HEADERS, "WWW-Authenticate": "Nostr" },
+    });
+  }
+  return null;
+}
+
+function inboxTokenFromRow(row: InboxTokenRow) {
+  return {
+    id: row.id,
+    label: row.label,
+    tokenHint: row.token_hint,
+    createdAt: new Date(row.created_at).toISOString(),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+  };
+}
+
+async function handleListInboxTokens(request: Request, boardPubkey: string, env: Env): Promise<Response> {
+  const denied = await authenticateBoardRequest(request, boardPubkey);
+  if (denied) return denied;
+
+  const result = await requireDb(env)
+    .prepare<InboxTokenRow>(
+      `SELECT id, label, token_hint, created_at, last_used_at
+       FROM inbox_tokens
+       WHERE board_pubkey = ?
+       ORDER BY created_at DESC`,
+    )
+    .bind(boardPubkey)
+    .all<InboxTokenRow>();
+  return jsonResponse({ tokens: (result.results ?? []).map(inboxTokenFromRow) });
+}
+
+async function handleCreateInboxToken(request: Request, url: URL, boardPubkey: string, env: Env): Promise<Response> {
+  const rawBody = await request.text();
+  const denied = await authenticateBoardRequest(request, boardPubkey, rawBody);
+  if (denied) return denied;
+
+  let body: any = null;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return jsonResponse({ error: "Invalid JSON" }, 400);
+  }
+  const boardId = typeof body?.boardId === "string" ? body.boardId : "";
+  if (!boardId || (await deriveBoardKeys(boardId)).pk !== boardPubkey) {
+    return jsonResponse({ error: "boardId does not match the board key" }, 400);
+  }
+  const relays = normalizeRelayList(body?.relays);
+  if (!relays.length) {
+    return jsonResponse({ error: "At least one public wss:// relay is required" }, 400);
+  }
+  const label = typeof body?.label === "string" ? body.label.trim().slice(0, INBOX_LABEL_MAX_LENGTH) : "";
+  const timeZone = typeof body?.timeZone === "string" && isSupportedTimeZone(body.timeZone) ? body.timeZone : null;
+
+  const db = requireDb(env);
+  const existing = await db
+    .prepare<{ count: number }>("SELECT COUNT(*) AS count FROM inbox_tokens WHERE board_pubkey = ?")
+    .bind(boardPubkey)
+    .first<{ count: number }>();
+  if ((existing?.count ?? 0) >= INBOX_MAX_TOKENS_PER_BOARD) {
+    return jsonResponse({ error: `A board can have at most ${INBOX_MAX_TOKENS_PER_BOARD} inbox tokens` }, 409);
+  }
+
+  // Like calendar feeds, only a hash of the token is kept, so the URL is shown once.
+  const token = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const row: InboxTokenRow = {
+    id: crypto.randomUUID(),
+    label: label || null,
+    token_hint: token.slice(-4),
+    created_at: Date.now(),
+    last_used_at: null,
+  };
+  await db
+    .prepare(
+      `INSERT INTO inbox_tokens (id, board_pubkey, token_hash, sealed_board_id, relays, label, token_hint, time_zone, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .bind(
+      row.id,
+      boardPubkey,
+      await hashInboxToken(token),
+      await sealBoardId(token, boardId),
+      JSON.stringify(relays),
+      row.label,
+      row.token_hint,
+      timeZone,
+      row.created_at,
+    )
+    .run();
+
+  return jsonResponse({ ...inboxTokenFromRow(row), url: `${url.origin}/api/inbox/${token}` }, 201);
+}
+
+async function handleRevokeInboxToken(request: Request, boardPubkey: string, tokenId: string, env: Env): Promise<Response> {
+  const denied = await authenticateBoardRequest(request, boardPubkey);
+  if (denied) return denied;
+
+  await requireDb(env)
+    .prepare("DELETE FROM inbox_tokens WHERE id = ? AND board_pubkey = ?")
+    .bind(tokenId, boardPubkey)
+    .run();
+  return new Response(null, { status: 204, headers: JSON_HEADERS });
+}
+
+function firstStringField(fields: Record<string, unknown>, names: string[]): string {
+  for (const name of names) {
+    const value = fields[name];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return "";
+}
+
+// Scripts send JSON, HTML forms and email-to-webhook services send form fields (subject and
+// text/body-plain), and a plain text body becomes a title line followed by the note.
+async function readInboxCaptureFields(request: Request): Promise<Record<string, unknown> | null> {
+  const contentType = (request.headers.get("Content-Type") || "").toLowerCase();
+  if (contentType.includes("application/x-www-form-urlencoded") || contentType.includes("multipart/form-data")) {
+    try {
+      const form = await request.formData();
+      const fields: Record<string, unknown> = {};
+      form.forEach((value, key) => {
+        if (typeof value === "string" && !(key in fields)) fields[key] = value;
+      });
+      return fields;
+    } catch {
+      return null;
+    }
+  }
+  if (contentType.includes("text/plain")) {
+    const [title = "", ...rest] = (await request.text()).replace(/^\s+/, "").split(/\r?\n/);
+    return { title, note: rest.join("\n") };
+  }
+  const body = await parseJson(request);
+  return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+}
+
+function startOfDayIn(time: number, timeZone: string): number {
+  return fromWallClock({ ...toWallClock(time, timeZone), hour: 0, minute: 0, second: 0 }, timeZone);
+}
+
+// A bare date is due that day with no time, like a task created without a due time in the app.
+function parseInboxDue(value: string, timeZone: string): { dueISO: string; dueTimeEnabled: boolean } | null {
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    const check = new Date(Date.UTC(year, month - 1, day));
+    if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+    const time = fromWallClock({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone);
+    return { dueISO: new Date(time).toISOString(), dueTimeEnabled: false };
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  return { dueISO: new Date(time).toISOString(), dueTimeEnabled: true };
+}
+
+async function handleInboxCapture(request: Request, token: string, env: Env): Promise<Response> {
+  if (!token || !/^[A-Za-z0-9_-]+$/.test(token)) {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+  const db = requireDb(env);
+  const record = await db
+    .prepare<{ id: string; sealed_board_id: string; relays: string; time_zone: string | null }>(
+      "SELECT id, sealed_board_id, relays, time_zone FROM inbox_tokens WHERE token_hash = ?",
+    )
+    .bind(await hashInboxToken(token))
+    .first<{ id: string; sealed_board_id: string; relays: string; time_zone: string | null }>();
+  if (!record) {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+  let boardId: string;
+  try {
+    boardId = await openSealedBoardId(token, record.sealed_board_id);
+  } catch {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+
+  const fields = await readInboxCaptureFields(request);
+  if (!fields) {
+    return jsonResponse({ error: "Expected a JSON, form or plain text body" }, 400);
+  }
+  const title = firstStringField(fields, ["title", "subject"]).slice(0, INBOX_TITLE_MAX_LENGTH);
+  if (!title) {
+    return jsonResponse({ error: "title is required" }, 400);
+  }
+  const note = firstStringField(fields, ["note", "text", "body-plain", "body"]).slice(0, INBOX_NOTE_MAX_LENGTH);
+  const timeZone = record.time_zone && isSupportedTimeZone(record.time_zone) ? record.time_zone : "UTC";
+  const dueInput = firstStringField(fields, ["due", "dueISO"]);
+  const due = dueInput
+    ? parseInboxDue(dueInput, timeZone)
+    : { dueISO: new Date(startOfDayIn(Date.now(), timeZone)).toISOString(), dueTimeEnabled: false };
+  if (!due) {
+    return jsonResponse({ error: "due must be an ISO date or date-time" }, 400);
+  }
+
+  let relays: string[] = [];
+  try {
+    relays = normalizeRelayList(JSON.parse(record.relays));
+  } catch {
+    relays = [];
+  }
+  if (!relays.length) {
+    return jsonResponse({ error: "This inbox has no relays configured" }, 409);
+  }
+
+  // The board's metadata names its columns and says which key its content is encrypted with.
+  const keys = await deriveBoardKeys(boardId);
+  const requestedColumn = firstStringField(fields, ["column", "col"]);
+  const metadata = await loadBoardMetadata(relays, boardId, keys, RELAY_TIMEOUT_MS);
+  if (!metadata) {
+    return jsonResponse({ error: "The board's details could not be loaded from its relays" }, 502);
+  }
+  let column = "";
+  if (metadata.kind === "compound") {
+    return jsonResponse({ error: "Tasks cannot be added to a compound board" }, 409);
+  }
+  if (metadata.kind === "week") {
+    column = requestedColumn.toLowerCase() === "bounties" ? "bounties" : "day";
+  } else if (metadata.kind === "lists") {
+    const wanted = requestedColumn.toLowerCase();
+    const match = requestedColumn
+      ? metadata.columns.find((entry) => entry.id === requestedColumn || entry.name.trim().toLowerCase() === wanted)
+      : metadata.columns[0];
+    if (requestedColumn && !match) {
+      return jsonResponse({ error: "Unknown column", columns: metadata.columns.map((entry) => entry.name) }, 400);
+    }
+    column = match?.id ?? "";
+  }
+
+  const taskId = crypto.randomUUID();
+  const event = await buildTaskEvent(boardId, keys, {
+    id: taskId,
+    column,
+    body: { title, note, dueISO: due.dueISO, dueTimeEnabled: due.dueTimeEnabled },
+    splitAccess: metadata.splitAccess,
+  });
+  const results = await publishToRelays(relays, event, RELAY_TIMEOUT_MS);
+  if (!results.some((result) => result.ok)) {
+    return jsonResponse({ error: "No relay accepted the task", relays: results }, 502);
+  }
+
+  await db.prepare("UPDATE inbox_tokens SET last_used_at = ? WHERE id = ?").bind(Date.now(), record.id).run();
+  return jsonResponse({ taskId, eventId: event.id, relays: results }, 201);
+}
+
+// The page is identical for every viewer of a link, since decryption happens in the browser, so it
+// can be cached briefly to spare the relays.
+async function handleSharePage(url: URL, boardPubkey: string): Promise<Response> {
+  if (!/^[0-9a-f]{64}$/.test(boardPubkey)) {
+    return new Response("Not found", { status: 404 });
+  }
+  const cacheKey = new Request(url.toString(), { method: "GET" });
+  const cached = await caches.default.match(cacheKey);
+  if (cached) return cached;
+
+  const embed = url.searchParams.get("embed") === "1";
+  const requestedRelays = normalizeRelayList(url.searchParams.getAll("relay"));
+  const relays = requestedRelays.length ? requestedRelays : SHARE_DEFAULT_RELAYS;
+  // With the board tag, tasks signed by editors are fetched too; older links only name the board key.
+  const tagParam = (url.searchParams.get("b") || "").toLowerCase();
+  const tag = /^[0-9a-f]{64}$/.test(tagParam) ? tagParam : "";
+  const taskFilter = tag ? { "#b": [tag] } : { authors: [boardPubkey] };
+  const [metadataEvents, taskEvents] = await Promise.all([
+    queryRelays(relays, { kinds: [30300], authors: [boardPubkey], limit: 5 }, RELAY_TIMEOUT_MS),
+    queryRelays(relays, { kinds: [30301], ...taskFilter, limit: SHARE_MAX_TASKS }, RELAY_TIMEOUT_MS),
+  ]);
+  const snapshot = snapshotFromEvents(boardPubkey, [...metadataEvents, ...taskEvents], tag);
+  const response = new Response(renderSharePage(snapshot, { embed, fetchedAt: new Date() }), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": await sharePageSecurityPolicy(embed),
+      "Cache-Control": `public, max-age=${SHARE_CACHE_TTL_SECONDS}`,
+      "Referrer-Policy": "no-referrer",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+  // An empty result is more likely unreachable relays than an empty board, so it is not cached.
+  if (snapshot.metadata || snapshot.tasks.length) {
+    await caches.default.put(cacheKey, response.clone());
+  }
+  return response;
+}
+
+async function handleRegisterDevice(request: Request, env: Env): Promise<Response> {
+  const body = await parseJson(request);
+  const { deviceId, platform, subscription } = body || {};
+  if (!deviceId || typeof deviceId !== "string") {
+    return jsonResponse({ error: "deviceId is required" }, 400);
+  }
+  if (platform !== "ios" && platform !== "android") {
+    return jsonResponse({ error: "platform must be ios or android" }, 400);
+  }
+  if (!subscription || typeof subscription !== "object" || typeof subscription.endpoint !== "string") {
+    return jsonResponse({ error: "subscription is required" }, 400);
+  }
+  if (!subscription.keys || typeof subscription.keys.auth !== "string" || typeof subscription.keys.p256dh !== "string") {
+    return jsonResponse({ error: "subscription keys are invalid" }, 400);
+  }
+
+  // Profiles in one browser share its push endpoint, so a new device ID always gets its own
+  // registration rather than taking over another one for the same endpoint. Linking the device to
+  // its account then retires older devices of that account on the endpoint.
+  const endpointHash = await hashEndpoint(subscription.endpoint);
+  const record: DeviceRecord = {
+    deviceId,
+    platform,
+    subscription: {
+      endpoint: subscription.endpoint,
+      keys: {
+        auth: subscription.keys.auth,
+        p256dh: subscription.keys.p256dh,
+      },
+    },
+    endpointHash,
+  };
+  await upsertDevice(env, record, Date.now());
+
+  return jsonResponse({ subscriptionId: endpointHash, deviceId });
+}
+
+// Link a device to the account of the NIP-98 signer. Linked devices share one reminder set and
+// receive every reminder of the account; linking to another pubkey moves the device over.
+async function handleLinkDeviceAccount(request: Request, deviceId: string, env: Env): Promise<Response> {
+  const auth = await verifyNip98Authorization(request);
+  if (!auth.ok) {
+    return jsonResponse({ error: auth.error }, 401);
+  }
+  const device = await getDeviceRecord(env, deviceId);
+  if (!device) {
+    return jsonResponse({ error: "Unknown device" }, 404);
+  }
+
+  const db = requireDb(env);
+  if (device.pubkey !== auth.pubkey) {
+    await db.batch([
+      db.prepare("INSERT OR IGNORE INTO accounts (pubkey, created_at) VALUES (?, ?)").bind(auth.pubkey, Date.now()),
+      db.prepare("UPDATE devices SET pubkey = ? WHERE device_id = ?").bind(auth.pubkey, deviceId),
+      // Reminders the device synced on its own are superseded by the account's set.
+      db.prepare("DELETE FROM reminders WHERE device_id = ?").bind(deviceId),
+      db.prepare("DELETE FROM reminder_fanout WHERE device_id = ?").bind(deviceId),
+    ]);
+    if (device.pubkey) {
+      await deleteAccountIfUnused(env, device.pubkey);
+    }
+  }
+
+  // Profiles in one browser share its push endpoint, so devices are only told apart by account. An
+  // earlier device of this account on the same endpoint (left behind when a profile registers again
+  // under a new device ID) would get every reminder a second time.
+  const duplicates = await db
+    .prepare<{ device_id: string }>(
+      `SELECT device_id
+       FROM devices
+       WHERE endpoint_key = ? AND pubkey = ? AND device_id != ?`,
+    )
+    .bind(device.endpointHash, auth.pubkey, deviceId)
+    .all<{ device_id: string }>();
+  for (const row of duplicates.results ?? []) {
+    await handleDeleteDevice(row.device_id, env);
+  }
+
+  const devices = await getAccountDevices(env, auth.pubkey);
+  return jsonResponse({ pubkey: auth.pubkey, deviceCount: devices.length });
+}
+
+async function deleteAccountIfUnused(env: Env, pubkey: string): Promise<void> {
+  const db = requireDb(env);
+  const unused = "NOT EXISTS (SELECT 1 FROM devices WHERE pubkey = ?)";
+  await db.batch([
+    db.prepare(`DELETE FROM account_reminders WHERE pubkey = ? AND ${unused}`).bind(pubkey, pubkey),
+    db.prepare(`DELETE FROM accounts WHERE pubkey = ? AND ${unused}`).bind(pubkey, pubkey),
+  ]);
+}
+
+
+const PREVIEW_TITLE_MAX_LENGTH = 160;
+const PREVIEW_DESCRIPTION_MAX_LENGTH = 260;
+
+type PreviewRankedValue = { value: string; priority: number };
+
+type PreviewImageCandidate = {
+  url: string;
+  priority: number;
+  kind: "image" | "icon";
+};
+
+type JsonLdPrimitive = string | number | boolean | null;
 interface JsonLdObject {
   [key: string]: JsonLdValue | undefined;
 }
@@ -830,29 +1849,35 @@ function buildBrowserHeaders(options: { referer?: string } = {}): Record<string,
   };
 }
 
-async function readResponseBodyLimited(response: Response): Promise<string> {
+async function readResponseBytesLimited(response: Response, limit: number): Promise<Uint8Array> {
   const reader = response.body?.getReader();
   if (!reader) {
-    const text = await response.text();
-    return text.length > PREVIEW_MAX_BYTES ? text.slice(0, PREVIEW_MAX_BYTES) : text;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return bytes.length > limit ? bytes.subarray(0, limit) : bytes;
   }
-  const decoder = new TextDecoder();
+  const chunks: Uint8Array[] = [];
   let received = 0;
-  const chunks: string[] = [];
-  while (received < PREVIEW_MAX_BYTES) {
+  while (received < limit) {
     const { done, value } = await reader.read();
     if (done) break;
-    received += value.length;
-    const allowed =
-      received > PREVIEW_MAX_BYTES ? value.subarray(0, value.length - (received - PREVIEW_MAX_BYTES)) : value;
-    if (allowed.length > 0) {
-      chunks.push(decoder.decode(allowed, { stream: true }));
-    }
-    if (received >= PREVIEW_MAX_BYTES) break;
+    const allowed = value.subarray(0, Math.min(value.length, limit - received));
+    chunks.push(allowed);
+    received += allowed.length;
+  }
+  if (received >= limit) {
+    await reader.cancel().catch(() => {});
   }
-  chunks.push(decoder.decode());
-  const joined = chunks.join("");
-  return joined.length > PREVIEW_MAX_BYTES ? joined.slice(0, PREVIEW_MAX_BYTES) : joined;
+  const joined = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+async function readResponseBodyLimited(response: Response): Promise<string> {
+  return new TextDecoder().decode(await readResponseBytesLimited(response, PREVIEW_MAX_BYTES));
 }
 
 function stripHostFromTitle(title: string, url: string, siteName?: string): string {
@@ -1436,303 +2461,59 @@ function hasRichPreview(preview: PreviewPayload): boolean {
   return Boolean(preview.title && preview.title !== fallbackTitle);
 }
 
-type DerivedPreviewResult = {
-  preview: PreviewPayload | null;
-  rich: boolean;
-};
-
-function collectHostCandidates(requestedUrl: string, finalUrl: string): Set<string> {
-  const hosts = new Set<string>();
-  for (const value of [requestedUrl, finalUrl]) {
-    if (!value) continue;
-    try {
-      const parsed = new URL(value);
-      hosts.add(parsed.hostname.toLowerCase());
-    } catch {
-      /* ignore */
-    }
-    try {
-      const unwrapped = unwrapGoogleRedirectUrl(value);
-      if (unwrapped && unwrapped !== value) {
-        const parsed = new URL(unwrapped);
-        hosts.add(parsed.hostname.toLowerCase());
-      }
-    } catch {
-      /* ignore */
-    }
-  }
-  return hosts;
-}
-
-function extractAmazonAsin(url: string): string | null {
+async function fetchPreviewJson(url: string, headers: Record<string, string> = {}): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
   try {
-    const parsed = new URL(url);
-    const asinParam = parsed.searchParams.get("asin");
-    if (asinParam && /^[A-Z0-9]{10}$/i.test(asinParam)) {
-      return asinParam.toUpperCase();
-    }
-    const pathMatch = parsed.pathname.match(
-      /(?:dp|gp\/product|gp\/aw\/d|gp\/slredirect|gp\/aw\/olp|exec\/obidos\/asin)\/([A-Z0-9]{10})/i,
-    );
-    if (pathMatch) {
-      return pathMatch[1].toUpperCase();
-    }
-    const genericMatch = parsed.pathname.match(/\/([A-Z0-9]{10})(?:[/?]|$)/i);
-    if (genericMatch) {
-      return genericMatch[1].toUpperCase();
+    const { response } = await fetchPublicUrl(url, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        "User-Agent": PREVIEW_USER_AGENT,
+        Referer: DEFAULT_REFERER,
+        ...headers,
+      },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      return null;
     }
+    const text = await readResponseBodyLimited(response);
+    return text ? JSON.parse(text) : null;
   } catch {
-    /* ignore */
+    return null;
+  } finally {
+    clearTimeout(timeout);
   }
-  return null;
 }
 
-function extractEtsyListingId(url: string): string | null {
+async function fetchAlternateHtml(url: string, referer?: string): Promise<{ html: string; finalUrl: string } | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
   try {
-    const parsed = new URL(url);
-    const pathMatch = parsed.pathname.match(/\/listing\/(\d+)/i);
-    if (pathMatch) {
-      return pathMatch[1];
-    }
-    const listingId = parsed.searchParams.get("listing_id");
-    if (listingId && /^\d+$/.test(listingId)) {
-      return listingId;
+    const { response, url: finalUrl } = await fetchPublicUrl(url, {
+      method: "GET",
+      headers: buildBrowserHeaders({ referer }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      return null;
     }
-  } catch {
-    /* ignore */
-  }
-  return null;
-}
-
-function canonicalizeAmazonUrl(url: string): string | null {
-  const asin = extractAmazonAsin(url);
-  if (!asin) return null;
-  return `https://www.amazon.com/dp/${asin}`;
-}
-
-function canonicalizeEtsyUrl(url: string): string | null {
-  try {
-    const parsed = new URL(url);
-    const segments = parsed.pathname.split("/").filter(Boolean);
-    const listingIndex = segments.indexOf("listing");
-    if (listingIndex === -1 || listingIndex + 1 >= segments.length) return null;
-    const listingId = segments[listingIndex + 1];
-    const slugSegments = segments.slice(listingIndex + 2);
-    const slug = slugSegments.length ? `/${slugSegments.join("/")}` : "";
-    return `${parsed.protocol}//${parsed.hostname}/listing/${listingId}${slug}`;
+    const html = await readResponseBodyLimited(response);
+    if (!html) return null;
+    return { html, finalUrl };
   } catch {
     return null;
-  }
-}
-
-function extractYouTubeId(url: string): string | null {
-  try {
-    const parsed = new URL(url);
-    if (parsed.hostname.endsWith("youtu.be")) {
-      const id = parsed.pathname.replace(/^\/+/, "");
-      return id || null;
-    }
-    if (parsed.hostname.includes("youtube.")) {
-      const id = parsed.searchParams.get("v");
-      if (id) return id;
-      const match = parsed.pathname.match(/\/embed\/([a-zA-Z0-9_-]{6,})/);
-      if (match) return match[1];
-    }
-  } catch {
-    /* ignore */
-  }
-  return null;
-}
-
-function canonicalizeYouTubeUrl(url: string): string | null {
-  const id = extractYouTubeId(url);
-  if (!id) return null;
-  return `https://www.youtube.com/watch?v=${id}`;
-}
-
-function buildAmazonImageUrl(asin: string): string {
-  return `https://ws-na.amazon-adsystem.com/widgets/q?_encoding=UTF8&ASIN=${asin}&Format=_SL600_&ID=AsinImage&MarketPlace=US&ServiceVersion=20070822`;
-}
-
-function extractAmazonImageFromHtml(html: string): string | undefined {
-  const patterns = [
-    /"hiRes":"(https:[^\"]+)"/i,
-    /"large":"(https:[^\"]+)"/i,
-    /"mainUrl":"(https:[^\"]+)"/i,
-    /"displayImgSrc":"(https:[^\"]+)"/i,
-    /data-old-hires="([^"]+)"/i,
-    /data-old-hires='([^']+)'/i,
-    /data-main-image-url="([^"]+)"/i,
-  ];
-  for (const pattern of patterns) {
-    const match = pattern.exec(html);
-    if (match && match[1]) {
-      const cleaned = decodeHtmlEntities(match[1]).replace(/\\u0026/g, "&");
-      const sanitized = sanitizeUrl(cleaned);
-      if (sanitized) {
-        return sanitized;
-      }
-    }
-  }
-  return undefined;
-}
-
-function safeParseJson(raw: string): any | null {
-  const text = raw.trim();
-  if (!text) return null;
-  try {
-    return JSON.parse(text);
-  } catch {
-    try {
-      // replace unescaped newlines which sometimes appear in JSON-LD
-      const normalized = text.replace(/\n/g, "\\n");
-      return JSON.parse(normalized);
-    } catch {
-      return null;
-    }
-  }
-}
-
-function extractImageFromJsonLd(node: any): string | undefined {
-  if (!node) return undefined;
-  if (typeof node === "string") {
-    const sanitized = sanitizeUrl(node);
-    return sanitized ?? undefined;
-  }
-  if (Array.isArray(node)) {
-    for (const entry of node) {
-      const found = extractImageFromJsonLd(entry);
-      if (found) {
-        return found;
-      }
-    }
-    return undefined;
-  }
-  if (typeof node === "object") {
-    const keys = ["image", "imageUrl", "thumbnailUrl", "contentUrl", "url"];
-    for (const key of keys) {
-      if (Object.prototype.hasOwnProperty.call(node, key)) {
-        const found = extractImageFromJsonLd((node as Record<string, unknown>)[key]);
-        if (found) {
-          return found;
-        }
-      }
-    }
-  }
-  return undefined;
-}
-
-function extractEtsyImageFromHtml(html: string): string | undefined {
-  const scriptRegex = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
-  let match: RegExpExecArray | null;
-  while ((match = scriptRegex.exec(html))) {
-    const parsed = safeParseJson(match[1]);
-    if (!parsed) continue;
-    const found = extractImageFromJsonLd(parsed);
-    if (found) {
-      return found;
-    }
-  }
-  const directMatch = html.match(/https:\/\/i\.etsystatic\.com\/[^"]+/i);
-  if (directMatch && directMatch[0]) {
-    const cleaned = decodeHtmlEntities(directMatch[0].replace(/\\u0026/g, "&"));
-    const sanitized = sanitizeUrl(cleaned);
-    if (sanitized) {
-      return sanitized;
-    }
-  }
-  return undefined;
-}
-
-function extractOgTitle(html: string): string | undefined {
-  const regex = /<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)/i;
-  const match = regex.exec(html);
-  if (match && match[1]) {
-    return truncate(decodeHtmlEntities(match[1]), PREVIEW_TITLE_MAX_LENGTH);
-  }
-  const descMatch = html.match(/<meta[^>]+name=["']title["'][^>]+content=["']([^"']+)/i);
-  if (descMatch && descMatch[1]) {
-    return truncate(decodeHtmlEntities(descMatch[1]), PREVIEW_TITLE_MAX_LENGTH);
-  }
-  const h1Match = html.match(/<h1[^>]*>([^<]+)<\/h1>/i);
-  if (h1Match && h1Match[1]) {
-    return truncate(decodeHtmlEntities(h1Match[1]), PREVIEW_TITLE_MAX_LENGTH);
-  }
-  return undefined;
-}
-
-async function fetchAlternateHtml(url: string, referer?: string): Promise<{ html: string; finalUrl: string } | null> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: buildBrowserHeaders({ referer }),
-      redirect: "follow",
-      signal: controller.signal,
-    });
-    if (!response.ok) {
-      return null;
-    }
-    const html = await readResponseBodyLimited(response);
-    if (!html) return null;
-    return { html, finalUrl: response.url || url };
-  } catch {
-    return null;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-async function fetchNoembedMetadata(url: string): Promise<{ title?: string; description?: string; thumbnail?: string; providerName?: string } | null> {
-  const endpoint = `https://noembed.com/embed?nowrap=1&url=${encodeURIComponent(url)}`;
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
-  try {
-    const res = await fetch(endpoint, {
-      headers: {
-        Accept: "application/json",
-        "User-Agent": PREVIEW_USER_AGENT,
-        Referer: DEFAULT_REFERER,
-      },
-      signal: controller.signal,
-    });
-    if (!res.ok) {
-      return null;
-    }
-    const json = await res.json().catch(() => null);
-    if (!json || typeof json !== "object") {
-      return null;
-    }
-    const payload = json as {
-      title?: unknown;
-      author_name?: unknown;
-      provider_name?: unknown;
-      thumbnail_url?: unknown;
-      description?: unknown;
-    };
-    const title = typeof payload.title === "string" ? payload.title : undefined;
-    const description =
-      typeof payload.description === "string"
-        ? payload.description
-        : typeof payload.author_name === "string"
-          ? payload.author_name
-          : undefined;
-    const thumbnail = typeof payload.thumbnail_url === "string" ? payload.thumbnail_url : undefined;
-    const providerName = typeof payload.provider_name === "string" ? payload.provider_name : undefined;
-    return { title, description, thumbnail, providerName };
-  } catch {
-    return null;
-  } finally {
-    clearTimeout(timeout);
+  } finally {
+    clearTimeout(timeout);
   }
 }
 
 function buildPreviewFromExternalMetadata(
   requestedUrl: string,
   finalUrl: string,
-  meta: { title?: string; description?: string; thumbnail?: string; providerName?: string },
-  extras: { siteName?: string; fallbackImage?: string } = {},
+  meta: PreviewMetadata,
+  extras: { siteName?: string; fallbackImage?: string; icon?: string } = {},
 ): PreviewPayload {
   const fallbackTitle = fallbackTitleForUrl(finalUrl);
   const refinedTitle = refinePreviewTitle(meta.title, { siteName: extras.siteName, finalUrl }) ?? meta.title;
@@ -1747,91 +2528,11 @@ function buildPreviewFromExternalMetadata(
     title,
     description,
     image: image ?? undefined,
-    icon: guessFaviconUrl(finalUrl),
+    icon: extras.icon ?? guessFaviconUrl(finalUrl),
     siteName,
   };
 }
 
-async function fetchAlternateAmazon(requestedUrl: string, finalUrl: string): Promise<DerivedPreviewResult | null> {
-  const asin = extractAmazonAsin(finalUrl) || extractAmazonAsin(requestedUrl);
-  if (!asin) return null;
-  const mobileUrl = `https://www.amazon.com/gp/aw/d/${asin}`;
-  const alternates = await fetchAlternateHtml(mobileUrl, DEFAULT_REFERER);
-  if (!alternates) {
-    return null;
-  }
-  const derived = await derivePreviewFromHtml(
-    requestedUrl,
-    alternates.finalUrl || mobileUrl,
-    alternates.html,
-    { "content-type": "text/html" },
-    200,
-  );
-  if (derived.preview) {
-    const fallbackTitle = fallbackTitleForUrl(derived.preview.finalUrl || derived.preview.url);
-    if (!derived.preview.image) {
-      const image = extractAmazonImageFromHtml(alternates.html);
-      if (image) {
-        derived.preview.image = image;
-      } else {
-        const asin = extractAmazonAsin(finalUrl) || extractAmazonAsin(requestedUrl);
-        if (asin) {
-          derived.preview.image = buildAmazonImageUrl(asin);
-        }
-      }
-    }
-    if (!derived.preview.title || derived.preview.title === fallbackTitle) {
-      const ogTitle = extractOgTitle(alternates.html);
-      if (ogTitle) {
-        derived.preview.title = ogTitle;
-      }
-    }
-    if (!derived.preview.title || derived.preview.title === fallbackTitle) {
-      const asin = extractAmazonAsin(finalUrl) || extractAmazonAsin(requestedUrl);
-      if (asin) {
-        derived.preview.title = truncate(`Amazon product ${asin}`, PREVIEW_TITLE_MAX_LENGTH);
-      }
-    }
-  }
-  return derived;
-}
-
-async function fetchAlternateEtsy(requestedUrl: string, finalUrl: string): Promise<DerivedPreviewResult | null> {
-  const listingId = extractEtsyListingId(finalUrl) || extractEtsyListingId(requestedUrl);
-  if (!listingId) return null;
-  const mobileUrl = `https://m.etsy.com/listing/${listingId}`;
-  const alternates = await fetchAlternateHtml(mobileUrl, DEFAULT_REFERER);
-  if (!alternates) {
-    return null;
-  }
-
-  const derived = await derivePreviewFromHtml(
-    requestedUrl,
-    alternates.finalUrl || mobileUrl,
-    alternates.html,
-    { "content-type": "text/html" },
-    200,
-  );
-
-  if (derived.preview) {
-    const fallbackTitle = fallbackTitleForUrl(derived.preview.finalUrl || derived.preview.url);
-    if (!derived.preview.image || /favicon/.test(derived.preview.image)) {
-      const image = extractEtsyImageFromHtml(alternates.html);
-      if (image) {
-        derived.preview.image = image;
-      }
-    }
-    if (!derived.preview.title || derived.preview.title === fallbackTitle) {
-      const ogTitle = extractOgTitle(alternates.html);
-      if (ogTitle) {
-        derived.preview.title = ogTitle;
-      }
-    }
-  }
-
-  return derived;
-}
-
 async function derivePreviewFromHtml(
   requestedUrl: string,
   finalUrl: string,
@@ -1880,283 +2581,180 @@ async function derivePreviewFromHtml(
   return { preview: mergedPreview, rich: hasRichPreview(mergedPreview) || primaryRich };
 }
 
-type AlternatePreviewReason = "blocked" | "incomplete";
-
-async function fetchYouTubeOEmbed(url: string): Promise<PreviewPayload | null> {
-  let target = url;
-  try {
-    const parsed = new URL(url);
-    if (parsed.hostname.endsWith("youtu.be")) {
-      const videoId = parsed.pathname.replace(/^\/+/, "");
-      if (videoId) {
-        target = `https://www.youtube.com/watch?v=${videoId}`;
-      }
-    }
-  } catch {
-    /* ignore */
-  }
-
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
-  try {
-    const endpoint = `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(target)}`;
-    const res = await fetch(endpoint, {
-      headers: {
-        Accept: "application/json",
-        "User-Agent": PREVIEW_USER_AGENT,
-        Referer: DEFAULT_REFERER,
-      },
-      signal: controller.signal,
-    });
-    if (!res.ok) {
-      return null;
-    }
-    const json = await res.json().catch(() => null);
-    if (!json || typeof json !== "object") {
-      return null;
-    }
-    const title = typeof (json as { title?: unknown }).title === "string" ? (json as { title?: string }).title : undefined;
-    const authorName =
-      typeof (json as { author_name?: unknown }).author_name === "string"
-        ? (json as { author_name?: string }).author_name
-        : undefined;
-    const thumbnail =
-      typeof (json as { thumbnail_url?: unknown }).thumbnail_url === "string"
-        ? (json as { thumbnail_url?: string }).thumbnail_url
-        : undefined;
-    const fallbackTitle = fallbackTitleForUrl(target);
-    const finalTitle = title ? truncate(title, PREVIEW_TITLE_MAX_LENGTH) : fallbackTitle;
-    const description = authorName ? `${authorName} • YouTube` : undefined;
-
-    return {
-      url,
-      finalUrl: target,
-      displayUrl: buildDisplayUrl(target),
-      title: finalTitle,
-      description,
-      image: thumbnail ?? undefined,
-      icon: "https://www.youtube.com/s/desktop/fe1f68f5/img/favicon_144.png",
-      siteName: "YouTube",
-    };
-  } catch {
-    return null;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-async function fetchEtsyOEmbed(url: string): Promise<PreviewPayload | null> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
-  try {
-    const canonical = canonicalizeEtsyUrl(url) ?? url;
-    const endpoint = `https://www.etsy.com/oembed?url=${encodeURIComponent(canonical)}`;
-    const res = await fetch(endpoint, {
-      headers: {
-        Accept: "application/json",
-        "User-Agent": PREVIEW_USER_AGENT,
-        Referer: DEFAULT_REFERER,
-      },
-      signal: controller.signal,
-    });
-    if (!res.ok) {
-      return null;
-    }
-    const json = await res.json().catch(() => null);
-    if (!json || typeof json !== "object") {
-      return null;
-    }
-    const data = json as {
-      title?: unknown;
-      url?: unknown;
-      author_name?: unknown;
-      provider_name?: unknown;
-      thumbnail_url?: unknown;
-    };
-    const oembedUrl = typeof data.url === "string" && data.url ? data.url : canonical;
-    const title =
-      typeof data.title === "string" && data.title
-        ? truncate(data.title, PREVIEW_TITLE_MAX_LENGTH)
-        : fallbackTitleForUrl(oembedUrl);
-    const seller = typeof data.author_name === "string" && data.author_name ? data.author_name : undefined;
-    const image =
-      typeof data.thumbnail_url === "string" && data.thumbnail_url ? data.thumbnail_url : undefined;
-    const siteName =
-      (typeof data.provider_name === "string" && data.provider_name) || "Etsy";
-
-    return {
-      url,
-      finalUrl: oembedUrl,
-      displayUrl: buildDisplayUrl(oembedUrl),
-      title,
-      description: seller ? `by ${seller}` : undefined,
-      image: image ?? undefined,
-      icon: "https://www.etsy.com/images/favicon.ico",
-      siteName,
-    };
-  } catch {
-    return null;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
+const previewToolkit: ExtractorToolkit = {
+  fetchJson: fetchPreviewJson,
+  fetchHtml: fetchAlternateHtml,
+  deriveFromHtml: (requestedUrl, finalUrl, html) =>
+    derivePreviewFromHtml(requestedUrl, finalUrl, html, { "content-type": "text/html" }, 200),
+  fromMetadata: buildPreviewFromExternalMetadata,
+  fallbackTitle: fallbackTitleForUrl,
+  decodeEntities: decodeHtmlEntities,
+  truncateTitle: (title) => truncate(title, PREVIEW_TITLE_MAX_LENGTH),
+};
 
 async function attemptAlternatePreview(
   requestedUrl: string,
   finalUrl: string,
   reason: AlternatePreviewReason,
   existingPreview: PreviewPayload | null,
+  html?: string,
 ): Promise<{ preview: PreviewPayload; fallback?: boolean } | null> {
-  const canonicalRequested = unwrapGoogleRedirectUrl(requestedUrl);
-  const canonicalFinal = unwrapGoogleRedirectUrl(finalUrl || requestedUrl);
-  const hosts = collectHostCandidates(canonicalRequested, canonicalFinal);
-  let requestedHost: string | undefined;
+  return runPreviewExtractors(
+    {
+      requestedUrl: unwrapGoogleRedirectUrl(requestedUrl),
+      finalUrl: unwrapGoogleRedirectUrl(finalUrl || requestedUrl),
+      reason,
+      needsUpgrade: !existingPreview || !hasRichPreview(existingPreview),
+      html,
+    },
+    previewToolkit,
+  );
+}
+
+async function handlePreviewProxy(request: Request, url: URL, env: Env): Promise<Response> {
+  const targetRaw = url.searchParams.get("url");
+  if (!targetRaw) {
+    return jsonResponse({ error: "url is required" }, 400);
+  }
+  const normalizedTarget = unwrapGoogleRedirectUrl(targetRaw);
+  let parsed: URL;
   try {
-    requestedHost = new URL(canonicalRequested).hostname.toLowerCase();
+    parsed = new URL(normalizedTarget);
   } catch {
-    requestedHost = undefined;
+    return jsonResponse({ error: "Invalid URL" }, 400);
   }
-  const hostMatches = (predicate: (host: string) => boolean) =>
-    Array.from(hosts).some(predicate) || (requestedHost ? predicate(requestedHost) : false);
-  const needsUpgrade = !existingPreview || !hasRichPreview(existingPreview);
-  let fallbackCandidate: { preview: PreviewPayload; fallback?: boolean } | null = null;
-  const setFallbackCandidate = (preview: PreviewPayload | null, options: { markFallback?: boolean } = {}): void => {
-    if (!preview || !preview.image) return;
-    if (!fallbackCandidate) {
-      fallbackCandidate = options.markFallback ? { preview, fallback: true } : { preview };
-    }
-  };
-
-  if (hostMatches((host) => host.includes("youtube.") || host.endsWith("youtu.be"))) {
-    const canonicalYouTubeUrl =
-      canonicalizeYouTubeUrl(canonicalFinal || canonicalRequested) ?? canonicalizeYouTubeUrl(canonicalRequested);
-    const targetYoutubeUrl = canonicalYouTubeUrl || canonicalFinal || canonicalRequested;
-    const youtubePreview = await fetchYouTubeOEmbed(targetYoutubeUrl);
-    if (youtubePreview) {
-      if (youtubePreview.image && youtubePreview.title) {
-        return { preview: youtubePreview };
-      }
-      setFallbackCandidate(youtubePreview, { markFallback: needsUpgrade });
-    }
-    if (canonicalYouTubeUrl) {
-      const youtubeNoembed = await fetchNoembedMetadata(canonicalYouTubeUrl);
-      if (youtubeNoembed && (youtubeNoembed.title || youtubeNoembed.thumbnail)) {
-        const fallbackImage = (() => {
-          const id = extractYouTubeId(canonicalYouTubeUrl);
-          return id ? `https://i.ytimg.com/vi/${id}/hqdefault.jpg` : undefined;
-        })();
-        const preview = buildPreviewFromExternalMetadata(requestedUrl, canonicalYouTubeUrl, youtubeNoembed, {
-          siteName: "YouTube",
-          fallbackImage,
-        });
-        if (preview.image && preview.title && preview.title !== fallbackTitleForUrl(preview.finalUrl)) {
-          return { preview };
-        }
-        setFallbackCandidate(preview, { markFallback: true });
-      }
-    }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return jsonResponse({ error: "Only http(s) URLs are supported" }, 400);
   }
+  const requestedUrl = parsed.toString();
 
-  const isAmazonHost = hostMatches((host) => host.includes("amazon."));
-  if (isAmazonHost) {
-    const canonicalAmazon = canonicalizeAmazonUrl(canonicalFinal || canonicalRequested) ?? canonicalizeAmazonUrl(canonicalRequested);
-    if (canonicalAmazon) {
-      const noembed = await fetchNoembedMetadata(canonicalAmazon);
-      if (noembed && (noembed.title || noembed.thumbnail)) {
-        const asin = extractAmazonAsin(canonicalAmazon) ?? extractAmazonAsin(canonicalRequested);
-        const fallbackImage = asin ? buildAmazonImageUrl(asin) : undefined;
-        const preview = buildPreviewFromExternalMetadata(requestedUrl, canonicalAmazon, noembed, {
-          siteName: "Amazon",
-          fallbackImage,
-        });
-        if (preview.image && preview.title && preview.title !== fallbackTitleForUrl(preview.finalUrl)) {
-          return { preview };
-        }
-        setFallbackCandidate(preview, { markFallback: true });
-      }
-    }
+  const db = requireDb(env);
+  const cacheKey = canonicalPreviewUrl(requestedUrl);
+  const cached = await db
+    .prepare<{ body: string }>("SELECT body FROM preview_cache WHERE url = ? AND expires_at > ?")
+    .bind(cacheKey, Date.now())
+    .first<{ body: string }>();
+  if (cached) {
+    return buildCachedPreviewResponse(cached.body);
+  }
+
+  // Only cache misses reach the origin, so only they count against the client's budget.
+  const client = request.headers.get("CF-Connecting-IP") || "unknown";
+  const retryAfterSeconds = await consumePreviewToken(env, client);
+  if (retryAfterSeconds !== null) {
+    return new Response(JSON.stringify({ error: "Too many preview requests" }), {
+      status: 429,
+      headers: { ...JSON_HEADERS, "Retry-After": String(retryAfterSeconds) },
+    });
   }
 
-  if (isAmazonHost && (reason === "blocked" || needsUpgrade)) {
-    const amazonResult = await fetchAlternateAmazon(canonicalRequested, canonicalFinal || canonicalRequested);
-    if (amazonResult?.preview) {
-      if (amazonResult.rich) {
-        return { preview: amazonResult.preview };
-      }
-      setFallbackCandidate(amazonResult.preview, { markFallback: true });
+  try {
+    await assertPublicUrl(requestedUrl);
+  } catch (err) {
+    if (err instanceof BlockedDestinationError) {
+      return jsonResponse({ error: err.message }, 403);
     }
+    throw err;
   }
 
-  const isEtsyHost = hostMatches((host) => host.includes("etsy."));
-  if (isEtsyHost) {
-    const canonicalEtsyUrl =
-      canonicalizeEtsyUrl(canonicalFinal || canonicalRequested) ?? canonicalizeEtsyUrl(canonicalRequested);
-    const targetEtsyUrl = canonicalEtsyUrl || canonicalFinal || canonicalRequested;
-    const etsyPreview = await fetchEtsyOEmbed(targetEtsyUrl);
-    if (etsyPreview) {
-      if (etsyPreview.image && etsyPreview.title) {
-        return { preview: etsyPreview };
-      }
-      setFallbackCandidate(etsyPreview, { markFallback: needsUpgrade });
-    }
-    const etsyNoembed = canonicalEtsyUrl ? await fetchNoembedMetadata(canonicalEtsyUrl) : null;
-    if (etsyNoembed && (etsyNoembed.title || etsyNoembed.thumbnail)) {
-      const preview = buildPreviewFromExternalMetadata(requestedUrl, canonicalEtsyUrl || targetEtsyUrl, etsyNoembed, {
-        siteName: "Etsy",
-      });
-      if (preview.image && preview.title && preview.title !== fallbackTitleForUrl(preview.finalUrl)) {
-        return { preview };
-      }
-      setFallbackCandidate(preview, { markFallback: true });
+  const response = await fetchPreview(requestedUrl);
+  if (response.ok) {
+    const body = await response.clone().text();
+    let transient = false;
+    try {
+      const parsedBody = JSON.parse(body) as { fallback?: boolean; blocked?: boolean };
+      transient = !!(parsedBody.fallback || parsedBody.blocked);
+    } catch {
+      /* ignore */
     }
+    await db
+      .prepare("INSERT OR REPLACE INTO preview_cache (url, body, expires_at) VALUES (?, ?, ?)")
+      .bind(cacheKey, body, Date.now() + (transient ? PREVIEW_FALLBACK_CACHE_TTL_MS : PREVIEW_CACHE_TTL_MS))
+      .run();
   }
+  return response;
+}
 
-  if (isEtsyHost && (reason === "blocked" || needsUpgrade)) {
-    const etsyResult = await fetchAlternateEtsy(canonicalRequested, canonicalFinal || canonicalRequested);
-    if (etsyResult?.preview) {
-      if (etsyResult.rich) {
-        return { preview: etsyResult.preview };
-      }
-      setFallbackCandidate(etsyResult.preview, { markFallback: needsUpgrade });
-    }
-  }
+function buildCachedPreviewResponse(body: string): Response {
+  return new Response(body, {
+    status: 200,
+    headers: {
+      ...JSON_HEADERS,
+      "Cache-Control": "public, max-age=300",
+    },
+  });
+}
 
-  if (fallbackCandidate) {
-    return fallbackCandidate;
+// Tracking parameters and fragments never change what a page previews as.
+function canonicalPreviewUrl(rawUrl: string): string {
+  const known = canonicalizeKnownUrl(rawUrl);
+  if (known) return known;
+
+  const url = new URL(rawUrl);
+  const host = url.hostname.toLowerCase();
+  url.hash = "";
+  url.hostname = host.replace(/\.$/, "");
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (/^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref_src)$/i.test(key)) {
+      url.searchParams.delete(key);
+    }
   }
+  url.searchParams.sort();
+  return url.toString();
+}
 
-  return null;
+/**
+ * Take one token from the client's bucket (burst of PREVIEW_RATE_LIMIT_BURST, refilled at
+ * PREVIEW_RATE_LIMIT_PER_MINUTE). Returns null when allowed, otherwise seconds until a token is free.
+ */
+async function consumePreviewToken(env: Env, client: string): Promise<number | null> {
+  const db = requireDb(env);
+  const now = Date.now();
+  const refillPerMs = PREVIEW_RATE_LIMIT_PER_MINUTE / MINUTE_MS;
+  const refilled = `MIN(${PREVIEW_RATE_LIMIT_BURST}, preview_rate_limits.tokens + (excluded.updated_at - preview_rate_limits.updated_at) * ${refillPerMs})`;
+  const row = await db
+    .prepare<{ tokens: number; allowed: number }>(
+      `INSERT INTO preview_rate_limits (client, tokens, allowed, updated_at)
+       VALUES (?, ?, 1, ?)
+       ON CONFLICT(client) DO UPDATE SET
+         tokens = CASE WHEN ${refilled} >= 1 THEN ${refilled} - 1 ELSE ${refilled} END,
+         allowed = ${refilled} >= 1,
+         updated_at = excluded.updated_at
+       RETURNING tokens, allowed`,
+    )
+    .bind(client, PREVIEW_RATE_LIMIT_BURST - 1, now)
+    .first<{ tokens: number; allowed: number }>();
+  if (!row || row.allowed) return null;
+  return Math.max(1, Math.ceil((1 - row.tokens) / refillPerMs / 1000));
 }
 
-async function handlePreviewProxy(url: URL): Promise<Response> {
-  const targetRaw = url.searchParams.get("url");
-  if (!targetRaw) {
-    return jsonResponse({ error: "url is required" }, 400);
-  }
-  const normalizedTarget = unwrapGoogleRedirectUrl(targetRaw);
-  let parsed: URL;
-  try {
-    parsed = new URL(normalizedTarget);
-  } catch {
-    return jsonResponse({ error: "Invalid URL" }, 400);
-  }
-  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-    return jsonResponse({ error: "Only http(s) URLs are supported" }, 400);
-  }
-  const requestedUrl = parsed.toString();
+async function cleanupPreviewState(env: Env): Promise<void> {
+  const db = requireDb(env);
+  const now = Date.now();
+  // A bucket idle for long enough is full again, which is the same as having no row.
+  const idleCutoff = now - (PREVIEW_RATE_LIMIT_BURST / PREVIEW_RATE_LIMIT_PER_MINUTE) * MINUTE_MS;
+  await db.batch([
+    db.prepare("DELETE FROM preview_cache WHERE expires_at <= ?").bind(now),
+    db.prepare("DELETE FROM preview_rate_limits WHERE updated_at < ?").bind(idleCutoff),
+  ]);
+}
 
+async function fetchPreview(requestedUrl: string): Promise<Response> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
   let upstream: Response;
+  let upstreamUrl: string;
   try {
-    upstream = await fetch(requestedUrl, {
+    ({ response: upstream, url: upstreamUrl } = await fetchPublicUrl(requestedUrl, {
       method: "GET",
       headers: buildBrowserHeaders(),
-      redirect: "follow",
       signal: controller.signal,
-    });
-  } catch {
+    }));
+  } catch (err) {
     clearTimeout(timeout);
+    if (err instanceof BlockedDestinationError) {
+      return jsonResponse({ error: err.message }, 403);
+    }
     const alternate = await attemptAlternatePreview(requestedUrl, requestedUrl, "blocked", null);
     if (alternate) {
       return buildPreviewResponse(alternate.preview, alternate.fallback ? { fallback: true } : undefined);
@@ -2167,27 +2765,32 @@ async function handlePreviewProxy(url: URL): Promise<Response> {
   clearTimeout(timeout);
 
   if (!upstream.ok) {
-    const alternate = await attemptAlternatePreview(requestedUrl, upstream.url || requestedUrl, "blocked", null);
+    const alternate = await attemptAlternatePreview(requestedUrl, upstreamUrl, "blocked", null);
     if (alternate) {
       return buildPreviewResponse(alternate.preview, alternate.fallback ? { fallback: true } : undefined);
     }
-    const fallback = buildFallbackPreview(requestedUrl, upstream.url || requestedUrl);
+    const fallback = buildFallbackPreview(requestedUrl, upstreamUrl);
     return buildPreviewResponse(fallback, { fallback: true });
   }
 
+  const mediaKind = mediaKindForResponse(upstream.headers.get("content-type"), upstreamUrl);
+  if (mediaKind) {
+    return buildPreviewResponse(await buildMediaPreview(requestedUrl, upstreamUrl, upstream, mediaKind));
+  }
+
   let bodyText: string;
   try {
     bodyText = await readResponseBodyLimited(upstream);
   } catch {
-    const alternate = await attemptAlternatePreview(requestedUrl, upstream.url || requestedUrl, "blocked", null);
+    const alternate = await attemptAlternatePreview(requestedUrl, upstreamUrl, "blocked", null);
     if (alternate) {
       return buildPreviewResponse(alternate.preview, alternate.fallback ? { fallback: true } : undefined);
     }
-    const fallback = buildFallbackPreview(requestedUrl, upstream.url || requestedUrl);
+    const fallback = buildFallbackPreview(requestedUrl, upstreamUrl);
     return buildPreviewResponse(fallback, { fallback: true });
   }
 
-  const finalUrlRaw = upstream.url || requestedUrl;
+  const finalUrlRaw = upstreamUrl;
   const finalUrl = unwrapGoogleRedirectUrl(finalUrlRaw);
   const headerMap: Record<string, string> = {};
   upstream.headers.forEach((value, key) => {
@@ -2206,6 +2809,7 @@ async function handlePreviewProxy(url: URL): Promise<Response> {
     finalUrl,
     blockedHint ? "blocked" : "incomplete",
     derived.preview,
+    bodyText,
   );
   if (alternate) {
     return buildPreviewResponse(alternate.preview, alternate.fallback ? { fallback: true } : undefined);
@@ -2219,43 +2823,131 @@ async function handlePreviewProxy(url: URL): Promise<Response> {
   return buildPreviewResponse(fallback, blockedHint ? { blocked: true } : { fallback: true });
 }
 
+// Images, PDFs and audio/video have no markup to parse; describe the file itself instead.
+async function buildMediaPreview(
+  requestedUrl: string,
+  finalUrl: string,
+  response: Response,
+  kind: MediaKind,
+): Promise<PreviewPayload> {
+  const head = await readResponseBytesLimited(response, MEDIA_HEAD_BYTES).catch(() => new Uint8Array());
+  const contentLength = Number(response.headers.get("content-length"));
+  const totalBytes = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined;
+  const details = await readMediaDetails(kind, head, {
+    totalBytes,
+    readRange: (start, length) => fetchPreviewRange(finalUrl, start, length),
+  });
+  const mimeType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase() || undefined;
+  return {
+    url: requestedUrl,
+    finalUrl,
+    displayUrl: buildDisplayUrl(finalUrl),
+    title: truncate(details.title || mediaFileName(finalUrl), PREVIEW_TITLE_MAX_LENGTH),
+    image: kind === "image" ? finalUrl : details.poster,
+    icon: guessFaviconUrl(finalUrl),
+    siteName: getHostLabel(finalUrl),
+    media: {
+      kind,
+      mimeType,
+      sizeBytes: totalBytes,
+      width: details.width,
+      height: details.height,
+      pageCount: details.pageCount,
+      durationSeconds: details.durationSeconds,
+    },
+  };
+}
+
+function mediaFileName(url: string): string {
+  try {
+    const segment = new URL(url).pathname.split("/").filter(Boolean).pop();
+    if (segment) return decodeURIComponent(segment);
+  } catch {
+    /* ignore */
+  }
+  return fallbackTitleForUrl(url);
+}
+
+async function fetchPreviewRange(url: string, start: number, length: number): Promise<Uint8Array | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PREVIEW_TIMEOUT_MS);
+  try {
+    const { response } = await fetchPublicUrl(url, {
+      method: "GET",
+      headers: { ...buildBrowserHeaders(), Range: `bytes=${start}-${start + length - 1}` },
+      signal: controller.signal,
+    });
+    // A 200 means the server ignored the range and is sending the whole file from the start.
+    if (response.status !== 206) {
+      await response.body?.cancel();
+      return null;
+    }
+    return await readResponseBytesLimited(response, length);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 async function handleDeleteDevice(deviceId: string, env: Env): Promise<Response> {
   const db = requireDb(env);
   const existing = await db
-    .prepare<{ endpoint_hash: string | null }>(
-      `SELECT endpoint_hash
+    .prepare<{ pubkey: string | null }>(
+      `SELECT pubkey
        FROM devices
        WHERE device_id = ?`,
     )
     .bind(deviceId)
-    .first<{ endpoint_hash: string | null }>();
+    .first<{ pubkey: string | null }>();
 
   await db.batch([
     db.prepare("DELETE FROM pending_notifications WHERE device_id = ?").bind(deviceId),
     db.prepare("DELETE FROM reminders WHERE device_id = ?").bind(deviceId),
+    db.prepare("DELETE FROM reminder_fanout WHERE device_id = ?").bind(deviceId),
+    db.prepare("DELETE FROM agenda_tasks WHERE device_id = ?").bind(deviceId),
+    db.prepare("DELETE FROM device_preferences WHERE device_id = ?").bind(deviceId),
     db.prepare("DELETE FROM devices WHERE device_id = ?").bind(deviceId),
   ]);
-
-  if (env.TASKIFY_DEVICES) {
-    await env.TASKIFY_DEVICES.delete(deviceKey(deviceId)).catch(() => {});
-    const endpointHash = existing?.endpoint_hash;
-    if (endpointHash) {
-      await env.TASKIFY_DEVICES.delete(endpointKey(endpointHash)).catch(() => {});
-    }
+  if (existing?.pubkey) {
+    await deleteAccountIfUnused(env, existing.pubkey);
   }
-  await env.TASKIFY_REMINDERS?.delete(remindersKey(deviceId)).catch(() => {});
-  await env.TASKIFY_PENDING?.delete(pendingKey(deviceId)).catch(() => {});
 
   return new Response(null, { status: 204, headers: JSON_HEADERS });
 }
 
+/**
+ * Walk a recurring reminder forward until its send time is after `threshold`.
+ * Returns null once the series ends (untilISO) or cannot advance.
+ */
+function advanceRecurringReminder(
+  dueISO: string,
+  minutes: number,
+  rule: Recurrence,
+  timeZone: string | undefined,
+  threshold: number,
+): { dueISO: string; sendAt: number } | null {
+  let currentISO = dueISO;
+  for (let i = 0; i < MAX_RECURRENCE_CATCH_UP; i += 1) {
+    const nextISO = nextOccurrence(currentISO, rule, timeZone);
+    if (!nextISO) return null;
+    const sendAt = Date.parse(nextISO) - minutes * MINUTE_MS;
+    if (sendAt > threshold) return { dueISO: nextISO, sendAt };
+    currentISO = nextISO;
+  }
+  return null;
+}
+
+// The client sends its full reminder set on every change, so a recurring series stops here as soon as
+// the series is completed, deleted or loses its recurrence on the device.
 async function handleSaveReminders(request: Request, env: Env): Promise<Response> {
   const body = await parseJson(request);
   const { deviceId, reminders } = body || {};
   if (!deviceId || typeof deviceId !== "string") {
     return jsonResponse({ error: "deviceId is required" }, 400);
   }
-  if (!(await getDeviceRecord(env, deviceId))) {
+  const device = await getDeviceRecord(env, deviceId);
+  if (!device) {
     return jsonResponse({ error: "Unknown device" }, 404);
   }
   if (!Array.isArray(reminders)) {
@@ -2264,6 +2956,7 @@ async function handleSaveReminders(request: Request, env: Env): Promise<Response
 
   const db = requireDb(env);
   const now = Date.now();
+  const timeZone = typeof body.timeZone === "string" && isSupportedTimeZone(body.timeZone) ? body.timeZone : undefined;
   const entries: ReminderEntry[] = [];
   for (const item of reminders as ReminderTaskInput[]) {
     if (!item || typeof item !== "object") continue;
@@ -2271,10 +2964,17 @@ async function handleSaveReminders(request: Request, env: Env): Promise<Response
     if (!Array.isArray(item.minutesBefore)) continue;
     const dueTime = Date.parse(item.dueISO);
     if (Number.isNaN(dueTime)) continue;
+    const recurrence = parseRecurrence(item.recurrence) ?? undefined;
     for (const minutes of item.minutesBefore) {
       if (typeof minutes !== "number" || minutes < 0) continue;
-      const sendAt = dueTime - minutes * MINUTE_MS;
-      if (sendAt <= now - MINUTE_MS) continue; // skip very old reminders
+      let dueISO = item.dueISO;
+      let sendAt = dueTime - minutes * MINUTE_MS;
+      if (sendAt <= now - MINUTE_MS) {
+        // A recurring series keeps going after the synced occurrence has passed.
+        const next = recurrence ? advanceRecurringReminder(dueISO, minutes, recurrence, timeZone, now) : null;
+        if (!next) continue; // skip very old reminders
+        ({ dueISO, sendAt } = next);
+      }
       if (sendAt - now > MAX_LEAD_MS) continue; // skip too far in future
       const reminderKey = `${item.taskId}:${minutes}`;
       entries.push({
@@ -2282,22 +2982,88 @@ async function handleSaveReminders(request: Request, env: Env): Promise<Response
         taskId: item.taskId,
         boardId: item.boardId,
         title: item.title,
-        dueISO: item.dueISO,
+        dueISO,
         minutes,
         sendAt,
+        recurrence,
+        timeZone,
       });
     }
   }
 
-  const statements = [db.prepare("DELETE FROM reminders WHERE device_id = ?").bind(deviceId)];
+  // Snoozed reminders survive a re-sync as long as their task still has reminders.
+  const incomingTaskIds = new Set(
+    (reminders as ReminderTaskInput[]).map((item) => (item && typeof item.taskId === "string" ? item.taskId : "")),
+  );
+  let statements: D1PreparedStatement[];
+  if (device.pubkey) {
+    // Each device only knows its own boards, so an account sync replaces the shared set board by board.
+    const boardIds = Array.isArray(body.boards)
+      ? (body.boards as unknown[]).filter((value): value is string => typeof value === "string" && !!value)
+      : Array.from(new Set(entries.map((entry) => entry.boardId).filter((value): value is string => !!value)));
+    statements = await replaceAccountReminders(env, device.pubkey, boardIds, entries, incomingTaskIds);
+  } else {
+    statements = await replaceDeviceReminders(env, deviceId, entries, incomingTaskIds);
+  }
+
+  // Tasks for the morning agenda travel with the reminder sync and are replaced wholesale too.
+  statements.push(db.prepare("DELETE FROM agenda_tasks WHERE device_id = ?").bind(deviceId));
+  const agendaTaskIds = new Set<string>();
+  for (const item of Array.isArray(body.agenda) ? (body.agenda as AgendaTaskInput[]) : []) {
+    if (agendaTaskIds.size >= MAX_AGENDA_TASKS) break;
+    if (!item || typeof item !== "object") continue;
+    if (typeof item.taskId !== "string" || typeof item.title !== "string" || typeof item.dueISO !== "string") continue;
+    if (Number.isNaN(Date.parse(item.dueISO)) || agendaTaskIds.has(item.taskId)) continue;
+    agendaTaskIds.add(item.taskId);
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO agenda_tasks (device_id, task_id, board_id, title, due_iso)
+           VALUES (?, ?, ?, ?, ?)`,
+        )
+        .bind(deviceId, item.taskId, typeof item.boardId === "string" ? item.boardId : null, item.title, item.dueISO),
+    );
+  }
+
+  await db.batch(statements);
+  await db.prepare("DELETE FROM pending_notifications WHERE device_id = ?").bind(deviceId).run();
+
+  return new Response(null, { status: 204, headers: JSON_HEADERS });
+}
+
+async function replaceDeviceReminders(
+  env: Env,
+  deviceId: string,
+  entries: ReminderEntry[],
+  incomingTaskIds: Set<string>,
+): Promise<D1PreparedStatement[]> {
+  const db = requireDb(env);
+  const snoozedResult = await db
+    .prepare<{ reminder_key: string; task_id: string }>(
+      `SELECT reminder_key, task_id
+       FROM reminders
+       WHERE device_id = ? AND reminder_key LIKE ?`,
+    )
+    .bind(deviceId, `%${SNOOZE_REMINDER_SUFFIX}`)
+    .all<{ reminder_key: string; task_id: string }>();
+  const statements: D1PreparedStatement[] = [
+    db.prepare("DELETE FROM reminders WHERE device_id = ? AND reminder_key NOT LIKE ?").bind(deviceId, `%${SNOOZE_REMINDER_SUFFIX}`),
+  ];
+  for (const row of snoozedResult.results ?? []) {
+    if (!incomingTaskIds.has(row.task_id)) {
+      statements.push(
+        db.prepare("DELETE FROM reminders WHERE device_id = ? AND reminder_key = ?").bind(deviceId, row.reminder_key),
+      );
+    }
+  }
   if (entries.length > 0) {
     entries.sort((a, b) => a.sendAt - b.sendAt);
     for (const entry of entries) {
       statements.push(
         db
           .prepare(
-            `INSERT INTO reminders (device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            `INSERT INTO reminders (device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at, recurrence, time_zone)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           )
           .bind(
             deviceId,
@@ -2308,36 +3074,126 @@ async function handleSaveReminders(request: Request, env: Env): Promise<Response
             entry.dueISO,
             entry.minutes,
             entry.sendAt,
+            entry.recurrence ? JSON.stringify(entry.recurrence) : null,
+            entry.timeZone ?? null,
           ),
       );
     }
   }
-
-  await db.batch(statements);
-  await db.prepare("DELETE FROM pending_notifications WHERE device_id = ?").bind(deviceId).run();
-
-  return new Response(null, { status: 204, headers: JSON_HEADERS });
+  return statements;
+}
+
+async function replaceAccountReminders(
+  env: Env,
+  pubkey: string,
+  boardIds: string[],
+  entries: ReminderEntry[],
+  incomingTaskIds: Set<string>,
+): Promise<D1PreparedStatement[]> {
+  const db = requireDb(env);
+  const syncedBoards = new Set(boardIds);
+  const snoozedResult = await db
+    .prepare<{ reminder_key: string; task_id: string; board_id: string | null }>(
+      `SELECT reminder_key, task_id, board_id
+       FROM account_reminders
+       WHERE pubkey = ? AND reminder_key LIKE ?`,
+    )
+    .bind(pubkey, `%${SNOOZE_REMINDER_SUFFIX}`)
+    .all<{ reminder_key: string; task_id: string; board_id: string | null }>();
+
+  const statements: D1PreparedStatement[] = [];
+  for (const boardId of syncedBoards) {
+    statements.push(
+      db
+        .prepare("DELETE FROM account_reminders WHERE pubkey = ? AND board_id = ? AND reminder_key NOT LIKE ?")
+        .bind(pubkey, boardId, `%${SNOOZE_REMINDER_SUFFIX}`),
+    );
+  }
+  for (const row of snoozedResult.results ?? []) {
+    if (row.board_id && syncedBoards.has(row.board_id) && !incomingTaskIds.has(row.task_id)) {
+      statements.push(
+        db.prepare("DELETE FROM account_reminders WHERE pubkey = ? AND reminder_key = ?").bind(pubkey, row.reminder_key),
+      );
+    }
+  }
+  const entriesByKey = new Map<string, ReminderEntry>();
+  for (const entry of entries) {
+    entriesByKey.set(entry.reminderKey, entry);
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO account_reminders (pubkey, reminder_key, task_id, board_id, title, due_iso, minutes, send_at, recurrence, time_zone)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(pubkey, reminder_key) DO UPDATE SET
+             task_id = excluded.task_id,
+             board_id = excluded.board_id,
+             title = excluded.title,
+             due_iso = excluded.due_iso,
+             minutes = excluded.minutes,
+             send_at = excluded.send_at,
+             recurrence = excluded.recurrence,
+             time_zone = excluded.time_zone`,
+        )
+        .bind(
+          pubkey,
+          entry.reminderKey,
+          entry.taskId,
+          entry.boardId ?? null,
+          entry.title,
+          entry.dueISO,
+          entry.minutes,
+          entry.sendAt,
+          entry.recurrence ? JSON.stringify(entry.recurrence) : null,
+          entry.timeZone ?? null,
+        ),
+    );
+  }
+
+  // Copies already fanned out to the account's devices (held for quiet hours or a digest) are
+  // dropped when the task was completed or rescheduled elsewhere.
+  const copiesResult = await db
+    .prepare<Pick<ReminderRow, "device_id" | "reminder_key" | "task_id" | "board_id" | "due_iso">>(
+      `SELECT r.device_id, r.reminder_key, r.task_id, r.board_id, r.due_iso
+       FROM reminders r
+       JOIN devices d ON d.device_id = r.device_id
+       WHERE d.pubkey = ?`,
+    )
+    .bind(pubkey)
+    .all<Pick<ReminderRow, "device_id" | "reminder_key" | "task_id" | "board_id" | "due_iso">>();
+  for (const copy of copiesResult.results ?? []) {
+    if (!copy.board_id || !syncedBoards.has(copy.board_id)) continue;
+    const current = copy.reminder_key.endsWith(SNOOZE_REMINDER_SUFFIX)
+      ? incomingTaskIds.has(copy.task_id)
+      : entriesByKey.get(copy.reminder_key)?.dueISO === copy.due_iso;
+    if (!current) {
+      statements.push(
+        db.prepare("DELETE FROM reminders WHERE device_id = ? AND reminder_key = ?").bind(copy.device_id, copy.reminder_key),
+      );
+    }
+  }
+  return statements;
 }
 
 async function handlePollReminders(request: Request, env: Env): Promise<Response> {
   const body = await parseJson(request);
   const { endpoint, deviceId } = body || {};
-  let resolvedDeviceId = typeof deviceId === "string" ? deviceId : undefined;
-  if (!resolvedDeviceId && typeof endpoint === "string") {
-    resolvedDeviceId = await findDeviceIdByEndpoint(env, endpoint);
+  // Polling by endpoint collects the pending reminders of every profile registered in the browser.
+  let deviceIds = typeof deviceId === "string" && deviceId ? [deviceId] : [];
+  if (!deviceIds.length && typeof endpoint === "string") {
+    deviceIds = await findDeviceIdsByEndpoint(env, endpoint);
   }
-  if (!resolvedDeviceId) {
+  if (!deviceIds.length) {
     return jsonResponse({ error: "Device not registered" }, 404);
   }
   const db = requireDb(env);
   const pendingRows = await db
     .prepare<PendingRow>(
-      `SELECT id, task_id, board_id, title, due_iso, minutes
+      `SELECT id, device_id, task_id, board_id, title, due_iso, minutes, kind
        FROM pending_notifications
-       WHERE device_id = ?
+       WHERE device_id IN (${deviceIds.map(() => "?").join(", ")})
        ORDER BY created_at, id`,
     )
-    .bind(resolvedDeviceId)
+    .bind(...deviceIds)
     .all<PendingRow>();
 
   const rows = pendingRows.results ?? [];
@@ -2349,25 +3205,285 @@ async function handlePollReminders(request: Request, env: Env): Promise<Response
 
   return jsonResponse(
     rows.map((row) => ({
+      deviceId: row.device_id,
       taskId: row.task_id,
       boardId: row.board_id ?? undefined,
       title: row.title,
       dueISO: row.due_iso,
       minutes: row.minutes,
+      kind: row.kind ?? undefined,
     })),
   );
 }
 
+async function handleSnoozeReminder(request: Request, env: Env): Promise<Response> {
+  const body = await parseJson(request);
+  const { endpoint, deviceId, taskId, boardId, title, dueISO, snoozeMinutes } = body || {};
+  let resolvedDeviceId = typeof deviceId === "string" ? deviceId : undefined;
+  if (!resolvedDeviceId && typeof endpoint === "string") {
+    // Service workers that predate per-profile devices only send the endpoint.
+    [resolvedDeviceId] = await findDeviceIdsByEndpoint(env, endpoint);
+  }
+  const device = resolvedDeviceId ? await getDeviceRecord(env, resolvedDeviceId) : null;
+  if (!resolvedDeviceId || !device) {
+    return jsonResponse({ error: "Device not registered" }, 404);
+  }
+  if (typeof taskId !== "string" || !taskId) {
+    return jsonResponse({ error: "taskId is required" }, 400);
+  }
+  if (typeof title !== "string" || typeof dueISO !== "string" || Number.isNaN(Date.parse(dueISO))) {
+    return jsonResponse({ error: "title and dueISO are required" }, 400);
+  }
+  if (typeof snoozeMinutes !== "number" || !Number.isFinite(snoozeMinutes) || snoozeMinutes < 1 || snoozeMinutes > MAX_SNOOZE_MINUTES) {
+    return jsonResponse({ error: `snoozeMinutes must be between 1 and ${MAX_SNOOZE_MINUTES}` }, 400);
+  }
+
+  const sendAt = Date.now() + Math.round(snoozeMinutes) * MINUTE_MS;
+  const db = requireDb(env);
+  // A snooze on a linked device reschedules the reminder for the whole account.
+  const [table, owner] = device.pubkey ? ["account_reminders", "pubkey"] : ["reminders", "device_id"];
+  await db
+    .prepare(
+      `INSERT INTO ${table} (${owner}, reminder_key, task_id, board_id, title, due_iso, minutes, send_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(${owner}, reminder_key) DO UPDATE SET
+         title = excluded.title,
+         due_iso = excluded.due_iso,
+         send_at = excluded.send_at`,
+    )
+    .bind(
+      device.pubkey ?? resolvedDeviceId,
+      `${taskId}${SNOOZE_REMINDER_SUFFIX}`,
+      taskId,
+      typeof boardId === "string" ? boardId : null,
+      title,
+      dueISO,
+      0,
+      sendAt,
+    )
+    .run();
+  if (device.pubkey) {
+    await acknowledgeAcrossDevices(env, device, { taskId, dueISO });
+  }
+
+  return jsonResponse({ taskId, sendAt: new Date(sendAt).toISOString() });
+}
+
+async function handleAcknowledgeReminder(request: Request, env: Env): Promise<Response> {
+  const body = await parseJson(request);
+  const { endpoint, deviceId, taskId, dueISO, minutes } = body || {};
+  let resolvedDeviceId = typeof deviceId === "string" ? deviceId : undefined;
+  if (!resolvedDeviceId && typeof endpoint === "string") {
+    [resolvedDeviceId] = await findDeviceIdsByEndpoint(env, endpoint);
+  }
+  const device = resolvedDeviceId ? await getDeviceRecord(env, resolvedDeviceId) : null;
+  if (!resolvedDeviceId || !device) {
+    return jsonResponse({ error: "Device not registered" }, 404);
+  }
+  if (typeof taskId !== "string" || !taskId) {
+    return jsonResponse({ error: "taskId is required" }, 400);
+  }
+
+  if (device.pubkey) {
+    await acknowledgeAcrossDevices(env, device, {
+      taskId,
+      dueISO: typeof dueISO === "string" ? dueISO : undefined,
+      minutes: typeof minutes === "number" ? minutes : undefined,
+    });
+  } else {
+    await requireDb(env)
+      .prepare("DELETE FROM pending_notifications WHERE device_id = ? AND task_id = ?")
+      .bind(resolvedDeviceId, taskId)
+      .run();
+  }
+  return new Response(null, { status: 204, headers: JSON_HEADERS });
+}
+
+/**
+ * Clear a reminder everywhere once it was handled on one of the account's devices: queued poll
+ * entries and held copies are dropped, and the other devices are told to close the notification.
+ */
+async function acknowledgeAcrossDevices(
+  env: Env,
+  source: DeviceRecord,
+  reminder: { taskId: string; dueISO?: string; minutes?: number },
+): Promise<void> {
+  if (!source.pubkey) return;
+  const db = requireDb(env);
+  const accountDevices = "SELECT device_id FROM devices WHERE pubkey = ?";
+  const statements = [
+    db
+      .prepare(`DELETE FROM pending_notifications WHERE task_id = ? AND device_id IN (${accountDevices})`)
+      .bind(reminder.taskId, source.pubkey),
+    // A push must show a notification (Safari revokes subscriptions that do not), so the dismissal
+    // waits for each device's next reminder or poll instead of being pushed on its own.
+    db
+      .prepare(
+        `INSERT INTO pending_notifications (device_id, task_id, board_id, title, due_iso, minutes, created_at, kind)
+         SELECT device_id, ?, NULL, '', ?, 0, ?, 'dismiss' FROM devices WHERE pubkey = ? AND device_id != ?`,
+      )
+      .bind(reminder.taskId, reminder.dueISO ?? "", Date.now(), source.pubkey, source.deviceId),
+  ];
+  if (reminder.dueISO) {
+    statements.push(
+      typeof reminder.minutes === "number"
+        ? db
+            .prepare(`DELETE FROM reminders WHERE task_id = ? AND due_iso = ? AND minutes = ? AND device_id IN (${accountDevices})`)
+            .bind(reminder.taskId, reminder.dueISO, reminder.minutes, source.pubkey)
+        : db
+            .prepare(`DELETE FROM reminders WHERE task_id = ? AND due_iso = ? AND device_id IN (${accountDevices})`)
+            .bind(reminder.taskId, reminder.dueISO, source.pubkey),
+    );
+  }
+  await db.batch(statements);
+}
+
+function parseClockTime(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function formatClockTime(minuteOfDay: number): string {
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function deliveryPreferencesFromRow(row: DevicePreferencesRow): DeliveryPreferences {
+  const hasQuietHours = row.quiet_start !== null && row.quiet_end !== null && row.quiet_start !== row.quiet_end;
+  return {
+    timeZone: isSupportedTimeZone(row.time_zone) ? row.time_zone : "UTC",
+    quietHours: hasQuietHours ? { start: row.quiet_start as number, end: row.quiet_end as number } : null,
+    digestWindowMinutes: Math.max(0, row.digest_window_minutes || 0),
+    agenda: { enabled: row.agenda_enabled === 1, minute: row.agenda_minute },
+  };
+}
+
+function serializeDeliveryPreferences(preferences: DeliveryPreferences | null) {
+  return {
+    timeZone: preferences?.timeZone ?? null,
+    quietHours: preferences?.quietHours
+      ? { start: formatClockTime(preferences.quietHours.start), end: formatClockTime(preferences.quietHours.end) }
+      : null,
+    digestWindowMinutes: preferences?.digestWindowMinutes ?? 0,
+    agenda: {
+      enabled: preferences?.agenda.enabled ?? false,
+      time: formatClockTime(preferences?.agenda.minute ?? DEFAULT_AGENDA_MINUTE),
+    },
+  };
+}
+
+async function getDeliveryPreferences(env: Env, deviceId: string): Promise<DeliveryPreferences | null> {
+  const row = await requireDb(env)
+    .prepare<DevicePreferencesRow>(
+      `SELECT device_id, time_zone, quiet_start, quiet_end, digest_window_minutes, agenda_enabled, agenda_minute, agenda_last_sent
+       FROM device_preferences
+       WHERE device_id = ?`,
+    )
+    .bind(deviceId)
+    .first<DevicePreferencesRow>();
+  return row ? deliveryPreferencesFromRow(row) : null;
+}
+
+/** When `now` falls inside the device's quiet hours, the instant they end; otherwise null. */
+function quietHoursEnd(preferences: DeliveryPreferences, now: number): number | null {
+  const quiet = preferences.quietHours;
+  if (!quiet) return null;
+  const wall = toWallClock(now, preferences.timeZone);
+  const minuteOfDay = wall.hour * 60 + wall.minute;
+  const inQuietHours =
+    quiet.start < quiet.end
+      ? minuteOfDay >= quiet.start && minuteOfDay < quiet.end
+      : minuteOfDay >= quiet.start || minuteOfDay < quiet.end;
+  if (!inQuietHours) return null;
+  // Overnight ranges that started yesterday end later today; ones that started today end tomorrow.
+  const endDay = minuteOfDay < quiet.end ? wall : shiftWallClockDays(wall, 1);
+  return fromWallClock(
+    { ...endDay, hour: Math.floor(quiet.end / 60), minute: quiet.end % 60, second: 0 },
+    preferences.timeZone,
+  );
+}
+
+async function handleGetDeliveryPreferences(deviceId: string, env: Env): Promise<Response> {
+  if (!(await getDeviceRecord(env, deviceId))) {
+    return jsonResponse({ error: "Unknown device" }, 404);
+  }
+  return jsonResponse(serializeDeliveryPreferences(await getDeliveryPreferences(env, deviceId)));
+}
+
+async function handleSaveDeliveryPreferences(request: Request, deviceId: string, env: Env): Promise<Response> {
+  if (!(await getDeviceRecord(env, deviceId))) {
+    return jsonResponse({ error: "Unknown device" }, 404);
+  }
+  const body = await parseJson(request);
+  if (!body || typeof body !== "object") {
+    return jsonResponse({ error: "Invalid JSON" }, 400);
+  }
+  const { timeZone, quietHours, digestWindowMinutes, agenda } = body;
+  if (typeof timeZone !== "string" || !isSupportedTimeZone(timeZone)) {
+    return jsonResponse({ error: "timeZone must be an IANA time zone" }, 400);
+  }
+  let quietStart: number | null = null;
+  let quietEnd: number | null = null;
+  if (quietHours) {
+    quietStart = parseClockTime(quietHours.start);
+    quietEnd = parseClockTime(quietHours.end);
+    if (quietStart === null || quietEnd === null || quietStart === quietEnd) {
+      return jsonResponse({ error: "quietHours needs distinct HH:MM start and end times" }, 400);
+    }
+  }
+  const digestWindow = digestWindowMinutes === undefined ? 0 : Number(digestWindowMinutes);
+  if (!Number.isInteger(digestWindow) || digestWindow < 0 || digestWindow > MAX_DIGEST_WINDOW_MINUTES) {
+    return jsonResponse({ error: `digestWindowMinutes must be between 0 and ${MAX_DIGEST_WINDOW_MINUTES}` }, 400);
+  }
+  const agendaEnabled = agenda?.enabled === true;
+  const agendaMinute = agenda?.time === undefined ? DEFAULT_AGENDA_MINUTE : parseClockTime(agenda.time);
+  if (agendaMinute === null) {
+    return jsonResponse({ error: "agenda.time must be HH:MM" }, 400);
+  }
+
+  const db = requireDb(env);
+  const statements = [
+    db
+      .prepare(
+        `INSERT INTO device_preferences (
+           device_id, time_zone, quiet_start, quiet_end, digest_window_minutes, agenda_enabled, agenda_minute, updated_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(device_id) DO UPDATE SET
+           time_zone = excluded.time_zone,
+           quiet_start = excluded.quiet_start,
+           quiet_end = excluded.quiet_end,
+           digest_window_minutes = excluded.digest_window_minutes,
+           agenda_enabled = excluded.agenda_enabled,
+           agenda_minute = excluded.agenda_minute,
+           updated_at = excluded.updated_at`,
+      )
+      .bind(deviceId, timeZone, quietStart, quietEnd, digestWindow, agendaEnabled ? 1 : 0, agendaMinute, Date.now()),
+  ];
+  if (!agendaEnabled) {
+    statements.push(db.prepare("DELETE FROM agenda_tasks WHERE device_id = ?").bind(deviceId));
+  }
+  await db.batch(statements);
+
+  return jsonResponse(serializeDeliveryPreferences(await getDeliveryPreferences(env, deviceId)));
+}
+
 async function processDueReminders(env: Env): Promise<void> {
   const now = Date.now();
   const batchSize = 256;
   const db = requireDb(env);
+  await fanOutAccountReminders(env, now);
 
   // Process in batches to keep cron executions bounded.
   while (true) {
     const dueResult = await db
       .prepare<ReminderRow>(
-        `SELECT device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at
+        `SELECT device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at, recurrence, time_zone
          FROM reminders
          WHERE send_at <= ?
          ORDER BY send_at
@@ -2381,13 +3497,6 @@ async function processDueReminders(env: Env): Promise<void> {
       break;
     }
 
-    const deleteStatements = dueReminders.map((reminder) =>
-      db
-        .prepare("DELETE FROM reminders WHERE device_id = ? AND reminder_key = ?")
-        .bind(reminder.device_id, reminder.reminder_key),
-    );
-    await db.batch(deleteStatements);
-
     const grouped = new Map<string, ReminderRow[]>();
     for (const reminder of dueReminders) {
       const existing = grouped.get(reminder.device_id);
@@ -2398,22 +3507,70 @@ async function processDueReminders(env: Env): Promise<void> {
       }
     }
 
+    const statements: D1PreparedStatement[] = [];
+    const deliveries: { deviceId: string; device: DeviceRecord; reminders: ReminderRow[]; digest: boolean }[] = [];
     for (const [deviceId, reminders] of grouped) {
       const device = await getDeviceRecord(env, deviceId);
-      if (!device) {
-        await db.prepare("DELETE FROM pending_notifications WHERE device_id = ?").bind(deviceId).run();
+      const preferences = device ? await getDeliveryPreferences(env, deviceId) : null;
+      const quietUntil = preferences ? quietHoursEnd(preferences, now) : null;
+      if (device && quietUntil !== null) {
+        // Hold everything until quiet hours end; only the send time moves.
+        for (const reminder of reminders) {
+          statements.push(
+            db
+              .prepare("UPDATE reminders SET send_at = ? WHERE device_id = ? AND reminder_key = ?")
+              .bind(quietUntil, deviceId, reminder.reminder_key),
+          );
+        }
         continue;
       }
+
+      let batch = reminders;
+      const digestWindow = preferences?.digestWindowMinutes ?? 0;
+      if (device && digestWindow > 0) {
+        // Pull reminders due within the digest window forward so they arrive as one notification.
+        const upcoming = await db
+          .prepare<ReminderRow>(
+            `SELECT device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at, recurrence, time_zone
+             FROM reminders
+             WHERE device_id = ? AND send_at > ? AND send_at <= ?
+             ORDER BY send_at`,
+          )
+          .bind(deviceId, now, now + digestWindow * MINUTE_MS)
+          .all<ReminderRow>();
+        batch = reminders.concat(upcoming.results ?? []);
+      }
+
+      // Recurring reminders are rescheduled to their next occurrence; everything else is consumed.
+      for (const reminder of batch) {
+        const next = scheduleNextRecurringReminder(reminder, Math.max(now, reminder.send_at));
+        statements.push(
+          next
+            ? db
+                .prepare("UPDATE reminders SET due_iso = ?, send_at = ? WHERE device_id = ? AND reminder_key = ?")
+                .bind(next.dueISO, next.sendAt, deviceId, reminder.reminder_key)
+            : db.prepare("DELETE FROM reminders WHERE device_id = ? AND reminder_key = ?").bind(deviceId, reminder.reminder_key),
+        );
+      }
+
+      if (device) {
+        deliveries.push({ deviceId, device, reminders: batch, digest: digestWindow > 0 && batch.length > 1 });
+      } else {
+        statements.push(db.prepare("DELETE FROM pending_notifications WHERE device_id = ?").bind(deviceId));
+      }
+    }
+    await db.batch(statements);
+
+    for (const { deviceId, device, reminders, digest } of deliveries) {
       const pendingNotifications: PendingReminder[] = reminders.map((reminder) => ({
         taskId: reminder.task_id,
         boardId: reminder.board_id ?? undefined,
         title: reminder.title,
         dueISO: reminder.due_iso,
         minutes: reminder.minutes,
+        kind: digest ? "digest" : "reminder",
       }));
-      await appendPending(env, deviceId, pendingNotifications);
-      const ttlSeconds = computeReminderTTL(pendingNotifications, now);
-      await sendPushPing(env, device, deviceId, ttlSeconds);
+      await deliverReminders(env, device, deviceId, pendingNotifications, now);
     }
 
     if (dueReminders.length < batchSize) {
@@ -2422,6 +3579,194 @@ async function processDueReminders(env: Env): Promise<void> {
   }
 }
 
+/**
+ * Copy account reminders into the delivery queue of every linked device, so each device applies its
+ * own quiet hours and digest window. Reminders are copied as soon as they fall inside a device's
+ * digest window; the reminder_fanout ledger keeps an occurrence from being copied to a device twice.
+ */
+async function fanOutAccountReminders(env: Env, now: number): Promise<void> {
+  const db = requireDb(env);
+  const accountsResult = await db
+    .prepare<{ pubkey: string }>("SELECT DISTINCT pubkey FROM account_reminders WHERE send_at <= ?")
+    .bind(now + MAX_DIGEST_WINDOW_MINUTES * MINUTE_MS)
+    .all<{ pubkey: string }>();
+
+  for (const { pubkey } of accountsResult.results ?? []) {
+    const devicesResult = await db
+      .prepare<{ device_id: string; digest_window_minutes: number }>(
+        `SELECT d.device_id, COALESCE(p.digest_window_minutes, 0) AS digest_window_minutes
+         FROM devices d
+         LEFT JOIN device_preferences p ON p.device_id = d.device_id
+         WHERE d.pubkey = ?`,
+      )
+      .bind(pubkey)
+      .all<{ device_id: string; digest_window_minutes: number }>();
+    const devices = devicesResult.results ?? [];
+    const lookahead = devices.reduce((max, device) => Math.max(max, device.digest_window_minutes), 0);
+
+    const remindersResult = await db
+      .prepare<AccountReminderRow>(
+        `SELECT pubkey, reminder_key, task_id, board_id, title, due_iso, minutes, send_at, recurrence, time_zone
+         FROM account_reminders
+         WHERE pubkey = ? AND send_at <= ?
+         ORDER BY send_at`,
+      )
+      .bind(pubkey, now + lookahead * MINUTE_MS)
+      .all<AccountReminderRow>();
+    const reminders = remindersResult.results ?? [];
+    if (!reminders.length) continue;
+
+    const fannedResult = await db
+      .prepare<{ device_id: string; reminder_key: string; send_at: number }>(
+        `SELECT f.device_id, f.reminder_key, f.send_at
+         FROM reminder_fanout f
+         JOIN devices d ON d.device_id = f.device_id
+         WHERE d.pubkey = ?`,
+      )
+      .bind(pubkey)
+      .all<{ device_id: string; reminder_key: string; send_at: number }>();
+    const fanned = new Set((fannedResult.results ?? []).map((row) => `${row.device_id}|${row.reminder_key}|${row.send_at}`));
+
+    const statements: D1PreparedStatement[] = [];
+    for (const device of devices) {
+      const horizon = now + device.digest_window_minutes * MINUTE_MS;
+      for (const reminder of reminders) {
+        if (reminder.send_at > horizon || fanned.has(`${device.device_id}|${reminder.reminder_key}|${reminder.send_at}`)) {
+          continue;
+        }
+        statements.push(
+          db
+            .prepare(
+              `INSERT INTO reminders (device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+               ON CONFLICT(device_id, reminder_key) DO UPDATE SET
+                 task_id = excluded.task_id,
+                 board_id = excluded.board_id,
+                 title = excluded.title,
+                 due_iso = excluded.due_iso,
+                 minutes = excluded.minutes,
+                 send_at = excluded.send_at`,
+            )
+            .bind(
+              device.device_id,
+              reminder.reminder_key,
+              reminder.task_id,
+              reminder.board_id,
+              reminder.title,
+              reminder.due_iso,
+              reminder.minutes,
+              reminder.send_at,
+            ),
+          db
+            .prepare("INSERT OR IGNORE INTO reminder_fanout (device_id, reminder_key, send_at) VALUES (?, ?, ?)")
+            .bind(device.device_id, reminder.reminder_key, reminder.send_at),
+        );
+      }
+    }
+
+    // Once due, the account's own copy moves on to the next occurrence or is consumed.
+    for (const reminder of reminders) {
+      if (reminder.send_at > now) continue;
+      const next = scheduleNextRecurringReminder(reminder, now);
+      statements.push(
+        next
+          ? db
+              .prepare("UPDATE account_reminders SET due_iso = ?, send_at = ? WHERE pubkey = ? AND reminder_key = ?")
+              .bind(next.dueISO, next.sendAt, pubkey, reminder.reminder_key)
+          : db.prepare("DELETE FROM account_reminders WHERE pubkey = ? AND reminder_key = ?").bind(pubkey, reminder.reminder_key),
+      );
+    }
+    if (statements.length) {
+      await db.batch(statements);
+    }
+  }
+
+  // A client re-sync may re-add an occurrence up to a minute after it fired; older ledger entries can go.
+  await db.prepare("DELETE FROM reminder_fanout WHERE send_at <= ?").bind(now - MINUTE_MS).run();
+  // A dismissal still waiting for its device's next reminder after a week has nothing left to close.
+  await db
+    .prepare("DELETE FROM pending_notifications WHERE kind = 'dismiss' AND created_at <= ?")
+    .bind(now - ONE_WEEK_MS)
+    .run();
+}
+
+// Send each opted-in device one agenda push listing the tasks due on its local "today".
+async function sendMorningAgendas(env: Env): Promise<void> {
+  const now = Date.now();
+  const db = requireDb(env);
+  const result = await db
+    .prepare<DevicePreferencesRow>(
+      `SELECT device_id, time_zone, quiet_start, quiet_end, digest_window_minutes, agenda_enabled, agenda_minute, agenda_last_sent
+       FROM device_preferences
+       WHERE agenda_enabled = 1`,
+    )
+    .all<DevicePreferencesRow>();
+
+  for (const row of result.results ?? []) {
+    const preferences = deliveryPreferencesFromRow(row);
+    const wall = toWallClock(now, preferences.timeZone);
+    const today = formatWallClockDate(wall);
+    const minuteOfDay = wall.hour * 60 + wall.minute;
+    if (row.agenda_last_sent === today) continue;
+    if (minuteOfDay < preferences.agenda.minute || minuteOfDay > preferences.agenda.minute + AGENDA_SEND_WINDOW_MINUTES) {
+      continue;
+    }
+    // Mark the day first so an overlapping cron run cannot send a second agenda.
+    await db
+      .prepare("UPDATE device_preferences SET agenda_last_sent = ? WHERE device_id = ?")
+      .bind(today, row.device_id)
+      .run();
+
+    const tasksResult = await db
+      .prepare<AgendaTaskRow>(
+        `SELECT task_id, board_id, title, due_iso
+         FROM agenda_tasks
+         WHERE device_id = ?
+         ORDER BY due_iso`,
+      )
+      .bind(row.device_id)
+      .all<AgendaTaskRow>();
+    const dueToday = (tasksResult.results ?? []).filter((task) => {
+      const due = Date.parse(task.due_iso);
+      return !Number.isNaN(due) && formatWallClockDate(toWallClock(due, preferences.timeZone)) === today;
+    });
+    if (!dueToday.length) continue;
+
+    const device = await getDeviceRecord(env, row.device_id);
+    if (!device) continue;
+    await deliverReminders(
+      env,
+      device,
+      row.device_id,
+      dueToday.map((task) => ({
+        taskId: task.task_id,
+        boardId: task.board_id ?? undefined,
+        title: task.title,
+        dueISO: task.due_iso,
+        minutes: 0,
+        kind: "agenda",
+      })),
+      now,
+    );
+  }
+}
+
+function scheduleNextRecurringReminder(
+  reminder: Pick<ReminderRow, "due_iso" | "minutes" | "recurrence" | "time_zone">,
+  now: number,
+): { dueISO: string; sendAt: number } | null {
+  if (!reminder.recurrence) return null;
+  let rule: Recurrence | null = null;
+  try {
+    rule = parseRecurrence(JSON.parse(reminder.recurrence));
+  } catch {
+    rule = null;
+  }
+  if (!rule) return null;
+  const timeZone = reminder.time_zone && isSupportedTimeZone(reminder.time_zone) ? reminder.time_zone : undefined;
+  return advanceRecurringReminder(reminder.due_iso, reminder.minutes, rule, timeZone, now);
+}
+
 async function appendPending(env: Env, deviceId: string, notifications: PendingReminder[]): Promise<void> {
   if (!notifications.length) return;
   const now = Date.now();
@@ -2429,8 +3774,8 @@ async function appendPending(env: Env, deviceId: string, notifications: PendingR
   const statements = notifications.map((notification) =>
     db
       .prepare(
-        `INSERT INTO pending_notifications (device_id, task_id, board_id, title, due_iso, minutes, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO pending_notifications (device_id, task_id, board_id, title, due_iso, minutes, created_at, kind)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
       )
       .bind(
         deviceId,
@@ -2440,6 +3785,7 @@ async function appendPending(env: Env, deviceId: string, notifications: PendingR
         notification.dueISO,
         notification.minutes,
         now,
+        notification.kind ?? null,
       ),
   );
   await db.batch(statements);
@@ -2450,12 +3796,13 @@ async function upsertDevice(env: Env, record: DeviceRecord, updatedAt: number):
   await db.batch([
     db
       .prepare(
-        `INSERT INTO devices (device_id, platform, endpoint, endpoint_hash, subscription_auth, subscription_p256dh, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)
+        `INSERT INTO devices (device_id, platform, endpoint, endpoint_hash, endpoint_key, subscription_auth, subscription_p256dh, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
          ON CONFLICT(device_id) DO UPDATE SET
            platform = excluded.platform,
            endpoint = excluded.endpoint,
            endpoint_hash = excluded.endpoint_hash,
+           endpoint_key = excluded.endpoint_key,
            subscription_auth = excluded.subscription_auth,
            subscription_p256dh = excluded.subscription_p256dh,
            updated_at = excluded.updated_at`,
@@ -2464,6 +3811,8 @@ async function upsertDevice(env: Env, record: DeviceRecord, updatedAt: number):
         record.deviceId,
         record.platform,
         record.subscription.endpoint,
+        // Unique per registration, since devices of several profiles may share the endpoint.
+        `${record.endpointHash}:${record.deviceId}`,
         record.endpointHash,
         record.subscription.keys.auth,
         record.subscription.keys.p256dh,
@@ -2476,19 +3825,20 @@ async function getDeviceRecord(env: Env, deviceId: string): Promise<DeviceRecord
   const db = requireDb(env);
   const row = await db
     .prepare<DeviceRow>(
-      `SELECT device_id, platform, endpoint, endpoint_hash, subscription_auth, subscription_p256dh
+      `SELECT device_id, platform, endpoint, endpoint_hash, endpoint_key, subscription_auth, subscription_p256dh, pubkey
        FROM devices
        WHERE device_id = ?`,
     )
     .bind(deviceId)
     .first<DeviceRow>();
-  if (!row) {
-    return migrateDeviceFromKv(env, deviceId);
-  }
+  return row ? deviceRecordFromRow(row) : null;
+}
+
+function deviceRecordFromRow(row: DeviceRow): DeviceRecord {
   return {
     deviceId: row.device_id,
     platform: row.platform,
-    endpointHash: row.endpoint_hash,
+    endpointHash: row.endpoint_key ?? row.endpoint_hash,
     subscription: {
       endpoint: row.endpoint,
       keys: {
@@ -2496,44 +3846,82 @@ async function getDeviceRecord(env: Env, deviceId: string): Promise<DeviceRecord
         p256dh: row.subscription_p256dh,
       },
     },
+    pubkey: row.pubkey ?? undefined,
   };
 }
 
-async function findDeviceIdByEndpoint(env: Env, endpoint: string): Promise<string | undefined> {
+async function getAccountDevices(env: Env, pubkey: string): Promise<DeviceRecord[]> {
+  const db = requireDb(env);
+  const result = await db
+    .prepare<DeviceRow>(
+      `SELECT device_id, platform, endpoint, endpoint_hash, endpoint_key, subscription_auth, subscription_p256dh, pubkey
+       FROM devices
+       WHERE pubkey = ?`,
+    )
+    .bind(pubkey)
+    .all<DeviceRow>();
+  return (result.results ?? []).map(deviceRecordFromRow);
+}
+
+// Devices registered for a push endpoint, most recently registered first. Each profile in a
+// browser registers its own device for the browser's one endpoint.
+async function findDeviceIdsByEndpoint(env: Env, endpoint: string): Promise<string[]> {
   const hash = await hashEndpoint(endpoint);
   const db = requireDb(env);
-  const row = await db
+  const result = await db
     .prepare<{ device_id: string }>(
       `SELECT device_id
        FROM devices
-       WHERE endpoint_hash = ?`,
+       WHERE endpoint_key = ?
+       ORDER BY updated_at DESC`,
     )
     .bind(hash)
-    .first<{ device_id: string }>();
-  if (row?.device_id) {
-    return row.device_id;
-  }
-  if (!env.TASKIFY_DEVICES) {
-    return undefined;
-  }
-  const legacyDeviceId = await env.TASKIFY_DEVICES.get(endpointKey(hash));
-  if (!legacyDeviceId) {
-    return undefined;
-  }
-  await migrateDeviceFromKv(env, legacyDeviceId);
-  return legacyDeviceId;
+    .all<{ device_id: string }>();
+  return (result.results ?? []).map((row) => row.device_id);
 }
 
-async function migrateDeviceFromKv(env: Env, deviceId: string): Promise<DeviceRecord | null> {
-  const kvDevices = env.TASKIFY_DEVICES;
-  if (!kvDevices) return null;
+// One-off imports of the KV records that predate D1, one page per scheduled run. Each imported key
+// is deleted from its namespace, so pages can be imported again after an interrupted run.
+function legacyKvImport(
+  name: string,
+  kv: KVNamespace | undefined,
+  prefix: string,
+  importKey: (kv: KVNamespace, key: string) => Promise<void>,
+): DataImport {
+  return {
+    name,
+    runPage: async (cursor) => {
+      if (!kv) return null;
+      const page = await kv.list({ prefix, cursor: cursor ?? undefined, limit: LEGACY_KV_IMPORT_PAGE_SIZE });
+      for (const key of page.keys) {
+        await importKey(kv, key.name);
+      }
+      return page.list_complete ? null : page.cursor ?? null;
+    },
+  };
+}
 
-  const raw = await kvDevices.get(deviceKey(deviceId));
-  if (!raw) return null;
+// Devices go first: reminders and pending payloads are only kept for devices already in D1.
+function buildLegacyKvImports(env: Env): DataImport[] {
+  return [
+    legacyKvImport("legacy_kv_devices", env.TASKIFY_DEVICES, DEVICE_KEY_PREFIX, (kv, key) => importLegacyKvDevice(env, kv, key)),
+    // Endpoint index entries whose device record is gone point nowhere.
+    legacyKvImport("legacy_kv_endpoints", env.TASKIFY_DEVICES, ENDPOINT_KEY_PREFIX, (kv, key) => kv.delete(key).catch(() => {})),
+    legacyKvImport("legacy_kv_reminders", env.TASKIFY_REMINDERS, REMINDERS_KEY_PREFIX, (kv, key) => importLegacyKvReminders(env, kv, key)),
+    legacyKvImport("legacy_kv_pending", env.TASKIFY_PENDING, PENDING_KEY_PREFIX, (kv, key) => importLegacyKvPending(env, kv, key)),
+  ];
+}
+
+async function importLegacyKvPage(env: Env): Promise<void> {
+  if (legacyKvImportsDone) return;
+  legacyKvImportsDone = !(await runDataImportPage(requireDb(env), buildLegacyKvImports(env)));
+}
 
+async function importLegacyKvDevice(env: Env, kvDevices: KVNamespace, key: string): Promise<void> {
+  const raw = await kvDevices.get(key);
   let parsed: DeviceRecord | null = null;
   try {
-    const maybe = JSON.parse(raw) as DeviceRecord;
+    const maybe = raw ? (JSON.parse(raw) as DeviceRecord) : null;
     if (
       maybe &&
       typeof maybe.deviceId === "string" &&
@@ -2547,103 +3935,74 @@ async function migrateDeviceFromKv(env: Env, deviceId: string): Promise<DeviceRe
       parsed = maybe;
     }
   } catch (err) {
-    console.warn("Failed to parse legacy device record", deviceId, err);
-    return null;
+    console.warn("Failed to parse legacy device record", key, err);
   }
 
-  if (!parsed) return null;
-
-  if (!parsed.endpointHash) {
-    parsed.endpointHash = await hashEndpoint(parsed.subscription.endpoint);
+  if (parsed) {
+    if (!parsed.endpointHash) {
+      parsed.endpointHash = await hashEndpoint(parsed.subscription.endpoint);
+    }
+    await upsertDevice(env, parsed, Date.now());
+    await kvDevices.delete(`${ENDPOINT_KEY_PREFIX}${parsed.endpointHash}`).catch(() => {});
   }
-
-  await upsertDevice(env, parsed, Date.now());
-
-  await migrateRemindersFromKv(env, deviceId);
-  await migratePendingFromKv(env, deviceId);
-
-  await Promise.all([
-    kvDevices.delete(deviceKey(deviceId)).catch(() => {}),
-    parsed.endpointHash ? kvDevices.delete(endpointKey(parsed.endpointHash)).catch(() => {}) : Promise.resolve(),
-  ]);
-
-  return parsed;
+  await kvDevices.delete(key).catch(() => {});
 }
 
-async function migrateRemindersFromKv(env: Env, deviceId: string): Promise<void> {
-  const kvReminders = env.TASKIFY_REMINDERS;
-  if (!kvReminders) return;
-
-  const raw = await kvReminders.get(remindersKey(deviceId));
-  if (!raw) return;
-
+async function importLegacyKvReminders(env: Env, kvReminders: KVNamespace, key: string): Promise<void> {
+  const db = requireDb(env);
+  const deviceId = key.slice(REMINDERS_KEY_PREFIX.length);
+  const raw = await kvReminders.get(key);
   let entries: ReminderEntry[] = [];
   try {
-    const maybe = JSON.parse(raw);
+    const maybe = raw ? JSON.parse(raw) : null;
     if (Array.isArray(maybe)) {
       entries = maybe as ReminderEntry[];
     }
   } catch (err) {
     console.warn("Failed to parse legacy reminders", { deviceId, err });
-    entries = [];
-  }
-
-  if (!entries.length) {
-    await kvReminders.delete(remindersKey(deviceId)).catch(() => {});
-    return;
   }
 
-  const db = requireDb(env);
-  const statements = [db.prepare("DELETE FROM reminders WHERE device_id = ?").bind(deviceId)];
-  entries.sort((a, b) => (a?.sendAt ?? 0) - (b?.sendAt ?? 0));
-  for (const entry of entries) {
-    if (!entry || typeof entry.reminderKey !== "string" || typeof entry.taskId !== "string") continue;
-    if (typeof entry.title !== "string" || typeof entry.dueISO !== "string" || typeof entry.minutes !== "number") continue;
-    if (typeof entry.sendAt !== "number") continue;
-    statements.push(
-      db
-        .prepare(
-          `INSERT INTO reminders (device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  if (entries.length && (await getDeviceRecord(env, deviceId))) {
+    const statements = [db.prepare("DELETE FROM reminders WHERE device_id = ?").bind(deviceId)];
+    for (const entry of entries) {
+      if (!entry || typeof entry.reminderKey !== "string" || typeof entry.taskId !== "string") continue;
+      if (typeof entry.title !== "string" || typeof entry.dueISO !== "string" || typeof entry.minutes !== "number") continue;
+      if (typeof entry.sendAt !== "number") continue;
+      statements.push(
+        db
+          .prepare(
+            `INSERT OR REPLACE INTO reminders (device_id, reminder_key, task_id, board_id, title, due_iso, minutes, send_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
           )
-        .bind(
-          deviceId,
-          entry.reminderKey,
-          entry.taskId,
-          entry.boardId ?? null,
-          entry.title,
-          entry.dueISO,
-          entry.minutes,
-          entry.sendAt,
-        ),
-    );
-  }
-
-  if (statements.length > 1) {
+          .bind(
+            deviceId,
+            entry.reminderKey,
+            entry.taskId,
+            entry.boardId ?? null,
+            entry.title,
+            entry.dueISO,
+            entry.minutes,
+            entry.sendAt,
+          ),
+      );
+    }
     await db.batch(statements);
-  } else {
-    await statements[0].run();
   }
-
-  await kvReminders.delete(remindersKey(deviceId)).catch(() => {});
+  await kvReminders.delete(key).catch(() => {});
 }
 
-async function migratePendingFromKv(env: Env, deviceId: string): Promise<void> {
-  const kvPending = env.TASKIFY_PENDING;
-  if (!kvPending) return;
-
-  const raw = await kvPending.get(pendingKey(deviceId));
-  if (!raw) return;
-
+async function importLegacyKvPending(env: Env, kvPending: KVNamespace, key: string): Promise<void> {
+  const db = requireDb(env);
+  const deviceId = key.slice(PENDING_KEY_PREFIX.length);
+  const raw = await kvPending.get(key);
   let entries: PendingReminder[] = [];
   try {
-    const maybe = JSON.parse(raw);
+    const maybe = raw ? JSON.parse(raw) : null;
     if (Array.isArray(maybe)) {
       entries = maybe as PendingReminder[];
     }
   } catch (err) {
     console.warn("Failed to parse legacy pending payload", { deviceId, err });
-    entries = [];
   }
 
   const normalized = entries.filter(
@@ -2654,32 +4013,11 @@ async function migratePendingFromKv(env: Env, deviceId: string): Promise<void> {
       typeof entry.dueISO === "string" &&
       typeof entry.minutes === "number",
   );
-
-  if (!normalized.length) {
-    await kvPending.delete(pendingKey(deviceId)).catch(() => {});
-    return;
+  if (normalized.length && (await getDeviceRecord(env, deviceId))) {
+    await db.prepare("DELETE FROM pending_notifications WHERE device_id = ?").bind(deviceId).run();
+    await appendPending(env, deviceId, normalized);
   }
-
-  const db = requireDb(env);
-  await db.prepare("DELETE FROM pending_notifications WHERE device_id = ?").bind(deviceId).run();
-  await appendPending(env, deviceId, normalized);
-  await kvPending.delete(pendingKey(deviceId)).catch(() => {});
-}
-
-function deviceKey(deviceId: string): string {
-  return `device:${deviceId}`;
-}
-
-function remindersKey(deviceId: string): string {
-  return `reminders:${deviceId}`;
-}
-
-function pendingKey(deviceId: string): string {
-  return `pending:${deviceId}`;
-}
-
-function endpointKey(hash: string): string {
-  return `endpoint:${hash}`;
+  await kvPending.delete(key).catch(() => {});
 }
 
 function computeReminderTTL(reminders: PendingReminder[], now: number): number {
@@ -2694,34 +4032,97 @@ function computeReminderTTL(reminders: PendingReminder[], now: number): number {
   return Math.max(300, Math.min(86400, ttl));
 }
 
-async function sendPushPing(env: Env, device: DeviceRecord, deviceId: string, ttlSeconds: number): Promise<void> {
+type PushSendResult = "sent" | "expired" | "failed";
+
+// Deliver reminders inside an encrypted push payload when possible. Payloads that are too large, or
+// subscriptions that reject encrypted content, fall back to an empty ping plus the pending poll queue.
+// Queued dismissals ride along in the payload; on the fallback path the poll returns them.
+async function deliverReminders(
+  env: Env,
+  device: DeviceRecord,
+  deviceId: string,
+  reminders: PendingReminder[],
+  now: number,
+): Promise<void> {
+  const db = requireDb(env);
+  const dismissalRows = await db
+    .prepare<Pick<PendingRow, "id" | "task_id" | "due_iso">>(
+      "SELECT id, task_id, due_iso FROM pending_notifications WHERE device_id = ? AND kind = 'dismiss'",
+    )
+    .bind(deviceId)
+    .all<Pick<PendingRow, "id" | "task_id" | "due_iso">>();
+  const dismissals = dismissalRows.results ?? [];
+  const ttlSeconds = computeReminderTTL(reminders, now);
+  const payload = new TextEncoder().encode(
+    JSON.stringify({
+      type: "reminders",
+      deviceId,
+      reminders: [
+        ...reminders,
+        ...dismissals.map((row) => ({ taskId: row.task_id, title: "", dueISO: row.due_iso, minutes: 0, kind: "dismiss" })),
+      ],
+    }),
+  );
+  if (payload.length <= MAX_PUSH_PAYLOAD_BYTES) {
+    const result = await sendPushMessage(env, device, deviceId, ttlSeconds, payload);
+    if (result === "sent" && dismissals.length) {
+      await db.batch(dismissals.map((row) => db.prepare("DELETE FROM pending_notifications WHERE id = ?").bind(row.id)));
+    }
+    if (result !== "failed") {
+      return;
+    }
+  }
+  await appendPending(env, deviceId, reminders);
+  await sendPushMessage(env, device, deviceId, ttlSeconds);
+}
+
+async function sendPushMessage(
+  env: Env,
+  device: DeviceRecord,
+  deviceId: string,
+  ttlSeconds: number,
+  payload?: Uint8Array,
+): Promise<PushSendResult> {
   try {
     const endpoint = device.subscription.endpoint;
     const url = new URL(endpoint);
     const aud = `${url.protocol}//${url.host}`;
     const token = await createVapidJWT(env, aud);
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        TTL: String(ttlSeconds),
-        Authorization: `WebPush ${token}`,
-        "Crypto-Key": `p256ecdsa=${env.VAPID_PUBLIC_KEY}`,
-        "Content-Length": "0",
-      },
-    });
+    const headers: Record<string, string> = {
+      TTL: String(ttlSeconds),
+      Authorization: `WebPush ${token}`,
+      "Crypto-Key": `p256ecdsa=${env.VAPID_PUBLIC_KEY}`,
+    };
+    let body: Uint8Array | undefined;
+    if (payload) {
+      body = await encryptWebPushPayload(
+        payload,
+        base64UrlDecode(device.subscription.keys.p256dh),
+        base64UrlDecode(device.subscription.keys.auth),
+      );
+      headers["Content-Encoding"] = "aes128gcm";
+      headers["Content-Type"] = "application/octet-stream";
+      headers["Content-Length"] = String(body.length);
+    } else {
+      headers["Content-Length"] = "0";
+    }
+    const response = await fetch(endpoint, { method: "POST", headers, body });
 
     if (response.status === 404 || response.status === 410) {
       console.warn("Subscription expired", deviceId);
       await handleDeleteDevice(deviceId, env);
-      return;
+      return "expired";
     }
 
     if (!response.ok) {
       const text = await response.text();
-      console.warn("Push ping failed", response.status, text);
+      console.warn(payload ? "Encrypted push failed" : "Push ping failed", response.status, text);
+      return "failed";
     }
+    return "sent";
   } catch (err) {
-    console.error("Push ping error", err);
+    console.error(payload ? "Encrypted push error" : "Push ping error", err);
+    return "failed";
   }
 }
 
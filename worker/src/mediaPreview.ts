@@ -0,0 +1,533 @@
+// Metadata sniffing for direct links to images, PDFs and audio/video files, which have no HTML to parse.
+
+export type MediaKind = "image" | "pdf" | "video" | "audio";
+
+export type MediaDetails = {
+  kind: MediaKind;
+  title?: string;
+  width?: number;
+  height?: number;
+  pageCount?: number;
+  durationSeconds?: number;
+  // Embedded cover art as a data: URL; direct media files have no separate poster to link to.
+  poster?: string;
+};
+
+// Reads `length` bytes at `start` of the same resource, or null when the server will not serve ranges.
+export type ByteRangeReader = (start: number, length: number) => Promise<Uint8Array | null>;
+
+const PDF_TAIL_BYTES = 256_000;
+const PDF_MAX_OBJECT_STREAMS = 24;
+const PDF_MAX_INFLATED_BYTES = 2_000_000;
+const MOOV_MAX_BYTES = 1_500_000;
+const MAX_POSTER_BYTES = 48_000;
+const MP3_SYNC_SEARCH_BYTES = 4096;
+
+const EXTENSION_KINDS: Record<string, MediaKind> = {
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  gif: "image",
+  webp: "image",
+  avif: "image",
+  svg: "image",
+  pdf: "pdf",
+  mp4: "video",
+  m4v: "video",
+  mov: "video",
+  webm: "video",
+  mp3: "audio",
+  m4a: "audio",
+  aac: "audio",
+  wav: "audio",
+  flac: "audio",
+  ogg: "audio",
+  opus: "audio",
+};
+
+// MPEG audio bitrates in kbps by [version family][layer], index 0 meaning "free format".
+const MP3_BITRATES = {
+  v1: {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  },
+  v2: {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  },
+} as const;
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+/** The media kind for a response, from its Content-Type or, for generic binary types, the URL's extension. */
+export function mediaKindForResponse(contentType: string | null, url: string): MediaKind | null {
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (type.startsWith("image/")) return "image";
+  if (type === "application/pdf" || type === "application/x-pdf") return "pdf";
+  if (type.startsWith("video/")) return "video";
+  if (type.startsWith("audio/")) return "audio";
+  if (type && type !== "application/octet-stream" && type !== "binary/octet-stream") return null;
+  try {
+    const extension = new URL(url).pathname.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+    return extension ? (EXTENSION_KINDS[extension] ?? null) : null;
+  } catch {
+    return null;
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return start + length <= bytes.length ? latin1(bytes.subarray(start, start + length)) : "";
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(latin1(bytes));
+}
+
+function posterDataUrl(bytes: Uint8Array, mimeType: string): string | undefined {
+  if (!bytes.length || bytes.length > MAX_POSTER_BYTES) return undefined;
+  return `data:${mimeType};base64,${toBase64(bytes)}`;
+}
+
+function sniffImageMimeType(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "image/jpeg";
+  if (ascii(bytes, 1, 3) === "PNG") return "image/png";
+  return null;
+}
+
+function readImageDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length >= 24 && ascii(bytes, 1, 3) === "PNG" && ascii(bytes, 12, 4) === "IHDR") {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes.length >= 10 && ascii(bytes, 0, 4) === "GIF8") {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (bytes.length >= 30 && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === "VP8 ") {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      const width = (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1;
+      const height = (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1;
+      return { width, height };
+    }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset += 1;
+        continue;
+      }
+      const length = view.getUint16(offset + 2);
+      // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC).
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+// Modern PDFs keep most dictionaries in compressed object streams; inflate a bounded number of them.
+async function inflateObjectStreams(text: string): Promise<string> {
+  const inflated: string[] = [];
+  let total = 0;
+  let from = 0;
+  while (inflated.length < PDF_MAX_OBJECT_STREAMS && total < PDF_MAX_INFLATED_BYTES) {
+    const typeAt = text.indexOf("/ObjStm", from);
+    if (typeAt === -1) break;
+    from = typeAt + "/ObjStm".length;
+    const streamAt = text.indexOf("stream", typeAt);
+    if (streamAt === -1) break;
+    const dictionaryStart = text.lastIndexOf(" obj", typeAt);
+    if (!/\/FlateDecode/.test(text.slice(dictionaryStart === -1 ? typeAt : dictionaryStart, streamAt))) continue;
+    const dataStart = streamAt + "stream".length + (text.startsWith("\r\n", streamAt + 6) ? 2 : 1);
+    const dataEnd = text.indexOf("endstream", dataStart);
+    if (dataEnd === -1) break;
+    const data = text.slice(dataStart, dataEnd).replace(/\r?\n$/, "");
+    const output = await inflate(Uint8Array.from(data, (char) => char.charCodeAt(0)));
+    if (output) {
+      inflated.push(latin1(output));
+      total += output.length;
+    }
+    from = dataEnd;
+  }
+  return inflated.join("\n");
+}
+
+function decodePdfString(raw: string): string {
+  if (raw.charCodeAt(0) === 0xfe && raw.charCodeAt(1) === 0xff) {
+    let text = "";
+    for (let i = 2; i + 1 < raw.length; i += 2) {
+      text += String.fromCharCode((raw.charCodeAt(i) << 8) | raw.charCodeAt(i + 1));
+    }
+    return text;
+  }
+  return raw;
+}
+
+// A literal "(…)" string with balanced parentheses and escapes, or a "<hex>" string.
+function readPdfString(text: string, start: number): string | null {
+  let index = start;
+  while (/\s/.test(text[index] ?? "")) index += 1;
+  if (text[index] === "<") {
+    const end = text.indexOf(">", index);
+    if (end === -1) return null;
+    const hex = text.slice(index + 1, end).replace(/\s+/g, "");
+    const padded = hex.length % 2 ? `${hex}0` : hex;
+    let raw = "";
+    for (let i = 0; i < padded.length; i += 2) raw += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+    return decodePdfString(raw);
+  }
+  if (text[index] !== "(") return null;
+  const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+  let depth = 1;
+  let raw = "";
+  for (let i = index + 1; i < text.length; i += 1) {
+    const char = text[i];
+    if (char === "\\") {
+      const next = text[i + 1] ?? "";
+      const octal = text.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)?.[0];
+      if (octal) {
+        raw += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length;
+      } else if (next !== "\r" && next !== "\n") {
+        raw += escapes[next] ?? next;
+        i += 1;
+      } else {
+        i += 1;
+      }
+      continue;
+    }
+    if (char === "(") depth += 1;
+    if (char === ")" && --depth === 0) return decodePdfString(raw);
+    raw += char;
+  }
+  return null;
+}
+
+function readPdfTitle(text: string): string | undefined {
+  // Strings in encrypted documents cannot be read without the key.
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(text)) return undefined;
+  const xmpTitle = text.match(/<dc:title>[\s\S]*?<rdf:li[^>]*>([^<]+)<\/rdf:li>/);
+  if (xmpTitle) return xmpTitle[1].trim() || undefined;
+  // Only the document information dictionary counts; outline entries carry /Title too.
+  const infoRef = [...text.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)].pop();
+  if (!infoRef) return undefined;
+  const objectStart = text.search(new RegExp(`(?:^|\\s)${infoRef[1]}\\s+${infoRef[2]}\\s+obj\\b`));
+  if (objectStart === -1) return undefined;
+  const objectEnd = text.indexOf("endobj", objectStart);
+  const object = text.slice(objectStart, objectEnd === -1 ? undefined : objectEnd);
+  const titleIndex = object.search(/\/Title\b/);
+  if (titleIndex === -1) return undefined;
+  return readPdfString(object, titleIndex + "/Title".length)?.replace(/\s+/g, " ").trim() || undefined;
+}
+
+// The page tree root is the /Pages node with the largest /Count.
+function readPdfPageCount(text: string): number | undefined {
+  let best: number | undefined;
+  for (const match of text.matchAll(/\/Type\s*\/Pages\b/g)) {
+    const index = match.index ?? 0;
+    const window = text.slice(Math.max(0, index - 300), index + 300);
+    for (const count of window.matchAll(/\/Count\s+(\d+)/g)) {
+      const value = Number(count[1]);
+      if (Number.isFinite(value) && (best === undefined || value > best)) best = value;
+    }
+  }
+  return best;
+}
+
+async function readPdfDetails(head: Uint8Array, totalBytes: number | undefined, readRange?: ByteRangeReader): Promise<MediaDetails> {
+  let text = latin1(head);
+  // The trailer, and with it the information dictionary, usually sits at the end of the file.
+  if (readRange && totalBytes && totalBytes > head.length) {
+    const tailStart = Math.max(head.length, totalBytes - PDF_TAIL_BYTES);
+    const tail = await readRange(tailStart, totalBytes - tailStart);
+    if (tail) text += `\n${latin1(tail)}`;
+  }
+  let title = readPdfTitle(text);
+  let pageCount = readPdfPageCount(text);
+  if (!title || pageCount === undefined) {
+    const streams = await inflateObjectStreams(text);
+    if (streams) {
+      title ??= readPdfTitle(`${text}\n${streams}`);
+      pageCount ??= readPdfPageCount(streams);
+    }
+  }
+  return { kind: "pdf", title, pageCount };
+}
+
+type IsoBox = { type: string; start: number; headerSize: number; size: number };
+
+function readIsoBoxes(bytes: Uint8Array, start: number, end: number, baseOffset = 0): IsoBox[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: IsoBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > bytes.length) break;
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: ascii(bytes, offset + 4, 4), start: baseOffset + offset, headerSize, size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function childBox(bytes: Uint8Array, parent: IsoBox, type: string, skip = 0): IsoBox | undefined {
+  const start = parent.start + parent.headerSize + skip;
+  const end = Math.min(bytes.length, parent.start + parent.size);
+  return readIsoBoxes(bytes, start, end).find((box) => box.type === type);
+}
+
+function readMoovDetails(moov: Uint8Array, kind: MediaKind): MediaDetails {
+  const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+  const root = readIsoBoxes(moov, 0, moov.length).find((box) => box.type === "moov");
+  const details: MediaDetails = { kind };
+  if (!root) return details;
+  const mvhd = childBox(moov, root, "mvhd");
+  if (mvhd) {
+    const body = mvhd.start + mvhd.headerSize;
+    const version = moov[body];
+    const timescaleOffset = body + (version === 1 ? 20 : 12);
+    if (timescaleOffset + (version === 1 ? 12 : 8) <= moov.length) {
+      const timescale = view.getUint32(timescaleOffset);
+      const duration =
+        version === 1 ? Number(view.getBigUint64(timescaleOffset + 4)) : view.getUint32(timescaleOffset + 4);
+      if (timescale > 0 && duration > 0 && duration !== 0xffffffff) {
+        details.durationSeconds = Math.round((duration / timescale) * 10) / 10;
+      }
+    }
+  }
+  // iTunes-style metadata: moov/udta/meta/ilst holds the title and cover art.
+  const udta = childBox(moov, root, "udta");
+  const meta = udta ? childBox(moov, udta, "meta") : undefined;
+  const ilst = meta ? childBox(moov, meta, "ilst", 4) : undefined;
+  if (ilst) {
+    for (const item of readIsoBoxes(moov, ilst.start + ilst.headerSize, Math.min(moov.length, ilst.start + ilst.size))) {
+      const data = childBox(moov, item, "data");
+      if (!data) continue;
+      const valueStart = data.start + data.headerSize + 8;
+      const valueEnd = Math.min(moov.length, data.start + data.size);
+      const dataType = view.getUint32(data.start + data.headerSize) & 0xffffff;
+      const value = moov.subarray(valueStart, valueEnd);
+      if (item.type === "©nam" && dataType === 1) {
+        details.title = new TextDecoder().decode(value).trim() || undefined;
+      } else if (item.type === "covr" && !details.poster) {
+        details.poster = posterDataUrl(value, dataType === 14 ? "image/png" : "image/jpeg");
+      }
+    }
+  }
+  return details;
+}
+
+async function readIsoMediaDetails(head: Uint8Array, kind: MediaKind, readRange?: ByteRangeReader): Promise<MediaDetails> {
+  const boxes = readIsoBoxes(head, 0, head.length);
+  const moov = boxes.find((box) => box.type === "moov");
+  if (moov && moov.start + Math.min(moov.size, MOOV_MAX_BYTES) <= head.length) {
+    return readMoovDetails(head.subarray(moov.start), kind);
+  }
+  // moov after a large mdat: the top-level box sizes say where it starts.
+  const last = boxes[boxes.length - 1];
+  const moovStart = moov ? moov.start : last && last.type !== "moov" ? last.start + last.size : null;
+  if (moovStart === null || !readRange) return { kind };
+  const moovBytes = await readRange(moovStart, MOOV_MAX_BYTES);
+  if (!moovBytes) return { kind };
+  const found = readIsoBoxes(moovBytes, 0, moovBytes.length)[0];
+  return found?.type === "moov" ? readMoovDetails(moovBytes, kind) : { kind };
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+}
+
+function decodeId3Text(encoding: number, bytes: Uint8Array): string {
+  let text: string;
+  if (encoding === 1 || encoding === 2) {
+    // UTF-16 with a byte order mark (1) or big-endian without one (2).
+    let littleEndian = false;
+    let start = 0;
+    if (encoding === 1 && bytes.length >= 2 && (bytes[0] === 0xff || bytes[0] === 0xfe)) {
+      littleEndian = bytes[0] === 0xff;
+      start = 2;
+    }
+    text = "";
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+    }
+  } else {
+    text = encoding === 3 ? new TextDecoder().decode(bytes) : latin1(bytes);
+  }
+  return text.replace(/\0+$/, "").trim();
+}
+
+function readId3Tag(bytes: Uint8Array): { size: number; title?: string; poster?: string } {
+  if (ascii(bytes, 0, 3) !== "ID3") return { size: 0 };
+  const major = bytes[3];
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  const size = 10 + syncsafe(bytes, 6) + (hasFooter ? 10 : 0);
+  const result: { size: number; title?: string; poster?: string } = { size };
+  if (major < 3) return result;
+  let offset = 10;
+  const end = Math.min(bytes.length, size);
+  while (offset + 10 <= end) {
+    const id = ascii(bytes, offset, 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break;
+    const frameSize =
+      major === 4 ? syncsafe(bytes, offset + 4) : new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset + 4);
+    const body = bytes.subarray(offset + 10, Math.min(end, offset + 10 + frameSize));
+    if (id === "TIT2" && body.length > 1) {
+      result.title = decodeId3Text(body[0], body.subarray(1)) || undefined;
+    } else if (id === "APIC" && body.length > 4 && !result.poster) {
+      const encoding = body[0];
+      const mimeEnd = body.indexOf(0, 1);
+      const mimeType = mimeEnd > 1 ? latin1(body.subarray(1, mimeEnd)) : "image/jpeg";
+      // Skip the picture type byte and the description, whose terminator width depends on the encoding.
+      let index = mimeEnd + 2;
+      const wide = encoding === 1 || encoding === 2;
+      while (index < body.length && !(body[index] === 0 && (!wide || body[index + 1] === 0))) index += wide ? 2 : 1;
+      index += wide ? 2 : 1;
+      const image = body.subarray(index);
+      result.poster = posterDataUrl(image, sniffImageMimeType(image) ?? (mimeType.includes("/") ? mimeType : "image/jpeg"));
+    }
+    offset += 10 + frameSize;
+  }
+  return result;
+}
+
+function readMp3Duration(bytes: Uint8Array, audioStart: number, totalBytes: number | undefined): number | undefined {
+  // Allow for a little padding after the tag, but do not go looking for a sync word in arbitrary data.
+  let offset = audioStart;
+  const searchEnd = Math.min(bytes.length, audioStart + MP3_SYNC_SEARCH_BYTES);
+  while (offset + 4 <= searchEnd && !(bytes[offset] === 0xff && (bytes[offset + 1] & 0xe0) === 0xe0)) offset += 1;
+  if (offset + 4 > searchEnd) return undefined;
+  const versionBits = (bytes[offset + 1] >> 3) & 0x3;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x3;
+  if (versionBits === 1 || layerBits === 0) return undefined;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = MP3_BITRATES[versionBits === 3 ? "v1" : "v2"][layer][bytes[offset + 2] >> 4] ?? 0;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits]?.[(bytes[offset + 2] >> 2) & 0x3];
+  if (!sampleRate) return undefined;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && versionBits !== 3 ? 576 : 1152;
+  const mono = (bytes[offset + 3] >> 6) === 3;
+  // A Xing/Info header in the first frame carries the exact frame count for VBR files.
+  const sideInfo = versionBits === 3 ? (mono ? 17 : 32) : mono ? 9 : 17;
+  const xing = offset + 4 + sideInfo;
+  const tag = ascii(bytes, xing, 4);
+  if ((tag === "Xing" || tag === "Info") && xing + 12 <= bytes.length) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.getUint32(xing + 4) & 0x1) {
+      const frames = view.getUint32(xing + 8);
+      if (frames > 0) return Math.round(((frames * samplesPerFrame) / sampleRate) * 10) / 10;
+    }
+  }
+  if (!bitrate || !totalBytes) return undefined;
+  return Math.round((((totalBytes - offset) * 8) / (bitrate * 1000)) * 10) / 10;
+}
+
+function readWavDuration(bytes: Uint8Array): number | undefined {
+  if (ascii(bytes, 0, 4) !== "RIFF" || ascii(bytes, 8, 4) !== "WAVE") return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === "fmt " && offset + 20 <= bytes.length) byteRate = view.getUint32(offset + 16, true);
+    if (id === "data") return byteRate ? Math.round((size / byteRate) * 10) / 10 : undefined;
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+}
+
+function readFlacDuration(bytes: Uint8Array): number | undefined {
+  // STREAMINFO is always the first metadata block: 20-bit sample rate, then 36-bit total samples.
+  if (ascii(bytes, 0, 4) !== "fLaC" || bytes.length < 26 || (bytes[4] & 0x7f) !== 0) return undefined;
+  const sampleRate = (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4);
+  const totalSamples = (bytes[21] & 0x0f) * 2 ** 32 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(22);
+  if (!sampleRate || !totalSamples) return undefined;
+  return Math.round((totalSamples / sampleRate) * 10) / 10;
+}
+
+async function readAudioVideoDetails(
+  kind: MediaKind,
+  head: Uint8Array,
+  totalBytes: number | undefined,
+  readRange?: ByteRangeReader,
+): Promise<MediaDetails> {
+  if (ascii(head, 4, 4) === "ftyp") {
+    return readIsoMediaDetails(head, kind, readRange);
+  }
+  if (ascii(head, 0, 4) === "RIFF") {
+    return { kind, durationSeconds: readWavDuration(head) };
+  }
+  if (ascii(head, 0, 4) === "fLaC") {
+    return { kind, durationSeconds: readFlacDuration(head) };
+  }
+  const id3 = readId3Tag(head);
+  const durationSeconds = readMp3Duration(head, id3.size, totalBytes);
+  if (id3.size || durationSeconds !== undefined) {
+    return { kind, title: id3.title, poster: id3.poster, durationSeconds };
+  }
+  return { kind };
+}
+
+/**
+ * Read what the first bytes of a media response (plus, where the server allows ranges, a second
+ * look further in) say about it. Anything that cannot be determined is left out.
+ */
+export async function readMediaDetails(
+  kind: MediaKind,
+  head: Uint8Array,
+  options: { totalBytes?: number; readRange?: ByteRangeReader } = {},
+): Promise<MediaDetails> {
+  try {
+    if (kind === "image") {
+      const dimensions = readImageDimensions(head);
+      return dimensions ? { kind, ...dimensions } : { kind };
+    }
+    if (kind === "pdf") {
+      return await readPdfDetails(head, options.totalBytes, options.readRange);
+    }
+    return await readAudioVideoDetails(kind, head, options.totalBytes, options.readRange);
+  } catch {
+    return { kind };
+  }
+}
@@ -0,0 +1,211 @@
+/* eslint-disable no-console */
+// Versioned schema migrations for the worker's D1 database, plus resumable data imports that run
+// a bounded page at a time outside the request path.
+
+interface MigrationStatement {
+  bind(...values: unknown[]): MigrationStatement;
+  first<U = unknown>(): Promise<U | null>;
+  all<U = unknown>(): Promise<{ results?: U[] }>;
+  run(): Promise<unknown>;
+}
+
+export interface MigrationDatabase {
+  prepare(query: string): MigrationStatement;
+  batch(statements: MigrationStatement[]): Promise<unknown[]>;
+}
+
+export type Migration = {
+  version: number;
+  name: string;
+  // Runs as one transaction together with its schema_migrations record.
+  sql: string;
+};
+
+export type DataImport = {
+  name: string;
+  // Imports one page starting at `cursor` (null for the first page) and returns the next cursor,
+  // or null once the source is exhausted. Pages must be safe to import again.
+  runPage: (cursor: string | null) => Promise<string | null>;
+};
+
+const LOCK_LEASE_MS = 30_000;
+const IMPORT_LEASE_MS = 5 * 60_000;
+const LOCK_POLL_MS = 250;
+const ADD_COLUMN_PATTERN = /^ALTER\s+TABLE\s+(\w+)\s+ADD\s+COLUMN\s+(\w+)/i;
+
+export function splitSqlStatements(sql: string): string[] {
+  return sql
+    .split("\n")
+    .map((line) => line.replace(/--.*$/, ""))
+    .join("\n")
+    .split(/;\s*(?:\n|$)/)
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+async function getAppliedVersions(db: MigrationDatabase): Promise<Set<number>> {
+  const result = await db.prepare("SELECT version FROM schema_migrations").all<{ version: number }>();
+  return new Set((result.results ?? []).map((row) => row.version));
+}
+
+// The lock is a single row holding a lease; an expired lease can be taken over by another isolate.
+async function acquireLock(db: MigrationDatabase, owner: string): Promise<boolean> {
+  const now = Date.now();
+  await db
+    .prepare(
+      `INSERT INTO schema_migration_lock (id, owner, expires_at)
+       VALUES (1, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         owner = excluded.owner,
+         expires_at = excluded.expires_at
+       WHERE schema_migration_lock.expires_at < ?`,
+    )
+    .bind(owner, now + LOCK_LEASE_MS, now)
+    .run();
+  const row = await db.prepare("SELECT owner FROM schema_migration_lock WHERE id = 1").first<{ owner: string }>();
+  return row?.owner === owner;
+}
+
+async function renewLock(db: MigrationDatabase, owner: string): Promise<void> {
+  await db
+    .prepare("UPDATE schema_migration_lock SET expires_at = ? WHERE id = 1 AND owner = ?")
+    .bind(Date.now() + LOCK_LEASE_MS, owner)
+    .run();
+}
+
+async function releaseLock(db: MigrationDatabase, owner: string): Promise<void> {
+  await db.prepare("DELETE FROM schema_migration_lock WHERE id = 1 AND owner = ?").bind(owner).run();
+}
+
+// Pragmas have no effect inside a transaction, and databases set up before migrations were tracked
+// may already have columns that later files add.
+async function applicableStatements(db: MigrationDatabase, statements: string[]): Promise<string[]> {
+  const columnsByTable = new Map<string, Set<string>>();
+  const kept: string[] = [];
+  for (const statement of statements) {
+    if (/^PRAGMA\s/i.test(statement)) continue;
+    const match = statement.match(ADD_COLUMN_PATTERN);
+    if (match) {
+      const [, table, column] = match;
+      let columns = columnsByTable.get(table);
+      if (!columns) {
+        const info = await db.prepare(`PRAGMA table_info(${table})`).all<{ name: string }>();
+        columns = new Set((info.results ?? []).map((row) => row.name));
+        columnsByTable.set(table, columns);
+      }
+      if (columns.has(column)) continue;
+    }
+    kept.push(statement);
+  }
+  return kept;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Apply every migration that is not yet recorded in `schema_migrations`, in version order.
+ * Concurrent isolates serialize on a lease lock; the ones that lose wait until the winner is done.
+ */
+export async function runMigrations(db: MigrationDatabase, migrations: Migration[]): Promise<void> {
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version INTEGER PRIMARY KEY,
+       name TEXT NOT NULL,
+       applied_at INTEGER NOT NULL
+     )`,
+  ).run();
+  await db.prepare(
+    `CREATE TABLE IF NOT EXISTS schema_migration_lock (
+       id INTEGER PRIMARY KEY CHECK (id = 1),
+       owner TEXT NOT NULL,
+       expires_at INTEGER NOT NULL
+     )`,
+  ).run();
+
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  const isCurrent = (applied: Set<number>) => ordered.every((migration) => applied.has(migration.version));
+  if (isCurrent(await getAppliedVersions(db))) return;
+
+  const owner = crypto.randomUUID();
+  const deadline = Date.now() + LOCK_LEASE_MS;
+  while (!(await acquireLock(db, owner))) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for schema migrations");
+    }
+    await wait(LOCK_POLL_MS);
+    if (isCurrent(await getAppliedVersions(db))) return;
+  }
+
+  try {
+    const applied = await getAppliedVersions(db);
+    for (const migration of ordered) {
+      if (applied.has(migration.version)) continue;
+      await renewLock(db, owner);
+      const record = db
+        .prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)")
+        .bind(migration.version, migration.name, Date.now());
+      const statements = await applicableStatements(db, splitSqlStatements(migration.sql));
+      await db.batch([...statements.map((statement) => db.prepare(statement)), record]);
+      console.info("Applied schema migration", migration.version, migration.name);
+    }
+  } finally {
+    await releaseLock(db, owner);
+  }
+}
+
+/**
+ * Advance the first unfinished import by one page and record its cursor in `data_imports`, so each
+ * call stays within a single invocation's limits and the next call resumes where this one stopped.
+ * Each page takes its own lease; a page whose import is leased elsewhere is skipped.
+ * Resolves to false once every import has finished.
+ */
+export async function runDataImportPage(db: MigrationDatabase, imports: DataImport[]): Promise<boolean> {
+  const result = await db
+    .prepare("SELECT name FROM data_imports WHERE completed_at IS NOT NULL")
+    .all<{ name: string }>();
+  const completed = new Set((result.results ?? []).map((row) => row.name));
+  const next = imports.find((entry) => !completed.has(entry.name));
+  if (!next) return false;
+
+  const owner = crypto.randomUUID();
+  const now = Date.now();
+  await db
+    .prepare(
+      `INSERT INTO data_imports (name, cursor, completed_at, lease_owner, lease_expires_at)
+       VALUES (?, NULL, NULL, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET
+         lease_owner = excluded.lease_owner,
+         lease_expires_at = excluded.lease_expires_at
+       WHERE data_imports.lease_expires_at IS NULL OR data_imports.lease_expires_at < ?`,
+    )
+    .bind(next.name, owner, now + IMPORT_LEASE_MS, now)
+    .run();
+  const row = await db
+    .prepare("SELECT cursor, lease_owner FROM data_imports WHERE name = ?")
+    .bind(next.name)
+    .first<{ cursor: string | null; lease_owner: string | null }>();
+  if (row?.lease_owner !== owner) return true;
+
+  let cursor: string | null;
+  try {
+    cursor = await next.runPage(row.cursor);
+  } catch (err) {
+    await db
+      .prepare("UPDATE data_imports SET lease_owner = NULL, lease_expires_at = NULL WHERE name = ? AND lease_owner = ?")
+      .bind(next.name, owner)
+      .run();
+    throw err;
+  }
+  await db
+    .prepare(
+      `UPDATE data_imports
+       SET cursor = ?, completed_at = ?, lease_owner = NULL, lease_expires_at = NULL
+       WHERE name = ? AND lease_owner = ?`,
+    )
+    .bind(cursor, cursor === null ? Date.now() : null, next.name, owner)
+    .run();
+  if (cursor === null) console.info("Finished data import", next.name);
+  return true;
+}
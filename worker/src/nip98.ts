@@ -0,0 +1,98 @@
+import { verifyEvent, type Event as NostrEvent } from "nostr-tools";
+
+const NIP98_EVENT_KIND = 27235;
+const NIP98_MAX_CLOCK_SKEW_SECONDS = 60;
+
+export type Nip98VerificationResult =
+  | { ok: true; pubkey: string }
+  | { ok: false; error: string };
+
+function decodeBase64Utf8(value: string): string {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function getTagValue(event: NostrEvent, name: string): string | undefined {
+  const tag = event.tags.find((entry) => Array.isArray(entry) && entry[0] === name);
+  return typeof tag?.[1] === "string" ? tag[1] : undefined;
+}
+
+function urlsMatch(signed: string, actual: URL): boolean {
+  try {
+    const parsed = new URL(signed);
+    return (
+      parsed.origin === actual.origin &&
+      parsed.pathname === actual.pathname &&
+      parsed.search === actual.search
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a NIP-98 `Authorization: Nostr <base64 event>` header against the request it accompanies.
+ * Checks the signature, kind, freshness, URL, method and (when a body is sent) the payload hash.
+ */
+export async function verifyNip98Authorization(
+  request: Request,
+  options: { body?: string; now?: number } = {},
+): Promise<Nip98VerificationResult> {
+  const header = request.headers.get("Authorization") || "";
+  const match = header.match(/^Nostr\s+(.+)$/i);
+  if (!match) {
+    return { ok: false, error: "Missing Nostr authorization" };
+  }
+
+  let event: NostrEvent;
+  try {
+    event = JSON.parse(decodeBase64Utf8(match[1].trim())) as NostrEvent;
+  } catch {
+    return { ok: false, error: "Malformed Nostr authorization" };
+  }
+  if (!event || typeof event !== "object" || !Array.isArray(event.tags)) {
+    return { ok: false, error: "Malformed Nostr authorization" };
+  }
+  if (event.kind !== NIP98_EVENT_KIND) {
+    return { ok: false, error: "Authorization event has the wrong kind" };
+  }
+  if (!verifyEvent(event)) {
+    return { ok: false, error: "Authorization signature is invalid" };
+  }
+
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+  if (typeof event.created_at !== "number" || Math.abs(nowSeconds - event.created_at) > NIP98_MAX_CLOCK_SKEW_SECONDS) {
+    return { ok: false, error: "Authorization has expired" };
+  }
+
+  const signedUrl = getTagValue(event, "u");
+  if (!signedUrl || !urlsMatch(signedUrl, new URL(request.url))) {
+    return { ok: false, error: "Authorization URL does not match" };
+  }
+
+  const signedMethod = getTagValue(event, "method");
+  if (!signedMethod || signedMethod.toUpperCase() !== request.method.toUpperCase()) {
+    return { ok: false, error: "Authorization method does not match" };
+  }
+
+  if (typeof options.body === "string" && options.body) {
+    const signedPayload = getTagValue(event, "payload");
+    if (!signedPayload) {
+      return { ok: false, error: "Authorization payload hash is required" };
+    }
+    if (signedPayload.toLowerCase() !== (await sha256Hex(options.body))) {
+      return { ok: false, error: "Authorization payload hash does not match" };
+    }
+  }
+
+  return { ok: true, pubkey: event.pubkey.toLowerCase() };
+}
@@ -0,0 +1,146 @@
+// Minimal nostr relay client for the worker: publish one event or run one query per connection.
+import { verifyEvent, type Event as NostrEvent, type Filter } from "nostr-tools";
+import { assertPublicUrl, isBlockedHostname } from "./previewGuard";
+
+const MAX_RELAYS = 8;
+
+export type RelayPublishResult = { relay: string; ok: boolean; message?: string };
+
+/**
+ * Keep the distinct wss:// relay URLs on public hosts from untrusted input, capped at a handful.
+ * Where the host resolves is checked again when a socket is opened.
+ */
+export function normalizeRelayList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const relays = new Set<string>();
+  for (const entry of value) {
+    if (typeof entry !== "string") continue;
+    try {
+      const url = new URL(entry.trim());
+      if (url.protocol !== "wss:" || url.username || url.password || isBlockedHostname(url.hostname)) continue;
+      relays.add(url.toString().replace(/\/$/, ""));
+    } catch {
+      continue;
+    }
+    if (relays.size >= MAX_RELAYS) break;
+  }
+  return [...relays];
+}
+
+// Workers open outbound sockets through fetch; relays are checked like preview destinations.
+async function openRelaySocket(relay: string, signal: AbortSignal): Promise<WebSocket> {
+  const httpUrl = relay.replace(/^ws/i, "http");
+  await assertPublicUrl(httpUrl);
+  const response = await fetch(httpUrl, { headers: { Upgrade: "websocket" }, signal });
+  const socket = response.webSocket;
+  if (!socket) {
+    throw new Error(`Relay did not accept the connection (HTTP ${response.status})`);
+  }
+  socket.accept();
+  return socket;
+}
+
+/**
+ * Send one message to a relay and feed its replies to `onMessage` until it calls `finish`.
+ * Timeouts, errors and early closes resolve with `fallback` instead of rejecting.
+ */
+async function exchangeWithRelay<T>(
+  relay: string,
+  outgoing: unknown[],
+  onMessage: (message: unknown[], finish: (value: T) => void) => void,
+  fallback: (reason: string) => T,
+  timeoutMs: number,
+): Promise<T> {
+  const controller = new AbortController();
+  let settle: (value: T) => void = () => {};
+  const result = new Promise<T>((resolve) => {
+    settle = resolve;
+  });
+  let socket: WebSocket | null = null;
+  let settled = false;
+  const finish = (value: T) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    controller.abort();
+    try {
+      socket?.close(1000, "done");
+    } catch {
+      // already closed
+    }
+    settle(value);
+  };
+  const timer = setTimeout(() => finish(fallback("Timed out")), timeoutMs);
+
+  try {
+    socket = await openRelaySocket(relay, controller.signal);
+  } catch (err) {
+    finish(fallback(err instanceof Error ? err.message : String(err)));
+    return result;
+  }
+  if (settled) {
+    socket.close(1000, "done");
+    return result;
+  }
+  socket.addEventListener("message", (event) => {
+    if (typeof event.data !== "string") return;
+    let message: unknown;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (Array.isArray(message)) onMessage(message, finish);
+  });
+  socket.addEventListener("close", () => finish(fallback("Connection closed")));
+  socket.addEventListener("error", () => finish(fallback("Connection failed")));
+  socket.send(JSON.stringify(outgoing));
+  return result;
+}
+
+export function publishToRelays(relays: string[], event: NostrEvent, timeoutMs: number): Promise<RelayPublishResult[]> {
+  return Promise.all(
+    relays.map((relay) =>
+      exchangeWithRelay<RelayPublishResult>(
+        relay,
+        ["EVENT", event],
+        (message, finish) => {
+          if (message[0] === "OK" && message[1] === event.id) {
+            const note = typeof message[3] === "string" && message[3] ? message[3] : undefined;
+            finish({ relay, ok: message[2] === true, message: note });
+          } else if (message[0] === "NOTICE" && typeof message[1] === "string") {
+            finish({ relay, ok: false, message: message[1] });
+          }
+        },
+        (reason) => ({ relay, ok: false, message: reason }),
+        timeoutMs,
+      ),
+    ),
+  );
+}
+
+/** Collect the signed events every relay returns for `filter` before EOSE or the timeout. */
+export async function queryRelays(relays: string[], filter: Filter, timeoutMs: number): Promise<NostrEvent[]> {
+  const subscriptionId = crypto.randomUUID().slice(0, 8);
+  const batches = await Promise.all(
+    relays.map((relay) => {
+      const events: NostrEvent[] = [];
+      return exchangeWithRelay<NostrEvent[]>(
+        relay,
+        ["REQ", subscriptionId, filter],
+        (message, finish) => {
+          if (message[1] !== subscriptionId) return;
+          if (message[0] === "EVENT" && message[2] && typeof message[2] === "object") {
+            const event = message[2] as NostrEvent;
+            if (verifyEvent(event)) events.push(event);
+          } else if (message[0] === "EOSE" || message[0] === "CLOSED") {
+            finish(events);
+          }
+        },
+        () => events,
+        timeoutMs,
+      );
+    }),
+  );
+  return batches.flat();
+}
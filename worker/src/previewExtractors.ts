@@ -0,0 +1,905 @@
+// Site-specific link preview extractors. Each provider declares which URLs it handles, how they
+// canonicalize and an ordered list of strategies; the fetch and HTML parsing helpers come from index.ts.
+import type { MediaKind } from "./mediaPreview";
+
+export type PreviewPayload = {
+  url: string;
+  finalUrl: string;
+  displayUrl: string;
+  title: string;
+  description?: string;
+  image?: string;
+  icon?: string;
+  siteName?: string;
+  // Set for direct links to files rather than pages.
+  media?: {
+    kind: MediaKind;
+    mimeType?: string;
+    sizeBytes?: number;
+    width?: number;
+    height?: number;
+    pageCount?: number;
+    durationSeconds?: number;
+  };
+};
+
+export type DerivedPreviewResult = {
+  preview: PreviewPayload | null;
+  rich: boolean;
+};
+
+export type PreviewMetadata = {
+  title?: string;
+  description?: string;
+  thumbnail?: string;
+  providerName?: string;
+};
+
+export type AlternatePreviewReason = "blocked" | "incomplete";
+
+export interface ExtractorToolkit {
+  // GET a JSON document from a public destination; null on any failure.
+  fetchJson(url: string, headers?: Record<string, string>): Promise<unknown>;
+  fetchHtml(url: string, referer?: string): Promise<{ html: string; finalUrl: string } | null>;
+  deriveFromHtml(requestedUrl: string, finalUrl: string, html: string): Promise<DerivedPreviewResult>;
+  fromMetadata(
+    requestedUrl: string,
+    finalUrl: string,
+    meta: PreviewMetadata,
+    extras?: { siteName?: string; fallbackImage?: string; icon?: string },
+  ): PreviewPayload;
+  fallbackTitle(url: string): string;
+  decodeEntities(raw: string): string;
+  truncateTitle(title: string): string;
+}
+
+export type ExtractorTarget = {
+  requestedUrl: string;
+  // The URL the page ended up at, or the requested one when it was never reached.
+  url: string;
+  canonicalUrl: string | null;
+  reason: AlternatePreviewReason;
+  needsUpgrade: boolean;
+  // Body of the original page when it was fetched.
+  html?: string;
+};
+
+export type ExtractorResult = {
+  preview: PreviewPayload;
+  // A complete result ends the search; others are kept as a fallback when they carry an image.
+  complete: boolean;
+  markFallback?: boolean;
+};
+
+type ExtractorStrategy = (target: ExtractorTarget, toolkit: ExtractorToolkit) => Promise<ExtractorResult | null>;
+
+export type PreviewExtractor = {
+  name: string;
+  matches(url: URL): boolean;
+  canonicalize?(url: string): string | null;
+  strategies: ExtractorStrategy[];
+};
+
+const DEFAULT_REFERER = "https://www.google.com/";
+const GITHUB_RESERVED_OWNERS = new Set([
+  "about",
+  "apps",
+  "collections",
+  "enterprise",
+  "explore",
+  "features",
+  "login",
+  "marketplace",
+  "new",
+  "notifications",
+  "orgs",
+  "pricing",
+  "pulls",
+  "search",
+  "settings",
+  "sponsors",
+  "topics",
+  "trending",
+]);
+const SPOTIFY_PATH_PATTERN = /^\/(?:intl-[a-z-]+\/)?(track|album|playlist|artist|episode|show)\/([A-Za-z0-9]+)/;
+const MASTODON_PATH_PATTERNS = [/^\/@([\w.-]+)\/(\d{6,})\/?$/, /^\/users\/([\w.-]+)\/statuses\/(\d{6,})\/?$/];
+const NOEMBED_HOSTS = ["vimeo.com", "soundcloud.com", "flickr.com", "dailymotion.com"];
+
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/\.$/, "");
+}
+
+function hostIs(url: URL, domain: string): boolean {
+  const host = hostOf(url);
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function sanitizeUrl(raw: string): string | null {
+  try {
+    const parsed = new URL(raw.trim());
+    return parsed.protocol === "https:" || parsed.protocol === "http:" ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function isCompletePreview(preview: PreviewPayload, toolkit: ExtractorToolkit): boolean {
+  return Boolean(preview.image && preview.title && preview.title !== toolkit.fallbackTitle(preview.finalUrl));
+}
+
+function safeParseJson(raw: string): any | null {
+  const text = raw.trim();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      // replace unescaped newlines which sometimes appear in JSON-LD
+      const normalized = text.replace(/\n/g, "\\n");
+      return JSON.parse(normalized);
+    } catch {
+      return null;
+    }
+  }
+}
+
+function extractImageFromJsonLd(node: any): string | undefined {
+  if (!node) return undefined;
+  if (typeof node === "string") {
+    const sanitized = sanitizeUrl(node);
+    return sanitized ?? undefined;
+  }
+  if (Array.isArray(node)) {
+    for (const entry of node) {
+      const found = extractImageFromJsonLd(entry);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+  if (typeof node === "object") {
+    const keys = ["image", "imageUrl", "thumbnailUrl", "contentUrl", "url"];
+    for (const key of keys) {
+      if (Object.prototype.hasOwnProperty.call(node, key)) {
+        const found = extractImageFromJsonLd((node as Record<string, unknown>)[key]);
+        if (found) {
+          return found;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function extractOgTitle(html: string, toolkit: ExtractorToolkit): string | undefined {
+  const patterns = [
+    /<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)/i,
+    /<meta[^>]+name=["']title["'][^>]+content=["']([^"']+)/i,
+    /<h1[^>]*>([^<]+)<\/h1>/i,
+  ];
+  for (const pattern of patterns) {
+    const match = pattern.exec(html);
+    if (match && match[1]) {
+      return toolkit.truncateTitle(toolkit.decodeEntities(match[1]));
+    }
+  }
+  return undefined;
+}
+
+function stripHtml(html: string, toolkit: ExtractorToolkit): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<\/p>\s*<p>/gi, " ")
+    .replace(/<[^>]+>/g, "");
+  return toolkit.decodeEntities(text).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Read an oEmbed (or noembed, which uses the same shape) response. `author_name` stands in for a
+ * missing description unless `describeAuthor` formats it differently.
+ */
+function readOEmbed(
+  json: unknown,
+  describeAuthor: (author: string) => string = (author) => author,
+): (PreviewMetadata & { url?: string }) | null {
+  if (!json || typeof json !== "object") return null;
+  const data = json as Record<string, unknown>;
+  if (stringField(data.error)) return null;
+  const author = stringField(data.author_name);
+  return {
+    title: stringField(data.title),
+    description: stringField(data.description) ?? (author ? describeAuthor(author) : undefined),
+    thumbnail: stringField(data.thumbnail_url),
+    providerName: stringField(data.provider_name),
+    url: stringField(data.url),
+  };
+}
+
+function oEmbedStrategy(
+  endpoint: (url: string) => string,
+  options: {
+    siteName?: string;
+    icon?: string;
+    describeAuthor?: (author: string) => string;
+    // Some providers answer with the listing's own URL, which is cleaner than the one we asked about.
+    useResponseUrl?: boolean;
+  } = {},
+): ExtractorStrategy {
+  return async (target, toolkit) => {
+    const url = target.canonicalUrl || target.url;
+    const meta = readOEmbed(await toolkit.fetchJson(endpoint(url)), options.describeAuthor);
+    if (!meta || !(meta.title || meta.thumbnail)) return null;
+    const finalUrl = (options.useResponseUrl && meta.url && sanitizeUrl(meta.url)) || url;
+    const preview = toolkit.fromMetadata(target.requestedUrl, finalUrl, meta, {
+      siteName: options.siteName,
+      icon: options.icon,
+    });
+    return {
+      preview,
+      complete: Boolean(preview.image && preview.title),
+      markFallback: target.needsUpgrade,
+    };
+  };
+}
+
+function noembedStrategy(
+  options: {
+    siteName?: string;
+    fallbackImage?: (url: string) => string | undefined;
+    // Providers with a canonical form only ask noembed about URLs that canonicalized.
+    requireCanonical?: boolean;
+  } = {},
+): ExtractorStrategy {
+  return async (target, toolkit) => {
+    const url = target.canonicalUrl ?? (options.requireCanonical ? null : target.url);
+    if (!url) return null;
+    const endpoint = `https://noembed.com/embed?nowrap=1&url=${encodeURIComponent(url)}`;
+    const meta = readOEmbed(await toolkit.fetchJson(endpoint));
+    if (!meta || !(meta.title || meta.thumbnail)) return null;
+    const preview = toolkit.fromMetadata(target.requestedUrl, url, meta, {
+      siteName: options.siteName,
+      fallbackImage: options.fallbackImage?.(url),
+    });
+    return { preview, complete: isCompletePreview(preview, toolkit), markFallback: true };
+  };
+}
+
+// Fetch an alternate rendering of the page (usually a mobile one) and parse it like the original.
+function alternateHtmlStrategy(
+  alternateUrl: (target: ExtractorTarget) => string | null,
+  refine: (preview: PreviewPayload, html: string, target: ExtractorTarget, toolkit: ExtractorToolkit) => void,
+  options: { markFallback: (target: ExtractorTarget) => boolean },
+): ExtractorStrategy {
+  return async (target, toolkit) => {
+    if (target.reason !== "blocked" && !target.needsUpgrade) return null;
+    const url = alternateUrl(target);
+    if (!url) return null;
+    const alternate = await toolkit.fetchHtml(url, DEFAULT_REFERER);
+    if (!alternate) return null;
+    const derived = await toolkit.deriveFromHtml(target.requestedUrl, alternate.finalUrl || url, alternate.html);
+    if (!derived.preview) return null;
+    refine(derived.preview, alternate.html, target, toolkit);
+    return { preview: derived.preview, complete: derived.rich, markFallback: options.markFallback(target) };
+  };
+}
+
+function extractYouTubeId(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname.endsWith("youtu.be")) {
+      const id = parsed.pathname.replace(/^\/+/, "");
+      return id || null;
+    }
+    if (parsed.hostname.includes("youtube.")) {
+      const id = parsed.searchParams.get("v");
+      if (id) return id;
+      const match = parsed.pathname.match(/\/(?:embed|shorts|live)\/([a-zA-Z0-9_-]{6,})/);
+      if (match) return match[1];
+    }
+  } catch {
+    /* ignore */
+  }
+  return null;
+}
+
+function canonicalizeYouTubeUrl(url: string): string | null {
+  const id = extractYouTubeId(url);
+  if (!id) return null;
+  return `https://www.youtube.com/watch?v=${id}`;
+}
+
+function youTubeThumbnail(url: string): string | undefined {
+  const id = extractYouTubeId(url);
+  return id ? `https://i.ytimg.com/vi/${id}/hqdefault.jpg` : undefined;
+}
+
+function extractAmazonAsin(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    const asinParam = parsed.searchParams.get("asin");
+    if (asinParam && /^[A-Z0-9]{10}$/i.test(asinParam)) {
+      return asinParam.toUpperCase();
+    }
+    const pathMatch = parsed.pathname.match(
+      /(?:dp|gp\/product|gp\/aw\/d|gp\/slredirect|gp\/aw\/olp|exec\/obidos\/asin)\/([A-Z0-9]{10})/i,
+    );
+    if (pathMatch) {
+      return pathMatch[1].toUpperCase();
+    }
+    const genericMatch = parsed.pathname.match(/\/([A-Z0-9]{10})(?:[/?]|$)/i);
+    if (genericMatch) {
+      return genericMatch[1].toUpperCase();
+    }
+  } catch {
+    /* ignore */
+  }
+  return null;
+}
+
+function canonicalizeAmazonUrl(url: string): string | null {
+  const asin = extractAmazonAsin(url);
+  if (!asin) return null;
+  return `https://www.amazon.com/dp/${asin}`;
+}
+
+function buildAmazonImageUrl(asin: string): string {
+  return `https://ws-na.amazon-adsystem.com/widgets/q?_encoding=UTF8&ASIN=${asin}&Format=_SL600_&ID=AsinImage&MarketPlace=US&ServiceVersion=20070822`;
+}
+
+function extractAmazonImageFromHtml(html: string, toolkit: ExtractorToolkit): string | undefined {
+  const patterns = [
+    /"hiRes":"(https:[^\"]+)"/i,
+    /"large":"(https:[^\"]+)"/i,
+    /"mainUrl":"(https:[^\"]+)"/i,
+    /"displayImgSrc":"(https:[^\"]+)"/i,
+    /data-old-hires="([^"]+)"/i,
+    /data-old-hires='([^']+)'/i,
+    /data-main-image-url="([^"]+)"/i,
+  ];
+  for (const pattern of patterns) {
+    const match = pattern.exec(html);
+    if (match && match[1]) {
+      const cleaned = toolkit.decodeEntities(match[1]).replace(/\\u0026/g, "&");
+      const sanitized = sanitizeUrl(cleaned);
+      if (sanitized) {
+        return sanitized;
+      }
+    }
+  }
+  return undefined;
+}
+
+function refineAmazonPreview(preview: PreviewPayload, html: string, target: ExtractorTarget, toolkit: ExtractorToolkit): void {
+  const asin = extractAmazonAsin(target.url) || extractAmazonAsin(target.requestedUrl);
+  const fallbackTitle = toolkit.fallbackTitle(preview.finalUrl || preview.url);
+  if (!preview.image) {
+    preview.image = extractAmazonImageFromHtml(html, toolkit) ?? (asin ? buildAmazonImageUrl(asin) : undefined);
+  }
+  if (!preview.title || preview.title === fallbackTitle) {
+    preview.title = extractOgTitle(html, toolkit) ?? (asin ? toolkit.truncateTitle(`Amazon product ${asin}`) : preview.title);
+  }
+}
+
+function extractEtsyListingId(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    const pathMatch = parsed.pathname.match(/\/listing\/(\d+)/i);
+    if (pathMatch) {
+      return pathMatch[1];
+    }
+    const listingId = parsed.searchParams.get("listing_id");
+    if (listingId && /^\d+$/.test(listingId)) {
+      return listingId;
+    }
+  } catch {
+    /* ignore */
+  }
+  return null;
+}
+
+function canonicalizeEtsyUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    const segments = parsed.pathname.split("/").filter(Boolean);
+    const listingIndex = segments.indexOf("listing");
+    if (listingIndex === -1 || listingIndex + 1 >= segments.length) return null;
+    const listingId = segments[listingIndex + 1];
+    const slugSegments = segments.slice(listingIndex + 2);
+    const slug = slugSegments.length ? `/${slugSegments.join("/")}` : "";
+    return `${parsed.protocol}//${parsed.hostname}/listing/${listingId}${slug}`;
+  } catch {
+    return null;
+  }
+}
+
+function extractEtsyImageFromHtml(html: string, toolkit: ExtractorToolkit): string | undefined {
+  const scriptRegex = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = scriptRegex.exec(html))) {
+    const parsed = safeParseJson(match[1]);
+    if (!parsed) continue;
+    const found = extractImageFromJsonLd(parsed);
+    if (found) {
+      return found;
+    }
+  }
+  const directMatch = html.match(/https:\/\/i\.etsystatic\.com\/[^"]+/i);
+  if (directMatch && directMatch[0]) {
+    const cleaned = toolkit.decodeEntities(directMatch[0].replace(/\\u0026/g, "&"));
+    const sanitized = sanitizeUrl(cleaned);
+    if (sanitized) {
+      return sanitized;
+    }
+  }
+  return undefined;
+}
+
+function refineEtsyPreview(preview: PreviewPayload, html: string, _target: ExtractorTarget, toolkit: ExtractorToolkit): void {
+  const fallbackTitle = toolkit.fallbackTitle(preview.finalUrl || preview.url);
+  if (!preview.image || /favicon/.test(preview.image)) {
+    preview.image = extractEtsyImageFromHtml(html, toolkit) ?? preview.image;
+  }
+  if (!preview.title || preview.title === fallbackTitle) {
+    preview.title = extractOgTitle(html, toolkit) ?? preview.title;
+  }
+}
+
+// Repositories, issues and pull requests: /owner/repo[/issues/N | /pull/N]
+function parseGitHubPath(url: string): { owner: string; repo: string; kind?: "issues" | "pull"; number?: string } | null {
+  try {
+    const parsed = new URL(url);
+    const [owner, repo, section, number] = parsed.pathname.split("/").filter(Boolean);
+    if (!owner || !repo || GITHUB_RESERVED_OWNERS.has(owner.toLowerCase())) return null;
+    const name = repo.replace(/\.git$/, "");
+    if ((section === "issues" || section === "pull") && number && /^\d+$/.test(number)) {
+      return { owner, repo: name, kind: section, number };
+    }
+    return { owner, repo: name };
+  } catch {
+    return null;
+  }
+}
+
+function canonicalizeGitHubUrl(url: string): string | null {
+  const path = parseGitHubPath(url);
+  if (!path) return null;
+  const base = `https://github.com/${path.owner}/${path.repo}`;
+  return path.kind ? `${base}/${path.kind}/${path.number}` : base;
+}
+
+const fetchGitHubPreview: ExtractorStrategy = async (target, toolkit) => {
+  const path = target.canonicalUrl ? parseGitHubPath(target.canonicalUrl) : null;
+  if (!path || !target.canonicalUrl) return null;
+  const headers = { Accept: "application/vnd.github+json" };
+  const repoPath = `${encodeURIComponent(path.owner)}/${encodeURIComponent(path.repo)}`;
+  const image = `https://opengraph.githubassets.com/1/${path.owner}/${path.repo}${path.kind ? `/${path.kind}/${path.number}` : ""}`;
+
+  if (path.kind) {
+    // The issues endpoint serves pull requests too.
+    const json = await toolkit.fetchJson(`https://api.github.com/repos/${repoPath}/issues/${path.number}`, headers);
+    if (!json || typeof json !== "object") return null;
+    const issue = json as { title?: unknown; state?: unknown; user?: { login?: unknown }; pull_request?: unknown };
+    const title = stringField(issue.title);
+    if (!title) return null;
+    const label = issue.pull_request ? "Pull request" : "Issue";
+    const state = stringField(issue.state);
+    const author = stringField(issue.user?.login);
+    const description = [`${label} #${path.number} in ${path.owner}/${path.repo}`, state, author ? `by ${author}` : undefined]
+      .filter(Boolean)
+      .join(" · ");
+    const preview = toolkit.fromMetadata(
+      target.requestedUrl,
+      target.canonicalUrl,
+      { title: `${title} · #${path.number}`, description, thumbnail: image },
+      { siteName: "GitHub", icon: "https://github.githubassets.com/favicons/favicon.png" },
+    );
+    return { preview, complete: true };
+  }
+
+  const json = await toolkit.fetchJson(`https://api.github.com/repos/${repoPath}`, headers);
+  if (!json || typeof json !== "object") return null;
+  const repo = json as { full_name?: unknown; description?: unknown; stargazers_count?: unknown; language?: unknown };
+  const fullName = stringField(repo.full_name);
+  if (!fullName) return null;
+  const stars = typeof repo.stargazers_count === "number" ? `★ ${repo.stargazers_count.toLocaleString("en-US")}` : undefined;
+  const description = [stringField(repo.description), stringField(repo.language), stars].filter(Boolean).join(" · ");
+  const preview = toolkit.fromMetadata(
+    target.requestedUrl,
+    target.canonicalUrl,
+    { title: fullName, description: description || undefined, thumbnail: image },
+    { siteName: "GitHub", icon: "https://github.githubassets.com/favicons/favicon.png" },
+  );
+  return { preview, complete: true };
+};
+
+function parseWikipediaUrl(url: string): { language: string; title: string } | null {
+  try {
+    const parsed = new URL(url);
+    const hostMatch = parsed.hostname.toLowerCase().match(/^([a-z0-9-]+)(?:\.m)?\.wikipedia\.org$/);
+    const pathMatch = parsed.pathname.match(/^\/wiki\/(.+)$/);
+    if (!hostMatch || !pathMatch || hostMatch[1] === "www") return null;
+    return { language: hostMatch[1], title: decodeURIComponent(pathMatch[1]) };
+  } catch {
+    return null;
+  }
+}
+
+function canonicalizeWikipediaUrl(url: string): string | null {
+  const article = parseWikipediaUrl(url);
+  if (!article) return null;
+  return `https://${article.language}.wikipedia.org/wiki/${encodeURIComponent(article.title.replace(/ /g, "_"))}`;
+}
+
+const fetchWikipediaSummary: ExtractorStrategy = async (target, toolkit) => {
+  const article = target.canonicalUrl ? parseWikipediaUrl(target.canonicalUrl) : null;
+  if (!article || !target.canonicalUrl) return null;
+  const endpoint = `https://${article.language}.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(
+    article.title.replace(/ /g, "_"),
+  )}`;
+  const json = await toolkit.fetchJson(endpoint);
+  if (!json || typeof json !== "object") return null;
+  const summary = json as {
+    title?: unknown;
+    extract?: unknown;
+    description?: unknown;
+    thumbnail?: { source?: unknown };
+    originalimage?: { source?: unknown };
+  };
+  const title = stringField(summary.title);
+  if (!title) return null;
+  const preview = toolkit.fromMetadata(
+    target.requestedUrl,
+    target.canonicalUrl,
+    {
+      title,
+      description: stringField(summary.extract) ?? stringField(summary.description),
+      thumbnail: stringField(summary.thumbnail?.source) ?? stringField(summary.originalimage?.source),
+    },
+    { siteName: "Wikipedia", icon: "https://en.wikipedia.org/static/favicon/wikipedia.ico" },
+  );
+  // Plenty of articles have no lead image; the extract is preview enough.
+  return { preview, complete: Boolean(preview.description || preview.image) };
+};
+
+function canonicalizeSpotifyUrl(url: string): string | null {
+  try {
+    const match = new URL(url).pathname.match(SPOTIFY_PATH_PATTERN);
+    return match ? `https://open.spotify.com/${match[1]}/${match[2]}` : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseRedditUrl(url: string): { subreddit?: string; id: string } | null {
+  try {
+    const parsed = new URL(url);
+    if (hostIs(parsed, "redd.it")) {
+      const id = parsed.pathname.split("/").filter(Boolean)[0];
+      return id && /^[a-z0-9]+$/i.test(id) ? { id } : null;
+    }
+    const match = parsed.pathname.match(/^\/(?:r\/([\w-]+)\/)?comments\/([a-z0-9]+)/i);
+    return match ? { subreddit: match[1], id: match[2] } : null;
+  } catch {
+    return null;
+  }
+}
+
+function canonicalizeRedditUrl(url: string): string | null {
+  const post = parseRedditUrl(url);
+  if (!post) return null;
+  return post.subreddit
+    ? `https://www.reddit.com/r/${post.subreddit}/comments/${post.id}/`
+    : `https://www.reddit.com/comments/${post.id}/`;
+}
+
+const fetchRedditPost: ExtractorStrategy = async (target, toolkit) => {
+  const post = target.canonicalUrl ? parseRedditUrl(target.canonicalUrl) : null;
+  if (!post || !target.canonicalUrl) return null;
+  const json = await toolkit.fetchJson(`https://www.reddit.com/comments/${post.id}.json?limit=1&raw_json=1`);
+  const listing = Array.isArray(json) ? (json[0] as { data?: { children?: { data?: unknown }[] } }) : null;
+  const data = listing?.data?.children?.[0]?.data as
+    | {
+        title?: unknown;
+        subreddit_name_prefixed?: unknown;
+        author?: unknown;
+        selftext?: unknown;
+        thumbnail?: unknown;
+        over_18?: unknown;
+        preview?: { images?: { source?: { url?: unknown } }[] };
+      }
+    | undefined;
+  const title = stringField(data?.title);
+  if (!data || !title) return null;
+  const subreddit = stringField(data.subreddit_name_prefixed);
+  const author = stringField(data.author);
+  const byline = [subreddit, author ? `u/${author}` : undefined].filter(Boolean).join(" · ");
+  const selftext = stringField(data.selftext);
+  // NSFW posts keep their title but not their media.
+  const image =
+    data.over_18 === true
+      ? undefined
+      : (stringField(data.preview?.images?.[0]?.source?.url) ?? sanitizeUrl(stringField(data.thumbnail) ?? "") ?? undefined);
+  const preview = toolkit.fromMetadata(
+    target.requestedUrl,
+    target.canonicalUrl,
+    { title, description: selftext ? `${byline} — ${selftext}` : byline || undefined, thumbnail: image },
+    { siteName: "Reddit", icon: "https://www.redditstatic.com/shreddit/assets/favicon/192x192.png" },
+  );
+  return { preview, complete: true };
+};
+
+function parseMastodonUrl(url: string): { host: string; username: string; id: string } | null {
+  try {
+    const parsed = new URL(url);
+    for (const pattern of MASTODON_PATH_PATTERNS) {
+      const match = parsed.pathname.match(pattern);
+      if (match) return { host: hostOf(parsed), username: match[1], id: match[2] };
+    }
+  } catch {
+    /* ignore */
+  }
+  return null;
+}
+
+// Any server can run Mastodon, so the status URL shape is the only signal; servers that turn out
+// not to speak the API just return nothing here.
+const fetchMastodonStatus: ExtractorStrategy = async (target, toolkit) => {
+  const status = parseMastodonUrl(target.canonicalUrl || target.url);
+  if (!status) return null;
+  const json = await toolkit.fetchJson(`https://${status.host}/api/v1/statuses/${status.id}`);
+  if (!json || typeof json !== "object") return null;
+  const data = json as {
+    url?: unknown;
+    content?: unknown;
+    spoiler_text?: unknown;
+    sensitive?: unknown;
+    account?: { display_name?: unknown; acct?: unknown; avatar?: unknown };
+    media_attachments?: { type?: unknown; preview_url?: unknown }[];
+    card?: { image?: unknown } | null;
+  };
+  const acct = stringField(data.account?.acct);
+  if (!acct) return null;
+  const handle = acct.includes("@") ? `@${acct}` : `@${acct}@${status.host}`;
+  const displayName = stringField(data.account?.display_name);
+  const spoiler = stringField(data.spoiler_text);
+  const content = stringField(data.content);
+  const media = (data.media_attachments ?? []).find((attachment) => stringField(attachment?.preview_url));
+  const image = data.sensitive === true ? undefined : (stringField(media?.preview_url) ?? stringField(data.card?.image));
+  const finalUrl = sanitizeUrl(stringField(data.url) ?? "") ?? target.canonicalUrl ?? target.url;
+  const preview = toolkit.fromMetadata(
+    target.requestedUrl,
+    finalUrl,
+    {
+      title: displayName ? `${displayName} (${handle})` : handle,
+      description: spoiler ? `CW: ${spoiler}` : content ? stripHtml(content, toolkit) : undefined,
+      thumbnail: image ?? stringField(data.account?.avatar),
+    },
+    { siteName: status.host },
+  );
+  return { preview, complete: true };
+};
+
+function canonicalizeMastodonUrl(url: string): string | null {
+  const status = parseMastodonUrl(url);
+  return status ? `https://${status.host}/@${status.username}/${status.id}` : null;
+}
+
+// <link rel="alternate" type="application/json+oembed" href="…"> in the page the proxy already fetched.
+function discoverOEmbedEndpoint(html: string, baseUrl: string, decodeEntities: (raw: string) => string): string | null {
+  const linkRegex = /<link\b[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = linkRegex.exec(html))) {
+    const tag = match[0];
+    if (!/\btype\s*=\s*["']?application\/json\+oembed/i.test(tag)) continue;
+    if (!/\brel\s*=\s*["']?[^"'>]*\balternate\b/i.test(tag)) continue;
+    const href = tag.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+    const raw = href ? (href[1] ?? href[2] ?? href[3]) : null;
+    if (!raw) continue;
+    try {
+      return sanitizeUrl(new URL(decodeEntities(raw), baseUrl).href);
+    } catch {
+      /* ignore */
+    }
+  }
+  return null;
+}
+
+const discoverOEmbed: ExtractorStrategy = async (target, toolkit) => {
+  if (!target.html) return null;
+  const endpoint = discoverOEmbedEndpoint(target.html, target.url, toolkit.decodeEntities);
+  if (!endpoint) return null;
+  const meta = readOEmbed(await toolkit.fetchJson(endpoint));
+  if (!meta || !(meta.title || meta.thumbnail)) return null;
+  const preview = toolkit.fromMetadata(target.requestedUrl, target.url, meta);
+  return { preview, complete: isCompletePreview(preview, toolkit), markFallback: target.needsUpgrade };
+};
+
+/** Providers in the order they are tried; the generic oEmbed discovery comes last. */
+export const PREVIEW_EXTRACTORS: PreviewExtractor[] = [
+  {
+    name: "youtube",
+    matches: (url) => hostOf(url).includes("youtube.") || hostIs(url, "youtu.be"),
+    canonicalize: canonicalizeYouTubeUrl,
+    strategies: [
+      oEmbedStrategy((url) => `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(url)}`, {
+        siteName: "YouTube",
+        icon: "https://www.youtube.com/s/desktop/fe1f68f5/img/favicon_144.png",
+        describeAuthor: (author) => `${author} • YouTube`,
+      }),
+      noembedStrategy({ siteName: "YouTube", fallbackImage: youTubeThumbnail, requireCanonical: true }),
+    ],
+  },
+  {
+    name: "amazon",
+    matches: (url) => hostOf(url).includes("amazon."),
+    canonicalize: canonicalizeAmazonUrl,
+    strategies: [
+      noembedStrategy({
+        siteName: "Amazon",
+        requireCanonical: true,
+        fallbackImage: (url) => {
+          const asin = extractAmazonAsin(url);
+          return asin ? buildAmazonImageUrl(asin) : undefined;
+        },
+      }),
+      alternateHtmlStrategy(
+        (target) => {
+          const asin = extractAmazonAsin(target.url) || extractAmazonAsin(target.requestedUrl);
+          return asin ? `https://www.amazon.com/gp/aw/d/${asin}` : null;
+        },
+        refineAmazonPreview,
+        { markFallback: () => true },
+      ),
+    ],
+  },
+  {
+    name: "etsy",
+    matches: (url) => hostOf(url).includes("etsy."),
+    canonicalize: canonicalizeEtsyUrl,
+    strategies: [
+      oEmbedStrategy((url) => `https://www.etsy.com/oembed?url=${encodeURIComponent(url)}`, {
+        siteName: "Etsy",
+        icon: "https://www.etsy.com/images/favicon.ico",
+        describeAuthor: (seller) => `by ${seller}`,
+        useResponseUrl: true,
+      }),
+      noembedStrategy({ siteName: "Etsy", requireCanonical: true }),
+      alternateHtmlStrategy(
+        (target) => {
+          const listingId = extractEtsyListingId(target.url) || extractEtsyListingId(target.requestedUrl);
+          return listingId ? `https://m.etsy.com/listing/${listingId}` : null;
+        },
+        refineEtsyPreview,
+        { markFallback: (target) => target.needsUpgrade },
+      ),
+    ],
+  },
+  {
+    name: "github",
+    matches: (url) => hostOf(url) === "github.com" || hostOf(url) === "www.github.com",
+    canonicalize: canonicalizeGitHubUrl,
+    strategies: [fetchGitHubPreview],
+  },
+  {
+    name: "wikipedia",
+    matches: (url) => hostIs(url, "wikipedia.org"),
+    canonicalize: canonicalizeWikipediaUrl,
+    strategies: [fetchWikipediaSummary],
+  },
+  {
+    name: "spotify",
+    matches: (url) => hostOf(url) === "open.spotify.com",
+    canonicalize: canonicalizeSpotifyUrl,
+    strategies: [
+      oEmbedStrategy((url) => `https://open.spotify.com/oembed?url=${encodeURIComponent(url)}`, {
+        siteName: "Spotify",
+        icon: "https://open.spotifycdn.com/cdn/images/favicon32.b64ecc03.png",
+      }),
+    ],
+  },
+  {
+    name: "reddit",
+    matches: (url) => hostIs(url, "reddit.com") || hostIs(url, "redd.it"),
+    canonicalize: canonicalizeRedditUrl,
+    strategies: [
+      fetchRedditPost,
+      oEmbedStrategy((url) => `https://www.reddit.com/oembed?url=${encodeURIComponent(url)}`, { siteName: "Reddit" }),
+    ],
+  },
+  {
+    name: "mastodon",
+    matches: (url) => parseMastodonUrl(url.href) !== null,
+    canonicalize: canonicalizeMastodonUrl,
+    strategies: [fetchMastodonStatus],
+  },
+  {
+    name: "noembed",
+    matches: (url) => NOEMBED_HOSTS.some((domain) => hostIs(url, domain)),
+    strategies: [noembedStrategy()],
+  },
+  {
+    name: "oembed-discovery",
+    matches: () => true,
+    strategies: [discoverOEmbed],
+  },
+];
+
+function parseCandidates(urls: string[]): URL[] {
+  const parsed: URL[] = [];
+  for (const value of urls) {
+    try {
+      parsed.push(new URL(value));
+    } catch {
+      /* ignore */
+    }
+  }
+  return parsed;
+}
+
+function canonicalizeWith(extractor: PreviewExtractor, urls: string[]): string | null {
+  if (!extractor.canonicalize) return null;
+  for (const url of urls) {
+    const canonical = extractor.canonicalize(url);
+    if (canonical) return canonical;
+  }
+  return null;
+}
+
+/** The canonical form of a URL according to the first provider that claims it, if any. */
+export function canonicalizeKnownUrl(url: string): string | null {
+  const candidates = parseCandidates([url]);
+  for (const extractor of PREVIEW_EXTRACTORS) {
+    if (!extractor.canonicalize || !candidates.some((candidate) => extractor.matches(candidate))) continue;
+    const canonical = canonicalizeWith(extractor, [url]);
+    if (canonical) return canonical;
+  }
+  return null;
+}
+
+/**
+ * Try every provider that matches the requested or final URL, strategy by strategy, until one
+ * produces a complete preview. Otherwise the first incomplete result with an image is returned.
+ */
+export async function runPreviewExtractors(
+  target: Omit<ExtractorTarget, "url" | "canonicalUrl"> & { finalUrl: string },
+  toolkit: ExtractorToolkit,
+  extractors: PreviewExtractor[] = PREVIEW_EXTRACTORS,
+): Promise<{ preview: PreviewPayload; fallback?: boolean } | null> {
+  const urls = [target.finalUrl || target.requestedUrl, target.requestedUrl];
+  const candidates = parseCandidates(urls);
+  let fallbackCandidate: { preview: PreviewPayload; fallback?: boolean } | null = null;
+
+  for (const extractor of extractors) {
+    if (!candidates.some((candidate) => extractor.matches(candidate))) continue;
+    const context: ExtractorTarget = {
+      requestedUrl: target.requestedUrl,
+      url: urls[0],
+      canonicalUrl: canonicalizeWith(extractor, urls),
+      reason: target.reason,
+      needsUpgrade: target.needsUpgrade,
+      html: target.html,
+    };
+    for (const strategy of extractor.strategies) {
+      let result: ExtractorResult | null = null;
+      try {
+        result = await strategy(context, toolkit);
+      } catch {
+        result = null;
+      }
+      if (!result) continue;
+      if (result.complete) {
+        return { preview: result.preview };
+      }
+      if (!fallbackCandidate && result.preview.image) {
+        fallbackCandidate = result.markFallback ? { preview: result.preview, fallback: true } : { preview: result.preview };
+      }
+    }
+  }
+
+  return fallbackCandidate;
+}
@@ -0,0 +1,191 @@
+// Outbound request guard for the link preview proxy: only public http(s) destinations are fetched.
+
+const MAX_REDIRECTS = 5;
+const DNS_OVER_HTTPS_ENDPOINT = "https://cloudflare-dns.com/dns-query";
+const DNS_CACHE_TTL_MS = 5 * 60_000;
+const DNS_RECORD_TYPES = [
+  { name: "A", code: 1 },
+  { name: "AAAA", code: 28 },
+] as const;
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+// [network, prefix length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+export class BlockedDestinationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedDestinationError";
+  }
+}
+
+const dnsCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = parseIpv4(address);
+  if (value === null) return true;
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const base = parseIpv4(network) ?? 0;
+    const size = 2 ** (32 - prefix);
+    return value >= base && value < base + size;
+  });
+}
+
+// Expand an IPv6 address into its eight 16-bit groups; an embedded dotted IPv4 tail becomes two groups.
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const zoneIndex = text.indexOf("%");
+  if (zoneIndex !== -1) text = text.slice(0, zoneIndex);
+  const ipv4Tail = text.match(/(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (ipv4Tail) {
+    const value = parseIpv4(ipv4Tail[1]);
+    if (value === null) return null;
+    text = `${text.slice(0, -ipv4Tail[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  const parsed = groups.map((group) => (/^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN));
+  return parsed.some(Number.isNaN) ? null : parsed;
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = parseIpv6(address);
+  if (!groups) return true;
+  const [first] = groups;
+  const embeddedIpv4 = () => `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+  if (groups.slice(0, 7).every((group) => group === 0)) return true; // :: and ::1
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) return isBlockedIpv4(embeddedIpv4());
+  if (first === 0x64 && groups[1] === 0xff9b) return isBlockedIpv4(embeddedIpv4()); // NAT64
+  if ((first & 0xfe00) === 0xfc00) return true; // unique local
+  if ((first & 0xffc0) === 0xfe80 || (first & 0xffc0) === 0xfec0) return true; // link and site local
+  if ((first & 0xff00) === 0xff00) return true; // multicast
+  if (first === 0x2001 && groups[1] === 0x0db8) return true; // documentation
+  if (first === 0x2002) return true; // 6to4 can reach any IPv4 address
+  if (first === 0x0100 && groups.slice(1, 4).every((group) => group === 0)) return true; // discard prefix
+  return false;
+}
+
+export function isBlockedAddress(address: string): boolean {
+  return address.includes(":") ? isBlockedIpv6(address) : isBlockedIpv4(address);
+}
+
+function isIpLiteral(hostname: string): boolean {
+  return hostname.startsWith("[") || parseIpv4(hostname) !== null;
+}
+
+/** True for hosts that cannot be public whatever DNS says: localhost, local names and private IP literals. */
+export function isBlockedHostname(rawHostname: string): boolean {
+  const hostname = rawHostname.toLowerCase().replace(/\.$/, "");
+  if (!hostname || hostname === "localhost" || BLOCKED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+    return true;
+  }
+  if (isIpLiteral(hostname)) return isBlockedAddress(hostname);
+  return !hostname.includes(".");
+}
+
+async function resolveHostname(hostname: string): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) return cached.addresses;
+
+  const addresses: string[] = [];
+  for (const type of DNS_RECORD_TYPES) {
+    const response = await fetch(`${DNS_OVER_HTTPS_ENDPOINT}?name=${encodeURIComponent(hostname)}&type=${type.name}`, {
+      headers: { Accept: "application/dns-json" },
+    });
+    if (!response.ok) {
+      throw new BlockedDestinationError(`Could not resolve ${hostname}`);
+    }
+    const json = (await response.json().catch(() => null)) as { Answer?: { type: number; data: string }[] } | null;
+    for (const answer of json?.Answer ?? []) {
+      if (answer && answer.type === type.code && typeof answer.data === "string") {
+        addresses.push(answer.data);
+      }
+    }
+  }
+  dnsCache.set(hostname, { addresses, expiresAt: Date.now() + DNS_CACHE_TTL_MS });
+  return addresses;
+}
+
+/**
+ * Throw a BlockedDestinationError unless the URL is http(s) and its host resolves only to public
+ * addresses. Resolution fails closed: a host that cannot be resolved is treated as blocked.
+ */
+export async function assertPublicUrl(rawUrl: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new BlockedDestinationError("Invalid URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BlockedDestinationError("Only http(s) URLs are supported");
+  }
+  if (url.username || url.password) {
+    throw new BlockedDestinationError("URLs with credentials are not supported");
+  }
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (isBlockedHostname(hostname)) {
+    throw new BlockedDestinationError("Destination is not allowed");
+  }
+  if (isIpLiteral(hostname)) return url;
+  const addresses = await resolveHostname(hostname);
+  if (!addresses.length) {
+    throw new BlockedDestinationError(`Could not resolve ${hostname}`);
+  }
+  if (addresses.some(isBlockedAddress)) {
+    throw new BlockedDestinationError("Destination is not allowed");
+  }
+  return url;
+}
+
+/**
+ * fetch() that follows redirects itself so every hop is checked with assertPublicUrl.
+ * Returns the final response together with the URL it came from.
+ */
+export async function fetchPublicUrl(rawUrl: string, init: RequestInit = {}): Promise<{ response: Response; url: string }> {
+  let current = (await assertPublicUrl(rawUrl)).toString();
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    const response = await fetch(current, { ...init, redirect: "manual" });
+    const location = response.status >= 300 && response.status < 400 ? response.headers.get("Location") : null;
+    if (!location) {
+      return { response, url: current };
+    }
+    await response.body?.cancel();
+    current = (await assertPublicUrl(new URL(location, current).toString())).toString();
+  }
+  throw new BlockedDestinationError("Too many redirects");
+}
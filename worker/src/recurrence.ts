@@ -0,0 +1,110 @@
+// Recurrence rules shared with the PWA's `Recurrence` type, evaluated in the user's time zone.
+import { fromWallClock, shiftWallClockDays, toWallClock, type WallClock } from "./timeZone";
+
+export type Recurrence =
+  | { type: "none"; untilISO?: string }
+  | { type: "daily"; untilISO?: string }
+  | { type: "weekly"; days: number[]; untilISO?: string }
+  | { type: "every"; n: number; unit: "hour" | "day" | "week"; untilISO?: string }
+  | { type: "monthlyDay"; day: number; interval?: number; untilISO?: string };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Validate an untrusted recurrence payload, returning null for "none" or anything malformed. */
+export function parseRecurrence(raw: unknown): Recurrence | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Record<string, unknown>;
+  const untilISO =
+    typeof value.untilISO === "string" && !Number.isNaN(Date.parse(value.untilISO)) ? value.untilISO : undefined;
+  const withUntil = <T extends Recurrence>(rule: T): T => (untilISO ? { ...rule, untilISO } : rule);
+  switch (value.type) {
+    case "daily":
+      return withUntil({ type: "daily" });
+    case "weekly": {
+      const days = Array.isArray(value.days)
+        ? Array.from(new Set(value.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)))
+        : [];
+      return days.length ? withUntil({ type: "weekly", days }) : null;
+    }
+    case "every": {
+      const n = typeof value.n === "number" ? Math.floor(value.n) : NaN;
+      if (!(n >= 1) || (value.unit !== "hour" && value.unit !== "day" && value.unit !== "week")) return null;
+      return withUntil({ type: "every", n, unit: value.unit });
+    }
+    case "monthlyDay": {
+      const day = typeof value.day === "number" ? Math.floor(value.day) : NaN;
+      if (!(day >= 1 && day <= 31)) return null;
+      const interval = typeof value.interval === "number" && value.interval >= 1 ? Math.floor(value.interval) : undefined;
+      return withUntil(interval ? { type: "monthlyDay", day, interval } : { type: "monthlyDay", day });
+    }
+    default:
+      return null;
+  }
+}
+
+function weekdayOf(wall: WallClock): number {
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+}
+
+function dayIndex(wall: WallClock): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day);
+}
+
+/**
+ * Next due time after `currentISO`, mirroring the PWA's `nextOccurrence`: the local time of day
+ * is kept, monthly days are capped at the 28th, and `untilISO` bounds the series by local date.
+ */
+export function nextOccurrence(currentISO: string, rule: Recurrence, timeZone = "UTC"): string | null {
+  const current = Date.parse(currentISO);
+  if (Number.isNaN(current)) return null;
+  const wall = toWallClock(current, timeZone);
+
+  let next: number | null = null;
+  switch (rule.type) {
+    case "none":
+      return null;
+    case "daily":
+      next = fromWallClock(shiftWallClockDays(wall, 1), timeZone);
+      break;
+    case "weekly": {
+      if (!rule.days.length) return null;
+      for (let i = 1; i <= 28; i += 1) {
+        const candidate = shiftWallClockDays(wall, i);
+        if (rule.days.includes(weekdayOf(candidate))) {
+          next = fromWallClock(candidate, timeZone);
+          break;
+        }
+      }
+      break;
+    }
+    case "every":
+      next =
+        rule.unit === "hour"
+          ? current + rule.n * HOUR_MS
+          : fromWallClock(shiftWallClockDays(wall, rule.unit === "day" ? rule.n : rule.n * 7), timeZone);
+      break;
+    case "monthlyDay": {
+      const interval = Math.max(1, rule.interval ?? 1);
+      const target = new Date(Date.UTC(wall.year, wall.month - 1 + interval, 1));
+      next = fromWallClock(
+        {
+          ...wall,
+          year: target.getUTCFullYear(),
+          month: target.getUTCMonth() + 1,
+          day: Math.min(rule.day, 28),
+        },
+        timeZone,
+      );
+      break;
+    }
+  }
+  if (next === null) return null;
+
+  if (rule.untilISO) {
+    const until = Date.parse(rule.untilISO);
+    if (!Number.isNaN(until) && dayIndex(toWallClock(next, timeZone)) > dayIndex(toWallClock(until, timeZone))) {
+      return null;
+    }
+  }
+  return new Date(next).toISOString();
+}
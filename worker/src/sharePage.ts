@@ -0,0 +1,301 @@
+// Read-only HTML view of a shared board. The worker only relays the encrypted events; the page
+// decrypts them in the browser with the key from the link fragment, which never reaches the server.
+import type { Event as NostrEvent } from "nostr-tools";
+
+export type SharedBoardEvent = {
+  pubkey: string;
+  d: string;
+  b: string;
+  col: string;
+  status: string;
+  createdAt: number;
+  content: string;
+};
+
+export type SharedBoardSnapshot = {
+  boardPubkey: string;
+  tag: string;
+  name: string;
+  kind: string;
+  metadata: SharedBoardEvent | null;
+  tasks: SharedBoardEvent[];
+};
+
+const METADATA_KIND = 30300;
+const TASK_KIND = 30301;
+
+const PAGE_STYLE = `
+:root { color-scheme: light dark; --bg: #f6f7f9; --card: #fff; --border: #e2e5ea; --text: #16181d; --muted: #667085; --accent: #4f46e5; }
+@media (prefers-color-scheme: dark) { :root { --bg: #0f1115; --card: #181b21; --border: #2a2f38; --text: #eef0f3; --muted: #98a2b3; --accent: #818cf8; } }
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.45 system-ui, -apple-system, "Segoe UI", sans-serif; background: var(--bg); color: var(--text); }
+body.embed { background: transparent; }
+header { display: flex; align-items: baseline; gap: 12px; padding: 16px 20px 8px; }
+header h1 { margin: 0; font-size: 20px; }
+body.embed header { padding: 8px 12px 4px; }
+body.embed header h1 { font-size: 16px; }
+.badge { font-size: 12px; color: var(--muted); border: 1px solid var(--border); border-radius: 999px; padding: 1px 8px; }
+#status { padding: 8px 20px; color: var(--muted); }
+#status:empty { display: none; }
+.noscript { padding: 0 20px 8px; color: var(--muted); }
+#board { display: flex; gap: 12px; padding: 8px 20px 20px; overflow-x: auto; align-items: flex-start; }
+body.embed #board { padding: 4px 12px 12px; }
+section { flex: 0 0 260px; background: var(--card); border: 1px solid var(--border); border-radius: 12px; padding: 10px; }
+section h2 { margin: 0 0 8px; font-size: 13px; font-weight: 600; display: flex; justify-content: space-between; }
+section h2 span { color: var(--muted); font-weight: 400; }
+ul { list-style: none; margin: 0; padding: 0; display: grid; gap: 6px; }
+li { border: 1px solid var(--border); border-radius: 8px; padding: 6px 8px; }
+li.done .title { text-decoration: line-through; color: var(--muted); }
+.title { font-weight: 500; overflow-wrap: anywhere; }
+.meta { font-size: 12px; color: var(--muted); }
+.note { font-size: 12px; color: var(--muted); white-space: pre-wrap; overflow-wrap: anywhere; margin-top: 2px; }
+.empty { font-size: 12px; color: var(--muted); }
+footer { padding: 0 20px 16px; font-size: 12px; color: var(--muted); }
+body.embed footer { display: none; }
+`;
+
+const PAGE_SCRIPT = `
+(async function () {
+  var status = document.getElementById("status");
+  var root = document.getElementById("board");
+  var data = JSON.parse(document.getElementById("board-data").textContent || "{}");
+  var keyText = new URLSearchParams(location.hash.slice(1)).get("k") || "";
+  function fail(message) { status.textContent = message; }
+  function decodeBase64(text) {
+    var normalized = text.replace(/-/g, "+").replace(/_/g, "/");
+    while (normalized.length % 4) normalized += "=";
+    var binary = atob(normalized);
+    var bytes = new Uint8Array(binary.length);
+    for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+  var keyBytes;
+  try { keyBytes = decodeBase64(keyText); } catch (e) { keyBytes = new Uint8Array(0); }
+  if (keyBytes.length !== 32) return fail("This link is missing its key. Ask for a new read-only link.");
+  // Links made before access could be split carry SHA-256(board ID), which is also the board tag.
+  var tag = data.tag || Array.prototype.map.call(keyBytes, function (b) { return b.toString(16).padStart(2, "0"); }).join("");
+  var key = await crypto.subtle.importKey("raw", keyBytes, { name: "AES-GCM" }, false, ["decrypt"]);
+  async function decrypt(event) {
+    if (!event || event.b !== tag) return null;
+    try {
+      var bytes = decodeBase64(event.content);
+      var plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: bytes.slice(0, 12) }, key, bytes.slice(12));
+      return JSON.parse(new TextDecoder().decode(plain));
+    } catch (e) {
+      return null;
+    }
+  }
+
+  var meta = await decrypt(data.metadata);
+  if (data.metadata && !meta) return fail("This link's key does not match the board.");
+  if (data.kind === "compound") return fail("Compound boards cannot be viewed here yet. Share each list on its own.");
+  var trusted = [data.boardPubkey].concat(meta && Array.isArray(meta.members) ? meta.members : []);
+  var newest = {};
+  (data.tasks || []).forEach(function (event) {
+    if (trusted.indexOf(event.pubkey) === -1) return;
+    var current = newest[event.d];
+    if (!current || event.createdAt > current.createdAt) newest[event.d] = event;
+  });
+  var now = Date.now();
+  var tasks = [];
+  var latestEvents = Object.keys(newest).map(function (d) { return newest[d]; });
+  for (var i = 0; i < latestEvents.length; i++) {
+    var event = latestEvents[i];
+    if (event.status === "deleted") continue;
+    var body = await decrypt(event);
+    if (!body || typeof body.title !== "string") continue;
+    if (body.hiddenUntilISO && Date.parse(body.hiddenUntilISO) > now) continue;
+    tasks.push({
+      col: event.col,
+      done: event.status === "done",
+      title: body.title || "Untitled",
+      note: typeof body.note === "string" ? body.note : "",
+      due: Date.parse(body.dueISO) || 0,
+      dueTime: body.dueTimeEnabled === true,
+      order: typeof body.order === "number" ? body.order : Number.MAX_SAFE_INTEGER,
+      subtasks: Array.isArray(body.subtasks) ? body.subtasks : []
+    });
+  }
+  if (!meta && !tasks.length) return fail("No tasks were found on this board's relays.");
+
+  var columns = [];
+  if (data.kind === "week") {
+    var days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+    columns = days.map(function (name, index) {
+      return { name: name, tasks: tasks.filter(function (t) { return t.col !== "bounties" && t.due && new Date(t.due).getDay() === index; }) };
+    });
+    columns.push({ name: "Bounties", tasks: tasks.filter(function (t) { return t.col === "bounties"; }) });
+  } else {
+    var defined = meta && Array.isArray(meta.columns) ? meta.columns.filter(function (c) { return c && typeof c.id === "string"; }) : [];
+    if (!defined.length) defined = [{ id: "", name: "Tasks" }];
+    var known = defined.map(function (c) { return c.id; });
+    columns = defined.map(function (column, index) {
+      return {
+        name: column.name || "Untitled",
+        tasks: tasks.filter(function (t) { return t.col === column.id || (index === 0 && known.indexOf(t.col) === -1); })
+      };
+    });
+  }
+
+  function el(name, className, text) {
+    var node = document.createElement(name);
+    if (className) node.className = className;
+    if (text) node.textContent = text;
+    return node;
+  }
+  function dueLabel(task) {
+    if (!task.due) return "";
+    var options = task.dueTime
+      ? { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }
+      : { weekday: "short", month: "short", day: "numeric" };
+    return new Date(task.due).toLocaleString(undefined, options);
+  }
+  columns.forEach(function (column) {
+    column.tasks.sort(function (a, b) { return (a.done - b.done) || (a.order - b.order) || (a.due - b.due); });
+    var section = el("section");
+    var heading = el("h2", "", column.name);
+    heading.appendChild(el("span", "", String(column.tasks.filter(function (t) { return !t.done; }).length)));
+    section.appendChild(heading);
+    if (!column.tasks.length) section.appendChild(el("div", "empty", "No tasks"));
+    var list = el("ul");
+    column.tasks.forEach(function (task) {
+      var item = el("li", task.done ? "done" : "");
+      item.appendChild(el("div", "title", task.title));
+      var details = [dueLabel(task)];
+      if (task.subtasks.length) {
+        var finished = task.subtasks.filter(function (s) { return s && s.completed; }).length;
+        details.push(finished + "/" + task.subtasks.length + " subtasks");
+      }
+      var detailText = details.filter(Boolean).join(" · ");
+      if (detailText) item.appendChild(el("div", "meta", detailText));
+      if (task.note) item.appendChild(el("div", "note", task.note.length > 280 ? task.note.slice(0, 279) + "…" : task.note));
+      list.appendChild(item);
+    });
+    section.appendChild(list);
+    root.appendChild(section);
+  });
+  status.textContent = "";
+})().catch(function () {
+  document.getElementById("status").textContent = "This board could not be displayed in this browser.";
+});
+`;
+
+let cachedSourceHashes: Promise<{ script: string; style: string }> | null = null;
+
+async function sourceHash(source: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(source)));
+  let binary = "";
+  for (const byte of digest) binary += String.fromCharCode(byte);
+  return `'sha256-${btoa(binary)}'`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function tagValue(event: NostrEvent, name: string): string {
+  const value = event.tags.find((entry) => entry[0] === name)?.[1];
+  return typeof value === "string" ? value : "";
+}
+
+function toSharedEvent(event: NostrEvent): SharedBoardEvent {
+  return {
+    pubkey: event.pubkey,
+    d: tagValue(event, "d"),
+    b: tagValue(event, "b"),
+    col: tagValue(event, "col"),
+    status: tagValue(event, "status"),
+    createdAt: event.created_at,
+    content: event.content,
+  };
+}
+
+/**
+ * Reduce relay results to the newest metadata signed by the board key and the newest version of
+ * each task per author. Editors sign with their own keys and the member list that vouches for them
+ * is encrypted, so choosing between authors and hiding deleted tasks is left to the page.
+ */
+export function snapshotFromEvents(boardPubkey: string, events: NostrEvent[], tag = ""): SharedBoardSnapshot {
+  const latest = new Map<string, NostrEvent>();
+  for (const event of events) {
+    if (event.kind === METADATA_KIND ? event.pubkey !== boardPubkey : event.kind !== TASK_KIND) continue;
+    if (event.kind === TASK_KIND && (tag ? tagValue(event, "b") !== tag : event.pubkey !== boardPubkey)) continue;
+    const key = `${event.kind}:${event.pubkey}:${tagValue(event, "d")}`;
+    const existing = latest.get(key);
+    if (!existing || event.created_at > existing.created_at) latest.set(key, event);
+  }
+  let metadata: NostrEvent | null = null;
+  const tasks: SharedBoardEvent[] = [];
+  for (const event of latest.values()) {
+    if (event.kind === METADATA_KIND) {
+      if (!metadata || event.created_at > metadata.created_at) metadata = event;
+    } else {
+      tasks.push(toSharedEvent(event));
+    }
+  }
+  return {
+    boardPubkey,
+    tag,
+    name: metadata ? tagValue(metadata, "name") : "",
+    kind: metadata ? tagValue(metadata, "k") : "",
+    metadata: metadata ? toSharedEvent(metadata) : null,
+    tasks,
+  };
+}
+
+/** Content-Security-Policy for the page: only its own inline script and style may run. */
+export async function sharePageSecurityPolicy(embed: boolean): Promise<string> {
+  if (!cachedSourceHashes) {
+    cachedSourceHashes = Promise.all([sourceHash(PAGE_SCRIPT), sourceHash(PAGE_STYLE)]).then(([script, style]) => ({
+      script,
+      style,
+    }));
+  }
+  const hashes = await cachedSourceHashes;
+  return [
+    "default-src 'none'",
+    `script-src ${hashes.script}`,
+    `style-src ${hashes.style}`,
+    "base-uri 'none'",
+    "form-action 'none'",
+    `frame-ancestors ${embed ? "*" : "'none'"}`,
+  ].join("; ");
+}
+
+export function renderSharePage(snapshot: SharedBoardSnapshot, options: { embed: boolean; fetchedAt: Date }): string {
+  const title = snapshot.name || "Shared board";
+  // The JSON sits in a non-executable script element; escaping "<" keeps it from closing the tag.
+  const data = JSON.stringify({
+    boardPubkey: snapshot.boardPubkey,
+    tag: snapshot.tag,
+    kind: snapshot.kind,
+    metadata: snapshot.metadata,
+    tasks: snapshot.tasks,
+  }).replace(/</g, "\\u003c");
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<meta name="referrer" content="no-referrer">
+<title>${escapeHtml(title)} · Taskify</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body${options.embed ? ' class="embed"' : ""}>
+<header><h1>${escapeHtml(title)}</h1><span class="badge">Read only</span></header>
+<div id="status">Decrypting board…</div>
+<noscript><div class="noscript">JavaScript is needed to decrypt this board in your browser.</div></noscript>
+<main id="board"></main>
+<footer>Shared from Taskify · updated ${escapeHtml(options.fetchedAt.toUTCString())}</footer>
+<script type="application/json" id="board-data">${data}</script>
+<script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,5 @@
+// Migration files are bundled as text modules (see the [[rules]] entry in wrangler.toml).
+declare module "*.sql" {
+  const sql: string;
+  export default sql;
+}
@@ -0,0 +1,89 @@
+// Wall-clock conversions for IANA time zones using the runtime's Intl data.
+
+export type WallClock = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Returns true when `timeZone` is an IANA zone name the runtime understands. */
+export function isSupportedTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock reading of an instant in `timeZone`. */
+export function toWallClock(time: number, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(time))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallClockAsUtc(wall: WallClock): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+/** Offset of `timeZone` from UTC at an instant, in minutes east of UTC. */
+export function utcOffsetMinutes(time: number, timeZone: string): number {
+  // Wall-clock readings have whole seconds, so compare against the instant without milliseconds.
+  const whole = Math.floor(time / 1000) * 1000;
+  return Math.round((wallClockAsUtc(toWallClock(whole, timeZone)) - whole) / 60000);
+}
+
+/**
+ * Instant at which `timeZone` shows the given wall-clock time. Times skipped by a DST jump
+ * resolve to the same offset as just before the jump.
+ */
+export function fromWallClock(wall: WallClock, timeZone: string): number {
+  const target = wallClockAsUtc(wall);
+  const firstGuess = target - (wallClockAsUtc(toWallClock(target, timeZone)) - target);
+  return target - (wallClockAsUtc(toWallClock(firstGuess, timeZone)) - firstGuess);
+}
+
+/** Same time of day, `days` calendar days later (or earlier). */
+export function shiftWallClockDays(wall: WallClock, days: number): WallClock {
+  const shifted = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { ...wall, year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/** "YYYY-MM-DD" for a wall-clock reading. */
+export function formatWallClockDate(wall: WallClock): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${String(wall.year).padStart(4, "0")}-${pad(wall.month)}-${pad(wall.day)}`;
+}
@@ -0,0 +1,86 @@
+// Web Push message encryption (RFC 8291, "aes128gcm" content coding from RFC 8188).
+
+const RECORD_SIZE = 4096;
+const AUTH_TAG_LENGTH = 16;
+const HEADER_LENGTH = 16 + 4 + 1 + 65;
+
+// A single aes128gcm record must hold the header, the padding delimiter and the GCM tag.
+export const MAX_PUSH_PAYLOAD_BYTES = RECORD_SIZE - HEADER_LENGTH - AUTH_TAG_LENGTH - 1;
+
+const encoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, data));
+}
+
+/**
+ * Encrypt a push message for a subscription's `p256dh` public key and `auth` secret.
+ * Returns the complete request body (header + single record) for a `Content-Encoding: aes128gcm` push.
+ */
+export async function encryptWebPushPayload(
+  plaintext: Uint8Array,
+  subscriberPublicKey: Uint8Array,
+  authSecret: Uint8Array,
+): Promise<Uint8Array> {
+  if (plaintext.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error("Push payload is too large");
+  }
+  if (subscriberPublicKey.length !== 65 || subscriberPublicKey[0] !== 4) {
+    throw new Error("Subscription p256dh key is not an uncompressed P-256 point");
+  }
+  if (authSecret.length !== 16) {
+    throw new Error("Subscription auth secret must be 16 bytes");
+  }
+
+  const subscriberKey = await crypto.subtle.importKey(
+    "raw",
+    subscriberPublicKey,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    [],
+  );
+  const localKeys = (await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, [
+    "deriveBits",
+  ])) as CryptoKeyPair;
+  const localPublicKey = new Uint8Array((await crypto.subtle.exportKey("raw", localKeys.publicKey)) as ArrayBuffer);
+  const ecdhParams: EcdhKeyDeriveParams = { name: "ECDH", public: subscriberKey };
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits(ecdhParams, localKeys.privateKey, 256));
+
+  // RFC 8291 section 3.3: combine the ECDH secret with the subscription auth secret.
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), subscriberPublicKey, localPublicKey);
+  const prkKey = await hmacSha256(authSecret, sharedSecret);
+  const ikm = await hmacSha256(prkKey, concat(keyInfo, new Uint8Array([1])));
+
+  // RFC 8188 section 2.2: derive the content encryption key and nonce from a random salt.
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const prk = await hmacSha256(salt, ikm);
+  const cek = (await hmacSha256(prk, concat(encoder.encode("Content-Encoding: aes128gcm\0"), new Uint8Array([1])))).slice(0, 16);
+  const nonce = (await hmacSha256(prk, concat(encoder.encode("Content-Encoding: nonce\0"), new Uint8Array([1])))).slice(0, 12);
+
+  const contentKey = await crypto.subtle.importKey("raw", cek, { name: "AES-GCM" }, false, ["encrypt"]);
+  // 0x02 marks the final (and only) record.
+  const padded = concat(plaintext, new Uint8Array([2]));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce, tagLength: AUTH_TAG_LENGTH * 8 }, contentKey, padded),
+  );
+
+  const header = new Uint8Array(HEADER_LENGTH);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = localPublicKey.length;
+  header.set(localPublicKey, 21);
+
+  return concat(header, ciphertext);
+}
@@ -0,0 +1,270 @@
+import { finalizeEvent, verifyEvent, type Event as NostrEvent, type Filter } from "nostr-tools";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BOARD_METADATA_KIND,
+  BOARD_TASK_KIND,
+  boardTag,
+  buildTaskEvent,
+  decryptFromBoard,
+  deriveBoardKeys,
+  encryptToBoard,
+  openSealedBoardId,
+  sealBoardId,
+} from "../src/boardInbox";
+import worker, { type Env } from "../src/index";
+import { MemoryD1 } from "./d1";
+
+const ORIGIN = "https://taskify.example";
+const RELAY = "wss://relay.example.com";
+
+// Stores what it is sent and answers REQs from that store, accepting every event.
+class FakeRelay {
+  events: NostrEvent[] = [];
+
+  handle(message: unknown[]): unknown[][] {
+    if (message[0] === "EVENT") {
+      const event = message[1] as NostrEvent;
+      this.events.push(event);
+      return [["OK", event.id, true, ""]];
+    }
+    if (message[0] === "REQ") {
+      const [, subscriptionId, filter] = message as [string, string, Filter];
+      const matches = this.events.filter(
+        (event) =>
+          (!filter.kinds || filter.kinds.includes(event.kind)) &&
+          (!filter.authors || filter.authors.includes(event.pubkey)) &&
+          (!filter["#d"] || event.tags.some((tag) => tag[0] === "d" && filter["#d"]!.includes(tag[1]))),
+      );
+      return [...matches.map((event) => ["EVENT", subscriptionId, event]), ["EOSE", subscriptionId]];
+    }
+    return [];
+  }
+}
+
+class FakeRelaySocket extends EventTarget {
+  constructor(private readonly relay: FakeRelay) {
+    super();
+  }
+
+  accept() {}
+
+  send(data: string) {
+    const replies = this.relay.handle(JSON.parse(data));
+    setTimeout(() => {
+      for (const reply of replies) this.dispatchEvent(new MessageEvent("message", { data: JSON.stringify(reply) }));
+    });
+  }
+
+  close() {}
+}
+
+let relay: FakeRelay;
+let env: Env;
+
+beforeAll(async () => {
+  vi.spyOn(console, "info").mockImplementation(() => {});
+  env = { TASKIFY_DB: await MemoryD1.create() } as unknown as Env;
+  // Relay hosts resolve to a public address, and an upgrade request opens a socket to the fake relay.
+  vi.stubGlobal("fetch", async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    if (url.hostname === "cloudflare-dns.com") {
+      const answer = url.searchParams.get("type") === "A" ? [{ type: 1, data: "93.184.216.34" }] : [];
+      return new Response(JSON.stringify({ Answer: answer }), { headers: { "Content-Type": "application/dns-json" } });
+    }
+    if (url.hostname === "relay.example.com" && new Headers(init?.headers).get("Upgrade") === "websocket") {
+      return { status: 101, webSocket: new FakeRelaySocket(relay) };
+    }
+    throw new Error(`Unexpected fetch to ${url}`);
+  });
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+beforeEach(() => {
+  relay = new FakeRelay();
+});
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function signedRequest(path: string, method: string, sk: Uint8Array, body?: string): Promise<Request> {
+  const url = `${ORIGIN}${path}`;
+  const tags = [["u", url], ["method", method]];
+  if (body) tags.push(["payload", await sha256Hex(body)]);
+  const auth = finalizeEvent({ kind: 27235, tags, content: "", created_at: Math.floor(Date.now() / 1000) }, sk);
+  return new Request(url, {
+    method,
+    body,
+    headers: { Authorization: `Nostr ${btoa(JSON.stringify(auth))}`, "Content-Type": "application/json" },
+  });
+}
+
+async function publishBoard(
+  boardId: string,
+  kind: string,
+  columns: { id: string; name: string }[] = [],
+  splitAccess = false,
+): Promise<void> {
+  const keys = await deriveBoardKeys(boardId);
+  const tags = [["d", await boardTag(boardId)], ["k", kind], ["name", `${kind} board`]];
+  if (splitAccess) tags.push(["access", "split"]);
+  const content = await encryptToBoard(boardId, JSON.stringify({ columns }), { splitAccess });
+  relay.handle(["EVENT", finalizeEvent({ kind: BOARD_METADATA_KIND, tags, content, created_at: Math.floor(Date.now() / 1000) }, keys.sk)]);
+}
+
+async function createToken(boardId: string, extra: Record<string, unknown> = {}): Promise<{ id: string; url: string }> {
+  const keys = await deriveBoardKeys(boardId);
+  const body = JSON.stringify({ boardId, relays: [RELAY], label: "Email", ...extra });
+  const response = await worker.fetch(await signedRequest(`/api/boards/${keys.pk}/inbox-tokens`, "POST", keys.sk, body), env);
+  expect(response.status).toBe(201);
+  return (await response.json()) as { id: string; url: string };
+}
+
+function capture(url: string, body: unknown): Promise<Response> {
+  return worker.fetch(
+    new Request(url, { method: "POST", body: JSON.stringify(body), headers: { "Content-Type": "application/json" } }),
+    env,
+  );
+}
+
+function publishedTasks(): NostrEvent[] {
+  return relay.events.filter((event) => event.kind === BOARD_TASK_KIND);
+}
+
+describe("sealBoardId", () => {
+  it("opens only with the token it was sealed with", async () => {
+    const sealed = await sealBoardId("token-a", "board-1");
+    expect(sealed).not.toContain("board-1");
+    await expect(openSealedBoardId("token-a", sealed)).resolves.toBe("board-1");
+    await expect(openSealedBoardId("token-b", sealed)).rejects.toThrow();
+  });
+});
+
+describe("buildTaskEvent", () => {
+  it("signs an open task with the board key and encrypts its body", async () => {
+    const keys = await deriveBoardKeys("board-2");
+    const body = { title: "Call back", note: "", dueISO: "2024-05-01T00:00:00.000Z", dueTimeEnabled: false };
+    const event = await buildTaskEvent("board-2", keys, { id: "task-1", column: "col-a", body });
+
+    expect(verifyEvent(event)).toBe(true);
+    expect(event.kind).toBe(BOARD_TASK_KIND);
+    expect(event.pubkey).toBe(keys.pk);
+    expect(event.tags).toEqual([["d", "task-1"], ["b", await boardTag("board-2")], ["col", "col-a"], ["status", "open"]]);
+    expect(JSON.parse(await decryptFromBoard("board-2", event.content))).toEqual(body);
+  });
+});
+
+describe("inbox token routes", () => {
+  it("creates, lists and revokes tokens for requests signed by the board key", async () => {
+    const boardId = "board-tokens";
+    const keys = await deriveBoardKeys(boardId);
+    const path = `/api/boards/${keys.pk}/inbox-tokens`;
+    const created = await createToken(boardId);
+    expect(created.url).toMatch(new RegExp(`^${ORIGIN}/api/inbox/[A-Za-z0-9_-]+$`));
+
+    const listed = await worker.fetch(await signedRequest(path, "GET", keys.sk), env);
+    expect(((await listed.json()) as { tokens: { id: string; label: string }[] }).tokens).toEqual([
+      expect.objectContaining({ id: created.id, label: "Email" }),
+    ]);
+
+    const revoked = await worker.fetch(await signedRequest(`${path}/${created.id}`, "DELETE", keys.sk), env);
+    expect(revoked.status).toBe(204);
+    const afterRevoke = await worker.fetch(await signedRequest(path, "GET", keys.sk), env);
+    expect(((await afterRevoke.json()) as { tokens: unknown[] }).tokens).toEqual([]);
+    expect((await capture(created.url, { title: "Too late" })).status).toBe(404);
+  });
+
+  it("rejects requests that are unsigned or signed by another key", async () => {
+    const keys = await deriveBoardKeys("board-auth");
+    const other = await deriveBoardKeys("board-other");
+    const path = `/api/boards/${keys.pk}/inbox-tokens`;
+
+    expect((await worker.fetch(new Request(`${ORIGIN}${path}`), env)).status).toBe(401);
+    expect((await worker.fetch(await signedRequest(path, "GET", other.sk), env)).status).toBe(401);
+  });
+
+  it("rejects a board ID that does not derive the board key", async () => {
+    const keys = await deriveBoardKeys("board-mismatch");
+    const body = JSON.stringify({ boardId: "board-else", relays: [RELAY] });
+    const response = await worker.fetch(await signedRequest(`/api/boards/${keys.pk}/inbox-tokens`, "POST", keys.sk, body), env);
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects relays that are not public wss:// URLs", async () => {
+    const keys = await deriveBoardKeys("board-relays");
+    const body = JSON.stringify({ boardId: "board-relays", relays: ["ws://relay.example.com", "wss://192.168.1.10"] });
+    const response = await worker.fetch(await signedRequest(`/api/boards/${keys.pk}/inbox-tokens`, "POST", keys.sk, body), env);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "At least one public wss:// relay is required" });
+  });
+});
+
+describe("POST /api/inbox/:token", () => {
+  it("publishes a captured task to the named column", async () => {
+    const boardId = "board-lists";
+    const columns = [
+      { id: "col-todo", name: "To do" },
+      { id: "col-later", name: "Later" },
+    ];
+    await publishBoard(boardId, "lists", columns);
+    const { url } = await createToken(boardId, { timeZone: "UTC" });
+
+    const response = await capture(url, { title: "Renew passport", note: "Form DS-82", due: "2024-06-03", column: "later" });
+    expect(response.status).toBe(201);
+    const result = (await response.json()) as { taskId: string; eventId: string };
+
+    const [event] = publishedTasks();
+    expect(event.id).toBe(result.eventId);
+    expect(event.pubkey).toBe((await deriveBoardKeys(boardId)).pk);
+    expect(event.tags).toContainEqual(["d", result.taskId]);
+    expect(event.tags).toContainEqual(["col", "col-later"]);
+    expect(JSON.parse(await decryptFromBoard(boardId, event.content))).toEqual({
+      title: "Renew passport",
+      note: "Form DS-82",
+      dueISO: "2024-06-03T00:00:00.000Z",
+      dueTimeEnabled: false,
+    });
+  });
+
+  it("uses the first column when none is named", async () => {
+    const boardId = "board-default-column";
+    await publishBoard(boardId, "lists", [{ id: "col-first", name: "Inbox" }], true);
+    const { url } = await createToken(boardId);
+
+    expect((await capture(url, { title: "Water plants" })).status).toBe(201);
+    expect(publishedTasks()[0].tags).toContainEqual(["col", "col-first"]);
+  });
+
+  it("returns 404 for an unknown token", async () => {
+    const response = await capture(`${ORIGIN}/api/inbox/not-a-real-token`, { title: "Lost" });
+    expect(response.status).toBe(404);
+    expect(publishedTasks()).toEqual([]);
+  });
+
+  it("rejects an unknown column and lists the board's columns", async () => {
+    const boardId = "board-unknown-column";
+    await publishBoard(boardId, "lists", [{ id: "col-todo", name: "To do" }]);
+    const { url } = await createToken(boardId);
+
+    const response = await capture(url, { title: "Somewhere", column: "Nowhere" });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Unknown column", columns: ["To do"] });
+    expect(publishedTasks()).toEqual([]);
+  });
+
+  it("refuses to add tasks to a compound board", async () => {
+    const boardId = "board-compound";
+    await publishBoard(boardId, "compound");
+    const { url } = await createToken(boardId);
+
+    const response = await capture(url, { title: "Anything" });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({ error: "Tasks cannot be added to a compound board" });
+    expect(publishedTasks()).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+// A D1 binding backed by an in-memory sql.js database, covering the calls the worker makes.
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+
+type Row = Record<string, SqlValue>;
+
+function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value as SqlValue;
+}
+
+class MemoryStatement {
+  constructor(
+    private readonly db: Database,
+    private readonly query: string,
+    private readonly values: SqlValue[] = [],
+  ) {}
+
+  bind(...values: unknown[]): MemoryStatement {
+    return new MemoryStatement(this.db, this.query, values.map(toSqlValue));
+  }
+
+  rows(): Row[] {
+    const statement = this.db.prepare(this.query);
+    try {
+      statement.bind(this.values);
+      const rows: Row[] = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  async first<T = Row>(column?: string): Promise<T | null> {
+    const row = this.rows()[0];
+    if (!row) return null;
+    return (column ? row[column] : row) as T;
+  }
+
+  async all<T = Row>(): Promise<{ results: T[]; success: true; meta: Record<string, unknown> }> {
+    return { results: this.rows() as T[], success: true, meta: {} };
+  }
+
+  async run(): Promise<{ results: Row[]; success: true; meta: { changes: number } }> {
+    const results = this.rows();
+    return { results, success: true, meta: { changes: this.db.getRowsModified() } };
+  }
+}
+
+export class MemoryD1 {
+  private constructor(readonly db: Database) {}
+
+  static async create(): Promise<MemoryD1> {
+    const SQL = await initSqlJs();
+    return new MemoryD1(new SQL.Database());
+  }
+
+  prepare(query: string): MemoryStatement {
+    return new MemoryStatement(this.db, query);
+  }
+
+  // D1 runs a batch as one transaction.
+  async batch(statements: MemoryStatement[]): Promise<unknown[]> {
+    this.db.run("BEGIN");
+    try {
+      const results = [];
+      for (const statement of statements) results.push(await statement.run());
+      this.db.run("COMMIT");
+      return results;
+    } catch (err) {
+      this.db.run("ROLLBACK");
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { buildTaskCalendar, type CalendarTask } from "../src/ical";
+
+const NOW = Date.UTC(2024, 2, 1, 12, 0, 0);
+
+function task(overrides: Partial<CalendarTask> = {}): CalendarTask {
+  return {
+    uid: "task-1@taskify",
+    taskId: "task-1",
+    title: "Pay rent",
+    dueISO: "2024-03-05T14:30:00.000Z",
+    dueTimeEnabled: true,
+    completed: false,
+    minutesBefore: [],
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+// Unfold continuation lines so assertions can look at whole content lines.
+function contentLines(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, "").split("\r\n").filter(Boolean);
+}
+
+function component(calendar: string, name: "VEVENT" | "VTODO"): string[] {
+  const lines = contentLines(calendar);
+  return lines.slice(lines.indexOf(`BEGIN:${name}`), lines.indexOf(`END:${name}`) + 1);
+}
+
+describe("buildTaskCalendar", () => {
+  it("renders a timed task as a short UTC event", () => {
+    const lines = component(buildTaskCalendar([task()], { now: NOW }), "VEVENT");
+    expect(lines).toContain("DTSTART:20240305T143000Z");
+    expect(lines).toContain("DURATION:PT30M");
+    expect(lines).toContain("DTSTAMP:20240301T120000Z");
+  });
+
+  it("renders an all-day task as a one-day event on its local date", () => {
+    const calendar = buildTaskCalendar([task({ dueISO: "2024-03-05T03:00:00.000Z", dueTimeEnabled: false })], {
+      now: NOW,
+      timeZone: "America/New_York",
+    });
+    const lines = component(calendar, "VEVENT");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20240304");
+    expect(lines).toContain("DTEND;VALUE=DATE:20240305");
+    // All-day entries carry no TZID, so no VTIMEZONE is needed.
+    expect(calendar).not.toContain("BEGIN:VTIMEZONE");
+  });
+
+  it("uses zoned local times with a matching VTIMEZONE", () => {
+    const calendar = buildTaskCalendar([task()], { now: NOW, timeZone: "America/New_York" });
+    const lines = contentLines(calendar);
+    expect(component(calendar, "VEVENT")).toContain("DTSTART;TZID=America/New_York:20240305T093000");
+    expect(lines).toContain("TZID:America/New_York");
+    expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU");
+    expect(lines).toContain("RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU");
+  });
+
+  it("escapes text and folds long lines at 75 octets", () => {
+    const title = "Groceries; milk, eggs\nand a very long list of other things that needs folding across lines";
+    const calendar = buildTaskCalendar([task({ title })], { now: NOW });
+
+    for (const line of calendar.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(calendar.endsWith("\r\n")).toBe(true);
+    expect(component(calendar, "VEVENT")).toContain(
+      "SUMMARY:Groceries\\; milk\\, eggs\\nand a very long list of other things that needs folding across lines",
+    );
+  });
+
+  it("leaves completed tasks out of event feeds but keeps them in to-do feeds", () => {
+    const done = task({ completed: true, completedAt: "2024-03-04T08:00:00.000Z" });
+    expect(buildTaskCalendar([done], { now: NOW })).not.toContain("BEGIN:VEVENT");
+
+    const lines = component(buildTaskCalendar([done], { now: NOW, component: "todo" }), "VTODO");
+    expect(lines).toContain("DUE:20240305T143000Z");
+    expect(lines.some((line) => line.startsWith("DTSTART"))).toBe(false);
+    expect(lines).toContain("STATUS:COMPLETED");
+    expect(lines).toContain("COMPLETED:20240304T080000Z");
+  });
+
+  it("adds recurrence rules and alarms to open tasks", () => {
+    const recurring = task({
+      recurrence: { type: "weekly", days: [3, 1, 1], untilISO: "2024-06-01T00:00:00.000Z" },
+      minutesBefore: [15, 0, 15],
+    });
+    const lines = component(buildTaskCalendar([recurring], { now: NOW }), "VEVENT");
+    expect(lines).toContain("RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240601T000000Z");
+    expect(lines.filter((line) => line.startsWith("TRIGGER"))).toEqual(["TRIGGER:PT0M", "TRIGGER:-PT15M"]);
+
+    const todo = component(buildTaskCalendar([recurring], { now: NOW, component: "todo" }), "VTODO");
+    expect(todo).toContain("TRIGGER;RELATED=END:-PT15M");
+  });
+
+  it("drops rules that cannot apply to the entry", () => {
+    const hourlyAllDay = task({ dueTimeEnabled: false, recurrence: { type: "every", n: 2, unit: "hour" } });
+    const lines = component(buildTaskCalendar([hourlyAllDay], { now: NOW }), "VEVENT");
+    expect(lines.some((line) => line.startsWith("RRULE"))).toBe(false);
+
+    const monthly = task({ recurrence: { type: "monthlyDay", day: 31, interval: 3 } });
+    expect(component(buildTaskCalendar([monthly], { now: NOW }), "VEVENT")).toContain(
+      "RRULE:FREQ=MONTHLY;BYMONTHDAY=31;INTERVAL=3",
+    );
+  });
+});
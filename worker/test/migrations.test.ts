@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import dataImportsMigration from "../migrations/0008_data_imports.sql";
+import { runDataImportPage, runMigrations, splitSqlStatements, type Migration } from "../src/migrations";
+import { MemoryD1 } from "./d1";
+
+let db: MemoryD1;
+
+beforeAll(() => {
+  vi.spyOn(console, "info").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  db = await MemoryD1.create();
+});
+
+async function tableColumns(table: string): Promise<string[]> {
+  const result = await db.prepare(`PRAGMA table_info(${table})`).all<{ name: string }>();
+  return result.results.map((row) => row.name);
+}
+
+async function appliedVersions(): Promise<number[]> {
+  const result = await db.prepare("SELECT version FROM schema_migrations ORDER BY version").all<{ version: number }>();
+  return result.results.map((row) => row.version);
+}
+
+describe("splitSqlStatements", () => {
+  it("drops comments and splits on statement-ending semicolons", () => {
+    const sql = "-- header\nCREATE TABLE a (x TEXT DEFAULT 'a;b'); -- trailing\n\nINSERT INTO a VALUES ('1');\n";
+    expect(splitSqlStatements(sql)).toEqual(["CREATE TABLE a (x TEXT DEFAULT 'a;b')", "INSERT INTO a VALUES ('1')"]);
+  });
+});
+
+describe("runMigrations", () => {
+  const migrations: Migration[] = [
+    { version: 2, name: "notes", sql: "ALTER TABLE items ADD COLUMN note TEXT;" },
+    { version: 1, name: "items", sql: "PRAGMA foreign_keys = ON;\nCREATE TABLE items (id TEXT PRIMARY KEY);" },
+  ];
+
+  it("applies pending migrations in version order and records them", async () => {
+    await runMigrations(db, migrations);
+    expect(await appliedVersions()).toEqual([1, 2]);
+    expect(await tableColumns("items")).toEqual(["id", "note"]);
+
+    await runMigrations(db, migrations);
+    expect(await appliedVersions()).toEqual([1, 2]);
+    expect(await db.prepare("SELECT COUNT(*) AS count FROM schema_migration_lock").first("count")).toBe(0);
+  });
+
+  it("skips columns that an untracked database already has", async () => {
+    await db.prepare("CREATE TABLE items (id TEXT PRIMARY KEY, note TEXT)").run();
+    await runMigrations(db, [{ ...migrations[1], sql: "CREATE TABLE IF NOT EXISTS items (id TEXT PRIMARY KEY);" }, migrations[0]]);
+    expect(await appliedVersions()).toEqual([1, 2]);
+    expect(await tableColumns("items")).toEqual(["id", "note"]);
+  });
+
+  it("rolls back a failing migration without recording it", async () => {
+    const failing: Migration = {
+      version: 3,
+      name: "broken",
+      sql: "CREATE TABLE extras (id TEXT);\nINSERT INTO missing_table VALUES (1);",
+    };
+    await expect(runMigrations(db, [...migrations, failing])).rejects.toThrow();
+    expect(await appliedVersions()).toEqual([1, 2]);
+    expect(await db.prepare("SELECT name FROM sqlite_master WHERE name = 'extras'").first()).toBeNull();
+    expect(await db.prepare("SELECT COUNT(*) AS count FROM schema_migration_lock").first("count")).toBe(0);
+  });
+
+  it("waits for another isolate's lease to expire", async () => {
+    await runMigrations(db, []);
+    await db
+      .prepare("INSERT INTO schema_migration_lock (id, owner, expires_at) VALUES (1, 'other', ?)")
+      .bind(Date.now() + 300)
+      .run();
+    await runMigrations(db, migrations);
+    expect(await appliedVersions()).toEqual([1, 2]);
+  });
+});
+
+describe("runDataImportPage", () => {
+  beforeEach(async () => {
+    await runMigrations(db, [{ version: 1, name: "data_imports", sql: dataImportsMigration }]);
+  });
+
+  it("resumes from the stored cursor until the import is finished", async () => {
+    const seen: (string | null)[] = [];
+    const pages = {
+      name: "legacy",
+      runPage: async (cursor: string | null) => {
+        seen.push(cursor);
+        return cursor === "2" ? null : String(Number(cursor ?? 0) + 1);
+      },
+    };
+
+    expect(await runDataImportPage(db, [pages])).toBe(true);
+    expect(await runDataImportPage(db, [pages])).toBe(true);
+    expect(await runDataImportPage(db, [pages])).toBe(true);
+    expect(await runDataImportPage(db, [pages])).toBe(false);
+    expect(seen).toEqual([null, "1", "2"]);
+    expect(await db.prepare("SELECT completed_at FROM data_imports WHERE name = 'legacy'").first("completed_at")).not.toBeNull();
+  });
+
+  it("releases the lease when a page fails so a later run retries it", async () => {
+    let attempts = 0;
+    const flaky = {
+      name: "flaky",
+      runPage: async () => {
+        attempts += 1;
+        if (attempts === 1) throw new Error("KV unavailable");
+        return null;
+      },
+    };
+    await expect(runDataImportPage(db, [flaky])).rejects.toThrow("KV unavailable");
+    await expect(runDataImportPage(db, [flaky])).resolves.toBe(true);
+    await expect(runDataImportPage(db, [flaky])).resolves.toBe(false);
+    expect(attempts).toBe(2);
+  });
+
+  it("skips a page whose import is leased elsewhere", async () => {
+    await db
+      .prepare("INSERT INTO data_imports (name, lease_owner, lease_expires_at) VALUES ('busy', 'other', ?)")
+      .bind(Date.now() + 60_000)
+      .run();
+    const runPage = vi.fn(async () => null);
+    await expect(runDataImportPage(db, [{ name: "busy", runPage }])).resolves.toBe(true);
+    expect(runPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { finalizeEvent, generateSecretKey, getPublicKey } from "nostr-tools";
+import { describe, expect, it } from "vitest";
+import { verifyNip98Authorization } from "../src/nip98";
+
+const URL_SIGNED = "https://taskify.example/api/devices/abc/account";
+const NOW = 1_700_000_000_000;
+const sk = generateSecretKey();
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function authorization(overrides: { kind?: number; tags?: string[][]; createdAt?: number } = {}): string {
+  const event = finalizeEvent(
+    {
+      kind: overrides.kind ?? 27235,
+      tags: overrides.tags ?? [["u", URL_SIGNED], ["method", "PUT"]],
+      content: "",
+      created_at: overrides.createdAt ?? NOW / 1000,
+    },
+    sk,
+  );
+  return `Nostr ${btoa(JSON.stringify(event))}`;
+}
+
+function request(header: string | null, url = URL_SIGNED, method = "PUT"): Request {
+  return new Request(url, { method, headers: header ? { Authorization: header } : {} });
+}
+
+describe("verifyNip98Authorization", () => {
+  it("returns the signer for a matching request", async () => {
+    await expect(verifyNip98Authorization(request(authorization()), { now: NOW })).resolves.toEqual({
+      ok: true,
+      pubkey: getPublicKey(sk),
+    });
+  });
+
+  it("rejects a missing or malformed header", async () => {
+    expect(await verifyNip98Authorization(request(null), { now: NOW })).toEqual({ ok: false, error: "Missing Nostr authorization" });
+    expect(await verifyNip98Authorization(request("Nostr not-base64!"), { now: NOW })).toEqual({
+      ok: false,
+      error: "Malformed Nostr authorization",
+    });
+  });
+
+  it("rejects the wrong kind and a tampered signature", async () => {
+    expect(await verifyNip98Authorization(request(authorization({ kind: 1 })), { now: NOW })).toMatchObject({ ok: false });
+
+    const event = JSON.parse(atob(authorization().slice("Nostr ".length)));
+    event.tags.push(["extra", "tag"]);
+    expect(await verifyNip98Authorization(request(`Nostr ${btoa(JSON.stringify(event))}`), { now: NOW })).toEqual({
+      ok: false,
+      error: "Authorization signature is invalid",
+    });
+  });
+
+  it("rejects events outside the allowed clock skew", async () => {
+    const stale = authorization({ createdAt: NOW / 1000 - 61 });
+    expect(await verifyNip98Authorization(request(stale), { now: NOW })).toEqual({ ok: false, error: "Authorization has expired" });
+    const fresh = authorization({ createdAt: NOW / 1000 - 60 });
+    expect(await verifyNip98Authorization(request(fresh), { now: NOW })).toMatchObject({ ok: true });
+  });
+
+  it("rejects a different URL or method", async () => {
+    const header = authorization();
+    expect(await verifyNip98Authorization(request(header, `${URL_SIGNED}?x=1`), { now: NOW })).toEqual({
+      ok: false,
+      error: "Authorization URL does not match",
+    });
+    expect(await verifyNip98Authorization(request(header, URL_SIGNED, "DELETE"), { now: NOW })).toEqual({
+      ok: false,
+      error: "Authorization method does not match",
+    });
+  });
+
+  it("requires a matching payload hash when a body is sent", async () => {
+    const body = JSON.stringify({ npub: "npub1example" });
+    const withoutPayload = authorization();
+    expect(await verifyNip98Authorization(request(withoutPayload), { body, now: NOW })).toEqual({
+      ok: false,
+      error: "Authorization payload hash is required",
+    });
+
+    const tags = [["u", URL_SIGNED], ["method", "PUT"], ["payload", await sha256Hex(body)]];
+    expect(await verifyNip98Authorization(request(authorization({ tags })), { body, now: NOW })).toMatchObject({ ok: true });
+    expect(await verifyNip98Authorization(request(authorization({ tags })), { body: `${body} `, now: NOW })).toEqual({
+      ok: false,
+      error: "Authorization payload hash does not match",
+    });
+  });
+});
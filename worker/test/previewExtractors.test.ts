@@ -0,0 +1,299 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  canonicalizeKnownUrl,
+  runPreviewExtractors,
+  type AlternatePreviewReason,
+  type ExtractorToolkit,
+  type PreviewPayload,
+} from "../src/previewExtractors";
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/preview/${name}`, import.meta.url), "utf8");
+}
+
+function ogContent(html: string, property: string): string | undefined {
+  return html.match(new RegExp(`<meta[^>]+property=["']og:${property}["'][^>]+content=["']([^"']+)`, "i"))?.[1];
+}
+
+/**
+ * Toolkit that answers fetches from saved fixtures keyed by the exact URL an extractor asks for,
+ * and records every URL requested. Unknown URLs fail like an unreachable destination.
+ */
+function fixtureToolkit(fixtures: { json?: Record<string, string>; html?: Record<string, string> }) {
+  const requested: string[] = [];
+  const fallbackTitle = (url: string) => new URL(url).hostname.replace(/^www\./, "");
+  const fromMetadata: ExtractorToolkit["fromMetadata"] = (requestedUrl, finalUrl, meta, extras = {}) => ({
+    url: requestedUrl,
+    finalUrl,
+    displayUrl: finalUrl,
+    title: meta.title ?? fallbackTitle(finalUrl),
+    description: meta.description,
+    image: meta.thumbnail ?? extras.fallbackImage,
+    icon: extras.icon,
+    siteName: extras.siteName ?? meta.providerName,
+  });
+  const toolkit: ExtractorToolkit = {
+    async fetchJson(url) {
+      requested.push(url);
+      const name = fixtures.json?.[url];
+      return name ? JSON.parse(fixture(name)) : null;
+    },
+    async fetchHtml(url) {
+      requested.push(url);
+      const name = fixtures.html?.[url];
+      return name ? { html: fixture(name), finalUrl: url } : null;
+    },
+    // Open Graph tags only; the worker's full HTML parsing needs the Workers runtime.
+    async deriveFromHtml(requestedUrl, finalUrl, html) {
+      const title = ogContent(html, "title");
+      const image = ogContent(html, "image");
+      if (!title && !image) {
+        return { preview: fromMetadata(requestedUrl, finalUrl, {}), rich: false };
+      }
+      return { preview: fromMetadata(requestedUrl, finalUrl, { title, thumbnail: image }), rich: Boolean(title && image) };
+    },
+    fromMetadata,
+    fallbackTitle,
+    decodeEntities: (raw) => raw.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, "&"),
+    truncateTitle: (title) => title,
+  };
+  return { toolkit, requested };
+}
+
+function run(
+  url: string,
+  toolkit: ExtractorToolkit,
+  options: { reason?: AlternatePreviewReason; html?: string } = {},
+): Promise<{ preview: PreviewPayload; fallback?: boolean } | null> {
+  return runPreviewExtractors(
+    { requestedUrl: url, finalUrl: url, reason: options.reason ?? "incomplete", needsUpgrade: true, html: options.html },
+    toolkit,
+  );
+}
+
+describe("YouTube", () => {
+  it("reads the oEmbed response for the canonical watch URL", async () => {
+    const { toolkit, requested } = fixtureToolkit({
+      json: {
+        "https://www.youtube.com/oembed?format=json&url=https%3A%2F%2Fwww.youtube.com%2Fwatch%3Fv%3DdQw4w9WgXcQ":
+          "youtube-oembed.json",
+      },
+    });
+    const result = await run("https://youtu.be/dQw4w9WgXcQ?si=share", toolkit);
+    expect(requested).toHaveLength(1);
+    expect(result?.fallback).toBeUndefined();
+    expect(result?.preview).toMatchObject({
+      finalUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      title: "Rick Astley - Never Gonna Give You Up (Official Music Video)",
+      description: "Rick Astley • YouTube",
+      image: "https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg",
+      siteName: "YouTube",
+    });
+  });
+
+  it("canonicalizes shorts links", () => {
+    expect(canonicalizeKnownUrl("https://youtube.com/shorts/dQw4w9WgXcQ")).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ");
+  });
+});
+
+describe("noembed", () => {
+  it("previews supported hosts through noembed", async () => {
+    const { toolkit } = fixtureToolkit({
+      json: { "https://noembed.com/embed?nowrap=1&url=https%3A%2F%2Fvimeo.com%2F76979871": "noembed-vimeo.json" },
+    });
+    const result = await run("https://vimeo.com/76979871", toolkit);
+    expect(result?.preview).toMatchObject({
+      title: "The New Vimeo Player (You Know, For Videos)",
+      description: "Vimeo Staff",
+      siteName: "Vimeo",
+    });
+    expect(result?.preview.image).toMatch(/^https:\/\/i\.vimeocdn\.com\//);
+  });
+});
+
+describe("Amazon", () => {
+  const productUrl = "https://www.amazon.com/Echo-Dot-4th-Gen-Charcoal/dp/B08N5WRWNW/ref=sr_1_1?keywords=echo";
+
+  it("canonicalizes product links to the ASIN", () => {
+    expect(canonicalizeKnownUrl(productUrl)).toBe("https://www.amazon.com/dp/B08N5WRWNW");
+  });
+
+  it("falls back to the mobile page and reads the product image from its HTML", async () => {
+    const { toolkit, requested } = fixtureToolkit({
+      json: {
+        "https://noembed.com/embed?nowrap=1&url=https%3A%2F%2Fwww.amazon.com%2Fdp%2FB08N5WRWNW": "noembed-no-provider.json",
+      },
+      html: { "https://www.amazon.com/gp/aw/d/B08N5WRWNW": "amazon-mobile.html" },
+    });
+    const result = await run(productUrl, toolkit, { reason: "blocked" });
+    expect(requested).toEqual([
+      "https://noembed.com/embed?nowrap=1&url=https%3A%2F%2Fwww.amazon.com%2Fdp%2FB08N5WRWNW",
+      "https://www.amazon.com/gp/aw/d/B08N5WRWNW",
+    ]);
+    expect(result?.fallback).toBe(true);
+    expect(result?.preview).toMatchObject({
+      title: "Echo Dot (4th Gen) | Smart speaker with Alexa | Charcoal",
+      image: "https://m.media-amazon.com/images/I/714Rq4k05UL._AC_SL1000_.jpg",
+    });
+  });
+});
+
+describe("Etsy", () => {
+  const listingUrl = "https://www.etsy.com/listing/1234567890/handmade-ceramic-mug-speckled-stoneware?ref=hp";
+  const oEmbedUrl =
+    "https://www.etsy.com/oembed?url=https%3A%2F%2Fwww.etsy.com%2Flisting%2F1234567890%2Fhandmade-ceramic-mug-speckled-stoneware";
+
+  it("uses the listing URL and seller from the oEmbed response", async () => {
+    const { toolkit } = fixtureToolkit({ json: { [oEmbedUrl]: "etsy-oembed.json" } });
+    const result = await run(listingUrl, toolkit);
+    expect(result?.preview).toMatchObject({
+      finalUrl: "https://www.etsy.com/listing/1234567890/handmade-ceramic-mug-speckled-stoneware",
+      title: "Handmade Ceramic Mug, Speckled Stoneware Coffee Cup",
+      description: "by ClayAndKilnStudio",
+      siteName: "Etsy",
+    });
+  });
+
+  it("reads the JSON-LD image from the mobile listing when oEmbed fails", async () => {
+    const { toolkit } = fixtureToolkit({ html: { "https://m.etsy.com/listing/1234567890": "etsy-mobile.html" } });
+    const result = await run(listingUrl, toolkit, { reason: "blocked" });
+    expect(result?.preview.image).toBe(
+      "https://i.etsystatic.com/12345678/r/il/abcdef/1234567890/il_340x270.1234567890_abcd.jpg",
+    );
+    expect(result?.preview.title).toBe("Handmade Ceramic Mug, Speckled Stoneware Coffee Cup");
+  });
+});
+
+describe("GitHub", () => {
+  it("describes repositories from the REST API", async () => {
+    const { toolkit } = fixtureToolkit({ json: { "https://api.github.com/repos/facebook/react": "github-repo.json" } });
+    const result = await run("https://github.com/facebook/react/tree/main/packages", toolkit);
+    expect(result?.preview).toMatchObject({
+      finalUrl: "https://github.com/facebook/react",
+      title: "facebook/react",
+      description: "The library for web and native user interfaces. · JavaScript · ★ 236,512",
+      image: "https://opengraph.githubassets.com/1/facebook/react",
+      siteName: "GitHub",
+    });
+  });
+
+  it("labels pull requests served by the issues endpoint", async () => {
+    const { toolkit } = fixtureToolkit({
+      json: { "https://api.github.com/repos/facebook/react/issues/28000": "github-pull.json" },
+    });
+    const result = await run("https://github.com/facebook/react/pull/28000/files", toolkit);
+    expect(result?.preview).toMatchObject({
+      title: "Add support for async transitions · #28000",
+      description: "Pull request #28000 in facebook/react · closed · by acdlite",
+    });
+  });
+
+  it("leaves reserved paths to other providers", () => {
+    expect(canonicalizeKnownUrl("https://github.com/settings/profile")).toBeNull();
+  });
+});
+
+describe("Wikipedia", () => {
+  it("reads the page summary for mobile article links", async () => {
+    const { toolkit } = fixtureToolkit({
+      json: { "https://en.wikipedia.org/api/rest_v1/page/summary/Ada_Lovelace": "wikipedia-summary.json" },
+    });
+    const result = await run("https://en.m.wikipedia.org/wiki/Ada_Lovelace", toolkit);
+    expect(result?.preview.finalUrl).toBe("https://en.wikipedia.org/wiki/Ada_Lovelace");
+    expect(result?.preview.title).toBe("Ada Lovelace");
+    expect(result?.preview.description).toMatch(/^Augusta Ada King, Countess of Lovelace/);
+    expect(result?.preview.image).toMatch(/^https:\/\/upload\.wikimedia\.org\//);
+  });
+});
+
+describe("Spotify", () => {
+  it("drops the locale segment before asking oEmbed", async () => {
+    const { toolkit } = fixtureToolkit({
+      json: {
+        "https://open.spotify.com/oembed?url=https%3A%2F%2Fopen.spotify.com%2Ftrack%2F7tFiyTwD0nx5a1eklYtX2J":
+          "spotify-oembed.json",
+      },
+    });
+    const result = await run("https://open.spotify.com/intl-de/track/7tFiyTwD0nx5a1eklYtX2J?si=abc", toolkit);
+    expect(result?.preview).toMatchObject({
+      finalUrl: "https://open.spotify.com/track/7tFiyTwD0nx5a1eklYtX2J",
+      title: "Bohemian Rhapsody - Remastered 2011",
+      image: "https://image-cdn-ak.spotifycdn.com/image/ab67616d00001e02ce4f1737bc8a646c8c4bd25a",
+      siteName: "Spotify",
+    });
+  });
+});
+
+describe("Reddit", () => {
+  const postUrl = "https://old.reddit.com/r/selfhosted/comments/1abcde2/my_selfhosted_task_board/";
+  const jsonUrl = "https://www.reddit.com/comments/1abcde2.json?limit=1&raw_json=1";
+
+  it("reads the post listing", async () => {
+    const { toolkit } = fixtureToolkit({ json: { [jsonUrl]: "reddit-post.json" } });
+    const result = await run(postUrl, toolkit);
+    expect(result?.preview).toMatchObject({
+      finalUrl: "https://www.reddit.com/r/selfhosted/comments/1abcde2/",
+      title: "My self-hosted task board",
+      description: "r/selfhosted · u/tasklover — Sharing my setup for syncing tasks across devices.",
+      image: "https://preview.redd.it/abc123.png?width=1200&format=png&auto=webp&s=0123456789abcdef",
+    });
+  });
+
+  it("keeps media out of NSFW previews", async () => {
+    const { toolkit } = fixtureToolkit({ json: { [jsonUrl]: "reddit-post.json" } });
+    const fetchJson = toolkit.fetchJson;
+    toolkit.fetchJson = async (url, headers) => {
+      const json = (await fetchJson(url, headers)) as any;
+      json[0].data.children[0].data.over_18 = true;
+      return json;
+    };
+    const result = await run(postUrl, toolkit);
+    expect(result?.preview.title).toBe("My self-hosted task board");
+    expect(result?.preview.image).toBeUndefined();
+  });
+});
+
+describe("Mastodon", () => {
+  it("reads the status from the server's API", async () => {
+    const { toolkit } = fixtureToolkit({
+      json: { "https://mastodon.social/api/v1/statuses/111222333444555666": "mastodon-status.json" },
+    });
+    const result = await run("https://mastodon.social/@Gargron/111222333444555666", toolkit);
+    expect(result?.preview).toMatchObject({
+      finalUrl: "https://mastodon.social/@Gargron/111222333444555666",
+      title: "Eugen Rochko (@Gargron@mastodon.social)",
+      description: "Trying out a new task app. It syncs over #nostr & works offline.",
+      image: "https://files.mastodon.social/media_attachments/files/111/222/small/screenshot.png",
+      siteName: "mastodon.social",
+    });
+  });
+});
+
+describe("oEmbed discovery", () => {
+  it("follows the page's oEmbed link relative to the page URL", async () => {
+    const pageUrl = "https://blog.example.com/2024/03/planning-a-week/";
+    const { toolkit, requested } = fixtureToolkit({
+      json: {
+        "https://blog.example.com/wp-json/oembed/1.0/embed?url=https%3A%2F%2Fblog.example.com%2F2024%2F03%2Fplanning-a-week%2F&format=json":
+          "oembed-discovery.json",
+      },
+    });
+    const result = await run(pageUrl, toolkit, { html: fixture("oembed-discovery-page.html") });
+    expect(requested).toHaveLength(1);
+    expect(result?.preview).toMatchObject({
+      finalUrl: pageUrl,
+      title: "Planning a week with time blocks",
+      description: "Sam Writer",
+      image: "https://blog.example.com/wp-content/uploads/2024/03/time-blocks.jpg",
+      siteName: "The Productive Blog",
+    });
+  });
+
+  it("returns nothing when the page has no oEmbed link", async () => {
+    const { toolkit, requested } = fixtureToolkit({});
+    const result = await run("https://blog.example.com/about/", toolkit, { html: fixture("amazon-mobile.html") });
+    expect(result).toBeNull();
+    expect(requested).toEqual([]);
+  });
+});
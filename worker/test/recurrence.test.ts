@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { nextOccurrence, parseRecurrence } from "../src/recurrence";
+
+describe("parseRecurrence", () => {
+  it("keeps valid rules and their until date", () => {
+    expect(parseRecurrence({ type: "daily", untilISO: "2024-05-01T00:00:00.000Z" })).toEqual({
+      type: "daily",
+      untilISO: "2024-05-01T00:00:00.000Z",
+    });
+    expect(parseRecurrence({ type: "weekly", days: [1, 1, 3, 9, "2"] })).toEqual({ type: "weekly", days: [1, 3] });
+    expect(parseRecurrence({ type: "every", n: 2.7, unit: "hour" })).toEqual({ type: "every", n: 2, unit: "hour" });
+    expect(parseRecurrence({ type: "monthlyDay", day: 15, interval: 2 })).toEqual({ type: "monthlyDay", day: 15, interval: 2 });
+  });
+
+  it("returns null for none and malformed rules", () => {
+    expect(parseRecurrence(null)).toBeNull();
+    expect(parseRecurrence({ type: "none" })).toBeNull();
+    expect(parseRecurrence({ type: "weekly", days: [] })).toBeNull();
+    expect(parseRecurrence({ type: "every", n: 0, unit: "day" })).toBeNull();
+    expect(parseRecurrence({ type: "every", n: 1, unit: "month" })).toBeNull();
+    expect(parseRecurrence({ type: "monthlyDay", day: 32 })).toBeNull();
+    expect(parseRecurrence({ type: "daily", untilISO: "not a date" })).toEqual({ type: "daily" });
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("steps daily and weekly rules by local days", () => {
+    expect(nextOccurrence("2024-03-05T14:30:00.000Z", { type: "daily" })).toBe("2024-03-06T14:30:00.000Z");
+    // Tuesday to the next Monday or Wednesday.
+    expect(nextOccurrence("2024-03-05T14:30:00.000Z", { type: "weekly", days: [1, 3] })).toBe("2024-03-06T14:30:00.000Z");
+    expect(nextOccurrence("2024-03-06T14:30:00.000Z", { type: "weekly", days: [1, 3] })).toBe("2024-03-11T14:30:00.000Z");
+  });
+
+  it("keeps the local time of day across a DST change", () => {
+    // 09:00 in New York before and after the switch to daylight time on 10 March 2024.
+    expect(nextOccurrence("2024-03-09T14:00:00.000Z", { type: "daily" }, "America/New_York")).toBe("2024-03-10T13:00:00.000Z");
+    // Hourly rules count elapsed time instead.
+    expect(nextOccurrence("2024-03-10T06:30:00.000Z", { type: "every", n: 1, unit: "hour" }, "America/New_York")).toBe(
+      "2024-03-10T07:30:00.000Z",
+    );
+  });
+
+  it("uses the local weekday in the rule's time zone", () => {
+    // Monday 23:00 in Los Angeles is Tuesday in UTC; the next Monday is a week later locally.
+    expect(nextOccurrence("2024-03-05T07:00:00.000Z", { type: "weekly", days: [1] }, "America/Los_Angeles")).toBe(
+      "2024-03-12T06:00:00.000Z",
+    );
+  });
+
+  it("caps monthly days at the 28th and honours the interval", () => {
+    expect(nextOccurrence("2024-01-28T10:00:00.000Z", { type: "monthlyDay", day: 31 })).toBe("2024-02-28T10:00:00.000Z");
+    expect(nextOccurrence("2024-11-15T10:00:00.000Z", { type: "monthlyDay", day: 15, interval: 3 })).toBe(
+      "2025-02-15T10:00:00.000Z",
+    );
+  });
+
+  it("ends the series after the until date", () => {
+    const rule = { type: "daily", untilISO: "2024-03-06T00:00:00.000Z" } as const;
+    expect(nextOccurrence("2024-03-05T14:30:00.000Z", rule)).toBe("2024-03-06T14:30:00.000Z");
+    expect(nextOccurrence("2024-03-06T14:30:00.000Z", rule)).toBeNull();
+    expect(nextOccurrence("2024-03-05T14:30:00.000Z", { type: "none" })).toBeNull();
+    expect(nextOccurrence("not a date", { type: "daily" })).toBeNull();
+  });
+});
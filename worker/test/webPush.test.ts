@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { MAX_PUSH_PAYLOAD_BYTES, encryptWebPushPayload } from "../src/webPush";
+
+const encoder = new TextEncoder();
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, data));
+}
+
+async function createSubscriber() {
+  const keys = (await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"])) as CryptoKeyPair;
+  const publicKey = new Uint8Array((await crypto.subtle.exportKey("raw", keys.publicKey)) as ArrayBuffer);
+  return { keys, publicKey, authSecret: crypto.getRandomValues(new Uint8Array(16)) };
+}
+
+// Decrypt the way a browser's push service client does (RFC 8291 and RFC 8188).
+async function decrypt(body: Uint8Array, subscriber: Awaited<ReturnType<typeof createSubscriber>>): Promise<Uint8Array> {
+  const salt = body.slice(0, 16);
+  const idLength = body[20];
+  const senderPublicKey = body.slice(21, 21 + idLength);
+  const senderKey = await crypto.subtle.importKey("raw", senderPublicKey, { name: "ECDH", namedCurve: "P-256" }, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: senderKey }, subscriber.keys.privateKey, 256),
+  );
+
+  const keyInfo = concat(encoder.encode("WebPush: info\0"), subscriber.publicKey, senderPublicKey);
+  const ikm = await hmacSha256(await hmacSha256(subscriber.authSecret, sharedSecret), concat(keyInfo, new Uint8Array([1])));
+  const prk = await hmacSha256(salt, ikm);
+  const cek = (await hmacSha256(prk, concat(encoder.encode("Content-Encoding: aes128gcm\0"), new Uint8Array([1])))).slice(0, 16);
+  const nonce = (await hmacSha256(prk, concat(encoder.encode("Content-Encoding: nonce\0"), new Uint8Array([1])))).slice(0, 12);
+
+  const contentKey = await crypto.subtle.importKey("raw", cek, { name: "AES-GCM" }, false, ["decrypt"]);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: nonce }, contentKey, body.slice(21 + idLength)));
+}
+
+describe("encryptWebPushPayload", () => {
+  it("produces a single aes128gcm record the subscriber can decrypt", async () => {
+    const subscriber = await createSubscriber();
+    const plaintext = encoder.encode(JSON.stringify({ title: "Reminder", body: "Pay rent" }));
+    const body = await encryptWebPushPayload(plaintext, subscriber.publicKey, subscriber.authSecret);
+
+    expect(new DataView(body.buffer).getUint32(16)).toBe(4096);
+    expect(body[20]).toBe(65);
+    expect(await decrypt(body, subscriber)).toEqual(concat(plaintext, new Uint8Array([2])));
+  });
+
+  it("uses a fresh salt and sender key for every message", async () => {
+    const subscriber = await createSubscriber();
+    const plaintext = encoder.encode("same");
+    const first = await encryptWebPushPayload(plaintext, subscriber.publicKey, subscriber.authSecret);
+    const second = await encryptWebPushPayload(plaintext, subscriber.publicKey, subscriber.authSecret);
+    expect(first.slice(0, 86)).not.toEqual(second.slice(0, 86));
+  });
+
+  it("accepts the largest payload that fits in one record", async () => {
+    const subscriber = await createSubscriber();
+    const plaintext = new Uint8Array(MAX_PUSH_PAYLOAD_BYTES).fill(120);
+    const body = await encryptWebPushPayload(plaintext, subscriber.publicKey, subscriber.authSecret);
+    expect(body.length).toBe(4096);
+    await expect(
+      encryptWebPushPayload(new Uint8Array(MAX_PUSH_PAYLOAD_BYTES + 1), subscriber.publicKey, subscriber.authSecret),
+    ).rejects.toThrow("Push payload is too large");
+  });
+
+  it("rejects malformed subscription keys", async () => {
+    const subscriber = await createSubscriber();
+    const plaintext = encoder.encode("hi");
+    await expect(encryptWebPushPayload(plaintext, subscriber.publicKey.slice(1), subscriber.authSecret)).rejects.toThrow(
+      "not an uncompressed P-256 point",
+    );
+    await expect(encryptWebPushPayload(plaintext, subscriber.publicKey, new Uint8Array(8))).rejects.toThrow(
+      "auth secret must be 16 bytes",
+    );
+  });
+});
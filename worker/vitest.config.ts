@@ -0,0 +1,16 @@
+import { readFile } from "node:fs/promises";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [
+    {
+      // Wrangler bundles the migration files as text modules (see the [[rules]] entry in wrangler.toml).
+      name: "sql-text",
+      enforce: "pre",
+      async load(id) {
+        if (!id.endsWith(".sql")) return null;
+        return `export default ${JSON.stringify(await readFile(id, "utf8"))};`;
+      },
+    },
+  ],
+});